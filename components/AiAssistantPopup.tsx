@@ -1,5 +1,7 @@
 import React, { useEffect, useRef } from 'react';
-import { LoadingIcon, XIcon } from './icons';
+import { AiValidationReport, TimeSlot } from '../types';
+import { TIME_SLOTS } from '../constants';
+import { LoadingIcon, WarningIcon, XIcon } from './icons';
 
 interface AiAssistantPopupProps {
   isOpen: boolean;
@@ -7,16 +9,20 @@ interface AiAssistantPopupProps {
   thoughts: string[];
   isThinking: boolean;
   title: string;
+  report?: AiValidationReport | null;
+  onRepair?: () => void;
+  slots?: TimeSlot[]; // The day's slots, for labelling proposals
 }
 
-const AiAssistantPopup: React.FC<AiAssistantPopupProps> = ({ isOpen, onClose, thoughts, isThinking, title }) => {
+const AiAssistantPopup: React.FC<AiAssistantPopupProps> = ({ isOpen, onClose, thoughts, isThinking, title, report, onRepair, slots = TIME_SLOTS }) => {
+  const slotLabel = (slotId: string) => slots.find(s => s.id === slotId)?.label || slotId;
   const contentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (contentRef.current) {
         contentRef.current.scrollTop = contentRef.current.scrollHeight;
     }
-  }, [thoughts]);
+  }, [thoughts, report]);
 
   if (!isOpen) return null;
 
@@ -40,6 +46,41 @@ const AiAssistantPopup: React.FC<AiAssistantPopupProps> = ({ isOpen, onClose, th
             <li className="text-xs text-gray-500 animate-pulse">Waiting for AI to start thinking...</li>
           )}
         </ul>
+
+        {report && !isThinking && (
+          <div className="mt-3 pt-3 border-t border-gray-100 text-xs">
+            <p className="font-semibold text-gray-800">
+              {report.acceptedCount} accepted · {report.rejected.length} rejected by the rule check
+            </p>
+            {report.rejected.length > 0 && (
+              <>
+                <ul className="mt-2 space-y-1.5">
+                  {report.rejected.map((r, index) => (
+                    <li key={`${r.proposal.jobId}-${index}`} className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-900">
+                      <p className="font-medium flex items-center gap-1">
+                        <WarningIcon className="h-3 w-3 flex-shrink-0" />
+                        {r.jobLabel} → {r.repName} · {slotLabel(r.proposal.slotId)}
+                      </p>
+                      <p className="mt-0.5">{r.violation}</p>
+                      {r.proposal.reason && <p className="mt-0.5 text-amber-700 italic">AI: "{r.proposal.reason}"</p>}
+                    </li>
+                  ))}
+                </ul>
+                {report.repairedCount === null ? (
+                  onRepair && (
+                    <button onClick={onRepair} className="mt-2 w-full px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md">
+                      Let the engine place {report.rejected.length} rejected job{report.rejected.length === 1 ? '' : 's'}
+                    </button>
+                  )
+                ) : (
+                  <p className="mt-2 text-gray-600">
+                    Engine placed {report.repairedCount} of {report.rejected.length}; the rest stay in Unassigned.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { AssignmentSummary } from '../services/assignmentOptimizer';
+import { SchedulerResult } from '../services/scheduler';
+import { AutoAssignIcon } from './icons';
+
+const SUMMARY_ROWS: { key: keyof AssignmentSummary; label: string; higherIsBetter: boolean; digits: number }[] = [
+    { key: 'assignedCount', label: 'Jobs assigned', higherIsBetter: true, digits: 0 },
+    { key: 'unassignedCount', label: 'Left unassigned', higherIsBetter: false, digits: 0 },
+    { key: 'totalScore', label: 'Total score', higherIsBetter: true, digits: 0 },
+    { key: 'averageScore', label: 'Average score', higherIsBetter: true, digits: 1 },
+    { key: 'repsBelowMinTarget', label: 'Reps below min target', higherIsBetter: false, digits: 0 },
+];
+
+const jobsPerRep = (result: SchedulerResult) => {
+    const counts = new Map<string, number>();
+    result.assignments.forEach(a => counts.set(a.repId, (counts.get(a.repId) || 0) + 1));
+    return counts;
+};
+
+const AssignmentComparisonModal: React.FC = () => {
+    const { assignmentComparison, handleApplyAssignmentResult, handleDiscardAssignmentComparison } = useAppContext();
+
+    const repRows = useMemo(() => {
+        if (!assignmentComparison) return [];
+        const greedy = jobsPerRep(assignmentComparison.greedy);
+        const optimized = jobsPerRep(assignmentComparison.optimized);
+        return assignmentComparison.baseState.reps
+            .filter(rep => greedy.has(rep.id) || optimized.has(rep.id))
+            .map(rep => ({ rep, greedy: greedy.get(rep.id), optimized: optimized.get(rep.id) }));
+    }, [assignmentComparison]);
+
+    if (!assignmentComparison) return null;
+
+    const { greedySummary, optimizedSummary, optimized } = assignmentComparison;
+    const { elapsedMs, improvementMoves, timedOut } = optimized.runInfo;
+
+    const cellClass = (value: number, other: number, higherIsBetter: boolean) => {
+        if (value === other) return 'text-gray-800';
+        return (value > other) === higherIsBetter ? 'text-green-700 font-bold' : 'text-gray-500';
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-[60]" onClick={handleDiscardAssignmentComparison}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-5 py-4 border-b flex items-center gap-3 bg-indigo-50 rounded-t-xl">
+                    <div className="p-2 bg-indigo-100 text-indigo-700 rounded-lg border border-indigo-200 shadow-sm">
+                        <AutoAssignIcon className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Optimize Day: Greedy vs. Optimized</h2>
+                        <p className="text-xs text-gray-600">
+                            Searched {(elapsedMs / 1000).toFixed(1)}s · {improvementMoves} improving moves{timedOut ? ' · stopped at the time budget' : ''}
+                        </p>
+                    </div>
+                </header>
+
+                <div className="p-5 space-y-5 overflow-y-auto custom-scrollbar text-sm">
+                    <table className="w-full">
+                        <thead className="text-xs text-gray-500 border-b">
+                            <tr>
+                                <th className="text-left py-1.5"></th>
+                                <th className="text-right py-1.5 w-28">Greedy</th>
+                                <th className="text-right py-1.5 w-28">Optimized</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {SUMMARY_ROWS.map(({ key, label, higherIsBetter, digits }) => (
+                                <tr key={key}>
+                                    <td className="py-1.5 text-gray-600">{label}</td>
+                                    <td className={`py-1.5 text-right ${cellClass(greedySummary[key], optimizedSummary[key], higherIsBetter)}`}>{greedySummary[key].toFixed(digits)}</td>
+                                    <td className={`py-1.5 text-right ${cellClass(optimizedSummary[key], greedySummary[key], higherIsBetter)}`}>{optimizedSummary[key].toFixed(digits)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">New Jobs per Rep</h3>
+                        <table className="w-full text-xs">
+                            <thead className="text-gray-500 border-b">
+                                <tr>
+                                    <th className="text-left py-1">Rep</th>
+                                    <th className="text-right py-1 w-28">Greedy</th>
+                                    <th className="text-right py-1 w-28">Optimized</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {repRows.map(({ rep, greedy, optimized: opt }) => (
+                                    <tr key={rep.id} className={greedy !== opt ? 'bg-indigo-50/50' : ''}>
+                                        <td className="py-1 font-medium text-gray-800">{rep.name}</td>
+                                        <td className="py-1 text-right text-gray-600">{greedy ?? '—'}</td>
+                                        <td className="py-1 text-right text-gray-600">{opt ?? '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-[11px] text-gray-500 mt-2">Scores above are recomputed for both results against their final schedules.</p>
+                    </div>
+                </div>
+
+                <footer className="px-5 py-3 bg-gray-50 border-t flex justify-end space-x-2 rounded-b-xl">
+                    <button onClick={handleDiscardAssignmentComparison} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Cancel</button>
+                    <button onClick={() => handleApplyAssignmentResult('greedy')} className="px-3 py-1.5 text-sm font-semibold text-indigo-700 bg-white border border-indigo-200 hover:bg-indigo-50 rounded-md">
+                        Apply Greedy
+                    </button>
+                    <button onClick={() => handleApplyAssignmentResult('optimized')} className="px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm">
+                        Apply Optimized
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default AssignmentComparisonModal;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { AutosaveSnapshotSummary } from '../services/workspaceStorage';
+import { XIcon, ClockIcon, LoadingIcon } from './icons';
+
+interface AutosavesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const AutosavesModal: React.FC<AutosavesModalProps> = ({ isOpen, onClose }) => {
+    const { listAutosaveSnapshots, handleOpenAutosave } = useAppContext();
+    const [snapshots, setSnapshots] = useState<AutosaveSnapshotSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setIsLoading(true);
+        setError(null);
+        listAutosaveSnapshots()
+            .then(setSnapshots)
+            .catch(err => setError(err instanceof Error ? err.message : 'Could not read autosaves.'))
+            .finally(() => setIsLoading(false));
+    }, [isOpen, listAutosaveSnapshots]);
+
+    if (!isOpen) return null;
+
+    const handleOpen = async (id: number) => {
+        if (!window.confirm('Open this autosave? Your current workspace will be replaced (it is also autosaved).')) return;
+        await handleOpenAutosave(id);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg flex flex-col max-h-[80vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-5 py-3 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2"><ClockIcon className="h-5 w-5 text-indigo-500" /> Autosaves</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-5 w-5" /></button>
+                </header>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar">
+                    {isLoading && <div className="flex justify-center py-6"><LoadingIcon /></div>}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    {!isLoading && !error && snapshots.length === 0 && (
+                        <p className="text-sm text-gray-500 text-center py-6">No autosaves yet. A snapshot is taken every few minutes while you work.</p>
+                    )}
+                    <ul className="divide-y divide-gray-100">
+                        {snapshots.map(snapshot => (
+                            <li key={snapshot.id} className="py-2 flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-gray-800">{new Date(snapshot.savedAt).toLocaleString()}</p>
+                                    <p className="text-xs text-gray-500 truncate">{snapshot.jobCount} jobs · {snapshot.dayKeys.join(', ')}</p>
+                                </div>
+                                <button onClick={() => handleOpen(snapshot.id)} className="px-3 py-1 text-xs font-bold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-md flex-shrink-0">
+                                    Open
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AutosavesModal;
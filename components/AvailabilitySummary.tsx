@@ -1,7 +1,6 @@
 
 import React, { useMemo, useRef, useState } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { TIME_SLOTS } from '../constants';
 import { ClipboardIcon, XIcon, ClockIcon, MapPinIcon } from './icons';
 
 interface CitySection {
@@ -57,6 +56,7 @@ interface AvailabilitySummaryModalProps {
 
 const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isOpen, onClose }) => {
     const { appState, selectedDate } = useAppContext();
+    const timeSlots = appState.settings.timeSlots;
     const selectedDayString = selectedDate.toLocaleString('en-us', { weekday: 'long' });
     const [copySuccess, setCopySuccess] = useState(false);
     const summaryRef = useRef<HTMLDivElement>(null);
@@ -140,7 +140,7 @@ const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isO
     const repsByTimeSlot = useMemo(() => {
         const data: Record<string, { name: string, activeCities: string[], isFree: boolean, region: string }[]> = {};
         
-        TIME_SLOTS.forEach(slot => {
+        timeSlots.forEach(slot => {
             data[slot.label] = [];
         });
 
@@ -178,7 +178,7 @@ const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isO
         });
 
         return data;
-    }, [appState.reps, selectedDayString]);
+    }, [appState.reps, selectedDayString, timeSlots]);
 
 
     const handleCopy = () => {
@@ -200,7 +200,7 @@ const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isO
                     
                     hasDataInSection = true;
                     sectionText += `${city}\n`;
-                    TIME_SLOTS.forEach(ts => {
+                    timeSlots.forEach(ts => {
                         const reps = slots[ts.label];
                         if (reps && reps.length > 0) {
                             sectionText += `  ${ts.label}: ${reps.join(', ')}\n`;
@@ -215,7 +215,7 @@ const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isO
             });
         } else {
             // Copy logic for By Time Slot
-            TIME_SLOTS.forEach(slot => {
+            timeSlots.forEach(slot => {
                 const reps = repsByTimeSlot[slot.label];
                 if (reps && reps.length > 0) {
                     text += `=== ${slot.label} ===\n`;
@@ -285,7 +285,7 @@ const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isO
                         
                         {viewMode === 'by-time' && (
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                                {TIME_SLOTS.map(slot => {
+                                {timeSlots.map(slot => {
                                     const availableReps = repsByTimeSlot[slot.label];
                                     if (!availableReps || availableReps.length === 0) {
                                         return (
@@ -355,7 +355,7 @@ const AvailabilitySummaryModal: React.FC<AvailabilitySummaryModalProps> = ({ isO
                                                         <div key={city} className="border rounded-md p-3 hover:shadow-md transition-shadow bg-white">
                                                             <h4 className="font-bold text-gray-800 border-b pb-1 mb-2">{city}</h4>
                                                             <div className="space-y-2">
-                                                                {TIME_SLOTS.map(slot => {
+                                                                {timeSlots.map(slot => {
                                                                     const reps = slots[slot.label];
                                                                     if (!reps || reps.length === 0) return null;
                                                                     return (
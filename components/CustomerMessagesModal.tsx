@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { MessageTemplateId, MessageTemplates } from '../types';
+import { DEFAULT_MESSAGE_TEMPLATES, MESSAGE_PLACEHOLDERS, MESSAGE_TEMPLATE_NAMES } from '../constants';
+import { buildCustomerMessages, findUnknownPlaceholders, messagesToCsv } from '../services/messageTemplates';
+import { XIcon, MessageIcon, ClipboardIcon, WarningIcon } from './icons';
+
+interface CustomerMessagesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+type MessagesTab = 'confirmation' | 'reschedule' | 'templates';
+
+const TAB_LABELS: Record<MessagesTab, string> = {
+    confirmation: 'Confirmations',
+    reschedule: 'Reschedules',
+    templates: 'Templates',
+};
+
+const TEMPLATE_IDS = Object.keys(MESSAGE_TEMPLATE_NAMES) as MessageTemplateId[];
+
+const CustomerMessagesModal: React.FC<CustomerMessagesModalProps> = ({ isOpen, onClose }) => {
+    const { appState, selectedDate, messageTemplates, updateMessageTemplates } = useAppContext();
+    const [activeTab, setActiveTab] = useState<MessagesTab>('confirmation');
+    const [localTemplates, setLocalTemplates] = useState<MessageTemplates>(messageTemplates);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLocalTemplates(messageTemplates);
+    }, [messageTemplates, isOpen]);
+
+    const messages = useMemo(() => {
+        if (activeTab === 'templates') return [];
+        const kind = activeTab === 'reschedule' ? 'reschedule' : 'all';
+        return buildCustomerMessages(appState, messageTemplates[activeTab], selectedDate, kind);
+    }, [appState, selectedDate, messageTemplates, activeTab]);
+
+    if (!isOpen) return null;
+
+    const missingPhoneCount = messages.filter(m => !m.phone).length;
+    const isDirty = JSON.stringify(localTemplates) !== JSON.stringify(messageTemplates);
+
+    const copy = (text: string, id: string) => {
+        navigator.clipboard.writeText(text).then(() => {
+            setCopiedId(id);
+            setTimeout(() => setCopiedId(null), 2000);
+        });
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([messagesToCsv(messages)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const dateKey = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+        link.href = url;
+        link.download = `customer-${activeTab}-messages-${dateKey}.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const renderMessages = () => {
+        if (messages.length === 0) {
+            return (
+                <p className="text-sm text-gray-500 text-center py-10">
+                    {activeTab === 'reschedule' ? 'No booked jobs are outside their requested window.' : 'No booked jobs for this day yet.'}
+                </p>
+            );
+        }
+        return (
+            <div className="space-y-3">
+                {missingPhoneCount > 0 && (
+                    <p className="p-2 bg-amber-50 border border-amber-200 rounded-md text-xs text-amber-800 flex items-center gap-1.5">
+                        <WarningIcon className="h-3.5 w-3.5 flex-shrink-0" />
+                        {missingPhoneCount} of {messages.length} {messages.length === 1 ? 'job has' : 'jobs have'} no phone number. Add one from the job's edit form.
+                    </p>
+                )}
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {messages.map(m => (
+                        <li key={m.jobId} className="px-3 py-2 text-sm">
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="font-semibold text-gray-800 truncate">
+                                    {m.customer || <span className="italic text-gray-400">No name</span>}
+                                    <span className="font-normal text-gray-500"> · {m.phone || 'no phone'} · {m.newWindow}</span>
+                                </span>
+                                <button onClick={() => copy(m.message, m.jobId)} className="flex-shrink-0 flex items-center gap-1 px-2 py-0.5 text-xs font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded">
+                                    <ClipboardIcon className="h-3 w-3" />
+                                    {copiedId === m.jobId ? 'Copied!' : 'Copy'}
+                                </button>
+                            </div>
+                            <p className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">{m.message}</p>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        );
+    };
+
+    const renderTemplates = () => (
+        <div className="space-y-4 text-sm">
+            <p className="text-xs text-gray-500">
+                Placeholders:{' '}
+                {MESSAGE_PLACEHOLDERS.map(name => (
+                    <code key={name} className="mx-0.5 px-1.5 py-0.5 bg-gray-100 border border-gray-200 rounded text-[11px] text-gray-700">{`{${name}}`}</code>
+                ))}
+            </p>
+            {TEMPLATE_IDS.map(id => {
+                const unknown = findUnknownPlaceholders(localTemplates[id]);
+                return (
+                    <label key={id} className="block">
+                        <span className="block text-xs font-semibold text-gray-600 mb-1">{MESSAGE_TEMPLATE_NAMES[id]}</span>
+                        <textarea
+                            rows={id === 'reschedule' ? 5 : 3}
+                            value={localTemplates[id]}
+                            onChange={e => setLocalTemplates(prev => ({ ...prev, [id]: e.target.value }))}
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        />
+                        {unknown.length > 0 && (
+                            <span className="flex items-center gap-1 text-[11px] text-amber-700">
+                                <WarningIcon className="h-3 w-3" /> Not a placeholder, will be sent as typed: {unknown.map(name => `{${name}}`).join(', ')}
+                            </span>
+                        )}
+                    </label>
+                );
+            })}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><MessageIcon className="h-5 w-5 text-indigo-500" /> Customer Messages</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-6 w-6" /></button>
+                </header>
+
+                <div className="flex border-b px-6">
+                    {(Object.keys(TAB_LABELS) as MessagesTab[]).map(tab => (
+                        <button
+                            key={tab}
+                            onClick={() => setActiveTab(tab)}
+                            className={`px-3 py-2 text-sm font-semibold border-b-2 -mb-px ${activeTab === tab ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                        >
+                            {TAB_LABELS[tab]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-6 overflow-y-auto custom-scrollbar">
+                    {activeTab === 'templates' ? renderTemplates() : renderMessages()}
+                </div>
+
+                <footer className="px-6 py-3 bg-gray-50 border-t flex justify-between rounded-b-xl">
+                    {activeTab === 'templates' ? (
+                        <>
+                            <button onClick={() => setLocalTemplates(DEFAULT_MESSAGE_TEMPLATES)} className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Reset to Defaults</button>
+                            <button onClick={() => updateMessageTemplates(localTemplates)} disabled={!isDirty} className="px-4 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm disabled:bg-gray-300">Save Templates</button>
+                        </>
+                    ) : (
+                        <>
+                            <span className="self-center text-xs text-gray-500">{messages.length} {messages.length === 1 ? 'message' : 'messages'}</span>
+                            <div className="flex gap-2">
+                                <button onClick={() => copy(messages.map(m => m.message).join('\n\n'), 'all')} disabled={messages.length === 0} className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded-md disabled:opacity-50">
+                                    {copiedId === 'all' ? 'Copied!' : 'Copy All'}
+                                </button>
+                                <button onClick={handleDownload} disabled={messages.length === 0} className="px-4 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm disabled:bg-gray-300">Download CSV</button>
+                            </div>
+                        </>
+                    )}
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default CustomerMessagesModal;
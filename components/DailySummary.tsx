@@ -1,50 +1,27 @@
 import React, { useMemo, useRef, useState } from 'react';
 import { DisplayJob, Job } from '../types';
-import { TAG_KEYWORDS } from '../constants';
 import { ClipboardIcon } from './icons';
 import { useAppContext } from '../context/AppContext';
+import { getJobAttributes, getJobTags, getDisplayNotes } from '../services/jobAttributes';
+import { getJobStatus, JOB_STATUSES, JOB_STATUS_LABELS } from '../services/jobStatus';
 import { GREATER_PHOENIX_CITIES, NORTHERN_AZ_CITIES, SOUTHERN_AZ_CITIES, SOUTH_OUTER_RING_CITIES } from '../services/geography';
 
 // Helper to extract job type and clean up notes for display
 const getJobDisplayDetails = (job: Job | DisplayJob) => {
-    const notesLower = job.notes.toLowerCase();
-    const foundTags = TAG_KEYWORDS.filter(keyword => {
-        const regex = new RegExp(`\\b${keyword.toLowerCase()}\\b`);
-        return regex.test(notesLower);
-    });
+    const attributes = getJobAttributes(job);
+    const foundTags = getJobTags(attributes);
 
     const jobType = foundTags.length > 0 ? foundTags.join('/') : 'Inspection';
     
-    const isGoldJob = job.notes.includes('#');
-    const priorityReasonMatch = job.notes.match(/#\s*\(([^)]+)\)/);
-    const priorityReason = priorityReasonMatch ? `(${priorityReasonMatch[1]})` : '';
-
-    const ageMatch = job.notes.match(/\b(\d+\s*yrs)\b/i);
-    const roofAge = ageMatch ? ageMatch[0] : null;
-
-    const sqftMatch = job.notes.match(/\b(\d+)\s*sq\.?\b/i);
-    const sqft = sqftMatch ? `${sqftMatch[1]}sqft` : null;
-
-    const storiesMatch = job.notes.match(/\b(\d)S\b/i);
-    const stories = storiesMatch ? `${storiesMatch[1]} Story` : null;
-
-
-    // Extract reschedule info
-    const rescheduleRegex = /\(Recommended Reschedule from ([^)]+)\)/i;
-    const rescheduleMatch = job.notes.match(rescheduleRegex);
-    const rescheduleInfo = rescheduleMatch ? rescheduleMatch[1] : null;
-
-    // Remove tags and boilerplate text to get clean, human-readable notes
-    let cleanNotes = job.notes;
-    foundTags.forEach(tag => {
-        cleanNotes = cleanNotes.replace(new RegExp(`\\b${tag}\\b`, 'ig'), '').trim();
-    });
-    cleanNotes = cleanNotes
-        .replace(/\(Recommended Reschedule from [^)]+\)/gi, '')
-        .replace(/\(Scheduled: [^)]+\)/gi, '')
-        .replace(/\(\s*\)/g, '') // remove empty parentheses
-        .replace(/^[-,.\s]+|[-,.\s]+$/g, '') // trim lingering separators
-        .trim();
+    const isGoldJob = attributes.isPriority;
+    const priorityReason = attributes.priorityReason ? `(${attributes.priorityReason})` : '';
+
+    const roofAge = attributes.roofAgeYears !== undefined ? `${attributes.roofAgeYears} yrs` : null;
+    const sqft = attributes.sqft !== undefined ? `${attributes.sqft}sqft` : null;
+    const stories = attributes.stories !== undefined ? `${attributes.stories} Story` : null;
+    const rescheduleInfo = attributes.rescheduleFrom || null;
+
+    const cleanNotes = getDisplayNotes(job.notes);
 
     return { jobType, cleanNotes, rescheduleInfo, isGoldJob, priorityReason, roofAge, sqft, stories };
 };
@@ -192,6 +169,14 @@ const DailySummaryModal: React.FC<DailySummaryModalProps> = ({ isOpen, onClose }
         return { overviewData: data, stats: currentStats };
     }, [appState.reps]);
 
+    // 3. Status counts across the whole day, assigned or not
+    const statusCounts = useMemo(() => {
+        const allDayJobs: Job[] = [...appState.reps.flatMap(rep => rep.schedule.flatMap(slot => slot.jobs)), ...appState.unassignedJobs];
+        return JOB_STATUSES
+            .map(status => ({ status, count: allDayJobs.filter(job => getJobStatus(job) === status).length }))
+            .filter(({ count }) => count > 0);
+    }, [appState.reps, appState.unassignedJobs]);
+
 
     const handleCopy = () => {
         if (summaryRef.current) {
@@ -252,6 +237,9 @@ const DailySummaryModal: React.FC<DailySummaryModalProps> = ({ isOpen, onClose }
                                     <p>Outer Cities: {stats.outer}</p>
                                     <p>Tucson: {stats.tucson}</p>
                                     <p>Northern: {stats.northern}</p>
+                                    {statusCounts.length > 0 && (
+                                        <p className="mt-2">{statusCounts.map(({ status, count }) => `${JOB_STATUS_LABELS[status]}: ${count}`).join(' · ')}</p>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -307,6 +295,7 @@ const DailySummaryModal: React.FC<DailySummaryModalProps> = ({ isOpen, onClose }
                                                             {' '}(<strong className="text-gray-900 font-bold">{tags}</strong>)
                                                             {isGoldJob && <span className="text-yellow-600 font-bold ml-1"># {priorityReason}</span>}
                                                             {rescheduleInfo && <span className="text-blue-600 italic ml-1">(Rescheduled from {rescheduleInfo})</span>}
+                                                            {getJobStatus(job) !== 'tentative' && <span className="text-gray-600 ml-1">[{JOB_STATUS_LABELS[getJobStatus(job)]}]</span>}
                                                             {' '}→ {job.assignedRepName}
                                                         </li>
                                                     );
@@ -72,9 +72,14 @@ const CalendarPicker: React.FC<{ onSelect: (date: Date) => void }> = ({ onSelect
 };
 
 
-const DayTabs: React.FC = () => {
-    const { activeDayKeys, selectedDate, setSelectedDate, addActiveDay, removeActiveDay } = useAppContext();
+interface DayTabsProps {
+    onOpenWeekBoard?: () => void;
+}
+
+const DayTabs: React.FC<DayTabsProps> = ({ onOpenWeekBoard }) => {
+    const { activeDayKeys, selectedDate, setSelectedDate, addActiveDay, removeActiveDay, handleMoveJobToDay, weekOverview } = useAppContext();
     const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+    const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
     const calendarRef = useRef<HTMLDivElement>(null);
 
     const handleSelectDay = (date: Date) => {
@@ -104,12 +109,23 @@ const DayTabs: React.FC = () => {
                 
                 const dayName = date.toLocaleDateString('en-US', { weekday: 'short' });
                 const dayOfMonth = date.getDate();
+                // Jobs dragged from the open day can be dropped on another loaded day's tab.
+                const canDropHere = !isSelected && !!weekOverview.find(day => day.dateKey === dateKey)?.isLoaded;
                 
                 return (
                     <div
                         key={dateKey}
                         onClick={() => setSelectedDate(date)}
-                        className={`relative flex items-center space-x-2 px-3 py-1.5 rounded-md cursor-pointer transition-colors group ${isSelected ? 'bg-indigo-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                        onDragOver={e => { if (canDropHere) { e.preventDefault(); setDropTargetKey(dateKey); } }}
+                        onDragLeave={() => setDropTargetKey(null)}
+                        onDrop={e => {
+                            e.preventDefault();
+                            setDropTargetKey(null);
+                            const jobId = e.dataTransfer.getData('jobId');
+                            if (jobId && canDropHere) handleMoveJobToDay(jobId, selectedKey, dateKey);
+                        }}
+                        title={canDropHere ? 'Drop a job here to move it to this day' : undefined}
+                        className={`relative flex items-center space-x-2 px-3 py-1.5 rounded-md cursor-pointer transition-colors group ${isSelected ? 'bg-indigo-600 text-white' : 'bg-gray-100 hover:bg-gray-200'} ${dropTargetKey === dateKey ? 'ring-2 ring-indigo-400' : ''}`}
                     >
                         <span className="font-semibold text-sm">{dayName} {dayOfMonth}</span>
                         {activeDayKeys.length > 1 && (
@@ -126,6 +142,15 @@ const DayTabs: React.FC = () => {
                     </div>
                 );
             })}
+            {onOpenWeekBoard && activeDayKeys.length > 1 && (
+                <button
+                    onClick={onOpenWeekBoard}
+                    className="px-3 py-1.5 text-sm font-semibold bg-indigo-50 text-indigo-700 rounded-md hover:bg-indigo-100 transition"
+                    title="See every day side by side and move jobs between them"
+                >
+                    Week
+                </button>
+            )}
             <div className="relative" ref={calendarRef}>
                 <button
                     onClick={() => setIsCalendarOpen(prev => !prev)}
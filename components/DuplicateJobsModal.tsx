@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { DuplicateGroup, JobLocation, describeJobLocation, pickMergeKeeper } from '../services/duplicateJobs';
+import { getCustomerName } from '../services/customerContact';
+import { getDisplayNotes } from '../services/jobAttributes';
+import { getJobStatus, JOB_STATUS_LABELS } from '../services/jobStatus';
+import { XIcon, WarningIcon } from './icons';
+
+interface DuplicateJobsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    focusGroupId?: string | null; // Show just this group, e.g. when opened from a job card
+}
+
+const locationKey = (location: JobLocation) => `${location.dateKey}:${location.job.id}`;
+
+const DuplicateJobsModal: React.FC<DuplicateJobsModalProps> = ({ isOpen, onClose, focusGroupId }) => {
+    const { duplicateGroups, handleMergeDuplicates } = useAppContext();
+    // The chosen keeper per group; groups not in here use pickMergeKeeper.
+    const [keepers, setKeepers] = useState<Record<string, string>>({});
+    const [showAll, setShowAll] = useState(false);
+
+    if (!isOpen) return null;
+
+    const handleClose = () => {
+        setShowAll(false);
+        onClose();
+    };
+
+    const focused = focusGroupId && !showAll ? duplicateGroups.filter(group => group.id === focusGroupId) : [];
+    const groups = focused.length > 0 ? focused : duplicateGroups;
+
+    const keeperFor = (group: DuplicateGroup) =>
+        group.locations.find(location => locationKey(location) === keepers[group.id]) || pickMergeKeeper(group);
+
+    const handleMerge = (group: DuplicateGroup) => {
+        const keeper = keeperFor(group);
+        handleMergeDuplicates(group.id, keeper.dateKey, keeper.job.id);
+        if (focused.length > 0) handleClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={handleClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><WarningIcon className="h-5 w-5 text-amber-500" /> Possible Duplicates</h2>
+                        <p className="text-xs text-gray-500">Matched by street address and zip, or by house number and map position, across every loaded day.</p>
+                    </div>
+                    <button onClick={handleClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-6 w-6" /></button>
+                </header>
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                    {groups.length === 0 && <p className="text-sm text-gray-500 text-center py-8">No possible duplicates in the loaded days.</p>}
+                    {groups.map(group => {
+                        const keeper = keeperFor(group);
+                        return (
+                            <div key={group.id} className="border border-gray-200 rounded-lg">
+                                <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex justify-between items-center rounded-t-lg">
+                                    <p className="text-xs font-semibold text-gray-700">{group.locations.length} copies · {group.reason}</p>
+                                    <button onClick={() => handleMerge(group)} className="px-3 py-1 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm">
+                                        Merge into selected
+                                    </button>
+                                </div>
+                                <div className="divide-y divide-gray-100">
+                                    {group.locations.map(location => {
+                                        const { job } = location;
+                                        const notes = getDisplayNotes(job.notes);
+                                        return (
+                                            <label key={locationKey(location)} className={`flex gap-3 px-3 py-2 cursor-pointer ${locationKey(location) === locationKey(keeper) ? 'bg-indigo-50/60' : 'hover:bg-gray-50'}`}>
+                                                <input
+                                                    type="radio"
+                                                    name={`keep-${group.id}`}
+                                                    checked={locationKey(location) === locationKey(keeper)}
+                                                    onChange={() => setKeepers(prev => ({ ...prev, [group.id]: locationKey(location) }))}
+                                                    className="mt-1 text-indigo-600"
+                                                />
+                                                <div className="min-w-0 flex-1 text-xs">
+                                                    <div className="flex justify-between gap-2">
+                                                        <span className="font-semibold text-gray-800 truncate">{getCustomerName(job) || job.address}</span>
+                                                        <span className="text-gray-500 whitespace-nowrap">{describeJobLocation(location)}</span>
+                                                    </div>
+                                                    <p className="text-gray-600 truncate">{job.address}{job.city && `, ${job.city}`}{job.zipCode && ` ${job.zipCode}`}</p>
+                                                    <p className="text-gray-500 truncate">
+                                                        {JOB_STATUS_LABELS[getJobStatus(job)]}{job.originalTimeframe && ` · Requested ${job.originalTimeframe}`}{job.phone && ` · ${job.phone}`}
+                                                    </p>
+                                                    {notes && <p className="text-gray-500 italic truncate" title={notes}>{notes}</p>}
+                                                </div>
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <footer className="px-6 py-3 bg-gray-50 border-t flex justify-between items-center rounded-b-xl">
+                    <p className="text-[11px] text-gray-500">The selected copy keeps its day, rep and status, and takes the most detailed notes and any missing contact details. The others are removed. Undo reverts the merge.</p>
+                    {focused.length > 0 && duplicateGroups.length > 1 && (
+                        <button onClick={() => setShowAll(true)} className="ml-3 text-xs font-semibold text-indigo-600 hover:underline whitespace-nowrap">Show all {duplicateGroups.length}</button>
+                    )}
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateJobsModal;
@@ -1,7 +1,8 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Job } from '../types';
-import { TAG_KEYWORDS } from '../constants';
+import { Job, JobStatus } from '../types';
+import { getJobAttributes, getJobTags } from '../services/jobAttributes';
+import { getJobStatus, JOB_STATUSES, JOB_STATUS_LABELS } from '../services/jobStatus';
 import { MapPinIcon, RoofIcon, StoriesIcon, SizeIcon, XIcon, TagIcon, StarIcon, ClockIcon } from './icons';
 import { EAST_TO_WEST_CITIES } from '../services/geography';
 
@@ -50,7 +51,8 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
         sizes: Set<string>;
         priority: boolean;
         ages: Set<string>;
-    }>({ roofTypes: new Set(), stories: new Set(), sizes: new Set(), priority: false, ages: new Set() });
+        statuses: Set<JobStatus>;
+    }>({ roofTypes: new Set(), stories: new Set(), sizes: new Set(), priority: false, ages: new Set(), statuses: new Set() });
 
     // Memoize available cities, tags, and time slots
     const availableCities = useMemo(() => {
@@ -77,6 +79,7 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
         const stories = new Set<string>();
         const sizeBuckets = new Set<string>();
         const ageBuckets = new Set<string>();
+        const statuses = new Set<JobStatus>();
 
         const sizeToBucket = (sqft: number) => {
             if (sqft < 1500) return '< 1500 sqft';
@@ -92,18 +95,12 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
         };
 
         unassignedJobs.forEach(job => {
-            const notesLower = job.notes.toLowerCase();
-            TAG_KEYWORDS.forEach(keyword => {
-                if (new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower)) {
-                    roofTypes.add(keyword);
-                }
-            });
-            const storiesMatch = job.notes.match(/\b(\d)S\b/i);
-            if (storiesMatch) stories.add(storiesMatch[1]);
-            const sqftMatch = job.notes.match(/\b(\d+)\s*sq/i);
-            if (sqftMatch) sizeBuckets.add(sizeToBucket(parseInt(sqftMatch[1], 10)));
-            const ageMatch = job.notes.match(/\b(\d+)\s*yrs\b/i);
-            if (ageMatch) ageBuckets.add(ageToBucket(parseInt(ageMatch[1], 10)));
+            const attributes = getJobAttributes(job);
+            getJobTags(attributes).forEach(tag => roofTypes.add(tag));
+            if (attributes.stories !== undefined) stories.add(String(attributes.stories));
+            if (attributes.sqft !== undefined) sizeBuckets.add(sizeToBucket(attributes.sqft));
+            if (attributes.roofAgeYears !== undefined) ageBuckets.add(ageToBucket(attributes.roofAgeYears));
+            statuses.add(getJobStatus(job));
         });
 
         return {
@@ -113,6 +110,7 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
             ages: ['0-5 yrs', '6-10 yrs', '11-15 yrs', '16-20 yrs', '> 20 yrs'].filter(
                 bucket => ageBuckets.has(bucket)
             ),
+            statuses: JOB_STATUSES.filter(status => statuses.has(status)),
         };
     }, [unassignedJobs]);
     
@@ -151,23 +149,31 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
                 return cityFilters.has(jobCity);
             });
         } else if (activeTab === 'tags') {
-            const { roofTypes, stories, sizes, priority, ages } = tagFilters;
+            const { roofTypes, stories, sizes, priority, ages, statuses } = tagFilters;
 
             if (priority) {
-                filtered = filtered.filter(job => job.notes.includes('#'));
+                filtered = filtered.filter(job => getJobAttributes(job).isPriority);
+            }
+            if (statuses.size > 0) {
+                filtered = filtered.filter(job => statuses.has(getJobStatus(job)));
             }
 
             if (roofTypes.size > 0) {
-                filtered = filtered.filter(job => Array.from(roofTypes).some(type => new RegExp(`\\b${type}\\b`, 'i').test(job.notes)));
+                filtered = filtered.filter(job => {
+                    const tags: string[] = getJobTags(getJobAttributes(job));
+                    return Array.from(roofTypes).some(type => tags.includes(type));
+                });
             }
             if (stories.size > 0) {
-                filtered = filtered.filter(job => Array.from(stories).some(story => new RegExp(`\\b${story}S\\b`, 'i').test(job.notes)));
+                filtered = filtered.filter(job => {
+                    const jobStories = getJobAttributes(job).stories;
+                    return jobStories !== undefined && stories.has(String(jobStories));
+                });
             }
             if (sizes.size > 0) {
                 filtered = filtered.filter(job => {
-                    const sqftMatch = job.notes.match(/\b(\d+)\s*sq/i);
-                    if (!sqftMatch) return false;
-                    const sqft = parseInt(sqftMatch[1], 10);
+                    const sqft = getJobAttributes(job).sqft;
+                    if (sqft === undefined) return false;
                     return Array.from(sizes).some(bucket => {
                         if (bucket === '< 1500 sqft' && sqft < 1500) return true;
                         if (bucket === '1500-2500 sqft' && sqft >= 1500 && sqft <= 2500) return true;
@@ -178,9 +184,8 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
             }
             if (ages.size > 0) {
                 filtered = filtered.filter(job => {
-                    const ageMatch = job.notes.match(/\b(\d+)\s*yrs\b/i);
-                    if (!ageMatch) return false;
-                    const age = parseInt(ageMatch[1], 10);
+                    const age = getJobAttributes(job).roofAgeYears;
+                    if (age === undefined) return false;
                     const ageToBucket = (age: number) => {
                         if (age <= 5) return '0-5 yrs';
                         if (age <= 10) return '6-10 yrs';
@@ -205,7 +210,7 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
     const handleClearFilters = () => {
         setCityFilters(new Set());
         setTimeFilters(new Set());
-        setTagFilters({ roofTypes: new Set(), stories: new Set(), sizes: new Set(), priority: false, ages: new Set() });
+        setTagFilters({ roofTypes: new Set(), stories: new Set(), sizes: new Set(), priority: false, ages: new Set(), statuses: new Set() });
     };
 
     const hasActiveFilters = cityFilters.size > 0 || timeFilters.size > 0 || Object.values(tagFilters).some(f => (f instanceof Set && f.size > 0) || (typeof f === 'boolean' && f));
@@ -255,10 +260,15 @@ const FilterTabs: React.FC<FilterTabsProps> = ({ unassignedJobs, onFilterChange
                      <div className="space-y-1.5">
                         <div className="flex items-start gap-2">
                              <span className="w-12 pt-0.5 text-[9px] font-bold text-gray-400 uppercase text-right flex-shrink-0">Status</span>
-                            <button onClick={() => setTagFilters(f => ({ ...f, priority: !f.priority }))} className={`${tagFilters.priority ? 'bg-yellow-100 text-yellow-800 border-yellow-300 ring-1 ring-yellow-400/50' : chipInactiveClass} ${chipBaseClass}`}>
-                                <StarIcon className={`h-3 w-3 ${tagFilters.priority ? 'text-yellow-600' : 'text-gray-400'}`} /> 
-                                Priority Job (#)
-                            </button>
+                            <div className="flex flex-wrap gap-1">
+                                <button onClick={() => setTagFilters(f => ({ ...f, priority: !f.priority }))} className={`${tagFilters.priority ? 'bg-yellow-100 text-yellow-800 border-yellow-300 ring-1 ring-yellow-400/50' : chipInactiveClass} ${chipBaseClass}`}>
+                                    <StarIcon className={`h-3 w-3 ${tagFilters.priority ? 'text-yellow-600' : 'text-gray-400'}`} /> 
+                                    Priority Job (#)
+                                </button>
+                                {availableTags.statuses.length > 1 && availableTags.statuses.map(status => (
+                                    <button key={status} onClick={() => setTagFilters(f => { const n = new Set(f.statuses); n.has(status) ? n.delete(status) : n.add(status); return { ...f, statuses: n }; })} className={`${tagFilters.statuses.has(status) ? chipActiveClass : chipInactiveClass} ${chipBaseClass}`}>{JOB_STATUS_LABELS[status]}</button>
+                                ))}
+                            </div>
                         </div>
 
                         {availableTags.roofTypes.length > 0 && (
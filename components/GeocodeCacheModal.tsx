@@ -0,0 +1,207 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Coordinates, isWithinArizona } from '../services/osmService';
+import {
+    GEOCODE_RETRY_MS, GEOCODE_TTL_MS, GeocodeCacheRecord, MAX_GEOCODE_ENTRIES,
+    clearFailedGeocodes, clearGeocodeCache, getGeocodeCacheStats, isGeocodeExpired, listGeocodeEntries, removeGeocodeEntry,
+} from '../services/geocodeCache';
+import { XIcon, MapPinIcon, SaveIcon, UploadIcon, TrashIcon, SearchIcon } from './icons';
+
+interface GeocodeCacheModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Rows rendered at once; the search narrows the rest.
+const MAX_VISIBLE_ENTRIES = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "33.4484, -112.074" as copied from a map app
+const parseCoordinates = (text: string): Coordinates | null => {
+    const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    return { lat: parseFloat(match[1]), lon: parseFloat(match[2]) };
+};
+
+const formatAge = (timestamp: number, now: number): string => {
+    if (!timestamp) return 'never';
+    const days = Math.floor((now - timestamp) / DAY_MS);
+    return days < 1 ? 'today' : days === 1 ? '1 day ago' : `${days} days ago`;
+};
+
+const formatPoint = (coordinates: Coordinates) => `${coordinates.lat.toFixed(5)}, ${coordinates.lon.toFixed(5)}`;
+
+const GeocodeCacheModal: React.FC<GeocodeCacheModalProps> = ({ isOpen, onClose }) => {
+    const { handleSetGeocodeOverride, handleExportGeocodeCache, handleImportGeocodeCache } = useAppContext();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // The cache lives outside React; bumping this re-reads it after a change.
+    const [version, setVersion] = useState(0);
+    const [search, setSearch] = useState('');
+    const [pinAddress, setPinAddress] = useState('');
+    const [pinText, setPinText] = useState('');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const now = useMemo(() => Date.now(), [version, isOpen]);
+    const entries = useMemo(() => isOpen ? listGeocodeEntries() : [], [version, isOpen]);
+    const stats = useMemo(() => getGeocodeCacheStats(now), [version, now]);
+    const matches = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return query ? entries.filter(entry => entry.address.toLowerCase().includes(query)) : entries;
+    }, [entries, search]);
+
+    if (!isOpen) return null;
+
+    const refresh = (text?: string, isError = false) => {
+        setVersion(v => v + 1);
+        setMessage(text ? { text, isError } : null);
+    };
+
+    const startPin = (entry?: GeocodeCacheRecord) => {
+        const current = entry?.override || entry?.result.coordinates;
+        setPinAddress(entry?.address || search.trim());
+        setPinText(current ? formatPoint(current) : '');
+        setMessage(null);
+    };
+
+    const handleSavePin = () => {
+        const coordinates = parseCoordinates(pinText);
+        if (!pinAddress.trim()) return refresh('Enter the address to pin, exactly as it appears on the job.', true);
+        if (!coordinates) return refresh('Enter the point as "latitude, longitude", e.g. 33.44838, -112.07404.', true);
+        if (!isWithinArizona(coordinates)) return refresh('That point is outside Arizona.', true);
+        handleSetGeocodeOverride(pinAddress.trim(), coordinates);
+        setPinAddress('');
+        setPinText('');
+        refresh(`Pinned ${pinAddress.trim()}.`);
+    };
+
+    const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const counts = await handleImportGeocodeCache(file);
+            refresh(`Imported: ${counts.added} added, ${counts.updated} updated, ${counts.unchanged} unchanged${counts.rejected ? `, ${counts.rejected} rejected as invalid` : ''}.`);
+        } catch (error) {
+            refresh(error instanceof Error ? error.message : 'Could not read the file.', true);
+        }
+    };
+
+    const handleClear = () => {
+        if (!window.confirm('Clear the geocode cache? Every address will be looked up again. Pinned addresses are kept.')) return;
+        refresh(`Removed ${clearGeocodeCache()} cached address(es).`);
+    };
+
+    const statusOf = (entry: GeocodeCacheRecord) => {
+        if (entry.override) return <span className="text-indigo-700 font-semibold">Pinned {formatPoint(entry.override)}</span>;
+        if (!entry.result.coordinates) {
+            const retryIn = Math.ceil((entry.checkedAt + GEOCODE_RETRY_MS - now) / (60 * 60 * 1000));
+            return <span className="text-red-600">{entry.result.error || 'Not found'}{retryIn > 0 ? ` · retry in ${retryIn}h` : ' · retry on next use'}</span>;
+        }
+        if (isGeocodeExpired(entry, now)) return <span className="text-amber-700">Expired · refreshed on next use</span>;
+        return <span className="text-gray-600">{formatPoint(entry.result.coordinates)}</span>;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><MapPinIcon className="h-5 w-5 text-indigo-500" /> Geocode Cache</h2>
+                        <p className="text-xs text-gray-500">
+                            {stats.total} of {MAX_GEOCODE_ENTRIES} addresses · {stats.overrides} pinned · {stats.failed} failed · {stats.expired} expired.
+                            Results are refreshed after {Math.round(GEOCODE_TTL_MS / DAY_MS)} days and failures retried after {Math.round(GEOCODE_RETRY_MS / (60 * 60 * 1000))} hours.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-6 w-6" /></button>
+                </header>
+
+                <div className="px-6 py-3 border-b space-y-2">
+                    <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                            <SearchIcon className="h-4 w-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+                            <input
+                                value={search}
+                                onChange={e => setSearch(e.target.value)}
+                                placeholder="Search addresses"
+                                className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                        </div>
+                        <button onClick={() => startPin()} className="px-3 py-1.5 text-xs font-bold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-md whitespace-nowrap">
+                            Pin an Address
+                        </button>
+                    </div>
+                    {(pinAddress || pinText) && (
+                        <div className="flex flex-wrap items-center gap-2 bg-indigo-50/60 border border-indigo-100 rounded-md p-2">
+                            <input
+                                value={pinAddress}
+                                onChange={e => setPinAddress(e.target.value)}
+                                placeholder="Address, as written on the job"
+                                className="flex-1 min-w-[14rem] px-2 py-1 text-xs border border-gray-300 rounded"
+                            />
+                            <input
+                                value={pinText}
+                                onChange={e => setPinText(e.target.value)}
+                                placeholder="Latitude, longitude"
+                                className="w-48 px-2 py-1 text-xs border border-gray-300 rounded font-mono"
+                            />
+                            <button onClick={handleSavePin} className="px-3 py-1 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md">Save Pin</button>
+                            <button onClick={() => { setPinAddress(''); setPinText(''); }} className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700">Cancel</button>
+                        </div>
+                    )}
+                    {message && <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-emerald-700'}`}>{message.text}</p>}
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar">
+                    {matches.length === 0 && <p className="text-sm text-gray-500 text-center py-8">{entries.length === 0 ? 'Nothing has been geocoded yet.' : 'No cached address matches.'}</p>}
+                    <ul className="divide-y divide-gray-100">
+                        {matches.slice(0, MAX_VISIBLE_ENTRIES).map(entry => (
+                            <li key={entry.address} className="px-6 py-2 flex items-center justify-between gap-3 text-xs">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-gray-800 truncate" title={entry.address}>{entry.address}</p>
+                                    <p className="truncate">
+                                        {statusOf(entry)}
+                                        <span className="text-gray-400"> · geocoded {formatAge(entry.fetchedAt, now)} · used {formatAge(entry.lastUsedAt, now)}</span>
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                    <button onClick={() => startPin(entry)} className="px-2 py-1 font-semibold text-indigo-600 hover:bg-indigo-50 rounded">{entry.override ? 'Move Pin' : 'Pin'}</button>
+                                    {entry.override && (
+                                        <button onClick={() => { handleSetGeocodeOverride(entry.address, null); refresh(); }} className="px-2 py-1 font-semibold text-gray-600 hover:bg-gray-100 rounded">Unpin</button>
+                                    )}
+                                    <button onClick={() => { removeGeocodeEntry(entry.address); refresh(); }} className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded" title="Forget this address">
+                                        <TrashIcon className="h-3.5 w-3.5" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                    {matches.length > MAX_VISIBLE_ENTRIES && (
+                        <p className="text-[11px] text-gray-500 text-center py-2">Showing the {MAX_VISIBLE_ENTRIES} most recently used of {matches.length}. Search to narrow the list.</p>
+                    )}
+                </div>
+
+                <footer className="px-6 py-3 bg-gray-50 border-t flex flex-wrap justify-between items-center gap-2 rounded-b-xl">
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleExportGeocodeCache} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100">
+                            <SaveIcon className="h-3.5 w-3.5" /> Export
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100" title="Merge a cache exported on another machine">
+                            <UploadIcon className="h-3.5 w-3.5" /> Import
+                        </button>
+                        <input type="file" ref={fileInputRef} onChange={handleImportFile} accept=".json" className="hidden" />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => refresh(`Cleared ${clearFailedGeocodes()} failed lookup(s); they will be retried on next use.`)} disabled={stats.failed === 0} className="px-3 py-1.5 text-xs font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-40">
+                            Retry Failed
+                        </button>
+                        <button onClick={handleClear} className="px-3 py-1.5 text-xs font-semibold text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50">
+                            Clear Cache
+                        </button>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default GeocodeCacheModal;
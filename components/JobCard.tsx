@@ -1,8 +1,12 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
-import { Job, DisplayJob } from '../types';
-import { TAG_KEYWORDS } from '../constants';
-import { RescheduleIcon, UnassignJobIcon, StarIcon, MapPinIcon, EditIcon, SaveIcon, XIcon, UserIcon, TrashIcon, TrophyIcon } from './icons';
+import { Job, DisplayJob, JobAttributes, RoofType, JobType, JobStatus } from '../types';
+import { ROOF_KEYWORDS, TYPE_KEYWORDS } from '../constants';
+import { getJobAttributes } from '../services/jobAttributes';
+import { getCustomerName, formatPhone } from '../services/customerContact';
+import { getJobStatus, getAllowedTransitions, JOB_STATUS_LABELS } from '../services/jobStatus';
+import { describeJobLocation } from '../services/duplicateJobs';
+import { RescheduleIcon, UnassignJobIcon, StarIcon, MapPinIcon, EditIcon, SaveIcon, XIcon, UserIcon, TrashIcon, TrophyIcon, WarningIcon } from './icons';
 import { useAppContext } from '../context/AppContext';
 
 const TAG_COLORS: Record<string, string> = {
@@ -17,6 +21,14 @@ const TAG_COLORS: Record<string, string> = {
     'yrs': 'bg-stone-100 text-stone-800 border-stone-200',
 };
 
+const STATUS_COLORS: Record<JobStatus, string> = {
+    'tentative': 'bg-white text-gray-500 border-gray-200',
+    'confirmed': 'bg-green-100 text-green-800 border-green-300',
+    'completed': 'bg-indigo-100 text-indigo-800 border-indigo-300',
+    'cancelled': 'bg-gray-200 text-gray-600 border-gray-300 line-through',
+    'no-show': 'bg-red-100 text-red-800 border-red-300',
+};
+
 interface JobCardProps { 
   job: Job;
   isMismatch?: boolean;
@@ -24,7 +36,7 @@ interface JobCardProps {
   onDragStart?: (job: Job) => void;
   onDragEnd?: () => void;
   onUnassign?: (jobId: string) => void;
-  onUpdateJob?: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'address' | 'notes'>) => void;
+  onUpdateJob?: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'phone' | 'email' | 'address' | 'notes' | 'attributes'>) => void;
   onRemove?: (jobId: string) => void;
   isCompact?: boolean;
   isDraggable?: boolean;
@@ -33,17 +45,24 @@ interface JobCardProps {
 export const JobCard: React.FC<JobCardProps> = ({ 
     job, isMismatch, isTimeMismatch, onDragStart, onDragEnd, onUnassign, onUpdateJob, onRemove, isCompact = false, isDraggable = true
 }) => {
-    const { setHoveredJobId } = useAppContext();
+    const { setHoveredJobId, handleSetJobStatus, duplicateGroups, setDuplicateMergeGroupId } = useAppContext();
     const [isEditing, setIsEditing] = useState(false);
-    const [customerName, setCustomerName] = useState(job.customerName);
+    const [customerName, setCustomerName] = useState(getCustomerName(job));
+    const [phone, setPhone] = useState(job.phone || '');
+    const [email, setEmail] = useState(job.email || '');
     const [address, setAddress] = useState(job.address);
     const [notes, setNotes] = useState(job.notes);
+    const jobAttributes = useMemo(() => getJobAttributes(job), [job]);
+    const [attributes, setAttributes] = useState<JobAttributes>(jobAttributes);
 
     useEffect(() => {
-        setCustomerName(job.customerName);
+        setCustomerName(getCustomerName(job));
+        setPhone(job.phone || '');
+        setEmail(job.email || '');
         setAddress(job.address);
         setNotes(job.notes);
-    }, [job]);
+        setAttributes(jobAttributes);
+    }, [job, jobAttributes]);
 
     const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
         if (isEditing || !isDraggable) {
@@ -57,18 +76,29 @@ export const JobCard: React.FC<JobCardProps> = ({
     
     const handleSave = (e: React.MouseEvent) => {
         e.stopPropagation();
-        onUpdateJob?.(job.id, { customerName, address, notes });
+        onUpdateJob?.(job.id, { customerName: customerName.trim(), phone: phone.trim() ? formatPhone(phone) : undefined, email: email.trim() || undefined, address, notes, attributes });
         setIsEditing(false);
     };
 
     const handleCancel = (e: React.MouseEvent) => {
         e.stopPropagation();
-        setCustomerName(job.customerName);
+        setCustomerName(getCustomerName(job));
+        setPhone(job.phone || '');
+        setEmail(job.email || '');
         setAddress(job.address);
         setNotes(job.notes);
+        setAttributes(jobAttributes);
         setIsEditing(false);
     };
 
+    const toggleTag = <T extends RoofType | JobType>(list: T[], tag: T): T[] =>
+        list.includes(tag) ? list.filter(t => t !== tag) : [...list, tag];
+
+    const parseOptionalNumber = (value: string): number | undefined => {
+        const parsed = parseInt(value, 10);
+        return isNaN(parsed) ? undefined : parsed;
+    };
+
     const handleRemove = (e: React.MouseEvent) => {
         e.stopPropagation();
         if (window.confirm(`Are you sure you want to permanently remove this job?\n\n${job.address}`)) {
@@ -77,35 +107,34 @@ export const JobCard: React.FC<JobCardProps> = ({
     };
 
     const allTags = useMemo(() => {
-        if (!job.notes) return [];
-        const notesLower = job.notes.toLowerCase();
-        
+        const { roofAgeYears, roofTypes, jobTypes, sqft, stories } = jobAttributes;
+
         // Roof age tag (e.g. "16yrs") - Priority 1
-        const ageMatch = job.notes.match(/\b(\d+)\s*yrs\b/i);
-        const ageTag = ageMatch ? [{ type: 'yrs', value: `${ageMatch[1]}yrs`, color: TAG_COLORS['yrs'] }] : [];
+        const ageTag = roofAgeYears !== undefined ? [{ type: 'yrs', value: `${roofAgeYears}yrs`, color: TAG_COLORS['yrs'] }] : [];
 
-        // Roof type tags - Priority 2
-        const roofTags = TAG_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower))
-            .map(tag => ({ type: 'roof', value: tag, color: TAG_COLORS[tag] }));
+        // Roof and job type tags - Priority 2
+        const typeTags = [...roofTypes, ...jobTypes].map(tag => ({ type: 'roof', value: tag, color: TAG_COLORS[tag] }));
 
-        // Square footage tag (e.g., "1802sq" or "1802 sq") - Priority 3
-        const sqftMatch = job.notes.match(/\b(\d+)\s*sq\.?\b/i);
-        const sqftTag = sqftMatch ? [{ type: 'sqft', value: `${sqftMatch[1]} sqft`, color: TAG_COLORS['sqft'] }] : [];
+        // Square footage tag - Priority 3
+        const sqftTag = sqft !== undefined ? [{ type: 'sqft', value: `${sqft} sqft`, color: TAG_COLORS['sqft'] }] : [];
 
-        // Stories tag (e.g., "1S", "2S") - Priority 4
-        const storiesMatch = job.notes.match(/\b(\d)S\b/i);
-        const storiesTag = storiesMatch ? [{ type: 'stories', value: `${storiesMatch[1]} Story`, color: TAG_COLORS['stories'] }] : [];
+        // Stories tag - Priority 4
+        const storiesTag = stories !== undefined ? [{ type: 'stories', value: `${stories} Story`, color: TAG_COLORS['stories'] }] : [];
         
-        return [...ageTag, ...roofTags, ...sqftTag, ...storiesTag];
-    }, [job.notes]);
-
-  const isReschedule = useMemo(() => job.notes.includes('Recommended Reschedule'), [job.notes]);
-  const { isPriority, priorityReason } = useMemo(() => {
-    const isPrio = job.notes.includes('#');
-    if (!isPrio) return { isPriority: false, priorityReason: '' };
-    const match = job.notes.match(/#\s*\(([^)]+)\)/);
-    return { isPriority: true, priorityReason: match ? match[1] : 'Priority Job' };
-  }, [job.notes]);
+        return [...ageTag, ...typeTags, ...sqftTag, ...storiesTag];
+    }, [jobAttributes]);
+
+  const status = getJobStatus(job);
+  const statusTitle = [`Status: ${JOB_STATUS_LABELS[status]}`, ...(job.statusHistory || []).map(change =>
+      `${JOB_STATUS_LABELS[change.from]} → ${JOB_STATUS_LABELS[change.to]} · ${new Date(change.at).toLocaleString()}`)].join('\n');
+
+  const duplicateGroup = useMemo(() => duplicateGroups.find(group => group.locations.some(location => location.job.id === job.id)), [duplicateGroups, job.id]);
+  const duplicateTitle = duplicateGroup ? [`Possible duplicate (${duplicateGroup.reason}). Click to review and merge.`,
+      ...duplicateGroup.locations.filter(location => location.job.id !== job.id).map(location => `• ${describeJobLocation(location)}: ${location.job.address}`)].join('\n') : '';
+
+  const isReschedule = !!jobAttributes.rescheduleFrom;
+  const isPriority = jobAttributes.isPriority;
+  const priorityReason = isPriority ? (jobAttributes.priorityReason || 'Priority Job') : '';
   const isActuallyMismatched = isMismatch || isTimeMismatch;
 
   const displayJob = job as DisplayJob;
@@ -145,8 +174,11 @@ export const JobCard: React.FC<JobCardProps> = ({
         colorClasses = "bg-white border-gray-200 hover:shadow-md";
     }
     
-    return `${base} ${stateClasses} ${colorClasses}`;
-  }, [isActuallyMismatched, isPriority, isReschedule, isEditing, isDraggable, isEliteMatch]);
+    // Finished and cancelled jobs fade back so the open work stands out.
+    const statusClasses = !isEditing && (status === 'completed' || status === 'cancelled') ? 'opacity-70' : '';
+
+    return `${base} ${stateClasses} ${colorClasses} ${statusClasses}`;
+  }, [isActuallyMismatched, isPriority, isReschedule, isEditing, isDraggable, isEliteMatch, status]);
 
   const googleMapsUrl = useMemo(() => {
     const addressParts = [job.address, job.city, job.zipCode].filter(Boolean);
@@ -162,7 +194,7 @@ export const JobCard: React.FC<JobCardProps> = ({
   } else if (isTimeMismatch) {
       mismatchTitle = `Time Mismatch: Job's original schedule was ${job.originalTimeframe}.`;
   } else if (isReschedule) {
-      mismatchTitle = job.notes; 
+      mismatchTitle = `Recommended reschedule from ${jobAttributes.rescheduleFrom}`; 
   }
 
   const getScoreTooltip = (job: DisplayJob) => {
@@ -213,8 +245,12 @@ ${penaltyVal > 0 ? `• PENALTY (-${penaltyVal}): Deducted for scheduling confli
         <div className={cardClasses} onClick={(e) => e.stopPropagation()}>
             <div className="flex flex-col space-y-2">
             <div>
-                <label className="text-xs font-bold text-gray-600">City / Cust.</label>
-                <input value={customerName} onChange={e => setCustomerName(e.target.value)} className="w-full p-1 border bg-white border-gray-300 rounded-md text-sm" autoFocus />
+                <label className="text-xs font-bold text-gray-600">Customer</label>
+                <input value={customerName} onChange={e => setCustomerName(e.target.value)} placeholder="Name" className="w-full p-1 border bg-white border-gray-300 rounded-md text-sm" autoFocus />
+                <div className="grid grid-cols-2 gap-1 mt-1">
+                    <input type="tel" value={phone} onChange={e => setPhone(e.target.value)} placeholder="Phone" className="w-full p-1 border bg-white border-gray-300 rounded-md text-xs" />
+                    <input type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="Email" className="w-full p-1 border bg-white border-gray-300 rounded-md text-xs" />
+                </div>
             </div>
             <div>
                 <label className="text-xs font-bold text-gray-600">Address</label>
@@ -224,6 +260,36 @@ ${penaltyVal > 0 ? `• PENALTY (-${penaltyVal}): Deducted for scheduling confli
                 <label className="text-xs font-bold text-gray-600">Notes</label>
                 <textarea value={notes} onChange={e => setNotes(e.target.value)} className="w-full p-1 border bg-white border-gray-300 rounded-md text-sm" rows={3} />
             </div>
+            <div>
+                <label className="text-xs font-bold text-gray-600">Details</label>
+                <div className="flex flex-wrap gap-1 mt-0.5">
+                    {ROOF_KEYWORDS.map(tag => (
+                        <button key={tag} type="button" onClick={() => setAttributes(prev => ({ ...prev, roofTypes: toggleTag(prev.roofTypes, tag) }))}
+                            className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full border ${attributes.roofTypes.includes(tag) ? TAG_COLORS[tag] : 'bg-white text-gray-400 border-gray-200'}`}>
+                            {tag}
+                        </button>
+                    ))}
+                    {TYPE_KEYWORDS.map(tag => (
+                        <button key={tag} type="button" onClick={() => setAttributes(prev => ({ ...prev, jobTypes: toggleTag(prev.jobTypes, tag) }))}
+                            className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full border ${attributes.jobTypes.includes(tag) ? TAG_COLORS[tag] : 'bg-white text-gray-400 border-gray-200'}`}>
+                            {tag}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-3 gap-1 mt-1">
+                    <input type="number" min="0" placeholder="Age (yrs)" value={attributes.roofAgeYears ?? ''} onChange={e => setAttributes(prev => ({ ...prev, roofAgeYears: parseOptionalNumber(e.target.value) }))} className="w-full p-1 border bg-white border-gray-300 rounded-md text-xs" title="Roof age in years" />
+                    <input type="number" min="0" placeholder="Sq ft" value={attributes.sqft ?? ''} onChange={e => setAttributes(prev => ({ ...prev, sqft: parseOptionalNumber(e.target.value) }))} className="w-full p-1 border bg-white border-gray-300 rounded-md text-xs" title="Square footage" />
+                    <input type="number" min="1" max="9" placeholder="Stories" value={attributes.stories ?? ''} onChange={e => setAttributes(prev => ({ ...prev, stories: parseOptionalNumber(e.target.value) }))} className="w-full p-1 border bg-white border-gray-300 rounded-md text-xs" title="Stories" />
+                </div>
+                <div className="flex items-center gap-1 mt-1">
+                    <label className="flex items-center gap-1 text-[10px] font-semibold text-gray-600 whitespace-nowrap">
+                        <input type="checkbox" checked={attributes.isPriority} onChange={e => setAttributes(prev => ({ ...prev, isPriority: e.target.checked }))} className="h-3 w-3" />
+                        Priority
+                    </label>
+                    <input placeholder="Reason" value={attributes.priorityReason || ''} disabled={!attributes.isPriority} onChange={e => setAttributes(prev => ({ ...prev, priorityReason: e.target.value || undefined }))} className="flex-1 min-w-0 p-1 border bg-white border-gray-300 rounded-md text-xs disabled:bg-gray-100" />
+                </div>
+                <input placeholder="Reschedule from (optional)" value={attributes.rescheduleFrom || ''} onChange={e => setAttributes(prev => ({ ...prev, rescheduleFrom: e.target.value || undefined }))} className="w-full mt-1 p-1 border bg-white border-gray-300 rounded-md text-xs" />
+            </div>
             <div className="mt-1 pt-1 border-t border-gray-200/50 flex items-center justify-between">
                 {onRemove && (
                     <button type="button" onClick={handleRemove} className="flex items-center space-x-0.5 px-2 py-1 text-[10px] border rounded-md text-red-600 bg-white hover:bg-red-50 transition" title="Remove Job Permanently">
@@ -274,7 +340,34 @@ ${penaltyVal > 0 ? `• PENALTY (-${penaltyVal}): Deducted for scheduling confli
                 </h3>
             </div>
             <div className="flex items-center gap-1 flex-shrink-0">
+                {isCompact ? (
+                    status !== 'tentative' && <span className={`text-[9px] font-bold px-1.5 rounded-full border ${STATUS_COLORS[status]}`} title={statusTitle}>{JOB_STATUS_LABELS[status]}</span>
+                ) : (
+                    <select
+                        value={status}
+                        onChange={e => handleSetJobStatus(job.id, e.target.value as JobStatus)}
+                        onClick={e => e.stopPropagation()}
+                        onMouseDown={e => e.stopPropagation()}
+                        title={statusTitle}
+                        className={`text-[9px] font-bold pl-1.5 pr-0 py-0 h-4 rounded-full border appearance-none cursor-pointer focus:ring-1 focus:ring-indigo-400 ${STATUS_COLORS[status]}`}
+                    >
+                        <option value={status}>{JOB_STATUS_LABELS[status]}</option>
+                        {getAllowedTransitions(status).map(next => <option key={next} value={next}>→ {JOB_STATUS_LABELS[next]}</option>)}
+                    </select>
+                )}
                 {isPriority && <StarIcon className="h-3.5 w-3.5 text-amber-600 drop-shadow-sm" />}
+                {duplicateGroup && (
+                    <button
+                        type="button"
+                        onClick={e => { e.stopPropagation(); setDuplicateMergeGroupId(duplicateGroup.id); }}
+                        onMouseDown={e => e.stopPropagation()}
+                        className="flex items-center gap-0.5 text-[9px] font-bold px-1 rounded-full border bg-amber-50 text-amber-700 border-amber-300 hover:bg-amber-100"
+                        title={duplicateTitle}
+                    >
+                        <WarningIcon className="h-2.5 w-2.5" />
+                        Dup
+                    </button>
+                )}
                 
                 {showOriginalTime && (
                     <span className="text-[9px] text-gray-400 font-mono mr-0.5 hidden sm:inline-block bg-gray-50 px-1 rounded border border-gray-100" title={`Original Request: ${job.originalTimeframe}`}>
@@ -354,6 +447,11 @@ ${penaltyVal > 0 ? `• PENALTY (-${penaltyVal}): Deducted for scheduling confli
             <p className="text-[10px] text-gray-600 truncate font-medium leading-tight" title={job.address}>
                 {job.address}
             </p>
+            {(getCustomerName(job) || job.phone) && (
+                <p className="text-[10px] text-gray-500 truncate leading-tight mt-0.5" title={[getCustomerName(job), job.phone, job.email].filter(Boolean).join(' · ')}>
+                    {[getCustomerName(job), job.phone].filter(Boolean).join(' · ')}
+                </p>
+            )}
         </div>
     </div>
   );
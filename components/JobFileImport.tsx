@@ -0,0 +1,210 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { readSpreadsheetFile } from '../services/spreadsheetFile';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, buildImportRows, detectColumnMapping, looksLikeHeaderRow } from '../services/jobImport';
+import { LoadingIcon, ProcessIcon, UploadIcon, WarningIcon } from './icons';
+
+interface JobFileImportProps {
+    onClose: () => void;
+}
+
+// 0 -> "A", 27 -> "AB"
+const columnLetter = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    return letters;
+};
+
+const JobFileImport: React.FC<JobFileImportProps> = ({ onClose }) => {
+    const { appState, isParsing, handleImportJobs, findIncomingDuplicates } = useAppContext();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [hasHeaderRow, setHasHeaderRow] = useState(true);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [isReading, setIsReading] = useState(false);
+    const [readError, setReadError] = useState<string | null>(null);
+    const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const dataRows = useMemo(() => hasHeaderRow ? rows.slice(1) : rows, [rows, hasHeaderRow]);
+
+    const preview = useMemo(
+        () => buildImportRows(dataRows, mapping, appState.reps, appState.settings.timeSlots, hasHeaderRow ? 2 : 1),
+        [dataRows, mapping, appState.reps, appState.settings.timeSlots, hasHeaderRow]
+    );
+    const duplicates = useMemo(() => findIncomingDuplicates(preview.flatMap(row => row.job ? [row.job] : [])), [preview, findIncomingDuplicates]);
+    const readyRows = preview.filter(row => row.job && !(skipDuplicates && duplicates.has(row.job.id)));
+    const assignedCount = readyRows.filter(row => row.assignment).length;
+    const errorCount = preview.filter(row => !row.job).length;
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setIsReading(true);
+        setReadError(null);
+        try {
+            const fileRows = await readSpreadsheetFile(file);
+            if (fileRows.length === 0) throw new Error('The file is empty.');
+            const headerRow = looksLikeHeaderRow(fileRows[0]);
+            setFileName(file.name);
+            setRows(fileRows);
+            setHasHeaderRow(headerRow);
+            setMapping(headerRow ? detectColumnMapping(fileRows[0]) : {});
+        } catch (error) {
+            setReadError(error instanceof Error ? error.message : 'Could not read the file.');
+            setRows([]);
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const handleMappingChange = (field: ImportField, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') delete next[field];
+            else next[field] = parseInt(value, 10);
+            return next;
+        });
+    };
+
+    const handleImport = () => {
+        const jobs = readyRows.map(row => row.job!);
+        const assignments = readyRows.flatMap(row => row.assignment ? [{ jobId: row.job!.id, ...row.assignment }] : []);
+        handleImportJobs(jobs, assignments, () => {
+            setRows([]);
+            setFileName('');
+            onClose();
+        });
+    };
+
+    const columnOption = (index: number) => {
+        const header = hasHeaderRow ? rows[0]?.[index] : '';
+        const sample = dataRows.find(row => row[index])?.[index] || '';
+        return `${columnLetter(index)}: ${header || sample || '(empty)'}`.slice(0, 40);
+    };
+
+    const repLabel = (repId: string, slotId: string) => {
+        const rep = appState.reps.find(r => r.id === repId);
+        const slot = appState.settings.timeSlots.find(s => s.id === slotId);
+        return `${rep?.name || repId} · ${slot?.label || slotId}`;
+    };
+
+    return (
+        <>
+            <div className="p-6 space-y-4 max-h-[65vh] overflow-y-auto custom-scrollbar">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isReading}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+                    >
+                        {isReading ? <LoadingIcon className="h-4 w-4" /> : <UploadIcon className="h-4 w-4" />}
+                        {fileName ? 'Choose Another File' : 'Choose CSV or Excel File'}
+                    </button>
+                    <span className="text-xs text-gray-500 truncate">{fileName || 'CSV, TSV or .xlsx. The first worksheet is imported.'}</span>
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,.xlsx" className="hidden" />
+                </div>
+                {readError && <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2">{readError}</p>}
+
+                {rows.length > 0 && (
+                    <>
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="text-sm font-semibold text-gray-700">Columns</h3>
+                                <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                                    <input type="checkbox" checked={hasHeaderRow} onChange={e => setHasHeaderRow(e.target.checked)} className="rounded text-indigo-600" />
+                                    First row is headers
+                                </label>
+                            </div>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                                {IMPORT_FIELDS.map(({ field, label }) => (
+                                    <label key={field} className="text-[11px] font-semibold text-gray-500">
+                                        {label}{field === 'address' && <span className="text-red-500">*</span>}
+                                        <select
+                                            value={mapping[field] ?? ''}
+                                            onChange={e => handleMappingChange(field, e.target.value)}
+                                            className="mt-0.5 w-full text-xs border border-gray-300 rounded p-1 bg-white font-normal text-gray-800"
+                                        >
+                                            <option value="">Not imported</option>
+                                            {Array.from({ length: columnCount }, (_, index) => <option key={index} value={index}>{columnOption(index)}</option>)}
+                                        </select>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <div className="flex items-center gap-3">
+                                    <h3 className="text-sm font-semibold text-gray-700">Preview</h3>
+                                    {duplicates.size > 0 && (
+                                        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                                            <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} className="rounded text-indigo-600" />
+                                            Skip possible duplicates
+                                        </label>
+                                    )}
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    <span className="font-semibold text-gray-700">{readyRows.length}</span> ready
+                                    {assignedCount > 0 && <> · {assignedCount} pre-assigned</>}
+                                    {duplicates.size > 0 && <span className="text-amber-700"> · {duplicates.size} possible duplicate{duplicates.size === 1 ? '' : 's'}{skipDuplicates && ' skipped'}</span>}
+                                    {errorCount > 0 && <span className="text-red-600"> · {errorCount} skipped</span>}
+                                </p>
+                            </div>
+                            <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                                <table className="w-full text-[11px]">
+                                    <thead className="bg-gray-50 text-gray-500 text-left">
+                                        <tr>
+                                            <th className="px-2 py-1">Row</th>
+                                            <th className="px-2 py-1">Customer</th>
+                                            <th className="px-2 py-1">Address</th>
+                                            <th className="px-2 py-1">City</th>
+                                            <th className="px-2 py-1">Time</th>
+                                            <th className="px-2 py-1">Pre-assigned</th>
+                                            <th className="px-2 py-1">Issues</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {preview.map(row => (
+                                            <tr key={row.rowNumber} className={`border-t border-gray-100 ${!row.job ? 'bg-red-50' : skipDuplicates && duplicates.has(row.job.id) ? 'bg-amber-50' : ''}`}>
+                                                <td className="px-2 py-1 font-mono text-gray-400">{row.rowNumber}</td>
+                                                <td className="px-2 py-1">{row.job?.customerName}</td>
+                                                <td className="px-2 py-1">{row.job?.address}</td>
+                                                <td className="px-2 py-1">{row.job?.city}{row.job?.zipCode && ` ${row.job.zipCode}`}</td>
+                                                <td className="px-2 py-1 whitespace-nowrap">{row.job?.originalTimeframe}</td>
+                                                <td className="px-2 py-1">{row.assignment && repLabel(row.assignment.repId, row.assignment.slotId)}</td>
+                                                <td className="px-2 py-1">
+                                                    {row.errors.map(error => <p key={error} className="text-red-600 font-semibold">{error}</p>)}
+                                                    {row.job && duplicates.has(row.job.id) && <p className="text-amber-700 font-semibold">Possible duplicate of: {duplicates.get(row.job.id)!.join('; ')}</p>}
+                                                    {row.warnings.map(warning => <p key={warning} className="text-amber-700 flex items-start gap-1"><WarningIcon className="h-3 w-3 flex-shrink-0 mt-px" />{warning}</p>)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {errorCount > 0 && <p className="text-[11px] text-gray-500 mt-1">Rows with errors are skipped. Fix the column mapping or the file and choose it again.</p>}
+                        </div>
+                    </>
+                )}
+            </div>
+            <footer className="px-6 py-4 bg-gray-50 border-t flex justify-end space-x-3 rounded-b-xl">
+                <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition shadow-sm">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleImport}
+                    disabled={isParsing || readyRows.length === 0}
+                    className="px-6 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed flex items-center justify-center min-w-[140px] shadow-md hover:shadow-lg transition-all active:scale-95"
+                >
+                    {isParsing ? <LoadingIcon /> : <ProcessIcon className="h-4 w-4" />}
+                    <span className="ml-2">{isParsing ? 'Importing...' : `Import ${readyRows.length} Job${readyRows.length === 1 ? '' : 's'}`}</span>
+                </button>
+            </footer>
+        </>
+    );
+};
+
+export default JobFileImport;
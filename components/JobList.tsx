@@ -1,15 +1,10 @@
 import React, { useMemo } from 'react';
 import { DisplayJob } from '../types';
-import { TAG_KEYWORDS } from '../constants';
+import { getJobAttributes, getJobTags } from '../services/jobAttributes';
 import { UserIcon, UnassignJobIcon } from './icons';
 
 // Helper to get job tags
-const getJobTags = (job: DisplayJob): string => {
-  if (!job.notes) return '';
-  const notesLower = job.notes.toLowerCase();
-  const found = TAG_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower));
-  return found.join(', ') || '';
-};
+const getTagLabel = (job: DisplayJob): string => getJobTags(getJobAttributes(job)).join(', ');
 
 interface JobListProps {
   jobs: DisplayJob[];
@@ -80,7 +75,7 @@ const JobList: React.FC<JobListProps> = ({ jobs, onUnassign }) => {
                     <div key={job.id} className="grid grid-cols-12 gap-4 items-center px-2 py-2 bg-gray-900/50 rounded-md hover:bg-gray-700/50 transition-colors">
                       <div className="col-span-2 text-sm font-semibold truncate">{job.city || 'N/A'}</div>
                       <div className="col-span-3 text-sm text-gray-300 truncate">{job.address}</div>
-                      <div className="col-span-3 text-sm text-gray-400 truncate italic">"{getJobTags(job) || job.notes}"</div>
+                      <div className="col-span-3 text-sm text-gray-400 truncate italic">"{getTagLabel(job) || job.notes}"</div>
                       <div className="col-span-4 text-sm font-medium">
                         {job.assignedRepName ? (
                           <div className="flex items-center justify-between">
@@ -3,7 +3,7 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
 import UnassignedJobs from './UnassignedJobs';
 import PasteJobsModal from './PasteJobsModal';
-import { LoadingIcon, PasteIcon, AutoAssignIcon, SearchIcon, DragHandleIcon, XIcon, SettingsIcon } from './icons';
+import { LoadingIcon, PasteIcon, AutoAssignIcon, SearchIcon, DragHandleIcon, XIcon, SettingsIcon, OptimizeIcon } from './icons';
 import SettingsModal from './SettingsModal';
 import FilterTabs from './FilterTabs';
 import { Job } from '../types';
@@ -16,7 +16,7 @@ interface JobsPanelProps {
 const JobsPanel: React.FC<JobsPanelProps> = ({ onDragStart, onDragEnd }) => {
     const { 
         isParsing, parsingError, isAutoAssigning, appState, 
-        handleParseJobs, handleAutoAssign,
+        handleParseJobs, handleAutoAssign, handleOptimizeDay,
         handleUpdateJob, handleRemoveJob, isLoadingReps, handleShowUnassignedJobsOnMap, handleJobDrop, 
         setDraggedJob, handleJobDragEnd, setDraggedOverRepId, activeRoute, setFilteredUnassignedJobs
     } = useAppContext();
@@ -37,6 +37,8 @@ const JobsPanel: React.FC<JobsPanelProps> = ({ onDragStart, onDragEnd }) => {
         return jobsToSearch.filter(job => {
             return (
                 job.customerName.toLowerCase().includes(lowercasedFilter) ||
+                (job.phone || '').toLowerCase().includes(lowercasedFilter) ||
+                (job.email || '').toLowerCase().includes(lowercasedFilter) ||
                 job.address.toLowerCase().includes(lowercasedFilter) ||
                 (job.city || '').toLowerCase().includes(lowercasedFilter) ||
                 job.notes.toLowerCase().includes(lowercasedFilter)
@@ -124,6 +126,16 @@ const JobsPanel: React.FC<JobsPanelProps> = ({ onDragStart, onDragEnd }) => {
                      {isAutoAssigning ? <LoadingIcon /> : <AutoAssignIcon className="h-4 w-4" />}
                     <span>{isAutoAssigning ? 'Assigning...' : 'Auto Assign'}</span>
                 </button>
+
+                 <button 
+                    onClick={handleOptimizeDay} 
+                    disabled={isLoadingReps || isAutoAssigning || isParsing || appState.unassignedJobs.length === 0} 
+                    className="col-span-2 flex items-center justify-center gap-2 py-1.5 px-4 bg-white border border-indigo-200 shadow-sm rounded-lg text-xs font-semibold text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    title="Optimize the whole day at once and compare with Auto Assign before applying"
+                >
+                    <OptimizeIcon className="h-3.5 w-3.5" />
+                    <span>Optimize Day (compare)</span>
+                </button>
             </div>
             
             <FilterTabs
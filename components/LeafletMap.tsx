@@ -2,11 +2,12 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
 import { geocodeAddresses, Coordinates, fetchRoute } from '../services/osmService';
-import { LoadingIcon } from './icons';
+import { LoadingIcon, MapPinIcon } from './icons';
 import { RouteInfo, DisplayJob } from '../types';
 import { JobCard } from './JobCard';
 import { useAppContext, AppContext } from '../context/AppContext';
-import { TAG_KEYWORDS } from '../constants';
+import { getJobAttributes, getJobTags } from '../services/jobAttributes';
+import { getJobLabel } from '../services/customerContact';
 
 declare const L: any;
 
@@ -14,13 +15,14 @@ interface LeafletMapProps {
   jobs: DisplayJob[];
   routeInfo?: RouteInfo | null;
   mapType?: 'unassigned' | 'route';
+  allowPinEditing?: boolean; // Drag markers, or click to place an unplotted job, to pin its location
 }
 
 const PHOENIX_COORDS: [number, number] = [33.4484, -112.0740];
 const DEFAULT_ZOOM = 9;
 const ROUTE_ZOOM = 12;
 
-const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRouteInfo, mapType = 'route' }) => {
+const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRouteInfo, mapType = 'route', allowPinEditing = false }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<any>(null);
   const featureGroupRef = useRef<any>(null); 
@@ -32,15 +34,20 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
   contextValueRef.current = contextValue;
 
   const { handleUnassignJob, handleUpdateJob, handleRemoveJob, setDraggedJob, handleJobDragEnd, hoveredJobId } = contextValue;
+  const { pinPlacementJobId, setPinPlacementJobId, pinAddressSuggestion, setPinAddressSuggestion, handleApplyPinAddressSuggestion } = contextValue;
+  const placingJob = allowPinEditing && pinPlacementJobId ? contextValue.allJobs.find(job => job.id === pinPlacementJobId) : undefined;
 
   // Track React roots for cleanup to prevent memory leaks and hydration errors
   const popupRootsRef = useRef<ReactDOM.Root[]>([]);
   const dataIdentityRef = useRef<string>('');
+  const allowPinEditingRef = useRef(allowPinEditing);
+  allowPinEditingRef.current = allowPinEditing;
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [internalRouteInfo, setInternalRouteInfo] = useState<RouteInfo | null>(null);
   const [mappableJobs, setMappableJobs] = useState<DisplayJob[]>([]);
+  const [isMovingPins, setIsMovingPins] = useState(false);
 
   const effectiveRouteInfo = preloadedRouteInfo !== undefined ? preloadedRouteInfo : internalRouteInfo;
   const addresses = useMemo(() => jobs.map(j => j.address), [jobs]);
@@ -73,6 +80,12 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
       }).addTo(mapRef.current);
 
       featureGroupRef.current = L.featureGroup().addTo(mapRef.current);
+
+      // Placing an unplotted job: the next click on the map is its location.
+      mapRef.current.on('click', (e: any) => {
+          const { pinPlacementJobId: jobId, handleSetJobLocation } = contextValueRef.current;
+          if (allowPinEditingRef.current && jobId) handleSetJobLocation(jobId, { lat: e.latlng.lat, lon: e.latlng.lng });
+      });
     }
     
     return () => {
@@ -85,6 +98,12 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
     };
   }, []);
 
+  // Leaflet's own grab cursor is set by class, so the placement cursor goes inline.
+  const isPlacingPin = !!placingJob;
+  useEffect(() => {
+      if (mapRef.current) mapRef.current.getContainer().style.cursor = isPlacingPin ? 'crosshair' : '';
+  }, [isPlacingPin]);
+
   useEffect(() => {
       if (!mapRef.current || !mapContainerRef.current) return;
 
@@ -225,7 +244,8 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
               let iconSize: [number, number];
               let iconAnchor: [number, number];
               const color = getColorForRep(job.assignedRepName);
-              const isPriority = job.notes.includes('#');
+              const attributes = getJobAttributes(job);
+              const isPriority = attributes.isPriority;
               const isHovered = job.id === hoveredJobId;
               
               const dimFilter = job.isDimmed ? 'filter: grayscale(100%); opacity: 0.4;' : '';
@@ -264,6 +284,11 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
                     </div>`;
                   iconSize = [28, 28];
                   iconAnchor = [14, 14];
+              } else if (job.isEstimatedLocation && job.markerLabel) {
+                  // Numbered route stop at an approximate (centroid) position
+                  markerHtml = `<div style="background-color: ${color}; border: 2px dashed white; ${shadow} ${dimFilter} ${transform}" class="text-white w-7 h-7 rounded-full flex items-center justify-center font-bold text-xs opacity-80">${job.markerLabel}</div>`;
+                  iconSize = [28, 28];
+                  iconAnchor = [14, 14];
               } else if (job.isEstimatedLocation) {
                   markerHtml = `<div style="width: 16px; height: 16px; background-color: ${color}; border-radius: 50%; border: 2px dashed white; ${shadow} ${dimFilter} ${transform}"></div>`;
                   iconSize = [20, 20];
@@ -285,26 +310,20 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
                   iconAnchor,
               });
 
-              const marker = L.marker([coord.lat, coord.lon], { icon, zIndexOffset: finalZIndex })
+              const isMovable = allowPinEditing && isMovingPins && !job.isRepHome && !job.isStartLocation;
+              const marker = L.marker([coord.lat, coord.lon], { icon, zIndexOffset: finalZIndex, draggable: isMovable })
                   .addTo(featureGroupRef.current);
+              if (isMovable) {
+                  marker.on('dragend', () => {
+                      const { lat, lng } = marker.getLatLng();
+                      contextValueRef.current.handleSetJobLocation(job.id, { lat, lon: lng });
+                  });
+              }
 
-              const notesLower = (job.notes || '').toLowerCase();
-              const tagsList: string[] = [];
-              
-              TAG_KEYWORDS.forEach((keyword: string) => {
-                  if (new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower)) {
-                      tagsList.push(keyword);
-                  }
-              });
-              
-              const storiesMatch = job.notes.match(/\b(\d)S\b/i);
-              if (storiesMatch) tagsList.push(`${storiesMatch[1]} Story`);
-              
-              const sqftMatch = job.notes.match(/\b(\d+)\s*sq\.?\b/i);
-              if (sqftMatch) tagsList.push(`${sqftMatch[1]} sqft`);
-              
-              const ageMatch = job.notes.match(/\b(\d+)\s*yrs\b/i);
-              if (ageMatch) tagsList.push(`${ageMatch[1]}yrs`);
+              const tagsList: string[] = [...getJobTags(attributes)];
+              if (attributes.stories !== undefined) tagsList.push(`${attributes.stories} Story`);
+              if (attributes.sqft !== undefined) tagsList.push(`${attributes.sqft} sqft`);
+              if (attributes.roofAgeYears !== undefined) tagsList.push(`${attributes.roofAgeYears}yrs`);
 
               const tagsString = tagsList.join(', ');
 
@@ -342,7 +361,7 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
                   toolTipContent = `
                     <div style="text-align: center; line-height: 1.3; min-width: 120px;">
                         <div style="font-weight: bold; font-size: 11px; color: #4b5563; text-transform: uppercase; margin-bottom: 2px;">${timeLabel}</div>
-                        <div style="font-weight: 800; font-size: 13px; color: #111; margin-bottom: 1px;">${job.customerName}</div>
+                        <div style="font-weight: 800; font-size: 13px; color: #111; margin-bottom: 1px;">${getJobLabel(job)}</div>
                         <div style="font-size: 10px; color: #6b7280; margin-bottom: 4px;">${job.address}</div>
                         
                         ${tagsString ? `
@@ -443,7 +462,7 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
 
       return () => clearTimeout(timer);
 
-  }, [effectiveRouteInfo, jobs, mapType, mappableJobs, preloadedRouteInfo, hoveredJobId]); 
+  }, [effectiveRouteInfo, jobs, mapType, mappableJobs, preloadedRouteInfo, hoveredJobId, allowPinEditing, isMovingPins]); 
   // Note: Removed handlers from dependency array as they are stable from contextRef
 
   return (
@@ -459,6 +478,34 @@ const LeafletMap: React.FC<LeafletMapProps> = ({ jobs, routeInfo: preloadedRoute
           {error}
         </div>
       )}
+      {allowPinEditing && (
+        <div className="absolute bottom-2 left-2 right-2 z-20 flex flex-col items-start gap-2 pointer-events-none">
+          {placingJob && (
+            <div className="pointer-events-auto bg-indigo-600 text-white text-xs font-semibold px-3 py-2 rounded-md shadow-lg flex items-center gap-3">
+              <span>Click the map where {getJobLabel(placingJob)} is</span>
+              <button onClick={() => setPinPlacementJobId(null)} className="underline opacity-80 hover:opacity-100">Cancel</button>
+            </div>
+          )}
+          {pinAddressSuggestion && (
+            <div className="pointer-events-auto bg-white border border-indigo-200 text-xs px-3 py-2 rounded-md shadow-lg max-w-full">
+              <p className="text-gray-600">Pinned <span className="font-semibold text-gray-800">{pinAddressSuggestion.address}</span>. The map has this address there:</p>
+              <p className="font-semibold text-indigo-700 truncate">{pinAddressSuggestion.suggestedAddress}</p>
+              <div className="flex gap-2 mt-1">
+                <button onClick={handleApplyPinAddressSuggestion} className="px-2 py-0.5 font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded">Use This Address</button>
+                <button onClick={() => setPinAddressSuggestion(null)} className="px-2 py-0.5 font-semibold text-gray-600 hover:bg-gray-100 rounded">Keep Current</button>
+              </div>
+            </div>
+          )}
+          <button
+            onClick={() => setIsMovingPins(prev => !prev)}
+            className={`pointer-events-auto flex items-center gap-1.5 px-2.5 py-1 text-xs font-bold rounded-md shadow-md border transition-colors ${isMovingPins ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+            title="Drag a marker to where the job really is; the address is pinned there"
+          >
+            <MapPinIcon className="h-3.5 w-3.5" />
+            {isMovingPins ? 'Done Moving Pins' : 'Move Pins'}
+          </button>
+        </div>
+      )}
       <div ref={mapContainerRef} className="w-full h-full z-10" />
     </div>
   );
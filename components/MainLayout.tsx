@@ -1,6 +1,6 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { DragHandleIcon, WarningIcon, SummaryIcon, SaveIcon, UploadIcon, UndoIcon, RedoIcon, UserIcon, TagIcon, BrainIcon, RepairIcon, RescheduleIcon } from './icons';
+import { DragHandleIcon, WarningIcon, SummaryIcon, SaveIcon, UploadIcon, UndoIcon, RedoIcon, UserIcon, TagIcon, BrainIcon, RepairIcon, RescheduleIcon, ClockIcon, SheetIcon, SettingsIcon, MessageIcon, MapPinIcon } from './icons';
 import DayTabs from './DayTabs';
 import SchedulesPanel from './SchedulesPanel';
 import JobsPanel from './JobsPanel';
@@ -14,8 +14,18 @@ import RepSettingsModal from './RepSettingsModal';
 import TrainingDataModal from './TrainingDataModal';
 import NeedsDetailsModal from './NeedsDetailsModal';
 import NeedsRescheduleModal from './NeedsRescheduleModal';
-import { TAG_KEYWORDS } from '../constants';
-import { Job } from '../types';
+import RestoreSessionModal from './RestoreSessionModal';
+import AutosavesModal from './AutosavesModal';
+import SheetWriteBackModal from './SheetWriteBackModal';
+import SheetLayoutModal from './SheetLayoutModal';
+import CustomerMessagesModal from './CustomerMessagesModal';
+import WeekBoardModal from './WeekBoardModal';
+import DuplicateJobsModal from './DuplicateJobsModal';
+import GeocodeCacheModal from './GeocodeCacheModal';
+import RouteOptimizationModal from './RouteOptimizationModal';
+import AssignmentComparisonModal from './AssignmentComparisonModal';
+import { getJobAttributes, countJobDetails } from '../services/jobAttributes';
+import { isJobSchedulable } from '../services/jobStatus';
 
 const MIN_COLUMN_PERCENTAGE = 10;
 type ColumnId = 'schedules' | 'jobs' | 'routes';
@@ -66,6 +76,13 @@ const MainLayout: React.FC = () => {
   const [isNeedsDetailsOpen, setIsNeedsDetailsOpen] = useState(false);
   const [isNeedsRescheduleOpen, setIsNeedsRescheduleOpen] = useState(false);
   const [isAiPopupOpen, setIsAiPopupOpen] = useState(false);
+  const [isAutosavesOpen, setIsAutosavesOpen] = useState(false);
+  const [isSheetWriteBackOpen, setIsSheetWriteBackOpen] = useState(false);
+  const [isSheetLayoutOpen, setIsSheetLayoutOpen] = useState(false);
+  const [isCustomerMessagesOpen, setIsCustomerMessagesOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isWeekBoardOpen, setIsWeekBoardOpen] = useState(false);
+  const [isGeocodeCacheOpen, setIsGeocodeCacheOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -189,18 +206,7 @@ const MainLayout: React.FC = () => {
 
   // Logic to count jobs needing details for badge
   const needsDetailsCount = useMemo(() => {
-      const countTags = (job: Job) => {
-        const notes = (job.notes || '').toLowerCase();
-        let count = 0;
-        TAG_KEYWORDS.forEach(tag => {
-            if (new RegExp(`\\b${tag.toLowerCase()}\\b`).test(notes)) count++;
-        });
-        if (/\b\d+\s*sq/i.test(notes)) count++;
-        if (/\b\d+\s*yrs\b/i.test(notes)) count++;
-        if (/\b\d+S\b/i.test(notes)) count++;
-        return count;
-      };
-      return context.appState.unassignedJobs.filter(job => countTags(job) <= 1).length;
+      return context.appState.unassignedJobs.filter(job => countJobDetails(getJobAttributes(job)) <= 1).length;
   }, [context.appState.unassignedJobs]);
 
   const jobsNeedingRescheduleCount = useMemo(() => {
@@ -211,7 +217,7 @@ const MainLayout: React.FC = () => {
         if (rep.isOptimized) {
             rep.schedule.forEach(slot => {
                 slot.jobs.forEach(job => {
-                    if (!seenJobIds.has(job.id)) {
+                    if (isJobSchedulable(job) && !seenJobIds.has(job.id)) {
                         count++;
                         seenJobIds.add(job.id);
                     }
@@ -220,7 +226,7 @@ const MainLayout: React.FC = () => {
         } else {
             rep.schedule.forEach(slot => {
                 slot.jobs.forEach(job => {
-                    if (job.originalTimeframe && slot.label) {
+                    if (job.originalTimeframe && slot.label && isJobSchedulable(job)) {
                         const overlaps = doTimesOverlap(job.originalTimeframe, slot.label);
                         if (!overlaps && !seenJobIds.has(job.id)) {
                             count++;
@@ -299,7 +305,7 @@ const MainLayout: React.FC = () => {
 
         {/* Center Section: Date Navigation */}
         <div className="flex-1 flex justify-center px-4">
-            <DayTabs />
+            <DayTabs onOpenWeekBoard={() => setIsWeekBoardOpen(true)} />
         </div>
 
         {/* Right Section: Reports & Tools */}
@@ -357,6 +363,21 @@ const MainLayout: React.FC = () => {
                     <TagIcon className="h-3.5 w-3.5" />
                     <span>Slots</span>
                 </button>
+                <div className="w-px h-4 bg-gray-200 mx-1"></div>
+                 <button onClick={() => setIsCustomerMessagesOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-gray-600 hover:text-indigo-600 hover:bg-white hover:shadow-sm rounded-md transition-all" title="Customer confirmation and reschedule texts">
+                    <MessageIcon className="h-3.5 w-3.5" />
+                    <span>Messages</span>
+                </button>
+                <div className="w-px h-4 bg-gray-200 mx-1"></div>
+                 <button onClick={context.handleDownloadAllDaySheets} disabled={context.isExportingDaySheets} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-gray-600 hover:text-indigo-600 hover:bg-white hover:shadow-sm rounded-md transition-all disabled:opacity-50" title="Download every rep's day sheet as one ZIP">
+                    <SaveIcon className="h-3.5 w-3.5" />
+                    <span>{context.isExportingDaySheets ? 'Building...' : 'Day Sheets'}</span>
+                </button>
+                <div className="w-px h-4 bg-gray-200 mx-1"></div>
+                 <button onClick={() => setIsDuplicatesOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-gray-600 hover:text-indigo-600 hover:bg-white hover:shadow-sm rounded-md transition-all" title="Possible duplicate jobs across the loaded days">
+                    <WarningIcon className={`h-3.5 w-3.5 ${context.duplicateGroups.length > 0 ? 'text-amber-500' : ''}`} />
+                    <span>Duplicates{context.duplicateGroups.length > 0 && ` (${context.duplicateGroups.length})`}</span>
+                </button>
                 <div className="w-px h-4 bg-gray-200 mx-1"></div>
                  <button onClick={() => setIsTrainingDataOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 hover:shadow-sm rounded-md transition-all" title="View Training Data">
                     <BrainIcon className="h-3.5 w-3.5" />
@@ -372,6 +393,21 @@ const MainLayout: React.FC = () => {
                 <button onClick={handleLoadClick} className="group p-2 rounded-full hover:bg-indigo-50 transition relative" title="Load State">
                     <UploadIcon className="h-5 w-5 text-gray-400 group-hover:text-indigo-600 transition-colors" />
                 </button>
+                <button onClick={() => setIsSheetWriteBackOpen(true)} disabled={context.usingMockData} className="group p-2 rounded-full hover:bg-emerald-50 transition relative disabled:opacity-30" title="Write Schedule to Sheet">
+                    <SheetIcon className="h-5 w-5 text-gray-400 group-hover:text-emerald-600 transition-colors" />
+                </button>
+                <button onClick={() => setIsSheetLayoutOpen(true)} className="group p-2 rounded-full hover:bg-indigo-50 transition relative" title="Sheet Layout & Layout Check">
+                    <SettingsIcon className="h-5 w-5 text-gray-400 group-hover:text-indigo-600 transition-colors" />
+                    {!!context.layoutCheckReport?.changedReps.length && (
+                        <span className="absolute top-1 right-1 h-2 w-2 rounded-full bg-amber-500"></span>
+                    )}
+                </button>
+                <button onClick={() => setIsAutosavesOpen(true)} className="group p-2 rounded-full hover:bg-indigo-50 transition relative" title="Autosaves">
+                    <ClockIcon className="h-5 w-5 text-gray-400 group-hover:text-indigo-600 transition-colors" />
+                </button>
+                <button onClick={() => setIsGeocodeCacheOpen(true)} className="group p-2 rounded-full hover:bg-indigo-50 transition relative" title="Geocode Cache & Pinned Addresses">
+                    <MapPinIcon className="h-5 w-5 text-gray-400 group-hover:text-indigo-600 transition-colors" />
+                </button>
             </div>
 
             <div className="h-8 w-px bg-gray-200"></div>
@@ -407,6 +443,20 @@ const MainLayout: React.FC = () => {
         <TrainingDataModal isOpen={isTrainingDataOpen} onClose={() => setIsTrainingDataOpen(false)} />
         <NeedsDetailsModal isOpen={isNeedsDetailsOpen} onClose={() => setIsNeedsDetailsOpen(false)} />
         <NeedsRescheduleModal isOpen={isNeedsRescheduleOpen} onClose={() => setIsNeedsRescheduleOpen(false)} />
+        <AutosavesModal isOpen={isAutosavesOpen} onClose={() => setIsAutosavesOpen(false)} />
+        <SheetWriteBackModal isOpen={isSheetWriteBackOpen} onClose={() => setIsSheetWriteBackOpen(false)} />
+        <SheetLayoutModal isOpen={isSheetLayoutOpen} onClose={() => setIsSheetLayoutOpen(false)} />
+        <CustomerMessagesModal isOpen={isCustomerMessagesOpen} onClose={() => setIsCustomerMessagesOpen(false)} />
+        <DuplicateJobsModal
+            isOpen={isDuplicatesOpen || !!context.duplicateMergeGroupId}
+            onClose={() => { setIsDuplicatesOpen(false); context.setDuplicateMergeGroupId(null); }}
+            focusGroupId={context.duplicateMergeGroupId}
+        />
+        <WeekBoardModal isOpen={isWeekBoardOpen} onClose={() => setIsWeekBoardOpen(false)} />
+        <GeocodeCacheModal isOpen={isGeocodeCacheOpen} onClose={() => setIsGeocodeCacheOpen(false)} />
+        <RouteOptimizationModal />
+        <AssignmentComparisonModal />
+        <RestoreSessionModal />
         
         <AiAssistantPopup 
             isOpen={isAiPopupOpen}
@@ -414,6 +464,9 @@ const MainLayout: React.FC = () => {
             thoughts={context.aiThoughts}
             isThinking={context.isAiAssigning}
             title="AI Assignment Assistant"
+            report={context.aiValidationReport}
+            onRepair={context.handleRepairAiAssignments}
+            slots={context.appState.settings.timeSlots}
         />
         
         <RepSettingsModal
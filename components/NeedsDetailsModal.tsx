@@ -3,8 +3,7 @@ import React, { useMemo } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { JobCard } from './JobCard';
 import { XIcon, RepairIcon } from './icons';
-import { Job } from '../types';
-import { TAG_KEYWORDS } from '../constants';
+import { getJobAttributes, countJobDetails } from '../services/jobAttributes';
 
 interface NeedsDetailsModalProps {
     isOpen: boolean;
@@ -20,23 +19,9 @@ const NeedsDetailsModal: React.FC<NeedsDetailsModalProps> = ({ isOpen, onClose }
         setDraggedJob
     } = useAppContext();
 
-    const countTags = (job: Job) => {
-        const notes = (job.notes || '').toLowerCase();
-        let count = 0;
-        // Check keywords (Tile, Shingle, etc)
-        TAG_KEYWORDS.forEach(tag => {
-            if (new RegExp(`\\b${tag.toLowerCase()}\\b`).test(notes)) count++;
-        });
-        // Check numeric patterns
-        if (/\b\d+\s*sq/i.test(notes)) count++; // sqft
-        if (/\b\d+\s*yrs\b/i.test(notes)) count++; // age
-        if (/\b\d+S\b/i.test(notes)) count++; // stories
-        return count;
-    };
-
     const jobsNeedingDetails = useMemo(() => {
         // Filter from Unassigned Jobs
-        return appState.unassignedJobs.filter(job => countTags(job) <= 1);
+        return appState.unassignedJobs.filter(job => countJobDetails(getJobAttributes(job)) <= 1);
     }, [appState.unassignedJobs]);
 
     if (!isOpen) return null;
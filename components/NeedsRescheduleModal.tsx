@@ -2,6 +2,9 @@ import React, { useMemo, useState } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { XIcon, RescheduleIcon, ClipboardIcon } from './icons';
 import { Rep, DisplayJob } from '../types';
+import { getJobStatus, isJobSchedulable } from '../services/jobStatus';
+import { getCustomerName } from '../services/customerContact';
+import { renderMessage, formatMessageDate, cleanRepName, MessageValues } from '../services/messageTemplates';
 
 interface NeedsRescheduleModalProps {
     isOpen: boolean;
@@ -40,7 +43,7 @@ const doTimesOverlap = (t1: string | undefined, t2: string | undefined): boolean
 
 
 const NeedsRescheduleModal: React.FC<NeedsRescheduleModalProps> = ({ isOpen, onClose }) => {
-    const { appState, handleUpdateJob } = useAppContext();
+    const { appState, selectedDate, messageTemplates, handleUpdateJob, handleSetJobStatus } = useAppContext();
     const [copySuccess, setCopySuccess] = useState<{ id: string; type: 'agreed' | 'voicemail' | 'text' } | null>(null);
 
     const jobsNeedingReschedule = useMemo(() => {
@@ -53,7 +56,8 @@ const NeedsRescheduleModal: React.FC<NeedsRescheduleModalProps> = ({ isOpen, onC
                     // Optimized jobs have `timeSlotLabel` on the job object. Manual jobs use the slot's label.
                     const scheduledTimeLabel = job.timeSlotLabel || slot.label;
                     
-                    if (job.originalTimeframe && scheduledTimeLabel) {
+                    // Completed and no-show jobs are past rescheduling.
+                    if (job.originalTimeframe && scheduledTimeLabel && isJobSchedulable(job)) {
                         const overlaps = doTimesOverlap(job.originalTimeframe, scheduledTimeLabel);
                         if (!overlaps && !seenJobIds.has(job.id)) {
                             // The reason is based on whether the rep's schedule was optimized.
@@ -83,18 +87,27 @@ const NeedsRescheduleModal: React.FC<NeedsRescheduleModalProps> = ({ isOpen, onC
     }, [jobsNeedingReschedule]);
 
     const handleConfirmReschedule = (job: DisplayJob) => {
-        if (job.timeSlotLabel) {
-            // Update originalTimeframe to the new confirmed time, which removes it from this list
+        if (!job.timeSlotLabel) return;
+        if (getJobStatus(job) === 'confirmed') {
+            // Already confirmed for the old time: just record the new one, which removes it from this list
             handleUpdateJob(job.id, { originalTimeframe: job.timeSlotLabel });
+        } else {
+            // Confirming also sets originalTimeframe to the booked slot
+            handleSetJobStatus(job.id, 'confirmed');
         }
     };
 
-    const handleCopyNote = (job: DisplayJob, type: 'agreed' | 'voicemail') => {
-        const originalTime = job.originalTimeframe || 'N/A';
-        const newTime = job.timeSlotLabel || 'N/A';
-        const message = type === 'agreed'
-            ? `Called to reschedule from ${originalTime} to optimized time ${newTime}. Customer agreed to reschedule.`
-            : `Called to reschedule from ${originalTime} to optimized time ${newTime}. Left voicemail about reschedule.`;
+    const messageValues = (job: DisplayJob, repName: string): MessageValues => ({
+        customer: getCustomerName(job) || 'there',
+        rep: cleanRepName(repName),
+        newWindow: job.timeSlotLabel || 'N/A',
+        oldWindow: job.originalTimeframe || 'N/A',
+        date: formatMessageDate(selectedDate),
+    });
+
+    const handleCopyNote = (job: DisplayJob, repName: string, type: 'agreed' | 'voicemail') => {
+        const template = type === 'agreed' ? messageTemplates.rescheduleAgreed : messageTemplates.rescheduleVoicemail;
+        const message = renderMessage(template, messageValues(job, repName));
 
         navigator.clipboard.writeText(message).then(() => {
             setCopySuccess({ id: job.id, type });
@@ -105,11 +118,8 @@ const NeedsRescheduleModal: React.FC<NeedsRescheduleModalProps> = ({ isOpen, onC
         });
     };
 
-    const handleCopyTextEmail = (job: DisplayJob) => {
-        const customerName = job.customerName; // This is the city, but it's what's available
-        const originalTime = job.originalTimeframe || 'your originally requested time';
-        const newTime = job.timeSlotLabel || 'the new proposed time';
-        const message = `Hi ${customerName},\n\nDue to a scheduling conflict, we've updated your arrival window for tomorrow to ${newTime}. Your original request was for ${originalTime}. Please let us know if this new time works for you. Thank you!`;
+    const handleCopyTextEmail = (job: DisplayJob, repName: string) => {
+        const message = renderMessage(messageTemplates.reschedule, messageValues(job, repName));
         
         navigator.clipboard.writeText(message).then(() => {
             setCopySuccess({ id: job.id, type: 'text' });
@@ -175,7 +185,7 @@ const NeedsRescheduleModal: React.FC<NeedsRescheduleModalProps> = ({ isOpen, onC
                                                     <div className="min-w-0">
                                                         <div className="flex items-center justify-between">
                                                             <div>
-                                                                <p className="text-sm font-bold text-gray-800">{job.city}</p>
+                                                                <p className="text-sm font-bold text-gray-800">{job.city}{getCustomerName(job) && <span className="font-normal text-gray-600"> · {getCustomerName(job)}</span>}{job.phone && <span className="font-normal text-gray-500"> · {job.phone}</span>}</p>
                                                                 <p className="text-xs text-gray-500 truncate">{job.address}</p>
                                                             </div>
                                                             <span className={`ml-4 text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap ${
@@ -193,21 +203,21 @@ const NeedsRescheduleModal: React.FC<NeedsRescheduleModalProps> = ({ isOpen, onC
                                                     {/* Copy Actions */}
                                                     <div className="flex flex-col gap-2 w-36">
                                                         <button
-                                                            onClick={() => handleCopyTextEmail(job)}
+                                                            onClick={() => handleCopyTextEmail(job, repName)}
                                                             className={`flex items-center justify-center gap-1.5 text-[10px] font-semibold px-2.5 py-1.5 rounded-md border text-gray-600 bg-white hover:bg-gray-50 transition shadow-sm w-full ${copySuccess?.id === job.id && copySuccess.type === 'text' ? 'bg-green-100 text-green-700 border-green-200' : ''}`}
                                                         >
                                                              <ClipboardIcon className="h-3 w-3" />
                                                             {copySuccess?.id === job.id && copySuccess.type === 'text' ? 'Copied!' : 'Copy Text/Email'}
                                                         </button>
                                                         <button
-                                                            onClick={() => handleCopyNote(job, 'agreed')}
+                                                            onClick={() => handleCopyNote(job, repName, 'agreed')}
                                                             className={`flex items-center justify-center gap-1.5 text-[10px] font-semibold px-2.5 py-1.5 rounded-md border text-gray-600 bg-white hover:bg-gray-50 transition shadow-sm w-full ${copySuccess?.id === job.id && copySuccess.type === 'agreed' ? 'bg-green-100 text-green-700 border-green-200' : ''}`}
                                                         >
                                                              <ClipboardIcon className="h-3 w-3" />
                                                             {copySuccess?.id === job.id && copySuccess.type === 'agreed' ? 'Copied!' : 'Copy "Agreed"'}
                                                         </button>
                                                         <button
-                                                            onClick={() => handleCopyNote(job, 'voicemail')}
+                                                            onClick={() => handleCopyNote(job, repName, 'voicemail')}
                                                             className={`flex items-center justify-center gap-1.5 text-[10px] font-semibold px-2.5 py-1.5 rounded-md border text-gray-600 bg-white hover:bg-gray-50 transition shadow-sm w-full ${copySuccess?.id === job.id && copySuccess.type === 'voicemail' ? 'bg-green-100 text-green-700 border-green-200' : ''}`}
                                                         >
                                                             <ClipboardIcon className="h-3 w-3" />
@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { Job, ParsedTextResult, ParsedTextLine } from '../types';
+import { getJobFieldErrors } from '../services/jobImport';
+import { parseJobAttributes } from '../services/jobAttributes';
+import { mapTimeframeToSlotId } from '../services/timeSlots';
+import { LoadingIcon, ProcessIcon, WarningIcon } from './icons';
+
+interface ParseReviewProps {
+    result: ParsedTextResult;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+interface ReviewFields {
+    customerName: string;
+    address: string;
+    city: string;
+    zipCode: string;
+    timeframe: string;
+    notes: string; // Without the "(Rep: ...)" marker, which is re-added for the chosen rep
+    repId: string;
+}
+
+interface ReviewRow {
+    line: ParsedTextLine;
+    job?: Job; // The parsed job, for 'job' lines
+    include: boolean;
+    fields: ReviewFields;
+}
+
+const REP_MARKER_REGEX = /\s*\(Rep:\s*([^)]*)\)/;
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const ParseReview: React.FC<ParseReviewProps> = ({ result, onBack, onClose }) => {
+    const { appState, selectedDate, isParsing, handleImportJobs, findIncomingDuplicates, getSlotsForDateKey } = useAppContext();
+    const [dateKey, setDateKey] = useState(result.date || toDateKey(selectedDate));
+    const slots = useMemo(() => getSlotsForDateKey(dateKey), [getSlotsForDateKey, dateKey]);
+
+    // Checked once against the workspace as it was when the text was parsed.
+    const [duplicates] = useState(() => findIncomingDuplicates(result.jobs));
+
+    const [rows, setRows] = useState<ReviewRow[]>(() => result.lines.map(line => {
+        const job = line.jobId ? result.jobs.find(j => j.id === line.jobId) : undefined;
+        if (!job) {
+            // Skipped lines start out as their raw text in the address field, ready to fix.
+            return { line, include: false, fields: { customerName: '', address: line.text, city: '', zipCode: '', timeframe: line.timeframe || '', notes: '', repId: '' } };
+        }
+        const assignment = result.assignments.find(a => a.jobId === job.id);
+        const markedRepName = job.notes.match(REP_MARKER_REGEX)?.[1]?.trim();
+        const repId = assignment?.repId || appState.reps.find(rep => rep.name === markedRepName)?.id || '';
+        return {
+            line, job, include: !duplicates.has(job.id),
+            fields: {
+                customerName: job.customerName,
+                address: job.address,
+                city: job.city || '',
+                zipCode: job.zipCode || '',
+                timeframe: job.originalTimeframe || '',
+                notes: job.notes.replace(REP_MARKER_REGEX, '').trim(),
+                repId,
+            },
+        };
+    }));
+
+    const updateRow = (lineNumber: number, update: Partial<ReviewFields> | { include: boolean }) => {
+        setRows(prev => prev.map(row => row.line.lineNumber !== lineNumber ? row
+            : 'include' in update ? { ...row, include: update.include } : { ...row, fields: { ...row.fields, ...update } }));
+    };
+
+    const review = useMemo(() => rows.map(row => {
+        const errors = row.include ? getJobFieldErrors(row.fields.address, row.fields.city) : [];
+        const slotId = row.fields.repId && row.fields.timeframe ? mapTimeframeToSlotId(row.fields.timeframe, slots) : null;
+        return { row, errors, slotId };
+    }), [rows, slots]);
+
+    const jobLines = review.filter(({ row }) => row.line.kind === 'job' || row.line.kind === 'skipped');
+    const ready = jobLines.filter(({ row, errors }) => row.include && errors.length === 0);
+    const blocked = jobLines.filter(({ row, errors }) => row.include && errors.length > 0).length;
+    const skipped = jobLines.filter(({ row }) => !row.include).length;
+
+    const handleCommit = () => {
+        const jobs: Job[] = [];
+        const assignments: { jobId: string, repId: string, slotId: string }[] = [];
+        ready.forEach(({ row, slotId }, i) => {
+            const { fields } = row;
+            const rep = appState.reps.find(r => r.id === fields.repId);
+            const notes = rep ? `${fields.notes} (Rep: ${rep.name})`.trim() : fields.notes;
+            const job: Job = {
+                ...(row.job || { id: `job-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 9)}` }),
+                customerName: fields.customerName.trim(),
+                address: fields.address.trim(),
+                city: fields.city.trim(),
+                zipCode: fields.zipCode.trim() || undefined,
+                originalTimeframe: fields.timeframe.trim() || undefined,
+                notes,
+                attributes: parseJobAttributes(notes),
+            };
+            jobs.push(job);
+            if (rep && slotId) assignments.push({ jobId: job.id, repId: rep.id, slotId });
+        });
+        handleImportJobs(jobs, assignments, onClose, dateKey);
+    };
+
+    const input = (row: ReviewRow, field: keyof ReviewFields, className: string) => (
+        <input
+            value={row.fields[field]}
+            onChange={e => updateRow(row.line.lineNumber, { [field]: e.target.value })}
+            className={`w-full px-1 py-0.5 border border-gray-200 rounded text-[11px] focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 ${className}`}
+        />
+    );
+
+    return (
+        <>
+            <div className="p-6 space-y-3 max-h-[65vh] overflow-y-auto custom-scrollbar">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                        <span className="font-semibold">{result.date ? 'Detected date' : 'No date found. Add to'}</span>
+                        <input type="date" value={dateKey} onChange={e => setDateKey(e.target.value)} className="border border-gray-300 rounded px-2 py-1 text-xs" />
+                    </label>
+                    <p className="text-xs text-gray-500">
+                        <span className="font-semibold text-gray-700">{ready.length}</span> ready
+                        {blocked > 0 && <span className="text-red-600"> · {blocked} need fixing</span>}
+                        {skipped > 0 && <span className="text-amber-700"> · {skipped} left out</span>}
+                    </p>
+                </div>
+
+                <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                    <table className="w-full text-[11px]">
+                        <thead className="bg-gray-50 text-gray-500 text-left">
+                            <tr>
+                                <th className="px-2 py-1">Line</th>
+                                <th className="px-2 py-1">Add</th>
+                                <th className="px-2 py-1">Customer</th>
+                                <th className="px-2 py-1 min-w-[12rem]">Address</th>
+                                <th className="px-2 py-1">City</th>
+                                <th className="px-2 py-1">Zip</th>
+                                <th className="px-2 py-1">Time</th>
+                                <th className="px-2 py-1 min-w-[10rem]">Notes</th>
+                                <th className="px-2 py-1">Rep</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {review.map(({ row, errors, slotId }) => {
+                                const { line } = row;
+                                if (line.kind === 'date' || line.kind === 'timeframe') {
+                                    return (
+                                        <tr key={line.lineNumber} className="border-t border-gray-100 bg-gray-50 text-gray-500">
+                                            <td className="px-2 py-1 font-mono text-gray-400">{line.lineNumber}</td>
+                                            <td colSpan={8} className="px-2 py-1 italic">{line.kind === 'date' ? 'Date' : 'Timeframe'}: {line.text}</td>
+                                        </tr>
+                                    );
+                                }
+                                const isSkipped = line.kind === 'skipped';
+                                return (
+                                    <React.Fragment key={line.lineNumber}>
+                                        <tr className={`border-t border-gray-100 align-top ${errors.length > 0 ? 'bg-red-50' : !row.include ? 'bg-amber-50/60' : ''}`}>
+                                            <td className="px-2 py-1 font-mono text-gray-400">{line.lineNumber}</td>
+                                            <td className="px-2 py-1">
+                                                <input type="checkbox" checked={row.include} onChange={e => updateRow(line.lineNumber, { include: e.target.checked })} className="rounded text-indigo-600" title={isSkipped ? 'Fix this line and add it' : 'Add this job'} />
+                                            </td>
+                                            {row.include ? (
+                                                <>
+                                                    <td className="px-1 py-1">{input(row, 'customerName', 'min-w-[6rem]')}</td>
+                                                    <td className="px-1 py-1">{input(row, 'address', '')}</td>
+                                                    <td className="px-1 py-1">{input(row, 'city', 'min-w-[6rem]')}</td>
+                                                    <td className="px-1 py-1">{input(row, 'zipCode', 'w-14')}</td>
+                                                    <td className="px-1 py-1">{input(row, 'timeframe', 'min-w-[6rem]')}</td>
+                                                    <td className="px-1 py-1">{input(row, 'notes', '')}</td>
+                                                    <td className="px-1 py-1">
+                                                        <select
+                                                            value={row.fields.repId}
+                                                            onChange={e => updateRow(line.lineNumber, { repId: e.target.value })}
+                                                            className="w-full px-1 py-0.5 border border-gray-200 rounded text-[11px] bg-white"
+                                                        >
+                                                            <option value="">Unassigned</option>
+                                                            {appState.reps.map(rep => <option key={rep.id} value={rep.id}>{rep.name}</option>)}
+                                                        </select>
+                                                        {row.fields.repId && (
+                                                            <p className={slotId ? 'text-gray-500' : 'text-amber-700'}>
+                                                                {slotId ? slots.find(s => s.id === slotId)?.label : 'No slot fits the time; stays unassigned'}
+                                                            </p>
+                                                        )}
+                                                    </td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={7} className="px-2 py-1 text-gray-600">
+                                                    <span className="font-mono">{line.text}</span>
+                                                    {isSkipped && <span className="ml-2 text-amber-700 font-semibold">Skipped: {line.reason}</span>}
+                                                </td>
+                                            )}
+                                        </tr>
+                                        {row.job && duplicates.has(row.job.id) && (
+                                            <tr className={row.include ? '' : 'bg-amber-50/60'}>
+                                                <td />
+                                                <td colSpan={8} className="px-2 pb-1 text-amber-700">
+                                                    <span className="flex items-center gap-1"><WarningIcon className="h-3 w-3" /> Possible duplicate of: {duplicates.get(row.job.id)!.join('; ')}</span>
+                                                </td>
+                                            </tr>
+                                        )}
+                                        {errors.length > 0 && (
+                                            <tr className="bg-red-50">
+                                                <td />
+                                                <td colSpan={8} className="px-2 pb-1 text-red-600 font-semibold">
+                                                    <span className="flex items-center gap-1"><WarningIcon className="h-3 w-3" /> {errors.join(' · ')}</span>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-[11px] text-gray-500">Skipped lines are listed with the reason, and possible duplicates start unticked. Tick a line to fix its fields and add it; untick a job to leave it out.</p>
+            </div>
+            <footer className="px-6 py-4 bg-gray-50 border-t flex justify-between rounded-b-xl">
+                <button onClick={onBack} className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition shadow-sm">
+                    Back to Text
+                </button>
+                <button
+                    onClick={handleCommit}
+                    disabled={isParsing || ready.length === 0 || blocked > 0}
+                    className="px-6 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed flex items-center justify-center min-w-[140px] shadow-md hover:shadow-lg transition-all active:scale-95"
+                    title={blocked > 0 ? 'Fix or untick the rows marked in red first' : undefined}
+                >
+                    {isParsing ? <LoadingIcon /> : <ProcessIcon className="h-4 w-4" />}
+                    <span className="ml-2">{isParsing ? 'Adding...' : `Add ${ready.length} Job${ready.length === 1 ? '' : 's'}`}</span>
+                </button>
+            </footer>
+        </>
+    );
+};
+
+export default ParseReview;
@@ -1,43 +1,60 @@
 
 import React, { useState } from 'react';
 import { LoadingIcon, PasteIcon, ProcessIcon, XIcon } from './icons';
+import JobFileImport from './JobFileImport';
+import ParseReview from './ParseReview';
+import { ParsedTextResult } from '../types';
 
 interface PasteJobsModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onParse: (text: string, onComplete: () => void) => Promise<void>;
+    onParse: (text: string) => Promise<ParsedTextResult | null>;
     isParsing: boolean;
 }
 
 const PasteJobsModal: React.FC<PasteJobsModalProps> = ({ isOpen, onClose, onParse, isParsing }) => {
     const [pastedText, setPastedText] = useState('');
+    const [mode, setMode] = useState<'paste' | 'file'>('paste');
+    const [review, setReview] = useState<ParsedTextResult | null>(null);
 
-    const handleParse = () => {
-        onParse(pastedText, () => {
-            setPastedText('');
-            onClose();
-        });
+    const handleParse = async () => {
+        const result = await onParse(pastedText);
+        if (result) setReview(result);
+    };
+
+    const handleAdded = () => {
+        setPastedText('');
+        setReview(null);
+        onClose();
     };
     
     if (!isOpen) return null;
 
     return (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
-            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+            <div className={`bg-white rounded-xl shadow-2xl w-full ${mode === 'file' || review ? 'max-w-6xl' : 'max-w-2xl'} flex flex-col animate-fade-in`} onClick={e => e.stopPropagation()}>
                 <header className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
                     <div className="flex items-center gap-3">
                          <div className="p-2 bg-white rounded-lg shadow-sm border border-gray-200 text-indigo-600">
                             <PasteIcon className="h-5 w-5" />
                         </div>
                         <div>
-                            <h2 className="text-lg font-bold text-gray-800">Paste Job Information</h2>
-                            <p className="text-xs text-gray-500">Import jobs from spreadsheet, email, or text</p>
+                            <h2 className="text-lg font-bold text-gray-800">{mode === 'file' ? 'Import Job File' : review ? 'Review Parsed Jobs' : 'Paste Job Information'}</h2>
+                            <p className="text-xs text-gray-500">{mode === 'file' ? 'Import a CRM export with one job per row' : review ? 'Check every pasted line before the jobs are added' : 'Import jobs from spreadsheet, email, or text'}</p>
                         </div>
                     </div>
-                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1 rounded-full hover:bg-gray-200 transition">
-                        <XIcon className="h-6 w-6" />
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <div className="flex bg-gray-200 rounded-lg p-0.5 text-xs font-semibold">
+                            <button onClick={() => setMode('paste')} className={`px-3 py-1 rounded-md ${mode === 'paste' ? 'bg-white shadow-sm text-indigo-700' : 'text-gray-600'}`}>Paste Text</button>
+                            <button onClick={() => setMode('file')} className={`px-3 py-1 rounded-md ${mode === 'file' ? 'bg-white shadow-sm text-indigo-700' : 'text-gray-600'}`}>Import File</button>
+                        </div>
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1 rounded-full hover:bg-gray-200 transition">
+                            <XIcon className="h-6 w-6" />
+                        </button>
+                    </div>
                 </header>
+                {mode === 'file' ? <JobFileImport onClose={onClose} />
+                    : review ? <ParseReview result={review} onBack={() => setReview(null)} onClose={handleAdded} /> : <>
                 <div className="p-6">
                     <label className="block text-sm font-semibold text-gray-700 mb-2">Job Data</label>
                     <div className="relative">
@@ -67,9 +84,10 @@ const PasteJobsModal: React.FC<PasteJobsModalProps> = ({ isOpen, onClose, onPars
                         className="px-6 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed flex items-center justify-center min-w-[140px] shadow-md hover:shadow-lg transition-all active:scale-95"
                     >
                         {isParsing ? <LoadingIcon /> : <ProcessIcon className="h-4 w-4" />}
-                        <span className="ml-2">{isParsing ? 'Processing...' : 'Process Jobs'}</span>
+                        <span className="ml-2">{isParsing ? 'Processing...' : 'Review Jobs'}</span>
                     </button>
                 </footer>
+                </>}
             </div>
         </div>
     );
@@ -2,7 +2,9 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { DisplayJob, RouteInfo, ItineraryItem } from '../types';
 import { geocodeAddresses, fetchRoute, Coordinates } from '../services/osmService';
-import { haversineDistance } from '../services/geography';
+import { planRepDay } from '../services/itinerary';
+import { getHomeZipAddress } from '../services/scheduler';
+import { formatClockTime } from '../services/timeSlots';
 import LeafletMap from './LeafletMap';
 import { LoadingIcon, ErrorIcon, OptimizeIcon, ClipboardIcon, ChevronDownIcon, ChevronUpIcon, MessageIcon } from './icons';
 import { useAppContext } from '../context/AppContext';
@@ -12,43 +14,8 @@ interface RepRouteCardProps {
     jobs: DisplayJob[];
 }
 
-const parseTimeRange = (timeStr: string | undefined): { start: number, end: number } | null => {
-    if (!timeStr) return null;
-    // Matches "7:30am", "10am", "7:30am - 9am"
-    const parts = timeStr.split('-').map(s => s.trim());
-    
-    const parseTime = (t: string) => {
-        const match = t.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-        if (!match) return 0;
-        let h = parseInt(match[1]);
-        const m = parseInt(match[2] || '0');
-        const p = match[3]?.toLowerCase();
-        if (p === 'pm' && h < 12) h += 12;
-        if (p === 'am' && h === 12) h = 0;
-        // Simple heuristic if AM/PM missing: 7-11 is AM, 1-6 is PM (unless 12)
-        if (!p) {
-            if (h >= 1 && h <= 6) h += 12;
-        }
-        return h * 60 + m;
-    };
-
-    if (parts.length >= 2) {
-        return { start: parseTime(parts[0]), end: parseTime(parts[1]) };
-    }
-    return null;
-};
-
-const doTimesOverlap = (t1: string | undefined, t2: string | undefined): boolean => {
-    const r1 = parseTimeRange(t1);
-    const r2 = parseTimeRange(t2);
-    if (!r1 || !r2) return true; // Cannot determine, assume valid/overlap to avoid false alarm
-    
-    // Standard overlap check: StartA < EndB && StartB < EndA
-    return r1.start < r2.end && r2.start < r1.end;
-};
-
 const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
-    const { setHoveredJobId, selectedDate, appState } = useAppContext();
+    const { setHoveredJobId, selectedDate, appState, settings } = useAppContext();
     const [orderedJobs, setOrderedJobs] = useState<DisplayJob[]>(jobs);
     const [mappableJobs, setMappableJobs] = useState<DisplayJob[]>([]);
     const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null);
@@ -61,6 +28,7 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
     // Find the rep object to get zip codes
     const rep = useMemo(() => appState.reps.find(r => r.name === repName), [appState.reps, repName]);
     const homeZip = rep?.zipCodes?.[0];
+    const homeAddress = rep ? getHomeZipAddress(rep) : null;
 
     useEffect(() => {
         setOrderedJobs(jobs);
@@ -82,8 +50,8 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
                 const addresses = orderedJobs.map(j => j.address);
                 
                 // Add Home Zip to mapping if available to show start/end
-                if (homeZip) {
-                    addresses.unshift(`${homeZip}, Arizona, USA`);
+                if (homeAddress) {
+                    addresses.unshift(homeAddress);
                 }
 
                 const coordsWithNulls = await geocodeAddresses(addresses);
@@ -94,12 +62,12 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
 
                 // 1. Handle Start Location (Home)
                 let coordIndexOffset = 0;
-                if (homeZip) {
+                if (homeAddress) {
                     const homeResult = coordsWithNulls[0];
                     if (homeResult?.coordinates) {
                         newMappableJobs.push({
                             id: `start-${repName}-${Date.now()}`,
-                            address: `${homeZip}, Arizona, USA`,
+                            address: homeAddress,
                             customerName: 'Start: Home Base',
                             city: homeZip,
                             notes: 'Route Start',
@@ -124,12 +92,12 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
                 });
                 
                 // 3. Handle End Location (Home - Round Trip)
-                if (homeZip && validCoords.length > 0) {
+                if (homeAddress && validCoords.length > 0) {
                      const homeResult = coordsWithNulls[0]; // Re-use start coord
                      if (homeResult?.coordinates) {
                         newMappableJobs.push({
                             id: `end-${repName}-${Date.now()}`,
-                            address: `${homeZip}, Arizona, USA`,
+                            address: homeAddress,
                             customerName: 'End: Home Base',
                             city: homeZip,
                             notes: 'Route End',
@@ -145,7 +113,7 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
                 setMappableJobs(newMappableJobs);
 
                 if (validCoords.length < orderedJobs.length) {
-                    const missingCount = orderedJobs.length - (validCoords.length - (homeZip ? 2 : 0)); // Adjust count for home zip points
+                    const missingCount = orderedJobs.length - (validCoords.length - (homeAddress ? 2 : 0)); // Adjust count for home zip points
                     if (missingCount > 0) {
                         setError(`Could not locate ${missingCount} address${missingCount > 1 ? 'es' : ''}. Route may be incomplete.`);
                     }
@@ -178,127 +146,22 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
             }
         };
         calculateRoute();
-    }, [orderedJobs, homeZip, repName]);
+    }, [orderedJobs, homeZip, homeAddress, repName]);
 
     const handleOptimize = async () => {
         if (orderedJobs.length <= 1) return;
         setIsLoading(true);
 
-        // 1. Determine Drive Buffer based on job count
-        const jobCount = orderedJobs.length;
-        let driveBufferMinutes = 30;
-        if (jobCount === 4) driveBufferMinutes = 60;
-        if (jobCount <= 3) driveBufferMinutes = 90;
-
-        // 2. Group by Original Timeframe
-        const getSortableHour = (timeString: string | undefined): number => {
-            if (!timeString) return 99;
-            const match = timeString.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-            if (!match) return 99;
-            let hour = parseInt(match[1], 10);
-            const period = match[3]?.toLowerCase();
-            if (period === 'pm' && hour < 12) hour += 12;
-            if (period === 'am' && hour === 12) hour = 0;
-            return hour;
-        };
-
-        const buckets: Record<number, DisplayJob[]> = {};
-        orderedJobs.forEach(job => {
-            const h = getSortableHour(job.originalTimeframe);
-            if (!buckets[h]) buckets[h] = [];
-            buckets[h].push(job);
-        });
-
-        const sortedHours = Object.keys(buckets).map(Number).sort((a, b) => a - b);
-        const optimizedJobs: DisplayJob[] = [];
-
-        const coordsWithNulls = await geocodeAddresses(orderedJobs.map(j => j.address));
-        const jobCoordMap = new Map<string, Coordinates>();
-        orderedJobs.forEach((job, index) => {
-            const result = coordsWithNulls[index];
-            if (result?.coordinates) {
-                jobCoordMap.set(job.id, result.coordinates);
-            }
-        });
-
-        // Start from Home Base if available
-        let currentRefCoord: Coordinates | undefined = undefined; 
-        if (homeZip) {
-             const homeResult = await geocodeAddresses([`${homeZip}, Arizona, USA`]);
-             if (homeResult[0]?.coordinates) {
-                 currentRefCoord = homeResult[0].coordinates;
-             }
-        }
-
-        for (const h of sortedHours) {
-            let unvisited = [...buckets[h]];
-            
-            while (unvisited.length > 0) {
-                let nearestIndex = 0; // Default to first
-                let minDistance = Infinity;
-
-                if (currentRefCoord) {
-                    unvisited.forEach((job, index) => {
-                        const coord = jobCoordMap.get(job.id);
-                        if(coord) {
-                            const distance = haversineDistance(currentRefCoord!, coord);
-                            if (distance < minDistance) {
-                                minDistance = distance;
-                                nearestIndex = index;
-                            }
-                        }
-                    });
-                }
-
-                const [nextJob] = unvisited.splice(nearestIndex, 1);
-                optimizedJobs.push(nextJob);
-                
-                const nextCoord = jobCoordMap.get(nextJob.id);
-                if (nextCoord) currentRefCoord = nextCoord;
-            }
-        }
-
-        // 3. Generate Itinerary
-        const generatedItinerary: ItineraryItem[] = [];
-        let currentTime = new Date();
-        currentTime.setHours(7, 30, 0, 0); // Start at 7:30 AM
-
-        const JOB_DURATION_MINUTES = 90; // 1.5 hours
-
-        // Helper to format time
-        const formatTime = (date: Date) => {
-            return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-        };
+        // Same order, start point and itinerary as the rep's day sheet
+        const { jobs: optimizedJobs, items: generatedItinerary } = await planRepDay(orderedJobs, rep, settings);
 
         // Update time labels for the map and ordered jobs list
         const jobsWithUpdatedTimes = optimizedJobs.map(job => {
-             const startStr = currentTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }).toLowerCase().replace(/\s/g, '');
-             
-             const jobStart = new Date(currentTime);
-             currentTime.setMinutes(currentTime.getMinutes() + JOB_DURATION_MINUTES);
-             const jobEnd = new Date(currentTime);
-             
-             const endStr = currentTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }).toLowerCase().replace(/\s/g, '');
-             const timeSlotLabel = `${startStr}-${endStr}`;
-
-             generatedItinerary.push({
-                type: 'job',
-                timeRange: `${formatTime(jobStart)} - ${formatTime(jobEnd)}`,
-                job: { ...job, timeSlotLabel }, // Use updated label in itinerary display
-                duration: '1h 30m'
-            });
-
-            // Add Dynamic Drive Time
-            currentTime.setMinutes(currentTime.getMinutes() + driveBufferMinutes);
-            
-            // Add drive entry to itinerary
-            generatedItinerary.push({
-                type: 'travel',
-                timeRange: `(~${driveBufferMinutes} mins drive)`,
-                duration: `${driveBufferMinutes}m`
-            });
-
-             return { ...job, timeSlotLabel };
+            const stop = generatedItinerary.find(item => item.type === 'job' && item.job?.id === job.id);
+            if (stop?.startMinutes === undefined || stop.endMinutes === undefined) return job;
+            const timeSlotLabel = `${formatClockTime(stop.startMinutes)}-${formatClockTime(stop.endMinutes)}`;
+            stop.job = { ...job, timeSlotLabel }; // Use updated label in itinerary display
+            return { ...job, timeSlotLabel };
         });
 
         setOrderedJobs(jobsWithUpdatedTimes);
@@ -311,14 +174,14 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
         const waypoints = orderedJobs.map(j => encodeURIComponent(j.address));
         
         // Start and End at Home Zip if available
-        if (homeZip) {
-            const homeAddr = encodeURIComponent(`${homeZip}, Arizona`);
+        if (homeAddress) {
+            const homeAddr = encodeURIComponent(homeAddress);
             waypoints.unshift(homeAddr);
             waypoints.push(homeAddr);
         }
 
         return `https://www.google.com/maps/dir/${waypoints.join('/')}`;
-    }, [orderedJobs, homeZip]);
+    }, [orderedJobs, homeAddress]);
 
     const handleCopyItinerary = () => {
         if (itinerary.length === 0) return;
@@ -333,24 +196,19 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
                 
                 text += `${timeDisplay}: ${item.job.city?.toUpperCase() || 'LOCATION'}`;
                 
-                // Check overlap between Original Request and Scheduled Slot
-                // If they do NOT overlap, show warning.
-                if (item.job.originalTimeframe && item.job.timeSlotLabel) {
-                    const overlaps = doTimesOverlap(item.job.originalTimeframe, item.job.timeSlotLabel);
-                    
-                    if (!overlaps) {
-                        text += ` (Scheduled: ${item.timeRange})`;
-                        text += ` - WARNING: POTENTIAL RESCHEDULE NECESSARY`;
-                    }
+                if (item.warning) {
+                    text += ` (ETA: ${item.timeRange})`;
+                    text += ` - WARNING: POTENTIAL RESCHEDULE NECESSARY`;
                 }
                 text += `\n`;
 
                 text += `${item.job.address}\n`;
+                text += `ETA: ${item.timeRange} (${item.duration} on site)\n`;
                 if (item.job.notes) text += `Notes: ${item.job.notes}\n`;
                 if (item.job.customerName) text += `Customer: ${item.job.customerName}\n`;
                 text += `\n`;
             } else if (item.type === 'lunch') {
-               // No lunch block
+                text += `Lunch: ${item.timeRange}\n\n`;
             } else if (item.type === 'travel') {
                 // Optional: Include drive times in text
             }
@@ -409,19 +267,22 @@ const RepRouteCard: React.FC<RepRouteCardProps> = ({ repName, jobs }) => {
                                                         className="bg-white p-2 rounded border border-gray-200 shadow-sm hover:shadow-md transition-shadow"
                                                     >
                                                         <div className="flex justify-between text-xs font-bold text-indigo-700 mb-1">
-                                                            <span>{item.job.originalTimeframe || item.timeRange}</span>
+                                                            <span>ETA {item.timeRange}</span>
                                                             <span>{item.job.city}</span>
                                                         </div>
+                                                        <div className="text-[10px] text-gray-500 mb-0.5">
+                                                            {item.job.originalTimeframe ? `Requested ${item.job.originalTimeframe} · ` : ''}{item.duration} on site
+                                                        </div>
                                                         <div className="text-gray-800 leading-tight mb-1">{item.job.address}</div>
                                                         {item.job.notes && <div className="text-gray-500 text-xs truncate">{item.job.notes}</div>}
-                                                        {item.job.originalTimeframe && item.job.timeSlotLabel && !doTimesOverlap(item.job.originalTimeframe, item.job.timeSlotLabel) && (
+                                                        {item.warning && (
                                                             <div className="text-[10px] text-red-600 mt-0.5 font-bold">
-                                                                Schedule: {item.timeRange} (Reschedule Needed)
+                                                                {item.warning} (Reschedule Needed)
                                                             </div>
                                                         )}
                                                     </div>
                                                 ) : (
-                                                    <span>{item.type === 'lunch' ? `🍱 LUNCH (${item.duration})` : `🚗 Drive: ${item.duration}`}</span>
+                                                    <span>{item.type === 'lunch' ? `🍱 LUNCH ${item.timeRange} (${item.duration})` : `🚗 ${item.timeRange}`}</span>
                                                 )}
                                             </li>
                                         ))}
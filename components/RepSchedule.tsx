@@ -1,17 +1,19 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { Rep, Job, DisplayJob } from '../types';
-import { ChevronDownIcon, ChevronUpIcon, PinIcon, ClipboardIcon, LockIcon, UnlockIcon, AutoAssignIcon, SwapIcon, OptimizeIcon, UndoIcon, SettingsIcon, TrophyIcon, XIcon, MenuIcon, MessageIcon } from './icons';
+import { ChevronDownIcon, ChevronUpIcon, PinIcon, ClipboardIcon, LockIcon, UnlockIcon, AutoAssignIcon, SwapIcon, OptimizeIcon, UndoIcon, SettingsIcon, TrophyIcon, XIcon, MenuIcon, MessageIcon, SaveIcon } from './icons';
 import { JobCard } from './JobCard';
 import { TAG_KEYWORDS } from '../constants';
+import { getJobAttributes, getJobTags } from '../services/jobAttributes';
+import { getCustomerName } from '../services/customerContact';
 import { useAppContext } from '../context/AppContext';
-import { mapTimeframeToSlotId } from '../services/geminiService';
+import { mapTimeframeToSlotId } from '../services/timeSlots';
 
 interface RepScheduleProps {
   rep: Rep;
   onJobDrop: (jobId: string, target: { repId:string, slotId: string }, e: React.DragEvent<HTMLDivElement>) => void;
   onUnassign: (jobId: string) => void;
   onToggleLock: (repId: string) => void;
-  onUpdateJob: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'address' | 'notes'>) => void;
+  onUpdateJob: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'phone' | 'email' | 'address' | 'notes' | 'attributes'>) => void;
   onRemoveJob: (jobId: string) => void;
   isSelected: boolean;
   onSelectRep: (e: React.MouseEvent) => void;
@@ -40,7 +42,7 @@ interface DropZoneProps {
   draggedJob: Job | null;
   jobs: Job[];
   onUnassign: (jobId: string) => void;
-  onUpdateJob: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'address' | 'notes'>) => void;
+  onUpdateJob: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'phone' | 'email' | 'address' | 'notes' | 'attributes'>) => void;
   onRemoveJob: (jobId: string) => void;
   isOptimized?: boolean;
 }
@@ -309,7 +311,7 @@ const ScoreDetailsModal: React.FC<ScoreDetailsModalProps> = ({ isOpen, onClose,
 
 
 const RepSchedule: React.FC<RepScheduleProps> = ({ rep, onJobDrop, onUnassign, onToggleLock, onUpdateJob, onRemoveJob, isSelected, onSelectRep, selectedDay, isExpanded, onToggleExpansion, draggedOverRepId, onSetDraggedOverRepId, onJobDragStart, onJobDragEnd, draggedJob, isInvalidDropTarget = false, invalidReason = '', isOverrideActive = false, isHighlighted = false }) => {
-  const { appState, isAutoAssigning, isAiAssigning, isParsing, handleAutoAssignForRep, handleOptimizeRepRoute, handleUnoptimizeRepRoute, handleSwapSchedules, handleShowZipOnMap, setRepSettingsModalRepId, selectedDate } = useAppContext();
+  const { appState, isAutoAssigning, isAiAssigning, isParsing, handleAutoAssignForRep, handleOptimizeRepRoute, handleUnoptimizeRepRoute, handleSwapSchedules, handleShowZipOnMap, setRepSettingsModalRepId, selectedDate, isExportingDaySheets, handleDownloadDaySheet } = useAppContext();
   const [isSwapMenuOpen, setIsSwapMenuOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -413,7 +415,7 @@ const RepSchedule: React.FC<RepScheduleProps> = ({ rep, onJobDrop, onUnassign, o
     let targetSlotId = rep.schedule[0].id;
     
     if (draggedJob.originalTimeframe) {
-       const mapped = mapTimeframeToSlotId(draggedJob.originalTimeframe);
+       const mapped = mapTimeframeToSlotId(draggedJob.originalTimeframe, rep.schedule);
        if (mapped) targetSlotId = mapped;
     } else {
         const openSlot = rep.schedule.find(s => !unavailableSlotIdsForToday.has(s.id) && s.jobs.length === 0);
@@ -457,8 +459,7 @@ const RepSchedule: React.FC<RepScheduleProps> = ({ rep, onJobDrop, onUnassign, o
 
   const skillMatchStatus = useMemo(() => {
     if (!isBeingHoveredWithJob || !draggedJob) return 'none';
-    const notesLower = draggedJob.notes.toLowerCase();
-    const jobTags = TAG_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower));
+    const jobTags = getJobTags(getJobAttributes(draggedJob));
     if (jobTags.length === 0) return 'none';
     const primaryTag = jobTags[0];
     const skillLevel = rep.skills?.[primaryTag];
@@ -557,7 +558,8 @@ const RepSchedule: React.FC<RepScheduleProps> = ({ rep, onJobDrop, onUnassign, o
 
           text += `${job.address}\n`;
           if (job.notes) text += `Notes: ${job.notes}\n`;
-          if (job.customerName && job.customerName !== job.city) text += `Customer: ${job.customerName}\n`;
+          if (getCustomerName(job)) text += `Customer: ${getCustomerName(job)}\n`;
+          if (job.phone) text += `Phone: ${job.phone}\n`;
           text += `\n`;
       });
       
@@ -696,6 +698,15 @@ const RepSchedule: React.FC<RepScheduleProps> = ({ rep, onJobDrop, onUnassign, o
                         >
                             <ClipboardIcon className="h-3 w-3 mr-2" /> Google Maps
                         </a>
+
+                        <button
+                            onClick={(e) => { e.stopPropagation(); handleDownloadDaySheet(rep.id); setIsMenuOpen(false); }}
+                            disabled={jobCount === 0 || isExportingDaySheets}
+                            className="w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-gray-100 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Download a phone-friendly HTML page of this rep's stops"
+                        >
+                            <SaveIcon className="h-3 w-3 mr-2" /> Day Sheet
+                        </button>
                         
                         <div className="border-t border-gray-100 my-1"></div>
                         
@@ -1,8 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { Rep, ScoringWeights } from '../types';
+import { Rep, ScoringWeights, TerritoryRule } from '../types';
 import { useAppContext } from '../context/AppContext';
-import { XIcon, SaveIcon, TrophyIcon } from './icons';
+import { TERRITORY_CITY_PRESETS } from '../services/geography';
+import { hasTerritoryRules } from '../services/scheduler';
+import { XIcon, SaveIcon, TrophyIcon, MapPinIcon } from './icons';
+
+const TERRITORY_REGIONS: NonNullable<TerritoryRule['allowedRegions']> = ['PHX', 'NORTH', 'SOUTH'];
+
+const parseCityList = (text: string): string[] => [...new Set(text.split(/[,\n]+/).map(c => c.trim().toLowerCase()).filter(Boolean))];
 
 interface RepSettingsModalProps {
     isOpen: boolean;
@@ -13,12 +19,18 @@ interface RepSettingsModalProps {
 const RepSettingsModal: React.FC<RepSettingsModalProps> = ({ isOpen, onClose, repId }) => {
     const { appState, handleUpdateRep, settings } = useAppContext();
     const [overrides, setOverrides] = useState<Partial<ScoringWeights>>({});
+    const [territory, setTerritory] = useState<TerritoryRule>({});
+    const [allowedCitiesText, setAllowedCitiesText] = useState('');
+    const [forbiddenCitiesText, setForbiddenCitiesText] = useState('');
     
     const rep = appState.reps.find(r => r.id === repId);
 
     useEffect(() => {
         if (rep) {
             setOverrides(rep.scoringOverrides || {});
+            setTerritory(rep.territory || {});
+            setAllowedCitiesText((rep.territory?.allowedCities || []).join(', '));
+            setForbiddenCitiesText((rep.territory?.forbiddenCities || []).join(', '));
         }
     }, [rep, isOpen]);
 
@@ -26,8 +38,15 @@ const RepSettingsModal: React.FC<RepSettingsModalProps> = ({ isOpen, onClose, re
 
     const handleSave = () => {
         if (repId) {
+            const finalTerritory: TerritoryRule = {
+                ...territory,
+                allowedCities: parseCityList(allowedCitiesText),
+                forbiddenCities: parseCityList(forbiddenCitiesText),
+            };
             handleUpdateRep(repId, {
-                scoringOverrides: overrides
+                scoringOverrides: overrides,
+                // A cleared territory is saved as an empty rule so the seed defaults are not re-applied on reload.
+                territory: hasTerritoryRules(finalTerritory) ? finalTerritory : {}
             });
         }
         onClose();
@@ -43,6 +62,18 @@ const RepSettingsModal: React.FC<RepSettingsModalProps> = ({ isOpen, onClose, re
         }));
     };
 
+    const toggleRegion = (region: NonNullable<TerritoryRule['allowedRegions']>[number]) => {
+        setTerritory(prev => {
+            const regions = new Set(prev.allowedRegions || []);
+            regions.has(region) ? regions.delete(region) : regions.add(region);
+            return { ...prev, allowedRegions: TERRITORY_REGIONS.filter(r => regions.has(r)) };
+        });
+    };
+
+    const addCityPreset = (cities: Set<string>) => {
+        setAllowedCitiesText(prev => parseCityList([prev, ...cities].join(',')).join(', '));
+    };
+
     const clearOverride = (key: keyof ScoringWeights) => {
         setOverrides(prev => {
             const next = { ...prev };
@@ -59,7 +90,7 @@ const RepSettingsModal: React.FC<RepSettingsModalProps> = ({ isOpen, onClose, re
                     <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-5 w-5" /></button>
                 </header>
                 
-                <div className="p-6 space-y-6">
+                <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
                     {/* Rank Display */}
                     <div className="bg-amber-50 border border-amber-100 p-3 rounded-lg flex items-center justify-between">
                         <div className="flex items-center gap-2">
@@ -79,6 +110,73 @@ const RepSettingsModal: React.FC<RepSettingsModalProps> = ({ isOpen, onClose, re
                         </div>
                     </div>
 
+                    {/* Territory Rules */}
+                    <div>
+                        <h3 className="text-sm font-bold text-gray-800 mb-3 border-b pb-1 flex items-center gap-1.5"><MapPinIcon className="h-4 w-4 text-indigo-500" /> Territory</h3>
+                        <p className="text-xs text-gray-500 mb-3">Restrict where auto-assign may send this rep. Leave empty to follow the sheet region ({rep.region || 'UNKNOWN'}).</p>
+
+                        <div className="space-y-3">
+                            <div>
+                                <label className="text-xs font-semibold text-gray-700 block mb-1">Allowed Regions</label>
+                                <div className="flex gap-2">
+                                    {TERRITORY_REGIONS.map(region => {
+                                        const isActive = territory.allowedRegions?.includes(region);
+                                        return (
+                                            <button
+                                                key={region}
+                                                onClick={() => toggleRegion(region)}
+                                                className={`px-2.5 py-1 text-xs font-bold rounded-md border transition ${isActive ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-500 border-gray-300 hover:bg-gray-50'}`}
+                                            >
+                                                {region}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+
+                            <label className="flex items-center gap-2 text-xs text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={!!territory.phoenixRequiresOverride}
+                                    onChange={e => setTerritory(prev => ({ ...prev, phoenixRequiresOverride: e.target.checked }))}
+                                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                Phoenix jobs only when "Allow Regional Reps in Phoenix" is on
+                            </label>
+
+                            <div>
+                                <div className="flex justify-between items-center mb-1">
+                                    <label className="text-xs font-semibold text-gray-700">Always Allowed Cities</label>
+                                    <div className="flex gap-1">
+                                        {TERRITORY_CITY_PRESETS.map(preset => (
+                                            <button key={preset.label} onClick={() => addCityPreset(preset.cities)} className="text-[10px] text-indigo-600 hover:underline" title={Array.from(preset.cities).join(', ')}>
+                                                + {preset.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <textarea
+                                    value={allowedCitiesText}
+                                    onChange={e => setAllowedCitiesText(e.target.value)}
+                                    rows={2}
+                                    placeholder="e.g. queen creek, san tan valley"
+                                    className="w-full p-2 text-xs border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="text-xs font-semibold text-gray-700 block mb-1">Forbidden Cities</label>
+                                <textarea
+                                    value={forbiddenCitiesText}
+                                    onChange={e => setForbiddenCitiesText(e.target.value)}
+                                    rows={2}
+                                    placeholder="e.g. mesa, chandler, gilbert"
+                                    className="w-full p-2 text-xs border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                            </div>
+                        </div>
+                    </div>
+
                     {/* Priority Overrides */}
                     <div>
                         <h3 className="text-sm font-bold text-gray-800 mb-3 border-b pb-1">Scoring Overrides</h3>
@@ -1,48 +1,25 @@
 import React, { useMemo, useRef, useState } from 'react';
 import { Rep, Job } from '../types';
-import { TAG_KEYWORDS, TIME_SLOTS } from '../constants';
 import { ClipboardIcon } from './icons';
 import { useAppContext } from '../context/AppContext';
+import { getJobAttributes, getJobTags, getDisplayNotes } from '../services/jobAttributes';
 
 // Helper to extract job type and clean up notes for display
 const getJobDisplayDetails = (job: Job) => {
-    const notesLower = job.notes.toLowerCase();
-    const foundTags = TAG_KEYWORDS.filter(keyword => {
-        const regex = new RegExp(`\\b${keyword.toLowerCase()}\\b`);
-        return regex.test(notesLower);
-    });
+    const attributes = getJobAttributes(job);
+    const foundTags = getJobTags(attributes);
 
     const jobType = foundTags.length > 0 ? foundTags.join('/') : 'Inspection';
     
-    const isGoldJob = job.notes.includes('#');
-    const priorityReasonMatch = job.notes.match(/#\s*\(([^)]+)\)/);
-    const priorityReason = priorityReasonMatch ? `(${priorityReasonMatch[1]})` : '';
+    const isGoldJob = attributes.isPriority;
+    const priorityReason = attributes.priorityReason ? `(${attributes.priorityReason})` : '';
 
-    const ageMatch = job.notes.match(/\b(\d+\s*yrs)\b/i);
-    const roofAge = ageMatch ? ageMatch[0] : null;
+    const roofAge = attributes.roofAgeYears !== undefined ? `${attributes.roofAgeYears} yrs` : null;
+    const sqft = attributes.sqft !== undefined ? `${attributes.sqft}sqft` : null;
+    const stories = attributes.stories !== undefined ? `${attributes.stories} Story` : null;
+    const rescheduleInfo = attributes.rescheduleFrom || null;
 
-    const sqftMatch = job.notes.match(/\b(\d+)\s*sq\.?\b/i);
-    const sqft = sqftMatch ? `${sqftMatch[1]}sqft` : null;
-
-    const storiesMatch = job.notes.match(/\b(\d)S\b/i);
-    const stories = storiesMatch ? `${storiesMatch[1]} Story` : null;
-
-    // Extract reschedule info
-    const rescheduleRegex = /\(Recommended Reschedule from ([^)]+)\)/i;
-    const rescheduleMatch = job.notes.match(rescheduleRegex);
-    const rescheduleInfo = rescheduleMatch ? rescheduleMatch[1] : null;
-
-    // Remove tags and boilerplate text to get clean, human-readable notes
-    let cleanNotes = job.notes;
-    foundTags.forEach(tag => {
-        cleanNotes = cleanNotes.replace(new RegExp(`\\b${tag}\\b`, 'ig'), '').trim();
-    });
-    cleanNotes = cleanNotes
-        .replace(/\(Recommended Reschedule from [^)]+\)/gi, '')
-        .replace(/\(Scheduled: [^)]+\)/gi, '')
-        .replace(/\(\s*\)/g, '') // remove empty parentheses
-        .replace(/^[-,.\s]+|[-,.\s]+$/g, '') // trim lingering separators
-        .trim();
+    const cleanNotes = getDisplayNotes(job.notes);
 
     return { jobType, cleanNotes, rescheduleInfo, isGoldJob, priorityReason, roofAge, sqft, stories };
 };
@@ -140,7 +117,7 @@ const RepSummaryModal: React.FC<RepSummaryModalProps> = ({ isOpen, onClose }) =>
                                     <ul className="space-y-1">
                                         {allJobsForRep.map(job => {
                                             const { jobType, rescheduleInfo, isGoldJob, priorityReason, roofAge, sqft, stories } = getJobDisplayDetails(job);
-                                            const fullAddress = [job.address, job.customerName, `AZ ${job.zipCode || ''}`].filter(Boolean).join(', ');
+                                            const fullAddress = [job.address, job.city, `AZ ${job.zipCode || ''}`].filter(Boolean).join(', ');
                                             const tags = [roofAge, jobType, sqft, stories].filter(Boolean).join(' ');
                                             // Priority: Original Timeframe, then Slot Label
                                             const timeDisplay = job.originalTimeframe || job.timeSlotLabel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useAppContext } from '../context/AppContext';
+import { countWorkspaceJobs } from '../services/workspaceStorage';
+import { RefreshIcon } from './icons';
+
+const RestoreSessionModal: React.FC = () => {
+    const { restoreCandidate, handleRestoreSession, handleDiscardSession } = useAppContext();
+
+    if (!restoreCandidate) return null;
+
+    const jobCount = countWorkspaceJobs(restoreCandidate);
+    const dayKeys = restoreCandidate.activeDayKeys;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-[70]">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md flex flex-col animate-fade-in">
+                <header className="px-5 py-4 border-b flex items-center gap-3 bg-indigo-50 rounded-t-xl">
+                    <div className="p-2 bg-indigo-100 text-indigo-700 rounded-lg border border-indigo-200 shadow-sm">
+                        <RefreshIcon className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Restore previous session?</h2>
+                        <p className="text-xs text-gray-600">Last saved {new Date(restoreCandidate.savedAt).toLocaleString()}</p>
+                    </div>
+                </header>
+
+                <div className="p-5 space-y-2 text-sm text-gray-700">
+                    <p>
+                        Found <span className="font-bold">{jobCount}</span> jobs across <span className="font-bold">{dayKeys.length}</span> day{dayKeys.length === 1 ? '' : 's'}:
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                        {dayKeys.map(key => (
+                            <span key={key} className="text-xs font-mono bg-gray-100 text-gray-700 px-2 py-0.5 rounded">{key}</span>
+                        ))}
+                    </div>
+                    <p className="text-xs text-gray-500 pt-2">Starting fresh keeps this session in the Autosaves list.</p>
+                </div>
+
+                <footer className="px-5 py-3 bg-gray-50 border-t flex justify-end space-x-2 rounded-b-xl">
+                    <button onClick={handleDiscardSession} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Start Fresh</button>
+                    <button onClick={handleRestoreSession} className="px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm">
+                        Restore Session
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default RestoreSessionModal;
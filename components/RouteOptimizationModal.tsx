@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { formatClockTime } from '../services/timeSlots';
+import { getCustomerName, getJobLabel } from '../services/customerContact';
+import { OptimizeIcon, WarningIcon } from './icons';
+
+const formatSaving = (saved: number, unit: string, digits: number) =>
+    saved >= 0 ? `${saved.toFixed(digits)} ${unit} saved` : `${Math.abs(saved).toFixed(digits)} ${unit} added`;
+
+const RouteOptimizationModal: React.FC = () => {
+    const { appState, routeOptimizationPreview, handleAcceptRouteOptimization, handleDiscardRouteOptimization } = useAppContext();
+    // Accepting a plan that drops jobs needs an explicit tick.
+    const [unplacedConfirmed, setUnplacedConfirmed] = useState(false);
+
+    useEffect(() => setUnplacedConfirmed(false), [routeOptimizationPreview]);
+
+    if (!routeOptimizationPreview) return null;
+
+    const { repName, current, plan } = routeOptimizationPreview;
+    const hasUnplaced = plan.unplacedJobs.length > 0;
+    const savedMiles = current.totalMiles - plan.totalMiles;
+    const savedMinutes = current.totalMinutes - plan.totalMinutes;
+    const slotLabel = (slotId: string) => appState.settings.timeSlots.find(s => s.id === slotId)?.label || slotId;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-[60]" onClick={handleDiscardRouteOptimization}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-5 py-4 border-b flex items-center gap-3 bg-teal-50 rounded-t-xl">
+                    <div className="p-2 bg-teal-100 text-teal-700 rounded-lg border border-teal-200 shadow-sm">
+                        <OptimizeIcon className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Optimized route for {repName}</h2>
+                        <p className="text-xs text-gray-600">Home → {plan.stops.length} stop{plan.stops.length === 1 ? '' : 's'} → home, within each customer window</p>
+                    </div>
+                </header>
+
+                <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar text-sm">
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                        <div className="p-3 rounded-lg border border-gray-200 bg-gray-50">
+                            <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Current Order</p>
+                            <p className="font-semibold text-gray-800">{current.totalMiles.toFixed(1)} mi · {Math.round(current.totalMinutes)} min</p>
+                            {hasUnplaced && <p className="text-[10px] text-gray-500">Same {plan.stops.length} stop{plan.stops.length === 1 ? '' : 's'} only</p>}
+                        </div>
+                        <div className="p-3 rounded-lg border border-teal-200 bg-teal-50">
+                            <p className="text-[10px] font-bold text-teal-700 uppercase tracking-wider">Optimized</p>
+                            <p className="font-semibold text-teal-900">{plan.totalMiles.toFixed(1)} mi · {Math.round(plan.totalMinutes)} min</p>
+                        </div>
+                        <div className={`p-3 rounded-lg border ${savedMinutes >= 0 ? 'border-green-200 bg-green-50 text-green-800' : 'border-amber-200 bg-amber-50 text-amber-800'}`}>
+                            <p className="text-[10px] font-bold uppercase tracking-wider">Difference</p>
+                            <p className="font-semibold">{formatSaving(savedMiles, 'mi', 1)}</p>
+                            <p className="text-xs">{formatSaving(savedMinutes, 'min', 0)}</p>
+                        </div>
+                    </div>
+
+                    <table className="w-full text-xs">
+                        <thead className="text-gray-500 border-b">
+                            <tr>
+                                <th className="text-left py-1.5 w-8">#</th>
+                                <th className="text-left py-1.5">Arrive</th>
+                                <th className="text-left py-1.5">Slot</th>
+                                <th className="text-left py-1.5">Customer</th>
+                                <th className="text-left py-1.5">Window</th>
+                                <th className="text-right py-1.5">Drive</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {plan.stops.map((stop, i) => (
+                                <tr key={stop.job.id}>
+                                    <td className="py-1.5 font-bold text-teal-700">{i + 1}</td>
+                                    <td className="py-1.5 font-mono">{formatClockTime(stop.arrivalMinutes)}</td>
+                                    <td className="py-1.5 text-gray-600">{slotLabel(stop.slotId)}</td>
+                                    <td className="py-1.5">
+                                        <span className="font-medium text-gray-800">{getCustomerName(stop.job) || stop.job.address}</span>
+                                        {stop.job.city && <span className="text-gray-500"> · {stop.job.city}</span>}
+                                    </td>
+                                    <td className="py-1.5 text-gray-600">{stop.job.originalTimeframe || '—'}</td>
+                                    <td className="py-1.5 text-right text-gray-600">{Math.round(stop.driveMinutes)} min</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {hasUnplaced && (
+                        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-xs text-amber-800">
+                            <p className="font-semibold flex items-center gap-1.5"><WarningIcon className="h-4 w-4" /> {plan.unplacedJobs.length} job{plan.unplacedJobs.length === 1 ? '' : 's'} cannot be reached inside their window and will return to Unassigned:</p>
+                            <p className="mt-1">{plan.unplacedJobs.map(job => `${getJobLabel(job)}${job.originalTimeframe ? ` (${job.originalTimeframe})` : ''}`).join(', ')}</p>
+                            <p className="mt-1">The mileage above leaves these jobs out of both routes.</p>
+                            <label className="mt-2 flex items-center gap-2 font-semibold cursor-pointer">
+                                <input type="checkbox" checked={unplacedConfirmed} onChange={e => setUnplacedConfirmed(e.target.checked)} className="h-3.5 w-3.5 accent-amber-600" />
+                                Move {plan.unplacedJobs.length === 1 ? 'this job' : 'these jobs'} to Unassigned when accepting
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                <footer className="px-5 py-3 bg-gray-50 border-t flex justify-end space-x-2 rounded-b-xl">
+                    <button onClick={handleDiscardRouteOptimization} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Keep Current Order</button>
+                    <button
+                        onClick={handleAcceptRouteOptimization}
+                        disabled={hasUnplaced && !unplacedConfirmed}
+                        title={hasUnplaced && !unplacedConfirmed ? 'Confirm that the unplaced jobs go back to Unassigned first' : undefined}
+                        className="px-4 py-1.5 text-sm font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Accept Route
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default RouteOptimizationModal;
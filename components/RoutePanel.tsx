@@ -5,7 +5,6 @@ import LeafletMap from './LeafletMap';
 import { ClipboardIcon, LoadingIcon, RefreshIcon, MapPinIcon, VariationsIcon } from './icons';
 import { useAppContext } from '../context/AppContext';
 import { JobCard } from './JobCard';
-import { TIME_SLOTS } from '../constants';
 
 interface RouteMapPanelProps {
     routeData: {
@@ -18,7 +17,7 @@ interface RouteMapPanelProps {
 }
 
 const RouteMapPanel: React.FC<RouteMapPanelProps> = ({ routeData, isLoading }) => {
-    const { handleUpdateJob, handleUnassignJob, handleRemoveJob, handleRefreshRoute, handleShowAllJobsOnMap, handleTryAddressVariations, isTryingVariations } = useAppContext();
+    const { appState, handleUpdateJob, handleUnassignJob, handleRemoveJob, handleRefreshRoute, handleShowAllJobsOnMap, handleTryAddressVariations, isTryingVariations, pinPlacementJobId, setPinPlacementJobId } = useAppContext();
     const [copySuccess, setCopySuccess] = useState(false);
     
     // State for time slot filtering (Single selection now)
@@ -64,14 +63,14 @@ const RouteMapPanel: React.FC<RouteMapPanelProps> = ({ routeData, isLoading }) =
 
             const jobSlotLabel = job.timeSlotLabel;
             // Find the slot definition that matches this job's label
-            const matchedSlot = TIME_SLOTS.find(ts => ts.label === jobSlotLabel);
+            const matchedSlot = appState.settings.timeSlots.find(ts => ts.label === jobSlotLabel);
             
             // If matched, check if IDs match. If not matched (e.g. uncategorized), it's dimmed when a filter is active.
             const isMatch = matchedSlot ? matchedSlot.id === selectedTimeSlotId : false;
             
             return { ...job, isDimmed: !isMatch };
         });
-    }, [routeData, selectedTimeSlotId]);
+    }, [routeData, selectedTimeSlotId, appState.settings.timeSlots]);
 
     const renderHeaderContent = () => {
         if (isLoading) {
@@ -162,7 +161,7 @@ const RouteMapPanel: React.FC<RouteMapPanelProps> = ({ routeData, isLoading }) =
                 {/* Time Slot Filter Bar */}
                 <div className="flex flex-wrap items-center gap-1 mt-1 select-none">
                     <span className="text-[10px] font-bold text-gray-400 uppercase mr-1">Filter Time:</span>
-                    {TIME_SLOTS.map(slot => {
+                    {appState.settings.timeSlots.map(slot => {
                         const isActive = selectedTimeSlotId === slot.id;
                         return (
                             <button
@@ -196,7 +195,7 @@ const RouteMapPanel: React.FC<RouteMapPanelProps> = ({ routeData, isLoading }) =
             </header>
 
             <div className="flex-grow relative bg-gray-200">
-                <LeafletMap jobs={jobsForMap} routeInfo={routeInfoForMap} mapType={mapType} />
+                <LeafletMap jobs={jobsForMap} routeInfo={routeInfoForMap} mapType={mapType} allowPinEditing />
             </div>
             
             {routeData && routeData.unmappableJobs.length > 0 && !isLoading && (
@@ -232,11 +231,17 @@ const RouteMapPanel: React.FC<RouteMapPanelProps> = ({ routeData, isLoading }) =
                                         onUnassign={job.assignedRepName ? handleUnassignJob : undefined}
                                         onRemove={handleRemoveJob}
                                     />
-                                     {job.geocodeError && (
-                                        <div className="px-2 pb-1 text-[10px] text-red-500 font-mono">
-                                            {job.geocodeError}
-                                        </div>
-                                    )}
+                                    <div className="px-2 pb-1 flex items-center justify-between gap-2">
+                                        <span className="text-[10px] text-red-500 font-mono truncate">{job.geocodeError}</span>
+                                        <button
+                                            onClick={() => setPinPlacementJobId(pinPlacementJobId === job.id ? null : job.id)}
+                                            className={`flex items-center gap-1 px-2 py-0.5 text-[10px] font-bold rounded border flex-shrink-0 ${pinPlacementJobId === job.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-700 border-indigo-200 hover:bg-indigo-50'}`}
+                                            title="Click the map where this job is to pin its location"
+                                        >
+                                            <MapPinIcon className="h-3 w-3" />
+                                            {pinPlacementJobId === job.id ? 'Click the Map...' : 'Place on Map'}
+                                        </button>
+                                    </div>
                                 </div>
                             ))}
                         </div>
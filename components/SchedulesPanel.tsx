@@ -4,7 +4,7 @@ import RepSchedule from './RepSchedule';
 import { LoadingIcon, ErrorIcon, SearchIcon, DragHandleIcon, ExpandAllIcon, CollapseAllIcon, UnassignAllIcon, LockIcon, UnlockIcon, XIcon, UserIcon, MapPinIcon, TagIcon, StarIcon, RoofIcon, StoriesIcon, SizeIcon, ChevronDownIcon, TrophyIcon } from './icons';
 import { SortKey, Job, Rep, DisplayJob } from '../types';
 import { EAST_TO_WEST_CITIES } from '../services/geography';
-import { TIME_SLOTS, TAG_KEYWORDS } from '../constants';
+import { TAG_KEYWORDS } from '../constants';
 
 type ActiveTab = 'rep' | 'city' | 'tags' | 'skills';
 
@@ -130,7 +130,7 @@ const SchedulesPanel: React.FC<SchedulesPanelProps> = ({ onDragStart, onDragEnd
                             // Only show reps who are working (have jobs OR have available slots)
                             const jobCount = rep.schedule.flatMap(s => s.jobs).length;
                             const unavailableSlots = rep.unavailableSlots?.[selectedDay] || [];
-                            const isFullyUnavailable = unavailableSlots.length === TIME_SLOTS.length && !rep.isOptimized;
+                            const isFullyUnavailable = unavailableSlots.length >= rep.schedule.length && !rep.isOptimized;
                             return jobCount > 0 || !isFullyUnavailable;
                         })
                         .map(rep => {
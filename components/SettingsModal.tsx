@@ -1,7 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
-import { Settings } from '../types';
+import { Settings, ProviderSettings, GeocoderConfig, GeocoderProvider, LlmConfig, LlmProviderType, TimeSlot, AppointmentDurations, LunchBreak } from '../types';
+import { TIME_SLOTS, TYPE_KEYWORDS, SHEETS_API_BASE_URL } from '../constants';
+import { PUBLIC_OSRM_URL } from '../services/travelTime';
+import { DEFAULT_GEMINI_MODEL } from '../services/llmProviders';
+import { getSlotWindow, parseClockInput, toClockInput, formatSlotLabel, validateTimeSlots, normalizeTimeSlots } from '../services/timeSlots';
 import { XIcon } from './icons';
 
 interface SettingsModalProps {
@@ -33,16 +37,44 @@ const SettingsSlider: React.FC<{
     </div>
 );
 
+// Start/end as "HH:MM" for the time inputs; older slots only have a label.
+const getSlotInputs = (slot: TimeSlot) => {
+    const window = getSlotWindow(slot);
+    return {
+        start: slot.start || (window ? toClockInput(window.start) : ''),
+        end: slot.end || (window && window.end !== Infinity ? toClockInput(window.end) : ''),
+    };
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
-    const { settings, updateSettings, log } = useAppContext();
+    const { settings, updateSettings, log, handleDownloadLlmTranscript, selectedDate, weekdaySlotTemplates, saveWeekdayTimeSlots, providerSettings, updateProviderSettings, llmApiKey, updateLlmApiKey } = useAppContext();
     const [localSettings, setLocalSettings] = useState<Settings>(settings);
+    const [localProviders, setLocalProviders] = useState<ProviderSettings>(providerSettings);
+    const [localApiKey, setLocalApiKey] = useState(llmApiKey);
+    const [timeSlotError, setTimeSlotError] = useState<string | null>(null);
+    const [useSlotsForWeekday, setUseSlotsForWeekday] = useState(false);
+    const weekday = selectedDate.toLocaleString('en-us', { weekday: 'long' });
 
     useEffect(() => {
         setLocalSettings(settings);
-    }, [settings, isOpen]);
+        setLocalProviders(providerSettings);
+        setLocalApiKey(llmApiKey);
+        setTimeSlotError(null);
+        setUseSlotsForWeekday(!!weekdaySlotTemplates[weekday]);
+    }, [settings, isOpen, weekdaySlotTemplates, weekday, providerSettings, llmApiKey]);
 
     const handleSave = () => {
-        updateSettings(localSettings);
+        const slotError = validateTimeSlots(localSettings.timeSlots);
+        if (slotError) {
+            setTimeSlotError(slotError);
+            return;
+        }
+        const timeSlots = normalizeTimeSlots(localSettings.timeSlots);
+        updateSettings({ ...localSettings, timeSlots });
+        if (JSON.stringify(localProviders) !== JSON.stringify(providerSettings)) updateProviderSettings(localProviders);
+        if (localApiKey !== llmApiKey) updateLlmApiKey(localApiKey);
+        if (useSlotsForWeekday) saveWeekdayTimeSlots(weekday, timeSlots);
+        else if (weekdaySlotTemplates[weekday]) saveWeekdayTimeSlots(weekday, null);
         log('SETTINGS: Updated assignment settings.');
         onClose();
     };
@@ -51,6 +83,49 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         setLocalSettings(prev => ({ ...prev, [key]: value }));
     };
     
+    const handleGeocoderChange = (updates: Partial<GeocoderConfig>) => {
+        setLocalProviders(prev => ({ ...prev, geocoder: { ...prev.geocoder, ...updates } }));
+    };
+
+    const handleDurationsChange = (updates: Partial<AppointmentDurations>) => {
+        setLocalSettings(prev => ({ ...prev, appointmentDurations: { ...prev.appointmentDurations, ...updates } }));
+    };
+
+    const handleLunchChange = (updates: Partial<LunchBreak>) => {
+        setLocalSettings(prev => ({ ...prev, lunchBreak: { ...prev.lunchBreak, ...updates } }));
+    };
+
+    const handleLlmChange = (updates: Partial<LlmConfig>) => {
+        setLocalProviders(prev => ({ ...prev, llm: { ...prev.llm, ...updates } }));
+    };
+
+    const handleTimeSlotChange = (index: number, field: 'start' | 'end', value: string) => {
+        setTimeSlotError(null);
+        setLocalSettings(prev => ({
+            ...prev,
+            timeSlots: prev.timeSlots.map((slot, i) => {
+                if (i !== index) return slot;
+                const times = { ...getSlotInputs(slot), [field]: value };
+                return { ...slot, ...times, label: formatSlotLabel(times.start, times.end) };
+            }),
+        }));
+    };
+
+    const handleAddTimeSlot = () => {
+        setTimeSlotError(null);
+        setLocalSettings(prev => {
+            const lastEnd = prev.timeSlots.length > 0 ? getSlotInputs(prev.timeSlots[prev.timeSlots.length - 1]).end : '';
+            const start = lastEnd || '08:00';
+            const end = toClockInput(Math.min((parseClockInput(start) ?? 480) + 120, 23 * 60 + 59));
+            return { ...prev, timeSlots: [...prev.timeSlots, { id: '', label: formatSlotLabel(start, end), start, end }] };
+        });
+    };
+
+    const handleRemoveTimeSlot = (index: number) => {
+        setTimeSlotError(null);
+        setLocalSettings(prev => ({ ...prev, timeSlots: prev.timeSlots.filter((_, i) => i !== index) }));
+    };
+
     const handleScoringChange = (key: keyof Settings['scoringWeights'], value: number) => {
         setLocalSettings(prev => ({
             ...prev,
@@ -104,7 +179,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                                     />
                                 </div>
                             </div>
-                            <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 hover:border-indigo-100 transition-colors sm:col-span-2">
+                            <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 hover:border-indigo-100 transition-colors">
                                 <label htmlFor="maxCitiesPerRep" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Max Cities / Rep</label>
                                 <div className="flex items-center">
                                     <input
@@ -115,6 +190,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                                     />
                                 </div>
                             </div>
+                            <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 hover:border-indigo-100 transition-colors">
+                                <label htmlFor="maxTravelTimeMinutes" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Max Drive (min)</label>
+                                <div className="flex items-center">
+                                    <input
+                                        type="number" id="maxTravelTimeMinutes" min={0}
+                                        value={localSettings.maxTravelTimeMinutes}
+                                        onChange={e => handleChange('maxTravelTimeMinutes', parseInt(e.target.value, 10) || 0)}
+                                        className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm font-semibold text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                </div>
+                                <p className="text-[11px] text-gray-500 mt-1.5">Longest drive from the rep's nearest job (or home). 0 = no limit.</p>
+                            </div>
                         </div>
 
                         <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
@@ -146,6 +233,309 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                         </div>
                     </section>
 
+                    {/* Time Slots Section */}
+                    <section>
+                        <div className="flex items-center gap-2 mb-4">
+                            <div className="h-6 w-1 bg-amber-500 rounded-full"></div>
+                            <h3 className="text-lg font-bold text-gray-900">Time Slots</h3>
+                        </div>
+
+                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 space-y-2">
+                            {localSettings.timeSlots.map((slot, index) => {
+                                const times = getSlotInputs(slot);
+                                return (
+                                    <div key={slot.id || `new-${index}`} className="flex items-center gap-2">
+                                        <input
+                                            type="time" aria-label="Start time"
+                                            value={times.start}
+                                            onChange={e => handleTimeSlotChange(index, 'start', e.target.value)}
+                                            className="p-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                        <span className="text-gray-400 text-sm">to</span>
+                                        <input
+                                            type="time" aria-label="End time"
+                                            value={times.end}
+                                            onChange={e => handleTimeSlotChange(index, 'end', e.target.value)}
+                                            className="p-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                        <span className="flex-1 text-xs font-semibold text-gray-600 truncate">{slot.label}</span>
+                                        <button type="button" onClick={() => handleRemoveTimeSlot(index)} title="Remove slot" className="p-1 text-gray-400 hover:text-red-600 rounded-full hover:bg-red-50">
+                                            <XIcon className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            {timeSlotError && <p className="text-xs font-semibold text-red-600">{timeSlotError}</p>}
+                            <div className="flex items-center justify-between gap-3 pt-1">
+                                <button type="button" onClick={handleAddTimeSlot} className="px-3 py-1.5 text-xs font-semibold text-amber-700 bg-white border border-amber-200 hover:bg-amber-50 rounded-md">
+                                    + Add Slot
+                                </button>
+                                <button type="button" onClick={() => { setTimeSlotError(null); handleChange('timeSlots', TIME_SLOTS); }} className="text-xs font-medium text-gray-500 hover:text-gray-800">
+                                    Reset to default
+                                </button>
+                            </div>
+                            <label className="flex items-center gap-2 pt-2 border-t border-gray-200 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={useSlotsForWeekday}
+                                    onChange={e => setUseSlotsForWeekday(e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
+                                />
+                                Start every new {weekday} with these slots
+                            </label>
+                            <p className="text-[11px] text-gray-500">Applies to this day only unless checked. Jobs in a removed slot move to the slot their time falls in, or back to Unassigned.</p>
+                        </div>
+                    </section>
+
+                    {/* Appointments Section */}
+                    <section>
+                        <div className="flex items-center gap-2 mb-4">
+                            <div className="h-6 w-1 bg-teal-500 rounded-full"></div>
+                            <h3 className="text-lg font-bold text-gray-900">Appointments &amp; Lunch</h3>
+                        </div>
+
+                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 space-y-3 text-sm">
+                            <div className="grid grid-cols-2 gap-3">
+                                <label>
+                                    <span className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">Default (min)</span>
+                                    <input
+                                        type="number" min={5}
+                                        value={localSettings.appointmentDurations.defaultMinutes}
+                                        onChange={e => handleDurationsChange({ defaultMinutes: parseInt(e.target.value, 10) || 0 })}
+                                        className="w-full p-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                </label>
+                                {TYPE_KEYWORDS.map(type => (
+                                    <label key={type}>
+                                        <span className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1">{type} (min)</span>
+                                        <input
+                                            type="number" min={0}
+                                            value={localSettings.appointmentDurations.byJobType[type] ?? ''}
+                                            placeholder="Default"
+                                            onChange={e => {
+                                                const minutes = parseInt(e.target.value, 10);
+                                                const byJobType = { ...localSettings.appointmentDurations.byJobType };
+                                                if (minutes > 0) byJobType[type] = minutes;
+                                                else delete byJobType[type];
+                                                handleDurationsChange({ byJobType });
+                                            }}
+                                            className="w-full p-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                            <div className="flex items-center gap-2 text-gray-700">
+                                Homes of
+                                <input
+                                    type="number" min={0} aria-label="Large home square footage"
+                                    value={localSettings.appointmentDurations.largeHomeSqft}
+                                    onChange={e => handleDurationsChange({ largeHomeSqft: parseInt(e.target.value, 10) || 0 })}
+                                    className="w-20 p-1.5 bg-white border border-gray-300 rounded-md text-sm text-center shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                sq ft or more take
+                                <input
+                                    type="number" min={0} aria-label="Large home minutes"
+                                    value={localSettings.appointmentDurations.largeHomeMinutes}
+                                    onChange={e => handleDurationsChange({ largeHomeMinutes: parseInt(e.target.value, 10) || 0 })}
+                                    className="w-16 p-1.5 bg-white border border-gray-300 rounded-md text-sm text-center shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                min
+                            </div>
+                            <p className="text-[11px] text-gray-500">A job gets the longest time that applies to it. 0 sq ft turns the size rule off.</p>
+
+                            <div className="pt-3 border-t border-gray-200 space-y-2">
+                                <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={localSettings.lunchBreak.enabled}
+                                        onChange={e => handleLunchChange({ enabled: e.target.checked })}
+                                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 cursor-pointer"
+                                    />
+                                    Add a lunch break to itineraries
+                                </label>
+                                {localSettings.lunchBreak.enabled && (
+                                    <div className="flex items-center gap-2 text-gray-700">
+                                        <input
+                                            type="number" min={5} aria-label="Lunch minutes"
+                                            value={localSettings.lunchBreak.minutes}
+                                            onChange={e => handleLunchChange({ minutes: parseInt(e.target.value, 10) || 0 })}
+                                            className="w-16 p-1.5 bg-white border border-gray-300 rounded-md text-sm text-center shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                        min, starting between
+                                        <input
+                                            type="time" aria-label="Earliest lunch start"
+                                            value={localSettings.lunchBreak.earliest}
+                                            onChange={e => handleLunchChange({ earliest: e.target.value })}
+                                            className="p-1.5 bg-white border border-gray-300 rounded-md text-sm shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                        and
+                                        <input
+                                            type="time" aria-label="Latest lunch start"
+                                            value={localSettings.lunchBreak.latest}
+                                            onChange={e => handleLunchChange({ latest: e.target.value })}
+                                            className="p-1.5 bg-white border border-gray-300 rounded-md text-sm shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </section>
+
+                    {/* AI Provider Section */}
+                    <section>
+                        <div className="flex items-center gap-2 mb-4">
+                            <div className="h-6 w-1 bg-purple-500 rounded-full"></div>
+                            <h3 className="text-lg font-bold text-gray-900">AI Provider</h3>
+                        </div>
+
+                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 space-y-3">
+                            <div>
+                                <label htmlFor="llmProvider" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Provider</label>
+                                <select
+                                    id="llmProvider"
+                                    value={localProviders.llm.provider}
+                                    onChange={e => handleLlmChange({ provider: e.target.value as LlmProviderType, model: undefined })}
+                                    className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm font-semibold text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    <option value="gemini">Google Gemini (API_KEY)</option>
+                                    <option value="openai-compatible">OpenAI-compatible server (local)</option>
+                                    <option value="replay">Replay recorded responses (offline)</option>
+                                    <option value="mock">Local mock (deterministic, offline)</option>
+                                </select>
+                            </div>
+                            {(localProviders.llm.provider === 'gemini' || localProviders.llm.provider === 'openai-compatible') && (
+                                <div>
+                                    <label htmlFor="llmModel" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Model</label>
+                                    <input
+                                        type="text" id="llmModel"
+                                        value={localProviders.llm.model || ''}
+                                        onChange={e => handleLlmChange({ model: e.target.value || undefined })}
+                                        placeholder={localProviders.llm.provider === 'gemini' ? DEFAULT_GEMINI_MODEL : 'llama3.1:8b'}
+                                        className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                </div>
+                            )}
+                            {localProviders.llm.provider === 'openai-compatible' && (
+                                <>
+                                    <div>
+                                        <label htmlFor="llmBaseUrl" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Server URL</label>
+                                        <input
+                                            type="url" id="llmBaseUrl"
+                                            value={localProviders.llm.baseUrl || ''}
+                                            onChange={e => handleLlmChange({ baseUrl: e.target.value })}
+                                            placeholder="http://localhost:11434"
+                                            className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="llmApiKey" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">API Key (optional)</label>
+                                        <input
+                                            type="password" id="llmApiKey"
+                                            value={localApiKey}
+                                            onChange={e => setLocalApiKey(e.target.value.trim())}
+                                            className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        />
+                                        <p className="text-[11px] text-gray-500 mt-1.5">Kept in this browser only; never included in saves, autosaves or exports.</p>
+                                    </div>
+                                </>
+                            )}
+                            {localProviders.llm.provider === 'replay' && (
+                                <div>
+                                    <label htmlFor="llmRecordingsUrl" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Recording File URL</label>
+                                    <input
+                                        type="text" id="llmRecordingsUrl"
+                                        value={localProviders.llm.recordingsUrl || ''}
+                                        onChange={e => handleLlmChange({ recordingsUrl: e.target.value })}
+                                        placeholder="/ai-transcript.json"
+                                        className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                    <p className="text-[11px] text-gray-500 mt-1.5">A downloaded AI transcript. Replayed assignments refer to the recorded session's jobs, so load that session's save first.</p>
+                                </div>
+                            )}
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-[11px] text-gray-500">Every prompt and response this session is kept for review.</p>
+                                <button type="button" onClick={handleDownloadLlmTranscript} className="flex-shrink-0 px-3 py-1.5 text-xs font-semibold text-purple-700 bg-white border border-purple-200 hover:bg-purple-50 rounded-md">
+                                    Download Transcript
+                                </button>
+                            </div>
+                        </div>
+                    </section>
+
+                    {/* Geocoding Section */}
+                    <section>
+                        <div className="flex items-center gap-2 mb-4">
+                            <div className="h-6 w-1 bg-emerald-500 rounded-full"></div>
+                            <h3 className="text-lg font-bold text-gray-900">Geocoding Provider</h3>
+                        </div>
+
+                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 space-y-3">
+                            <div>
+                                <label htmlFor="geocoderProvider" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Provider</label>
+                                <select
+                                    id="geocoderProvider"
+                                    value={localProviders.geocoder.provider}
+                                    onChange={e => handleGeocoderChange({ provider: e.target.value as GeocoderProvider })}
+                                    className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm font-semibold text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    <option value="nominatim">Nominatim (public, 1 request/sec)</option>
+                                    <option value="nominatim-custom">Nominatim (self-hosted)</option>
+                                    <option value="photon">Photon (self-hosted)</option>
+                                    <option value="fixture">Fixture file (offline)</option>
+                                </select>
+                            </div>
+                            {(localProviders.geocoder.provider === 'nominatim-custom' || localProviders.geocoder.provider === 'photon') && (
+                                <div>
+                                    <label htmlFor="geocoderBaseUrl" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Server URL</label>
+                                    <input
+                                        type="url" id="geocoderBaseUrl"
+                                        value={localProviders.geocoder.baseUrl || ''}
+                                        onChange={e => handleGeocoderChange({ baseUrl: e.target.value })}
+                                        placeholder={localProviders.geocoder.provider === 'photon' ? 'http://localhost:2322' : 'http://localhost:8080'}
+                                        className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                </div>
+                            )}
+                            {localProviders.geocoder.provider === 'fixture' && (
+                                <div>
+                                    <label htmlFor="geocoderFixtureUrl" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Fixture File URL</label>
+                                    <input
+                                        type="text" id="geocoderFixtureUrl"
+                                        value={localProviders.geocoder.fixtureUrl || ''}
+                                        onChange={e => handleGeocoderChange({ fixtureUrl: e.target.value })}
+                                        placeholder="/geocode-fixtures.json"
+                                        className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                    <p className="text-[11px] text-gray-500 mt-1.5">JSON object mapping each query to {'{ "lat": 33.4, "lon": -111.8 }'} or null.</p>
+                                </div>
+                            )}
+                            <p className="text-[11px] text-gray-500">Shared by every day. Switching providers clears cached results (pinned addresses are kept) so they are looked up again.</p>
+                        </div>
+
+                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 mt-4">
+                            <label htmlFor="routingBaseUrl" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Routing Server (OSRM)</label>
+                            <input
+                                type="url" id="routingBaseUrl"
+                                value={localProviders.routingBaseUrl}
+                                onChange={e => setLocalProviders(prev => ({ ...prev, routingBaseUrl: e.target.value }))}
+                                placeholder={PUBLIC_OSRM_URL}
+                                className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <p className="text-[11px] text-gray-500 mt-1.5">Used for route lines and the drive-time matrix. When it can't be reached, drive times are estimated from straight-line distance.</p>
+                        </div>
+
+                        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 mt-4">
+                            <label htmlFor="sheetsApiBaseUrl" className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Google Sheets API</label>
+                            <input
+                                type="url" id="sheetsApiBaseUrl"
+                                value={localProviders.sheetsApiBaseUrl}
+                                onChange={e => setLocalProviders(prev => ({ ...prev, sheetsApiBaseUrl: e.target.value }))}
+                                placeholder={SHEETS_API_BASE_URL}
+                                className="w-full p-2 bg-white border border-gray-300 rounded-md text-sm text-gray-900 shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <p className="text-[11px] text-gray-500 mt-1.5">Used to load the SRA sheet and write bookings back. Point it at a local fake Sheets server to try write-back safely.</p>
+                        </div>
+                    </section>
+
                     {/* Auto-Assignment Logic Section */}
                     <section>
                          <div className="flex items-center gap-2 mb-4">
@@ -183,7 +573,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                             <div className="p-4 flex items-center justify-between">
                                 <div>
                                     <label htmlFor="allowRegionalRepsInPhoenix" className="block text-sm font-semibold text-gray-900">Allow Regional Reps in Phoenix</label>
-                                    <p className="text-xs text-gray-500 mt-0.5">Permit North (London) and South (Richard/Joseph) reps to be assigned Phoenix jobs.</p>
+                                    <p className="text-xs text-gray-500 mt-0.5">Permit regional reps (and reps whose territory requires it) to be assigned Phoenix jobs.</p>
                                 </div>
                                 <input
                                     type="checkbox" id="allowRegionalRepsInPhoenix"
@@ -192,6 +582,19 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                                     className="h-5 w-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 transition cursor-pointer"
                                 />
                             </div>
+
+                            <div className="p-4 flex items-center justify-between">
+                                <div>
+                                    <label htmlFor="optimizerTimeBudgetSeconds" className="block text-sm font-semibold text-gray-900">Optimize Day Time Budget (sec)</label>
+                                    <p className="text-xs text-gray-500 mt-0.5">How long the whole-day optimizer may search before returning its best result.</p>
+                                </div>
+                                <input
+                                    type="number" id="optimizerTimeBudgetSeconds" min={1} max={60}
+                                    value={localSettings.optimizerTimeBudgetSeconds}
+                                    onChange={e => handleChange('optimizerTimeBudgetSeconds', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                                    className="w-20 p-1.5 border border-gray-300 bg-white text-gray-900 rounded-md text-sm text-center shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                            </div>
                         </div>
 
                         {/* Gamification Settings */}
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { SheetLayoutConfig, RegionRowRange } from '../types';
+import { DEFAULT_SHEET_LAYOUT } from '../constants';
+import { validateSheetLayoutConfig } from '../services/sheetLayout';
+import { XIcon, SettingsIcon, WarningIcon } from './icons';
+
+interface SheetLayoutModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const REGIONS: RegionRowRange['region'][] = ['PHX', 'NORTH', 'SOUTH'];
+
+const parseKeywords = (text: string): string[] =>
+    text.split(',').map(k => k.trim()).filter(Boolean);
+
+const SheetLayoutModal: React.FC<SheetLayoutModalProps> = ({ isOpen, onClose }) => {
+    const { sheetLayoutConfig, updateSheetLayoutConfig, layoutCheckReport } = useAppContext();
+    const [localConfig, setLocalConfig] = useState<SheetLayoutConfig>(sheetLayoutConfig);
+    const [activeTab, setActiveTab] = useState<'check' | 'layout'>('check');
+
+    useEffect(() => {
+        setLocalConfig(sheetLayoutConfig);
+    }, [sheetLayoutConfig, isOpen]);
+
+    if (!isOpen) return null;
+
+    const errors = validateSheetLayoutConfig(localConfig);
+
+    const handleChange = <K extends keyof SheetLayoutConfig>(key: K, value: SheetLayoutConfig[K]) => {
+        setLocalConfig(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleRowRangeChange = (region: RegionRowRange['region'], field: 'startRow' | 'endRow', value: number) => {
+        setLocalConfig(prev => ({
+            ...prev,
+            regionRowRanges: prev.regionRowRanges.map(range => range.region === region ? { ...range, [field]: value } : range),
+        }));
+    };
+
+    const handleSave = () => {
+        if (errors.length > 0) return;
+        updateSheetLayoutConfig(localConfig);
+        onClose();
+    };
+
+    const inputClass = "w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:outline-none font-mono";
+
+    const renderCheck = () => {
+        if (!layoutCheckReport) {
+            return <p className="text-sm text-gray-500 text-center py-10">No layout check yet. It runs each time a day is loaded from the live sheet.</p>;
+        }
+        const { changedReps, newReps, missingReps, unknownRegionReps } = layoutCheckReport;
+        const isClean = changedReps.length === 0 && unknownRegionReps.length === 0;
+        return (
+            <div className="space-y-4 text-sm">
+                <div className={`p-3 rounded-md border ${isClean ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                    <p className="font-semibold">{isClean ? 'No region changes since the last load.' : 'Some reps need a look.'}</p>
+                    <p className="text-xs mt-1">
+                        Checked "{layoutCheckReport.sheetName}" at {new Date(layoutCheckReport.checkedAt).toLocaleString()} · regions from {layoutCheckReport.regionSource === 'banners' ? 'section banners' : 'row ranges'}
+                    </p>
+                </div>
+
+                {changedReps.length > 0 && (
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Region Changed ({changedReps.length})</h3>
+                        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                            {changedReps.map(change => (
+                                <li key={change.repName} className="px-3 py-1.5 flex justify-between">
+                                    <span className="font-medium text-gray-800">{change.repName}</span>
+                                    <span className="font-mono text-xs"><span className="text-gray-500">{change.previous}</span> → <span className="font-bold text-amber-700">{change.current}</span></span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {unknownRegionReps.length > 0 && (
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">No Region ({unknownRegionReps.length})</h3>
+                        <p className="text-gray-700">{unknownRegionReps.join(', ')}</p>
+                    </div>
+                )}
+                {newReps.length > 0 && (
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">New Since Last Load ({newReps.length})</h3>
+                        <p className="text-gray-700">{newReps.join(', ')}</p>
+                    </div>
+                )}
+                {missingReps.length > 0 && (
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">No Longer In Sheet ({missingReps.length})</h3>
+                        <p className="text-gray-700">{missingReps.join(', ')}</p>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderLayout = () => (
+        <div className="space-y-5 text-sm">
+            <section className="grid grid-cols-2 gap-3">
+                <label className="col-span-2">
+                    <span className="block text-xs font-semibold text-gray-600 mb-1">Availability range (first row = day headers)</span>
+                    <input className={inputClass} value={localConfig.dataRange} onChange={e => handleChange('dataRange', e.target.value.toUpperCase())} />
+                </label>
+                <label className="col-span-2">
+                    <span className="block text-xs font-semibold text-gray-600 mb-1">Skills sheet title</span>
+                    <input className={inputClass} value={localConfig.skillsSheetTitle} onChange={e => handleChange('skillsSheetTitle', e.target.value)} />
+                </label>
+                <label>
+                    <span className="block text-xs font-semibold text-gray-600 mb-1">Skills range</span>
+                    <input className={inputClass} value={localConfig.skillsDataRange} onChange={e => handleChange('skillsDataRange', e.target.value.toUpperCase())} />
+                </label>
+                <label>
+                    <span className="block text-xs font-semibold text-gray-600 mb-1">Sales order range</span>
+                    <input className={inputClass} value={localConfig.salesOrderDataRange} onChange={e => handleChange('salesOrderDataRange', e.target.value.toUpperCase())} />
+                </label>
+            </section>
+
+            <section>
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Region Detection</h3>
+                <div className="flex gap-2 mb-3">
+                    {(['rowRanges', 'banners'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => handleChange('regionDetection', mode)}
+                            className={`px-3 py-1 text-xs font-bold rounded-md border ${localConfig.regionDetection === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                        >
+                            {mode === 'banners' ? 'Section Banners' : 'Fixed Row Ranges'}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[11px] text-gray-500 mb-3">
+                    Regions come from the row ranges below by default. Banner mode instead reads the all-caps section rows (e.g. "NORTH") above each rep, so inserted rows do not shift regions; if no banner is found it falls back to the row ranges.
+                </p>
+
+                <table className="w-full text-xs">
+                    <thead className="text-gray-500">
+                        <tr>
+                            <th className="text-left py-1">Region</th>
+                            <th className="text-left py-1">Banner keywords</th>
+                            <th className="text-left py-1 w-20">First row</th>
+                            <th className="text-left py-1 w-20">Last row</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {REGIONS.map(region => {
+                            const range = localConfig.regionRowRanges.find(r => r.region === region);
+                            return (
+                                <tr key={region}>
+                                    <td className="py-1 pr-2 font-bold text-gray-700">{region}</td>
+                                    <td className="py-1 pr-2">
+                                        <input
+                                            className={inputClass}
+                                            defaultValue={localConfig.regionBanners[region].join(', ')}
+                                            key={localConfig.regionBanners[region].join(',')}
+                                            onBlur={e => handleChange('regionBanners', { ...localConfig.regionBanners, [region]: parseKeywords(e.target.value) })}
+                                        />
+                                    </td>
+                                    <td className="py-1 pr-2">
+                                        <input type="number" className={inputClass} value={range?.startRow ?? ''} onChange={e => handleRowRangeChange(region, 'startRow', parseInt(e.target.value, 10) || 0)} />
+                                    </td>
+                                    <td className="py-1">
+                                        <input type="number" className={inputClass} value={range?.endRow ?? ''} onChange={e => handleRowRangeChange(region, 'endRow', parseInt(e.target.value, 10) || 0)} />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                <label className="flex items-center gap-2 mt-3 text-xs text-gray-600">
+                    Reps above the first banner belong to
+                    <select value={localConfig.bannerDefaultRegion} onChange={e => handleChange('bannerDefaultRegion', e.target.value as RegionRowRange['region'])} className="px-2 py-1 border border-gray-300 rounded-md">
+                        {REGIONS.map(region => <option key={region} value={region}>{region}</option>)}
+                    </select>
+                </label>
+            </section>
+
+            {errors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md text-xs text-red-700 space-y-1">
+                    {errors.map(error => <p key={error} className="flex items-start gap-1.5"><WarningIcon className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />{error}</p>)}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><SettingsIcon className="h-5 w-5 text-indigo-500" /> Sheet Layout</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-6 w-6" /></button>
+                </header>
+
+                <div className="flex border-b px-6">
+                    {(['check', 'layout'] as const).map(tab => (
+                        <button
+                            key={tab}
+                            onClick={() => setActiveTab(tab)}
+                            className={`px-3 py-2 text-sm font-semibold border-b-2 -mb-px ${activeTab === tab ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                        >
+                            {tab === 'check' ? 'Layout Check' : 'Layout Settings'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-6 overflow-y-auto custom-scrollbar">
+                    {activeTab === 'check' ? renderCheck() : renderLayout()}
+                </div>
+
+                <footer className="px-6 py-3 bg-gray-50 border-t flex justify-between rounded-b-xl">
+                    <button onClick={() => setLocalConfig(DEFAULT_SHEET_LAYOUT)} className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Reset to Defaults</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Cancel</button>
+                        <button onClick={handleSave} disabled={errors.length > 0} className="px-4 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm disabled:bg-gray-300">Save Layout</button>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default SheetLayoutModal;
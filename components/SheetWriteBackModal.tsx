@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { SheetCellChange } from '../services/googleSheetsService';
+import { SHEETS_ACCESS_TOKEN_STORAGE_KEY } from '../constants';
+import { XIcon, SheetIcon, LoadingIcon, WarningIcon, RefreshIcon } from './icons';
+
+interface SheetWriteBackModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const readStoredToken = (): string => {
+    try {
+        return localStorage.getItem(SHEETS_ACCESS_TOKEN_STORAGE_KEY) || '';
+    } catch {
+        return '';
+    }
+};
+
+const SheetWriteBackModal: React.FC<SheetWriteBackModalProps> = ({ isOpen, onClose }) => {
+    const { appState, prepareSheetWriteBack, handleWriteBackToSheet } = useAppContext();
+    const [sheetName, setSheetName] = useState('');
+    const [changes, setChanges] = useState<SheetCellChange[]>([]);
+    const [accessToken, setAccessToken] = useState(readStoredToken);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isWriting, setIsWriting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const loadPreview = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const preview = await prepareSheetWriteBack();
+            setSheetName(preview.sheetName);
+            setChanges(preview.changes);
+        } catch (err) {
+            setChanges([]);
+            setError(err instanceof Error ? err.message : 'Could not build the write-back preview.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSuccessMessage(null);
+        loadPreview();
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const conflictCount = changes.filter(c => c.hasConflict).length;
+    const canWrite = changes.length > 0 && conflictCount === 0 && accessToken.trim() !== '' && !isWriting && !isLoading;
+
+    const handleTokenChange = (value: string) => {
+        setAccessToken(value);
+        try {
+            localStorage.setItem(SHEETS_ACCESS_TOKEN_STORAGE_KEY, value);
+        } catch (err) {
+            console.error('Could not save the Sheets access token to localStorage', err);
+        }
+    };
+
+    const handleWrite = async () => {
+        setIsWriting(true);
+        setError(null);
+        try {
+            await handleWriteBackToSheet(sheetName, changes, accessToken.trim());
+            setSuccessMessage(`Wrote ${changes.length} cell${changes.length === 1 ? '' : 's'} to "${sheetName}".`);
+            setChanges([]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Write-back failed.');
+            // Refresh the preview so any newly conflicting cells are highlighted.
+            await loadPreview();
+        } finally {
+            setIsWriting(false);
+        }
+    };
+
+    const slotLabel = (slotId: string) => appState.settings.timeSlots.find(s => s.id === slotId)?.label || slotId;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-6 py-4 border-b flex justify-between items-center bg-emerald-50 rounded-t-xl">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-emerald-100 text-emerald-700 rounded-lg border border-emerald-200 shadow-sm">
+                            <SheetIcon className="h-6 w-6" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900">Write Schedule to Sheet</h2>
+                            <p className="text-xs text-gray-600">{sheetName ? `Target: ${sheetName}` : 'Preview of cell changes for the selected day.'}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700 p-1 rounded-full hover:bg-gray-200 transition">
+                        <XIcon className="h-6 w-6" />
+                    </button>
+                </header>
+
+                <div className="flex-grow overflow-y-auto p-4 custom-scrollbar space-y-3">
+                    {error && (
+                        <div className="flex items-start gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+                            <WarningIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <span>{error}</span>
+                        </div>
+                    )}
+                    {successMessage && (
+                        <div className="p-3 text-sm text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-md">{successMessage}</div>
+                    )}
+                    {conflictCount > 0 && (
+                        <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+                            {conflictCount} cell{conflictCount === 1 ? ' has' : 's have'} been edited in the sheet since it was loaded. Reload the day from the sheet before writing.
+                        </div>
+                    )}
+
+                    {isLoading ? (
+                        <div className="flex justify-center py-10"><LoadingIcon className="h-6 w-6 text-emerald-600" /></div>
+                    ) : changes.length === 0 && !error ? (
+                        <p className="text-sm text-gray-500 text-center py-10">Nothing to write. The sheet already matches the booked slots for this day.</p>
+                    ) : changes.length > 0 && (
+                        <table className="w-full text-xs border border-gray-200">
+                            <thead className="bg-gray-50 text-gray-600 uppercase tracking-wide">
+                                <tr>
+                                    <th className="px-2 py-1.5 text-left">Cell</th>
+                                    <th className="px-2 py-1.5 text-left">Rep</th>
+                                    <th className="px-2 py-1.5 text-left">Slot</th>
+                                    <th className="px-2 py-1.5 text-left">In Sheet</th>
+                                    <th className="px-2 py-1.5 text-left">New Value</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {changes.map(change => (
+                                    <tr key={change.cell} className={change.hasConflict ? 'bg-red-50' : ''}>
+                                        <td className="px-2 py-1.5 font-mono font-bold text-gray-700">{change.cell}</td>
+                                        <td className="px-2 py-1.5">{change.repName}</td>
+                                        <td className="px-2 py-1.5 whitespace-nowrap">{slotLabel(change.slotId)}</td>
+                                        <td className="px-2 py-1.5 text-gray-500">
+                                            <span className="line-through">{change.loadedValue || '(empty)'}</span>
+                                            {change.hasConflict && (
+                                                <div className="text-red-600 font-semibold mt-0.5">Now: {change.currentValue || '(empty)'}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-2 py-1.5 text-emerald-700 font-semibold whitespace-pre-line">{change.newValue}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <footer className="px-6 py-3 bg-gray-50 border-t flex items-center gap-3 rounded-b-xl">
+                    <input
+                        type="password"
+                        value={accessToken}
+                        onChange={e => handleTokenChange(e.target.value)}
+                        placeholder="OAuth access token (spreadsheets scope)"
+                        className="flex-grow px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+                    />
+                    <button onClick={loadPreview} disabled={isLoading || isWriting} className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-md disabled:opacity-40" title="Refresh preview">
+                        <RefreshIcon className="h-4 w-4" />
+                    </button>
+                    <button onClick={handleWrite} disabled={!canWrite} className="px-4 py-2 text-sm font-bold text-white bg-emerald-600 hover:bg-emerald-700 rounded-md shadow-sm disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2">
+                        {isWriting && <LoadingIcon className="h-4 w-4 text-white" />}
+                        Write {changes.length} Cell{changes.length === 1 ? '' : 's'}
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default SheetWriteBackModal;
@@ -4,6 +4,7 @@ import { Job } from '../types';
 import { JobCard } from './JobCard';
 import { ChevronDownIcon, ChevronUpIcon, MapPinIcon, ClipboardIcon } from './icons';
 import { useAppContext } from '../context/AppContext';
+import UnassignedReasonsPanel from './UnassignedReasonsPanel';
 
 interface UnassignedJobsProps {
   jobs: Job[];
@@ -11,7 +12,7 @@ interface UnassignedJobsProps {
   onSetDraggedOverRepId: (id: string | null) => void;
   onJobDragStart: (job: Job) => void;
   onJobDragEnd: () => void;
-  onUpdateJob: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'address' | 'notes'>) => void;
+  onUpdateJob: (jobId: string, updatedDetails: Pick<Job, 'customerName' | 'phone' | 'email' | 'address' | 'notes' | 'attributes'>) => void;
   onRemoveJob: (jobId: string) => void;
   onShowOnMap: () => void;
 }
@@ -40,6 +41,7 @@ const CityGroup: React.FC<{ city: string; jobs: Job[], onJobDragStart: (job: Job
 
 const UnassignedJobs: React.FC<UnassignedJobsProps> = ({ jobs, onJobDrop, onSetDraggedOverRepId, onJobDragStart, onJobDragEnd, onUpdateJob, onRemoveJob, onShowOnMap }) => {
   const [isOver, setIsOver] = useState(false);
+  const [isReasonsOpen, setIsReasonsOpen] = useState(false);
   const { draggedJob } = useAppContext();
 
   const jobsByCity = useMemo(() => {
@@ -101,6 +103,14 @@ const UnassignedJobs: React.FC<UnassignedJobsProps> = ({ jobs, onJobDrop, onSetD
       <div className="flex justify-between items-center mb-1">
         <h3 className="text-base font-semibold text-gray-800">Unassigned Jobs ({jobs.length})</h3>
         <div className="flex items-center space-x-2">
+            <button
+                onClick={() => setIsReasonsOpen(!isReasonsOpen)}
+                disabled={jobs.length === 0}
+                className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isReasonsOpen ? 'bg-amber-500 text-white hover:bg-amber-600' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'}`}
+                title="Explain why these jobs were not assigned"
+            >
+                Why?
+            </button>
             <button
                 onClick={onShowOnMap}
                 disabled={jobs.length === 0}
@@ -123,6 +133,7 @@ const UnassignedJobs: React.FC<UnassignedJobsProps> = ({ jobs, onJobDrop, onSetD
             </a>
         </div>
       </div>
+      {isReasonsOpen && <UnassignedReasonsPanel jobs={jobs} />}
       <div
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
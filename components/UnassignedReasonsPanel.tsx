@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { Job } from '../types';
+import { useAppContext } from '../context/AppContext';
+import { RejectionReason, RepRejection } from '../services/scheduler';
+import { getCustomerName } from '../services/customerContact';
+import { ChevronDownIcon, ChevronUpIcon, WarningIcon } from './icons';
+
+const REASON_LABELS: Record<RejectionReason, string> = {
+    locked: 'Locked / optimized',
+    maxJobs: 'Max jobs reached',
+    region: 'Outside region',
+    cityRule: 'City rule',
+    maxDriveTime: 'Too far to drive',
+    slotCapacity: 'Slot full',
+    timeSlotMismatch: 'No matching slot',
+    unavailable: 'Rep unavailable',
+};
+
+const groupByReason = (rejections: RepRejection[]) => {
+    const groups = new Map<RejectionReason, RepRejection[]>();
+    rejections.forEach(r => groups.set(r.reason, [...(groups.get(r.reason) || []), r]));
+    return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+};
+
+const JobReasons: React.FC<{ job: Job }> = ({ job }) => {
+    const { explainUnassignedJob } = useAppContext();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const explanation = useMemo(() => explainUnassignedJob(job), [explainUnassignedJob, job]);
+    const groups = groupByReason(explanation.rejections);
+
+    return (
+        <li className="p-2 bg-white rounded-md border border-gray-200">
+            <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-start text-left gap-2">
+                <div className="min-w-0">
+                    <p className="text-xs font-semibold text-gray-800 truncate">{getCustomerName(job) || job.address} <span className="font-normal text-gray-500">· {job.city || 'No city'}{job.originalTimeframe ? ` · ${job.originalTimeframe}` : ''}</span></p>
+                    <p className="text-[11px] text-gray-600 mt-0.5">
+                        {groups.length > 0
+                            ? groups.map(([reason, reps]) => `${REASON_LABELS[reason]} (${reps.length})`).join(' · ')
+                            : 'No reps loaded for this day'}
+                    </p>
+                </div>
+                {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+            </button>
+
+            {explanation.suggestion ? (
+                <p className="mt-1.5 text-[11px] text-emerald-800 bg-emerald-50 border border-emerald-200 rounded px-2 py-1">
+                    <span className="font-bold">Unlock:</span> {explanation.suggestion.label} → {explanation.suggestion.unlocksRepNames.slice(0, 3).join(', ')}
+                    {explanation.suggestion.unlocksRepNames.length > 3 && ` +${explanation.suggestion.unlocksRepNames.length - 3} more`}
+                </p>
+            ) : groups.length > 0 && (
+                <p className="mt-1.5 text-[11px] text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-1 flex items-center gap-1">
+                    <WarningIcon className="h-3 w-3 flex-shrink-0" /> No single change unlocks this job. Assign it manually or reschedule.
+                </p>
+            )}
+
+            {isExpanded && (
+                <div className="mt-2 space-y-1.5 border-t border-gray-100 pt-2">
+                    {groups.map(([reason, reps]) => (
+                        <div key={reason}>
+                            <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wide">{REASON_LABELS[reason]}</p>
+                            <ul className="text-[11px] text-gray-700">
+                                {reps.map(r => <li key={r.repId}><span className="font-medium">{r.repName}</span> — {r.detail}</li>)}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </li>
+    );
+};
+
+const UnassignedReasonsPanel: React.FC<{ jobs: Job[] }> = ({ jobs }) => (
+    <div className="mb-2 p-2 bg-gray-50 rounded-lg border border-gray-200 max-h-72 overflow-y-auto custom-scrollbar">
+        <p className="text-[11px] text-gray-500 mb-1.5">Why each job can't be auto-assigned right now, checked against every rep.</p>
+        {jobs.length > 0 ? (
+            <ul className="space-y-1.5">
+                {jobs.map(job => <JobReasons key={job.id} job={job} />)}
+            </ul>
+        ) : (
+            <p className="text-xs text-gray-500 text-center py-2">No unassigned jobs.</p>
+        )}
+    </div>
+);
+
+export default UnassignedReasonsPanel;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { DayOverview, formatDayLabel } from '../services/dayPlanning';
+import { getJobLabel } from '../services/customerContact';
+import { getJobStatus, JOB_STATUS_LABELS } from '../services/jobStatus';
+import { XIcon, RescheduleIcon } from './icons';
+
+interface WeekBoardModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Drag payload for moves between days; the main board's cards only carry 'jobId'.
+const FROM_DAY_KEY = 'fromDateKey';
+
+const WeekBoardModal: React.FC<WeekBoardModalProps> = ({ isOpen, onClose }) => {
+    const { weekOverview, setSelectedDate, handleMoveJobToDay, handlePushUnassignedToNextDay } = useAppContext();
+    const [dragOverKey, setDragOverKey] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const nextLoadedKey = (dateKey: string) => weekOverview.find(day => day.dateKey > dateKey && day.isLoaded)?.dateKey;
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, toDateKey: string) => {
+        e.preventDefault();
+        setDragOverKey(null);
+        const jobId = e.dataTransfer.getData('jobId');
+        const fromDateKey = e.dataTransfer.getData(FROM_DAY_KEY);
+        if (jobId && fromDateKey && fromDateKey !== toDateKey) handleMoveJobToDay(jobId, fromDateKey, toDateKey);
+    };
+
+    const handleOpenDay = (dateKey: string) => {
+        setSelectedDate(new Date(dateKey + 'T12:00:00'));
+        onClose();
+    };
+
+    const renderDay = (day: DayOverview) => {
+        const nextKey = nextLoadedKey(day.dateKey);
+        const isDropTarget = day.isLoaded && dragOverKey === day.dateKey;
+        const activeReps = day.reps.filter(rep => rep.openSlotCount > 0 || rep.jobCount > 0);
+        return (
+            <div
+                key={day.dateKey}
+                onDragOver={e => { if (day.isLoaded) { e.preventDefault(); setDragOverKey(day.dateKey); } }}
+                onDragLeave={() => setDragOverKey(null)}
+                onDrop={e => handleDrop(e, day.dateKey)}
+                className={`w-64 flex-shrink-0 flex flex-col border rounded-lg bg-gray-50 ${isDropTarget ? 'ring-2 ring-indigo-400 border-indigo-300' : 'border-gray-200'}`}
+            >
+                <button onClick={() => handleOpenDay(day.dateKey)} className="px-3 py-2 border-b border-gray-200 text-left hover:bg-white rounded-t-lg" title="Open this day">
+                    <p className="font-bold text-gray-800">{formatDayLabel(day.dateKey)}</p>
+                    <p className="text-[11px] text-gray-500">
+                        {day.isLoaded ? `${day.assignedCount} booked · ${day.unassignedJobs.length} unassigned` : 'Not loaded yet. Open the day to load it.'}
+                    </p>
+                </button>
+
+                {day.isLoaded && (
+                    <>
+                        <div className="px-3 py-2 border-b border-gray-200 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-wide">Rep Load</h3>
+                            {activeReps.length === 0 && <p className="text-[11px] text-gray-400">No reps available.</p>}
+                            {activeReps.map(rep => (
+                                <div key={rep.repId} className="text-[11px]">
+                                    <div className="flex justify-between">
+                                        <span className="truncate text-gray-700">{rep.repName}</span>
+                                        <span className="font-mono text-gray-500">{rep.jobCount}/{rep.openSlotCount}</span>
+                                    </div>
+                                    <div className="h-1 bg-gray-200 rounded">
+                                        <div
+                                            className={`h-1 rounded ${rep.jobCount > rep.openSlotCount ? 'bg-red-500' : 'bg-indigo-500'}`}
+                                            style={{ width: `${Math.min(100, rep.openSlotCount ? (rep.jobCount / rep.openSlotCount) * 100 : 100)}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex-1 px-3 py-2 space-y-1.5 overflow-y-auto custom-scrollbar min-h-[6rem]">
+                            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-wide">Unassigned</h3>
+                            {day.unassignedJobs.length === 0 && <p className="text-[11px] text-gray-400">Drop jobs here to move them to this day.</p>}
+                            {day.unassignedJobs.map(job => (
+                                <div
+                                    key={job.id}
+                                    draggable
+                                    onDragStart={e => {
+                                        e.dataTransfer.setData('jobId', job.id);
+                                        e.dataTransfer.setData(FROM_DAY_KEY, day.dateKey);
+                                        e.dataTransfer.effectAllowed = 'move';
+                                    }}
+                                    className="px-2 py-1 bg-white border border-gray-200 rounded shadow-sm text-[11px] cursor-grab active:cursor-grabbing"
+                                >
+                                    <p className="font-semibold text-gray-800 truncate">{getJobLabel(job)}</p>
+                                    <p className="text-gray-500 truncate">
+                                        {job.originalTimeframe || 'No time'} · {job.city || job.address}
+                                        {getJobStatus(job) !== 'tentative' && ` · ${JOB_STATUS_LABELS[getJobStatus(job)]}`}
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="px-3 py-2 border-t border-gray-200">
+                            <button
+                                onClick={() => handlePushUnassignedToNextDay(day.dateKey)}
+                                disabled={!nextKey || day.unassignedJobs.length === 0}
+                                className="w-full flex items-center justify-center gap-1 px-2 py-1 text-[11px] font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded disabled:opacity-40 disabled:hover:bg-indigo-50"
+                                title={nextKey ? `Move every open unassigned job to ${formatDayLabel(nextKey)}` : 'Load a later day in the workspace first'}
+                            >
+                                <RescheduleIcon className="h-3 w-3" />
+                                {nextKey ? `Push unassigned to ${formatDayLabel(nextKey)}` : 'No later day loaded'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl flex flex-col h-[85vh] animate-fade-in" onClick={e => e.stopPropagation()}>
+                <header className="px-6 py-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><RescheduleIcon className="h-5 w-5 text-indigo-500" /> Week Board</h2>
+                        <p className="text-xs text-gray-500">Drag unassigned jobs between days. Moves land in the other day's unassigned pool, and Undo reverts both days.</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><XIcon className="h-6 w-6" /></button>
+                </header>
+                <div className="flex-1 flex gap-3 p-4 overflow-x-auto custom-scrollbar">
+                    {weekOverview.map(renderDay)}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WeekBoardModal;
@@ -1,19 +1,31 @@
 
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { Rep, Job, AppState, SortConfig, SortKey, DisplayJob, RouteInfo, Settings, ScoreBreakdown } from '../types';
-import { TIME_SLOTS, ROOF_KEYWORDS, TYPE_KEYWORDS } from '../constants';
-import { fetchSheetData } from '../services/googleSheetsService';
-import { parseJobsFromText, assignJobsWithAi, fixAddressesWithAi, mapTimeframeToSlotId } from '../services/geminiService';
-import { ARIZONA_CITY_ADJACENCY, GREATER_PHOENIX_CITIES, NORTHERN_AZ_CITIES, SOUTHERN_AZ_CITIES, SOUTHEAST_PHOENIX_CITIES, LOWER_VALLEY_EXTENSION_CITIES, SOUTH_OUTER_RING_CITIES, haversineDistance, EAST_TO_WEST_CITIES, WEST_VALLEY_CITIES, EAST_VALLEY_CITIES } from '../services/geography';
-import { geocodeAddresses, fetchRoute, Coordinates, GeocodeResult } from '../services/osmService';
+import { Rep, Job, AppState, SortConfig, SortKey, DisplayJob, RouteInfo, Settings, ProviderSettings, SheetLayoutConfig, AiValidationReport, TimeSlot, JobStatus, MessageTemplates, ParsedTextResult, PinAddressSuggestion } from '../types';
+import { TIME_SLOTS, DEFAULT_APPOINTMENT_DURATIONS, DEFAULT_LUNCH_BREAK } from '../constants';
+import { loadSheetLayoutConfig, saveSheetLayoutConfig, runLayoutCheck, LayoutCheckReport } from '../services/sheetLayout';
+import { fetchSheetData, setSheetsApiBaseUrl, SheetLayout, SheetCellChange, buildSheetWriteBack, checkSheetWriteConflicts, writeSheetCells, placeSheetBookings } from '../services/googleSheetsService';
+import { parseJobsFromText, assignJobsWithAi, fixAddressesWithAi, setLlmProvider, LOCAL_MOCK_RESPONDERS } from '../services/geminiService';
+import { mapTimeframeToSlotId, loadWeekdaySlotTemplates, saveWeekdaySlotTemplates, getSlotsForWeekday, applyTimeSlotsToState, WeekdaySlotTemplates } from '../services/timeSlots';
+import { createLlmProvider, getLlmTranscript, loadLlmApiKey, saveLlmApiKey } from '../services/llmProviders';
+import { geocodeAddresses, geocodeAddressesNow, preCacheGeocodes, estimateAddress, fetchRoute, setGeocoder, reverseGeocode, formatReverseGeocodedAddress, Coordinates, GeocodeResult } from '../services/osmService';
+import { createGeocoder } from '../services/geocoders';
+import { loadMessageTemplates, saveMessageTemplates } from '../services/messageTemplates';
+import { loadProviderSettings, saveProviderSettings } from '../services/providerSettings';
+import { summarizeDay, moveJobsToDay, getNextLoadedDayKey, formatDayLabel } from '../services/dayPlanning';
+import { findDuplicateGroups, findDuplicatesOfIncoming, mergeDuplicateJobs, describeJobLocation } from '../services/duplicateJobs';
+import { getAppointmentMinutes } from '../services/itinerary';
+import { generateRepDaySheet, DaySheet } from '../services/daySheet';
+import { createZip } from '../services/zipArchive';
+import { transitionJobStatus, getJobStatus, isJobPinned, isJobSchedulable, JOB_STATUS_LABELS } from '../services/jobStatus';
+import { getDriveMinutes, prefetchDriveTimesWithin, setOsrmBaseUrl } from '../services/travelTime';
+import { optimizeRoute, measureRoute, RouteOptimizerInput, RouteOptimizationPreview } from '../services/routeOptimizer';
+import { optimizeAssignments, summarizeAssignments, AssignmentComparison } from '../services/assignmentOptimizer';
+import { setGeocodeOverride, exportGeocodeCache, importGeocodeCache } from '../services/geocodeCache';
+import { buildSavedWorkspace, saveWorkspace, loadWorkspace, countWorkspaceJobs, saveAutosaveSnapshot, loadAutosaveSnapshot, listAutosaveSnapshots, SavedWorkspace } from '../services/workspaceStorage';
+import { autoAssignJobs, autoAssignJobsForRep, distributeJobs, explainUnassignedJob as explainJob, summarizeRejections, validateProposedAssignments, repairAssignments, calculateAssignmentScore as scoreAssignment, isJobValidForRepRegion as isJobValidForRegion, checkCityRuleViolation as checkCityRules, applyTerritoryDefaults, getHomeZipAddress, SchedulerContext, CoordinateLookup } from '../services/scheduler';
 
 // Helpers
-const norm = (city: string | null | undefined): string => (city || '').toLowerCase().trim();
-const isJoseph = (rep: Rep) => rep.name.trim().toLowerCase().startsWith('joseph simms');
-const isRichard = (rep: Rep) => rep.name.trim().toLowerCase().startsWith('richard hadsall');
-const isLondon = (rep: Rep) => rep.name.trim().toLowerCase().startsWith('london smith');
-
 const formatDateToKey = (date: Date): string => {
     const y = date.getFullYear();
     const m = String(date.getMonth() + 1).padStart(2, '0');
@@ -21,6 +33,17 @@ const formatDateToKey = (date: Date): string => {
     return `${y}-${m}-${d}`;
 };
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
 const getCleanSortName = (name: string): string => {
     return name
         .replace(/"[^"]*"/g, '')
@@ -70,10 +93,29 @@ export const DEFAULT_SETTINGS: Settings = {
       performance: 1.5        
   },
   allowRegionalRepsInPhoenix: false,
+  optimizerTimeBudgetSeconds: 3,
+  timeSlots: TIME_SLOTS,
+  appointmentDurations: DEFAULT_APPOINTMENT_DURATIONS,
+  lunchBreak: DEFAULT_LUNCH_BREAK,
 };
 
+// Settings read back from a save, filled in with defaults. Older versions kept the
+// providers (and the AI server key) in each day's Settings; they are dropped here so a
+// save never switches this browser's providers and the key is not saved again.
+const restoreSettings = (settings?: Partial<Settings>): Settings => {
+    const { geocoder: _geocoder, routingBaseUrl: _routingBaseUrl, llm: _llm, ...daySettings } = (settings || {}) as Partial<Settings & ProviderSettings>;
+    return { ...DEFAULT_SETTINGS, ...daySettings };
+};
+
+// Flags jobs plotted at an offline centroid estimate rather than a precise geocode.
+const markEstimated = (job: DisplayJob, result: GeocodeResult): DisplayJob =>
+    result.isEstimated ? { ...job, isEstimatedLocation: true, geocodeError: result.error || 'Estimated location' } : job;
+
 const EMPTY_STATE: AppState = { reps: [], unassignedJobs: [], settings: DEFAULT_SETTINGS };
 
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+const AUTOSAVE_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
 export const useAppLogic = () => {
   const [history, setHistory] = useState<Map<string, AppState>[]>([new Map()]);
   const [historyIndex, setHistoryIndex] = useState(0);
@@ -87,10 +129,20 @@ export const useAppLogic = () => {
   const [isAiAssigning, setIsAiAssigning] = useState<boolean>(false);
   const [isAiFixingAddresses, setIsAiFixingAddresses] = useState<boolean>(false);
   const [isTryingVariations, setIsTryingVariations] = useState<boolean>(false);
+  const [isExportingDaySheets, setIsExportingDaySheets] = useState<boolean>(false);
   const [parsingError, setParsingError] = useState<string | null>(null);
   const [selectedRepId, setSelectedRepId] = useState<string | null>(null);
   const [usingMockData, setUsingMockData] = useState<boolean>(false);
   const [activeSheetName, setActiveSheetName] = useState<string>('');
+  // Sheet cell positions and load-time values per day, used for write-back
+  const [sheetLayouts, setSheetLayouts] = useState<Record<string, SheetLayout>>({});
+  const [sheetLayoutConfig, setSheetLayoutConfig] = useState<SheetLayoutConfig>(() => loadSheetLayoutConfig());
+  const [layoutCheckReport, setLayoutCheckReport] = useState<LayoutCheckReport | null>(null);
+  // Which slots a newly loaded day starts with, per weekday
+  const [weekdaySlotTemplates, setWeekdaySlotTemplates] = useState<WeekdaySlotTemplates>(() => loadWeekdaySlotTemplates());
+  const [messageTemplates, setMessageTemplates] = useState<MessageTemplates>(() => loadMessageTemplates());
+  const [llmApiKey, setLlmApiKey] = useState<string>(() => loadLlmApiKey());
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => loadProviderSettings());
   
   // Default to Tomorrow
   const [selectedDate, _setSelectedDate] = useState<Date>(() => {
@@ -105,12 +157,18 @@ export const useAppLogic = () => {
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'salesRank', direction: 'asc' });
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [aiThoughts, setAiThoughts] = useState<string[]>([]);
+  const [aiValidationReport, setAiValidationReport] = useState<AiValidationReport | null>(null);
   const [activeRoute, setActiveRoute] = useState<{ repName: string; mappableJobs: DisplayJob[]; unmappableJobs: DisplayJob[]; routeInfo: RouteInfo | null; } | null>(null);
   const [isRouting, setIsRouting] = useState(false);
   const [draggedJob, setDraggedJob] = useState<Job | null>(null);
   const [draggedOverRepId, setDraggedOverRepId] = useState<string | null>(null);
   const [hoveredJobId, setHoveredJobId] = useState<string | null>(null);
   const [repSettingsModalRepId, setRepSettingsModalRepId] = useState<string | null>(null);
+  const [duplicateMergeGroupId, setDuplicateMergeGroupId] = useState<string | null>(null);
+  // Map pin correction: the unplotted job waiting for a click on the map, and the
+  // reverse-geocoded address offered after a job is pinned.
+  const [pinPlacementJobId, setPinPlacementJobId] = useState<string | null>(null);
+  const [pinAddressSuggestion, setPinAddressSuggestion] = useState<PinAddressSuggestion | null>(null);
   const [mapRefreshTrigger, setMapRefreshTrigger] = useState(0); // Trigger to refresh map after assignments
   const [autoMapAction, setAutoMapAction] = useState<'none' | 'show-all' | string>('none'); // Trigger to show map (all or specific repId)
 
@@ -124,6 +182,16 @@ export const useAppLogic = () => {
   const [hasInitializedMap, setHasInitializedMap] = useState(false);
   // Ref to track the latest map request to prevent race conditions
   const mapRequestRef = useRef(0);
+  // Latest map pin; an address lookup for an earlier pin is ignored
+  const pinRequestRef = useRef(0);
+
+  // Crash recovery: a previous session found in IndexedDB waits here until the user decides
+  const [restoreCandidate, setRestoreCandidate] = useState<SavedWorkspace | null>(null);
+  const [routeOptimizationPreview, setRouteOptimizationPreview] = useState<RouteOptimizationPreview | null>(null);
+  const [assignmentComparison, setAssignmentComparison] = useState<AssignmentComparison | null>(null);
+  const [isRestoreResolved, setIsRestoreResolved] = useState(false);
+  const latestWorkspaceRef = useRef<SavedWorkspace | null>(null);
+  const lastSnapshotRef = useRef<SavedWorkspace | null>(null);
 
   const updateGeoCache = useCallback(async (addresses: string[]) => {
       const unique = [...new Set(addresses)].filter(addr => !geoCache.has(addr));
@@ -149,6 +217,9 @@ export const useAppLogic = () => {
 
 
   const dailyStates = useMemo(() => history[historyIndex] || new Map(), [history, historyIndex]);
+  // The latest day states, for handlers that carry on after an await.
+  const dailyStatesRef = useRef(dailyStates);
+  useEffect(() => { dailyStatesRef.current = dailyStates; }, [dailyStates]);
 
   const appState = useMemo(() => {
     return dailyStates.get(formatDateToKey(selectedDate)) || EMPTY_STATE;
@@ -206,6 +277,54 @@ export const useAppLogic = () => {
     }
   }, [canRedo, log]);
 
+  // Swap the geocoding provider whenever the selected one changes.
+  const geocoderConfigKey = JSON.stringify(providerSettings.geocoder);
+  useEffect(() => {
+      let cancelled = false;
+      createGeocoder(JSON.parse(geocoderConfigKey))
+          .then(async geocoder => {
+              if (cancelled) return;
+              log(`Geocoder: using ${geocoder.name}.`);
+              const cleared = await setGeocoder(geocoder);
+              if (cleared > 0) {
+                  setGeoCache(new Map());
+                  log(`Geocoder: provider changed, cleared ${cleared} cached address(es) to re-geocode them.`);
+              }
+          })
+          .catch(error => {
+              if (cancelled) return;
+              log(`Geocoder: ${error instanceof Error ? error.message : 'failed to initialise'}. Keeping the previous provider.`);
+          });
+      return () => { cancelled = true; };
+  }, [geocoderConfigKey, log]);
+
+  // Swap the language model behind the AI features whenever the selected one changes.
+  const llmConfigKey = JSON.stringify(providerSettings.llm);
+  useEffect(() => {
+      let cancelled = false;
+      createLlmProvider(JSON.parse(llmConfigKey), LOCAL_MOCK_RESPONDERS, llmApiKey)
+          .then(provider => {
+              if (cancelled) return;
+              setLlmProvider(provider);
+              log(`AI: using ${provider.name}.`);
+          })
+          .catch(error => {
+              if (cancelled) return;
+              log(`AI: ${error instanceof Error ? error.message : 'failed to initialise'}. Keeping the previous provider.`);
+          });
+      return () => { cancelled = true; };
+  }, [llmConfigKey, llmApiKey, log]);
+
+  const { routingBaseUrl } = providerSettings;
+  useEffect(() => {
+      setOsrmBaseUrl(routingBaseUrl);
+  }, [routingBaseUrl]);
+
+  const { sheetsApiBaseUrl } = providerSettings;
+  useEffect(() => {
+      setSheetsApiBaseUrl(sheetsApiBaseUrl);
+  }, [sheetsApiBaseUrl]);
+
   const updateSettings = useCallback((updatedSettings: Partial<Settings>) => {
     const dateKey = formatDateToKey(selectedDate);
     recordChange(currentDailyStates => {
@@ -216,10 +335,29 @@ export const useAppLogic = () => {
             ...updatedSettings,
             scoringWeights: { ...dayState.settings.scoringWeights, ...(updatedSettings.scoringWeights || {}) } 
         };
+        if (updatedSettings.timeSlots && JSON.stringify(updatedSettings.timeSlots) !== JSON.stringify(dayState.settings.timeSlots)) {
+            // New slots reshape every rep's schedule, so jobs and unavailability have to be re-slotted too.
+            const weekday = selectedDate.toLocaleString('en-us', { weekday: 'long' });
+            const { state, unassignedCount } = applyTimeSlotsToState({ ...dayState, settings: newSettings }, updatedSettings.timeSlots, weekday);
+            if (unassignedCount > 0) log(`TIME SLOTS: ${unassignedCount} job(s) no longer fit any slot and were moved to Unassigned.`);
+            newDailyStates.set(dateKey, state);
+            return newDailyStates;
+        }
         newDailyStates.set(dateKey, { ...dayState, settings: newSettings });
         return newDailyStates;
     }, 'Update Settings');
-  }, [recordChange, selectedDate]);
+  }, [recordChange, selectedDate, log]);
+
+  const saveWeekdayTimeSlots = useCallback((weekday: string, slots: TimeSlot[] | null) => {
+    setWeekdaySlotTemplates(prev => {
+        const next = { ...prev };
+        if (slots) next[weekday] = slots;
+        else delete next[weekday];
+        saveWeekdaySlotTemplates(next);
+        return next;
+    });
+    log(slots ? `SETTINGS: New ${weekday}s will start with ${slots.length} time slot(s).` : `SETTINGS: New ${weekday}s will start with the default time slots.`);
+  }, [log]);
 
 
   // Initialize with Tomorrow
@@ -242,85 +380,18 @@ export const useAppLogic = () => {
 
   const clearAiThoughts = useCallback(() => {
     setAiThoughts([]);
+    setAiValidationReport(null);
   }, []);
 
   const selectedDayString = useMemo(() => selectedDate.toLocaleString('en-us', { weekday: 'long' }), [selectedDate]);
 
-  const getCityRegion = useCallback((city: string | undefined | null): Rep['region'] | null => {
-    if (!city) return null;
-    const normalizedCity = city.toLowerCase().trim();
-    if (GREATER_PHOENIX_CITIES.has(normalizedCity)) return 'PHX';
-    if (NORTHERN_AZ_CITIES.has(normalizedCity)) return 'NORTH';
-    if (SOUTHERN_AZ_CITIES.has(normalizedCity)) return 'SOUTH';
-    return null;
-  }, []);
-
   const isJobValidForRepRegion = useCallback((job: Job, rep: Rep): boolean => {
-      const jobCity = norm(job.city);
-      if (!jobCity) return true;
-      const jobRegion = getCityRegion(jobCity);
-      
-      // 1. London Smith: STRICT NORTH (North of Black Canyon City)
-      if (isLondon(rep)) {
-          if (jobRegion === 'NORTH') return true;
-          // Allow in Phoenix only if explicit setting is ON
-          if (jobRegion === 'PHX' && appState.settings.allowRegionalRepsInPhoenix) return true;
-          return false;
-      }
-
-      // 2. Richard Hadsall & Joseph Simms: STRICT SOUTH (South of Eloy)
-      if (isJoseph(rep) || isRichard(rep)) {
-          if (jobRegion === 'SOUTH') return true;
-          // Allow in Phoenix only if explicit setting is ON
-          if (jobRegion === 'PHX' && appState.settings.allowRegionalRepsInPhoenix) return true;
-          return false; 
-      }
-      
-      // 3. General Regional Logic
-      if (jobRegion) {
-          if (rep.region === 'UNKNOWN' || rep.region === jobRegion) return true;
-          // Allow South Reps in PHX if setting is enabled (Only for generic South reps, not named restricted ones)
-          if (appState.settings.allowRegionalRepsInPhoenix && rep.region === 'SOUTH' && jobRegion === 'PHX') {
-              return true;
-          }
-          return false;
-      }
-      return true;
-  }, [getCityRegion, appState.settings.allowRegionalRepsInPhoenix]);
+      return isJobValidForRegion(job, rep, appState.settings);
+  }, [appState.settings]);
 
   const checkCityRuleViolation = useCallback((rep: Rep, newJobCity: string | undefined | null): { violated: boolean; cities: Set<string> } => {
-    const currentCitiesOriginalCase = new Set(rep.schedule.flatMap(s => s.jobs).map(j => j.city).filter((c): c is string => !!c));
-    const currentCitiesLowercase = new Set(Array.from(currentCitiesOriginalCase).map(c => c.toLowerCase()));
-    
-    if (!newJobCity) return { violated: false, cities: currentCitiesOriginalCase };
-    
-    const newJobCityLower = newJobCity.toLowerCase();
-    
-    // If rep is already in this city, it's allowed
-    if (currentCitiesLowercase.has(newJobCityLower)) {
-        return { violated: false, cities: currentCitiesOriginalCase };
-    }
-
-    // 1. Check Max Cities Count
-    if (currentCitiesLowercase.size >= appState.settings.maxCitiesPerRep) {
-        return { violated: true, cities: currentCitiesOriginalCase };
-    }
-
-    // 2. Check Adjacency (Strict Mode)
-    // If the rep already has cities, the new one MUST be adjacent to at least one of them.
-    if (currentCitiesLowercase.size > 0) {
-        const isAdjacent = Array.from(currentCitiesLowercase).some(existingCity => {
-            const neighbors = ARIZONA_CITY_ADJACENCY[existingCity] || [];
-            return neighbors.includes(newJobCityLower);
-        });
-        
-        if (!isAdjacent) {
-            return { violated: true, cities: currentCitiesOriginalCase };
-        }
-    }
-
-    return { violated: false, cities: currentCitiesOriginalCase };
-  }, [appState.settings.maxCitiesPerRep]);
+      return checkCityRules(rep, newJobCity, appState.settings);
+  }, [appState.settings]);
 
   const allJobs = useMemo((): DisplayJob[] => {
     const jobs: DisplayJob[] = [];
@@ -334,6 +405,36 @@ export const useAppLogic = () => {
   const assignedCities = useMemo(() => Array.from(new Set(assignedJobs.map(j => j.city).filter((c): c is string => !!c))).sort(), [assignedJobs]);
   const assignedRepNames = useMemo(() => Array.from(new Set(assignedJobs.map(j => j.assignedRepName).filter((name): name is string => !!name))).sort(), [assignedJobs]);
 
+  const recordLayoutCheck = useCallback((sheetName: string, reps: Omit<Rep, 'schedule'>[], regionSource: 'banners' | 'rowRanges') => {
+    const report = runLayoutCheck(sheetName, reps, regionSource);
+    setLayoutCheckReport(report);
+    if (report.changedReps.length > 0) {
+        log(`LAYOUT CHECK: ${report.changedReps.length} rep(s) changed region since the last load: ${report.changedReps.map(c => `${c.repName} ${c.previous}→${c.current}`).join(', ')}`);
+    }
+  }, [log]);
+
+  const updateSheetLayoutConfig = useCallback((config: SheetLayoutConfig) => {
+    setSheetLayoutConfig(config);
+    saveSheetLayoutConfig(config);
+    log('SETTINGS: Updated sheet layout. Reload a day from the sheet to apply it.');
+  }, [log]);
+
+  const updateProviderSettings = useCallback((settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  }, []);
+
+  const updateMessageTemplates = useCallback((templates: MessageTemplates) => {
+    setMessageTemplates(templates);
+    saveMessageTemplates(templates);
+    log('SETTINGS: Updated customer message templates.');
+  }, [log]);
+
+  const updateLlmApiKey = useCallback((apiKey: string) => {
+    setLlmApiKey(apiKey);
+    saveLlmApiKey(apiKey);
+  }, []);
+
   const loadReps = useCallback(async (date: Date) => {
     const dateKey = formatDateToKey(date);
     if (dailyStates.has(dateKey)) {
@@ -346,21 +447,29 @@ export const useAppLogic = () => {
       setRepsError(null);
       setUsingMockData(false);
       setActiveRoute(null);
-      const { reps: repData, sheetName } = await fetchSheetData(date);
+      const { reps: repData, sheetName, layout, regionSource, bookings = [] } = await fetchSheetData(date, sheetLayoutConfig, weekday => getSlotsForWeekday(weekdaySlotTemplates, weekday));
+      const slots = getSlotsForWeekday(weekdaySlotTemplates, date.toLocaleString('en-us', { weekday: 'long' }));
       setActiveSheetName(sheetName);
+      if (layout) setSheetLayouts(prev => ({ ...prev, [dateKey]: layout }));
+      if (regionSource) recordLayoutCheck(sheetName, repData, regionSource);
       if (repData.length > 0 && (repData[0] as Rep).isMock) setUsingMockData(true);
-      const repsWithSchedule = repData.map(rep => ({ 
+      const knownReps = Array.from(dailyStates.values()).flatMap(state => state.reps);
+      const repsWithSchedule = placeSheetBookings(applyTerritoryDefaults(repData, knownReps).map(rep => ({ 
           ...rep, 
-          schedule: TIME_SLOTS.map(slot => ({ ...slot, jobs: [] })), 
+          schedule: slots.map(slot => ({ ...slot, jobs: [] })), 
           isLocked: false
-      }));
+      })), bookings);
       
       const allRepZips = repsWithSchedule.flatMap(r => r.zipCodes || []).map(z => `${z}, Arizona, USA`);
       if (allRepZips.length > 0) {
           updateGeoCache(allRepZips);
       }
+      if (bookings.length > 0) {
+          updateGeoCache(bookings.map(booking => booking.job.address));
+          log(`Loaded ${bookings.length} job(s) already booked in the sheet.`);
+      }
 
-      const newDayState: AppState = { reps: repsWithSchedule, unassignedJobs: [], settings: DEFAULT_SETTINGS };
+      const newDayState: AppState = { reps: repsWithSchedule, unassignedJobs: [], settings: { ...DEFAULT_SETTINGS, timeSlots: slots } };
       
       const newDailyStates = new Map(dailyStates).set(dateKey, newDayState);
       setHistory([newDailyStates]);
@@ -378,7 +487,7 @@ export const useAppLogic = () => {
     } finally {
       setIsLoadingReps(false);
     }
-  }, [dailyStates, log, updateGeoCache]);
+  }, [dailyStates, log, updateGeoCache, sheetLayoutConfig, recordLayoutCheck, weekdaySlotTemplates]);
 
   const setSelectedDate = useCallback((date: Date) => {
     const dateKey = formatDateToKey(date);
@@ -424,11 +533,12 @@ export const useAppLogic = () => {
 
 
   useEffect(() => {
+    if (!isRestoreResolved) return;
     const dateKey = formatDateToKey(selectedDate);
     if (!dailyStates.has(dateKey)) {
         loadReps(selectedDate);
     }
-  }, [selectedDate, dailyStates, loadReps]);
+  }, [selectedDate, dailyStates, loadReps, isRestoreResolved]);
   
 
   useEffect(() => {
@@ -452,229 +562,25 @@ export const useAppLogic = () => {
     setDraggedOverRepId(null);
   }, []);
 
-  const calculateAssignmentScore = useCallback((job: Job, rep: Rep, slotId: string, allSettings: Settings): { score: number, breakdown: ScoreBreakdown } => {
-      const overrides = rep.scoringOverrides || {};
-      const weights = { ...allSettings.scoringWeights, ...overrides };
-
-      if (!rep.zipCodes || rep.zipCodes.length === 0) {
-          weights.distanceBase = 0;
-      }
-
-      let distanceBaseScore = 0;
-      let distanceClusterScore = 0;
-      let skillRoofingScore = 0;
-      let skillTypeScore = 0;
-
-      const rank = rep.salesRank || 99;
-      let performanceScore = 0;
-      if (rank === 1) performanceScore = 100;
-      else if (rank === 2) performanceScore = 98;
-      else if (rank === 3) performanceScore = 95;
-      else if (rank <= 5) performanceScore = 90;
-      else if (rank <= 10) performanceScore = 80;
-      else if (rank <= 20) performanceScore = 60;
-      else performanceScore = Math.max(10, 60 - ((rank - 20) * 2));
-
-      const jobCity = norm(job.city);
-      const jobRegion = getCityRegion(jobCity);
-      const maxReasonableMiles = jobRegion === 'PHX' ? 35 : 60; // Increased PHX radius to 35 miles to allow East Valley coverage
-
-      const repHomeZips = new Set(rep.zipCodes || []);
-      const existingJobs = rep.schedule.flatMap(s => s.jobs);
-
-      const calculateDistanceScore = (miles: number) => {
-          if (miles === -1) return 0;
-          const clampedMiles = Math.min(miles, maxReasonableMiles);
-          const percentage = 1 - (clampedMiles / maxReasonableMiles);
-          const score = Math.pow(percentage, 2) * 100;
-          return Math.max(1, Math.round(score));
-      };
-
-      // 1. DISTANCE TO HOME
-      let minHomeDist = -1;
-      if (rep.zipCodes && rep.zipCodes.length > 0) {
-          const jobCoord = geoCache.get(job.address);
-          const homeZipAddress = `${rep.zipCodes[0]}, Arizona, USA`;
-          const homeCoord = geoCache.get(homeZipAddress);
-          if (jobCoord && homeCoord) {
-              minHomeDist = haversineDistance(homeCoord, jobCoord) * 0.621371;
-          }
-      }
-
-      if (minHomeDist !== -1) {
-          distanceBaseScore = calculateDistanceScore(minHomeDist);
-      } else {
-          if (job.zipCode && repHomeZips.has(job.zipCode)) distanceBaseScore = 100;
-          else if (isJobValidForRepRegion(job, rep)) distanceBaseScore = 50;
-          else distanceBaseScore = 1;
-      }
-
-      // 2. DISTANCE TO CLUSTER
-      if (existingJobs.length > 0) {
-          // CRITICAL CHANGE: If jobs exist, the Home Base distance is IRRELEVANT.
-          // We must force the algorithm to prioritize proximity to existing commitments.
-          weights.distanceBase = 0;
-
-          let minClusterDist = -1;
-          const jobCoord = geoCache.get(job.address);
-
-          if (jobCoord) {
-              let nearestDistKm = Infinity;
-              existingJobs.forEach(ej => {
-                  const ejCoord = geoCache.get(ej.address);
-                  if (ejCoord) {
-                      const d = haversineDistance(jobCoord, ejCoord);
-                      if (d < nearestDistKm) nearestDistKm = d;
-                  }
-              });
-              if (nearestDistKm !== Infinity) {
-                  minClusterDist = nearestDistKm * 0.621371;
-              }
-          }
-
-          if (minClusterDist !== -1) {
-              // STEEPER DROP-OFF for distance
-              if (minClusterDist < 5) distanceClusterScore = 100;
-              else if (minClusterDist < 12) distanceClusterScore = 90;
-              else if (minClusterDist < 20) distanceClusterScore = 60; // Slightly relaxed for suburban spread
-              else if (minClusterDist < 25) distanceClusterScore = 30; 
-              else distanceClusterScore = 10; // > 25 miles is bad
-          } else {
-              const repCities = new Set(existingJobs.map(j => norm(j.city)));
-              if (repCities.has(norm(job.city))) distanceClusterScore = 100;
-              else {
-                  const isAdjacent = Array.from(repCities).some(city => (ARIZONA_CITY_ADJACENCY[city] || []).includes(norm(job.city)));
-                  distanceClusterScore = isAdjacent ? 60 : 1;
-              }
-          }
-      } else {
-          // New Logic: If no existing jobs, rely on Home Score.
-          // If no Home Score (no zip), treat as 100 (clean slate/opportunity).
-          if (rep.zipCodes && rep.zipCodes.length > 0) {
-             distanceClusterScore = distanceBaseScore;
-          } else {
-             // No home, no jobs -> This is a fresh rep.
-             // Any job is a good start.
-             distanceClusterScore = 100;
-          }
-      }
-
-      // 3. SKILL MATCHING
-      const notesLower = job.notes.toLowerCase();
-      
-      const roofTags = ROOF_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower));
-      if (roofTags.length > 0) {
-          const totalSkill = roofTags.reduce((acc, tag) => acc + (rep.skills?.[tag] || 0), 0);
-          skillRoofingScore = Math.min(100, ((totalSkill / roofTags.length) / 3) * 100);
-      } else {
-          skillRoofingScore = 50; 
-      }
-
-      // 4. TYPE MATCHING
-      const typeTags = TYPE_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower));
-      let isSpecialist = false;
+  // Falls back to an offline city/ZIP centroid so scoring never waits on Nominatim.
+  const getCoordinates = useCallback<CoordinateLookup>((address, hints) => geoCache.get(address) ?? estimateAddress(address, hints)?.coordinates ?? undefined, [geoCache]);
 
-      if (typeTags.length > 0) {
-          const totalSkill = typeTags.reduce((acc, tag) => acc + (rep.skills?.[tag] || 0), 0);
-          skillTypeScore = Math.min(100, ((totalSkill / typeTags.length) / 3) * 100);
-          
-          if (typeTags.some(tag => (rep.skills?.[tag] || 0) >= 3)) {
-              isSpecialist = true;
-          }
-      } else {
-          skillTypeScore = -1; 
-          weights.skillType = 0;
-      }
+  const schedulerContext = useMemo<SchedulerContext>(() => ({ dayName: selectedDayString, getCoordinates, getDriveMinutes }), [selectedDayString, getCoordinates]);
 
-      // 5. PRIORITY
-      const isPriority = job.notes.includes('#');
-      if (!isPriority) {
-          weights.performance = 0;
-      }
+  // Warms the drive-time cache for every job and rep home on the day, giving up after a short wait.
+  const prefetchDayDriveTimes = useCallback(async (dayState: AppState) => {
+      const jobs = [...dayState.unassignedJobs, ...dayState.reps.flatMap(r => r.schedule.flatMap(s => s.jobs))];
+      const homeAddresses = dayState.reps.map(getHomeZipAddress).filter((a): a is string => !!a);
+      const points = [...jobs.map(j => getCoordinates(j.address, j)), ...homeAddresses.map(a => getCoordinates(a))]
+          .filter((c): c is Coordinates => !!c);
+      await prefetchDriveTimesWithin(points);
+  }, [getCoordinates]);
 
-      // 6. WEIGHTED AVERAGE
-      const totalWeight = weights.distanceBase + weights.distanceCluster + weights.skillRoofing + weights.skillType + weights.performance;
-      
-      let weightedScore = 0;
-      if (totalWeight > 0) {
-          const effectiveTypeScore = skillTypeScore === -1 ? 0 : skillTypeScore;
-          
-          weightedScore = (
-              (distanceBaseScore * weights.distanceBase) +
-              (distanceClusterScore * weights.distanceCluster) +
-              (skillRoofingScore * weights.skillRoofing) +
-              (effectiveTypeScore * weights.skillType) +
-              (performanceScore * weights.performance)
-          ) / totalWeight;
-      }
+  const calculateAssignmentScore = useCallback((job: Job, rep: Rep, slotId: string, allSettings: Settings) => {
+      return scoreAssignment(job, rep, slotId, allSettings, schedulerContext);
+  }, [schedulerContext]);
 
-      let penalty = 0;
-      const isUnavailable = (rep.unavailableSlots?.[selectedDayString] || []).includes(slotId);
-      if (isUnavailable) {
-          // Penalty adjusted for multiplier scale (0-2.0).
-          // 1.6 * 50 = 80 points penalty.
-          penalty += (allSettings.unavailabilityPenalty * 50); 
-      }
-
-      // --- ADJACENCY & VALLEY LOGIC ---
-      if (existingJobs.length > 0) {
-          const currentCities = new Set(existingJobs.map(j => norm(j.city)));
-          const targetCity = norm(job.city);
-          
-          if (targetCity) {
-              // 1. Valley Split Firewall
-              // If the rep is already working in the East Valley, PUNISH West Valley jobs severely.
-              const hasWest = Array.from(currentCities).some(c => WEST_VALLEY_CITIES.has(c));
-              const hasEast = Array.from(currentCities).some(c => EAST_VALLEY_CITIES.has(c));
-              
-              const isTargetWest = WEST_VALLEY_CITIES.has(targetCity);
-              const isTargetEast = EAST_VALLEY_CITIES.has(targetCity);
-
-              // If we are crossing the boundary, apply massive penalty
-              if ((hasWest && isTargetEast) || (hasEast && isTargetWest)) {
-                  penalty += 60; // Huge deterrent
-              }
-
-              // 2. Basic Adjacency Check
-              let isConnected = false;
-              if (currentCities.has(targetCity)) isConnected = true;
-              
-              if (!isConnected) {
-                  for (const city of currentCities) {
-                      const neighbors = ARIZONA_CITY_ADJACENCY[city] || [];
-                      if (neighbors.includes(targetCity)) {
-                          isConnected = true;
-                          break;
-                      }
-                  }
-              }
-              
-              if (!isConnected) {
-                  // Apply penalty for breaking the chain (non-adjacent city)
-                  // Increased from 30 to 50 to prevent jumping
-                  penalty += 50; 
-              }
-          }
-      }
-
-      let finalScore = Math.max(1, Math.min(100, Math.round(weightedScore - penalty))); 
-      
-      if (isSpecialist) {
-          finalScore = Math.min(100, finalScore + 25);
-      }
-      
-      return {
-          score: finalScore,
-          breakdown: {
-              distanceBase: distanceBaseScore,
-              distanceCluster: distanceClusterScore,
-              skillRoofing: skillRoofingScore,
-              skillType: skillTypeScore,
-              performance: isPriority ? performanceScore : 0,
-              penalty: penalty
-          }
-      };
-  }, [selectedDayString, isJobValidForRepRegion, getCityRegion, geoCache]);
+  const explainUnassignedJob = useCallback((job: Job) => explainJob(job, appState, schedulerContext), [appState, schedulerContext]);
 
   const handleUnassignJob = useCallback((jobId: string) => { 
     const dateKey = formatDateToKey(selectedDate);
@@ -760,6 +666,19 @@ export const useAppLogic = () => {
     setExpandedRepIds(prev => new Set(prev).add(target.repId));
   }, [handleUnassignJob, appState.reps, appState.unassignedJobs, selectedDate, recordChange, calculateAssignmentScore, updateGeoCache, activeRoute]);
 
+  // Map views plot centroid estimates immediately; once precise geocodes arrive the
+  // current view is redrawn, unless the user has moved on to another view.
+  // If geocoding fails the estimates simply stay on the map.
+  const refineMapInBackground = useCallback((pending: string[], requestId: number) => {
+      if (pending.length === 0) return;
+      preCacheGeocodes(pending).then(() => {
+          if (mapRequestRef.current === requestId) setMapRefreshTrigger(prev => prev + 1);
+      }).catch(error => {
+          console.error("Background geocoding failed:", error);
+          log('- WARN: Background geocoding failed; estimated locations are still shown.');
+      });
+  }, [log]);
+
   const handleShowFilteredJobsOnMap = useCallback(async (jobs: DisplayJob[], title: string) => {
       const requestId = ++mapRequestRef.current;
       log(`ACTION: Show Filtered Jobs on Map: ${title} (${jobs.length} items).`);
@@ -775,12 +694,7 @@ export const useAppLogic = () => {
                return;
           }
 
-          const addresses = jobs.map(j => j.address);
-          const coordsResults = await geocodeAddresses(addresses);
-          
-          if (mapRequestRef.current !== requestId) {
-              return;
-          }
+          const { results: coordsResults, pending } = geocodeAddressesNow(jobs);
 
           const mappableJobs: DisplayJob[] = [];
           const unmappableJobs: DisplayJob[] = [];
@@ -789,7 +703,7 @@ export const useAppLogic = () => {
           jobs.forEach((job, index) => {
               const result = coordsResults[index];
               if (result.coordinates) { 
-                  mappableJobs.push(job); 
+                  mappableJobs.push(markEstimated(job, result)); 
                   mappableCoords.push(result.coordinates); 
               } else { 
                   unmappableJobs.push({ ...job, geocodeError: result.error || 'Unknown' }); 
@@ -804,6 +718,7 @@ export const useAppLogic = () => {
           };
           
           setActiveRoute({ repName: title, mappableJobs, unmappableJobs, routeInfo });
+          refineMapInBackground(pending, requestId);
       } catch (error) { 
           console.error("Failed to show filtered jobs:", error); 
       } finally { 
@@ -811,7 +726,7 @@ export const useAppLogic = () => {
               setIsRouting(false); 
           }
       }
-  }, [log]);
+  }, [log, refineMapInBackground]);
 
   useEffect(() => {
       const timer = setTimeout(() => {
@@ -873,9 +788,7 @@ export const useAppLogic = () => {
       return;
     }
 
-    const addresses = jobsForRoute.map(j => j.address);
-    const coordsResults = await geocodeAddresses(addresses);
-    if (mapRequestRef.current !== requestId) return;
+    const { results: coordsResults, pending } = geocodeAddressesNow(jobsForRoute);
     
     const mappableJobs: DisplayJob[] = [];
     const unmappableJobs: DisplayJob[] = [];
@@ -883,7 +796,7 @@ export const useAppLogic = () => {
     jobsForRoute.forEach((job, index) => {
         const result = coordsResults[index];
         if (result.coordinates) {
-            mappableJobs.push(job);
+            mappableJobs.push(markEstimated(job, result));
             routeCoords.push(result.coordinates);
         } else {
             unmappableJobs.push({ ...job, geocodeError: result.error || 'Unknown geocoding error' });
@@ -893,40 +806,8 @@ export const useAppLogic = () => {
     const route = await fetchRoute(routeCoords);
     if (mapRequestRef.current !== requestId) return;
 
-    const finalMappableJobs = [...mappableJobs];
-    let finalUnmappableJobs = [...unmappableJobs];
     const allCoordsForMap = [...(route?.coordinates || routeCoords)];
 
-    if (unmappableJobs.length > 0) {
-        const fallbackQueries = unmappableJobs.map(job => {
-            if (job.zipCode) return `${job.zipCode}, AZ`;
-            if (job.city) return `${job.city}, AZ`;
-            return null;
-        });
-
-        const jobsToTry = unmappableJobs.filter((_, i) => fallbackQueries[i] !== null);
-        const queriesToRun = fallbackQueries.filter((q): q is string => q !== null);
-        
-        if (queriesToRun.length > 0) {
-            const fallbackResults = await geocodeAddresses(queriesToRun);
-            if (mapRequestRef.current !== requestId) return;
-
-            const stillFailingJobs: DisplayJob[] = [];
-            jobsToTry.forEach((job, i) => {
-                const result = fallbackResults[i];
-                if (result.coordinates) {
-                    const estimatedJob = { ...job, isEstimatedLocation: true, geocodeError: `Estimated location for ${queriesToRun[i]}` };
-                    finalMappableJobs.push(estimatedJob);
-                    allCoordsForMap.push(result.coordinates);
-                } else {
-                    stillFailingJobs.push(job);
-                }
-            });
-            const jobsWithoutQuery = unmappableJobs.filter((_, i) => fallbackQueries[i] === null);
-            finalUnmappableJobs = [...stillFailingJobs, ...jobsWithoutQuery];
-        }
-    }
-
     const finalRouteInfo: RouteInfo | null = route ? {
         ...route,
         coordinates: allCoordsForMap
@@ -937,9 +818,10 @@ export const useAppLogic = () => {
         coordinates: allCoordsForMap
     } : null;
 
-    setActiveRoute({ repName: rep.name, mappableJobs: finalMappableJobs, unmappableJobs: finalUnmappableJobs, routeInfo: finalRouteInfo });
+    setActiveRoute({ repName: rep.name, mappableJobs, unmappableJobs, routeInfo: finalRouteInfo });
     setIsRouting(false);
-  }, [appState.reps, log]);
+    refineMapInBackground(pending, requestId);
+  }, [appState.reps, log, refineMapInBackground]);
 
   const handleShowUnassignedJobsOnMap = useCallback(async (jobs?: Job[]) => {
     const requestId = ++mapRequestRef.current;
@@ -956,16 +838,14 @@ export const useAppLogic = () => {
     setIsRouting(true);
     setSelectedRepId(null);
     try {
-        const addresses = targetJobs.map(j => j.address);
-        const coordsResults = await geocodeAddresses(addresses);
-        if (mapRequestRef.current !== requestId) return;
+        const { results: coordsResults, pending } = geocodeAddressesNow(targetJobs);
 
         const mappableJobs: DisplayJob[] = [];
         const unmappableJobs: DisplayJob[] = [];
         const mappableCoords: Coordinates[] = [];
         targetJobs.forEach((job, index) => {
             const result = coordsResults[index];
-            if (result.coordinates) { mappableJobs.push(job); mappableCoords.push(result.coordinates); }
+            if (result.coordinates) { mappableJobs.push(markEstimated(job, result)); mappableCoords.push(result.coordinates); }
             else { unmappableJobs.push({ ...job, geocodeError: result.error || 'Unknown' }); }
         });
         
@@ -977,10 +857,11 @@ export const useAppLogic = () => {
         };
         
         setActiveRoute({ repName: 'Unassigned Jobs', mappableJobs, unmappableJobs, routeInfo });
+        refineMapInBackground(pending, requestId);
     } catch (error) { console.error("Failed to show unassigned jobs:", error); } finally { 
         if (mapRequestRef.current === requestId) setIsRouting(false); 
     }
-  }, [appState.unassignedJobs, log]);
+  }, [appState.unassignedJobs, log, refineMapInBackground]);
 
   const handleShowZipOnMap = useCallback(async (zip: string, rep?: Rep) => {
       const requestId = ++mapRequestRef.current;
@@ -1031,16 +912,14 @@ export const useAppLogic = () => {
               assignedRepName: r.name
           }));
           
-          const addresses = displayJobs.map(j => j.address);
-          const results = await geocodeAddresses(addresses);
-          if (mapRequestRef.current !== requestId) return;
+          const { results, pending } = geocodeAddressesNow(displayJobs);
 
           const mappableJobs: DisplayJob[] = [];
           const coords: Coordinates[] = [];
           
           displayJobs.forEach((job, i) => {
               if (results[i].coordinates) {
-                  mappableJobs.push(job);
+                  mappableJobs.push(markEstimated(job, results[i]));
                   coords.push(results[i].coordinates!);
               }
           });
@@ -1051,10 +930,11 @@ export const useAppLogic = () => {
               unmappableJobs: [],
               routeInfo: { distance: 0, duration: 0, geometry: null, coordinates: coords }
           });
+          refineMapInBackground(pending, requestId);
       } catch (e) { console.error(e); } finally { 
           if (mapRequestRef.current === requestId) setIsRouting(false); 
       }
-  }, [appState.reps, log]);
+  }, [appState.reps, log, refineMapInBackground]);
 
   const handleShowAllJobsOnMap = useCallback(async () => {
     const requestId = ++mapRequestRef.current;
@@ -1067,16 +947,14 @@ export const useAppLogic = () => {
     setIsRouting(true);
     setSelectedRepId(null);
     try {
-        const addresses = allJobs.map(j => j.address);
-        const coordsResults = await geocodeAddresses(addresses);
-        if (mapRequestRef.current !== requestId) return;
+        const { results: coordsResults, pending } = geocodeAddressesNow(allJobs);
 
         const mappableJobs: DisplayJob[] = [];
         const unmappableJobs: DisplayJob[] = [];
         const mappableCoords: Coordinates[] = [];
         allJobs.forEach((job, index) => {
             const result = coordsResults[index];
-            if (result.coordinates) { mappableJobs.push(job); mappableCoords.push(result.coordinates); }
+            if (result.coordinates) { mappableJobs.push(markEstimated(job, result)); mappableCoords.push(result.coordinates); }
             else { unmappableJobs.push({ ...job, geocodeError: result.error || 'Unknown' }); }
         });
         
@@ -1085,10 +963,11 @@ export const useAppLogic = () => {
         };
         
         setActiveRoute({ repName: 'Job Map', mappableJobs, unmappableJobs, routeInfo });
+        refineMapInBackground(pending, requestId);
     } catch (error) { console.error("Failed to show all jobs on map:", error); } finally { 
         if (mapRequestRef.current === requestId) setIsRouting(false); 
     }
-  }, [allJobs, log]);
+  }, [allJobs, log, refineMapInBackground]);
   
   const handleRefreshRoute = useCallback(async () => {
     if (!activeRoute || isRouting) return;
@@ -1112,23 +991,32 @@ export const useAppLogic = () => {
       }
   }, [mapRefreshTrigger]);
 
-  const handleParseJobs = useCallback(async (pastedText: string, onComplete: () => void) => {
-    log('ACTION: Process Pasted Jobs clicked.');
-    if (!pastedText.trim()) { setParsingError('Pasted text cannot be empty.'); return; }
-    setIsParsing(true);
-    setParsingError(null);
-    try {
-      const { date: parsedDateString, jobs: parsedJobs, assignments } = await parseJobsFromText(pastedText, appState.reps);
+  // The slots jobs for a day are placed into: the loaded day's own, else that weekday's template.
+  const getSlotsForDateKey = useCallback((dateKey: string): TimeSlot[] => {
+      const loaded = dailyStates.get(dateKey);
+      if (loaded) return loaded.settings.timeSlots;
+      const weekday = new Date(dateKey + 'T12:00:00').toLocaleString('en-us', { weekday: 'long' });
+      return getSlotsForWeekday(weekdaySlotTemplates, weekday);
+  }, [dailyStates, weekdaySlotTemplates]);
+
+  // Adds parsed or imported jobs to their day (loading it first if needed), places the
+  // pre-assigned ones and starts a fresh undo history.
+  const addParsedJobsToDay = useCallback(async (parsedDateString: string | null, parsedJobs: Job[], assignments: { jobId: string, repId: string, slotId: string }[]) => {
       const targetDate = parsedDateString ? new Date(parsedDateString + 'T12:00:00') : selectedDate;
       const targetDateKey = formatDateToKey(targetDate);
       
       let baseState = dailyStates.get(targetDateKey);
       if (!baseState) {
-          const { reps: repData, sheetName } = await fetchSheetData(targetDate);
+          const { reps: repData, sheetName, layout, regionSource, bookings = [] } = await fetchSheetData(targetDate, sheetLayoutConfig, weekday => getSlotsForWeekday(weekdaySlotTemplates, weekday));
+          const slots = getSlotsForWeekday(weekdaySlotTemplates, targetDate.toLocaleString('en-us', { weekday: 'long' }));
           setActiveSheetName(sheetName);
+          if (layout) setSheetLayouts(prev => ({ ...prev, [targetDateKey]: layout }));
+          if (regionSource) recordLayoutCheck(sheetName, repData, regionSource);
           if (repData.length > 0 && (repData[0] as Rep).isMock) setUsingMockData(true);
-          const repsWithSchedule = repData.map(rep => ({ ...rep, schedule: TIME_SLOTS.map(slot => ({ ...slot, jobs: [] })), isLocked: false }));
-          baseState = { reps: repsWithSchedule, unassignedJobs: [], settings: DEFAULT_SETTINGS };
+          const knownReps = Array.from(dailyStates.values()).flatMap(state => state.reps);
+          const repsWithSchedule = placeSheetBookings(applyTerritoryDefaults(repData, knownReps).map(rep => ({ ...rep, schedule: slots.map(slot => ({ ...slot, jobs: [] })), isLocked: false })), bookings);
+          if (bookings.length > 0) updateGeoCache(bookings.map(booking => booking.job.address));
+          baseState = { reps: repsWithSchedule, unassignedJobs: [], settings: { ...DEFAULT_SETTINGS, timeSlots: slots } };
       }
 
       const newDayState = JSON.parse(JSON.stringify(baseState)) as AppState;
@@ -1153,20 +1041,50 @@ export const useAppLogic = () => {
 
       if (!activeDayKeys.includes(targetDateKey)) addActiveDay(targetDate);
       else _setSelectedDate(targetDate);
-      onComplete();
-      log('- COMPLETE: Job parsing finished.');
       
       if (parsedJobs.length > 0) updateGeoCache(parsedJobs.map(j => j.address));
       
       setAutoMapAction('show-all');
+  }, [selectedDate, dailyStates, activeDayKeys, addActiveDay, updateGeoCache, sheetLayoutConfig, recordLayoutCheck, weekdaySlotTemplates]);
 
+  // Parses pasted text for review; nothing is added until the dispatcher commits the result.
+  const handleParseJobs = useCallback(async (pastedText: string): Promise<ParsedTextResult | null> => {
+    log('ACTION: Process Pasted Jobs clicked.');
+    if (!pastedText.trim()) { setParsingError('Pasted text cannot be empty.'); return null; }
+    setIsParsing(true);
+    setParsingError(null);
+    try {
+      // Text without a date line goes to the day being viewed.
+      const result = await parseJobsFromText(pastedText, appState.reps, date => getSlotsForDateKey(date || formatDateToKey(selectedDate)));
+      const skipped = result.lines.filter(line => line.kind === 'skipped').length;
+      log(`- COMPLETE: Parsed ${result.jobs.length} job(s)${skipped > 0 ? `, ${skipped} line(s) skipped` : ''}. Waiting for review.`);
+      return result;
     } catch (error) {
       console.error('Failed to parse jobs:', error);
       setParsingError('Job parsing failed.');
+      return null;
     } finally {
       setIsParsing(false);
     }
-  }, [log, appState.reps, selectedDate, dailyStates, activeDayKeys, addActiveDay, updateGeoCache]);
+  }, [log, appState.reps, getSlotsForDateKey, selectedDate]);
+
+  const handleImportJobs = useCallback(async (jobs: Job[], assignments: { jobId: string, repId: string, slotId: string }[], onComplete: () => void, date?: string | null) => {
+    log(`ACTION: Add ${jobs.length} reviewed job(s).`);
+    if (jobs.length === 0) { setParsingError('There are no jobs to add.'); return; }
+    setIsParsing(true);
+    setParsingError(null);
+    try {
+      // Without a date (files carry no date line) the jobs go to the day being viewed.
+      await addParsedJobsToDay(date || formatDateToKey(selectedDate), jobs, assignments);
+      onComplete();
+      log(`- COMPLETE: Added ${jobs.length} job(s), ${assignments.length} pre-assigned.`);
+    } catch (error) {
+      console.error('Failed to add jobs:', error);
+      setParsingError('Adding jobs failed.');
+    } finally {
+      setIsParsing(false);
+    }
+  }, [log, selectedDate, addParsedJobsToDay]);
 
   const handleClearAllSchedules = useCallback(() => { 
     const dateKey = formatDateToKey(selectedDate);
@@ -1183,7 +1101,7 @@ export const useAppLogic = () => {
                 const removedJobs = [];
                 for (const job of slot.jobs) {
                     const repNamePattern = new RegExp(`\\(Rep:\\s*${rep.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\)`, 'i');
-                    if (repNamePattern.test(job.notes)) {
+                    if (repNamePattern.test(job.notes) || isJobPinned(job)) {
                         preservedJobs.push(job);
                     } else {
                         removedJobs.push(job);
@@ -1231,7 +1149,7 @@ export const useAppLogic = () => {
     }, 'Toggle Rep Lock');
   }, [recordChange, selectedDate]);
 
-  const handleUpdateJob = useCallback((jobId: string, updatedDetails: Partial<Pick<Job, 'customerName' | 'address' | 'notes' | 'originalTimeframe'>>) => { 
+  const handleUpdateJob = useCallback((jobId: string, updatedDetails: Partial<Pick<Job, 'customerName' | 'phone' | 'email' | 'address' | 'notes' | 'originalTimeframe' | 'attributes'>>) => { 
     const dateKey = formatDateToKey(selectedDate);
     recordChange(currentDailyStates => {
         const newDailyStates = new Map<string, AppState>(currentDailyStates);
@@ -1268,6 +1186,93 @@ export const useAppLogic = () => {
     setMapRefreshTrigger(prev => prev + 1);
   }, [recordChange, selectedDate]);
 
+  const handleSetJobStatus = useCallback((jobId: string, status: JobStatus) => {
+    const dateKey = formatDateToKey(selectedDate);
+    recordChange(currentDailyStates => {
+        const newDailyStates = new Map<string, AppState>(currentDailyStates);
+        const dayState = newDailyStates.get(dateKey);
+        if (!dayState) return currentDailyStates;
+        const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
+
+        const unassignedIndex = newState.unassignedJobs.findIndex(j => j.id === jobId);
+        if (unassignedIndex > -1) {
+            const job = newState.unassignedJobs[unassignedIndex];
+            const updated = transitionJobStatus(job, status);
+            if (!updated) { log(`- WARN: A ${getJobStatus(job)} job cannot be marked ${status}.`); return currentDailyStates; }
+            newState.unassignedJobs[unassignedIndex] = updated;
+            log(`ACTION: Marked "${job.address}" ${JOB_STATUS_LABELS[status]}.`);
+            newDailyStates.set(dateKey, newState);
+            return newDailyStates;
+        }
+
+        for (const rep of newState.reps) {
+            for (const slot of rep.schedule) {
+                const jobIndex = slot.jobs.findIndex(j => j.id === jobId);
+                if (jobIndex === -1) continue;
+                const job = slot.jobs[jobIndex];
+                const updated = transitionJobStatus(job, status) as DisplayJob | null;
+                if (!updated) { log(`- WARN: A ${getJobStatus(job)} job cannot be marked ${status}.`); return currentDailyStates; }
+                if (status === 'confirmed') {
+                    // The customer agreed to the window they are booked in.
+                    updated.originalTimeframe = job.timeSlotLabel || slot.label;
+                }
+                if (status === 'cancelled') {
+                    // A cancelled job frees its slot.
+                    const { assignmentScore, scoreBreakdown, timeSlotLabel, ...cleanJob } = updated;
+                    slot.jobs.splice(jobIndex, 1);
+                    newState.unassignedJobs.push(cleanJob);
+                } else {
+                    slot.jobs[jobIndex] = updated;
+                }
+                log(`ACTION: Marked "${job.address}" ${JOB_STATUS_LABELS[status]}.`);
+                newDailyStates.set(dateKey, newState);
+                return newDailyStates;
+            }
+        }
+        return currentDailyStates;
+    }, 'Set Job Status');
+    setMapRefreshTrigger(prev => prev + 1);
+  }, [recordChange, selectedDate, log]);
+
+  const weekOverview = useMemo(() => [...activeDayKeys].sort().map(dateKey => summarizeDay(dateKey, dailyStates.get(dateKey))), [activeDayKeys, dailyStates]);
+
+  const duplicateGroups = useMemo(() => findDuplicateGroups(dailyStates), [dailyStates]);
+  const findIncomingDuplicates = useCallback((jobs: Job[]) => findDuplicatesOfIncoming(jobs, dailyStates), [dailyStates]);
+
+  const handleMergeDuplicates = useCallback((groupId: string, keepDateKey: string, keepJobId: string) => {
+    recordChange(currentDailyStates => {
+        const group = findDuplicateGroups(currentDailyStates).find(g => g.id === groupId);
+        const keeper = group?.locations.find(location => location.dateKey === keepDateKey && location.job.id === keepJobId);
+        if (!group || !keeper) { log('- MERGE: Those jobs no longer look like duplicates.'); return currentDailyStates; }
+        log(`ACTION: Merged ${group.locations.length} copies of ${keeper.job.address} into the one on ${describeJobLocation(keeper)}.`);
+        return mergeDuplicateJobs(currentDailyStates, group, keeper);
+    }, 'Merge Duplicate Jobs');
+  }, [recordChange, log]);
+
+  const handleMoveJobToDay = useCallback((jobId: string, fromDateKey: string, toDateKey: string) => {
+    recordChange(currentDailyStates => {
+        const { dailyStates: newDailyStates, movedCount } = moveJobsToDay(currentDailyStates, [jobId], fromDateKey, toDateKey);
+        if (movedCount === 0) { log(`- WARN: Could not move the job to ${formatDayLabel(toDateKey)}. Finished, cancelled and already-present jobs, and jobs on locked or optimized reps, stay put.`); return currentDailyStates; }
+        log(`ACTION: Moved a job from ${formatDayLabel(fromDateKey)} to ${formatDayLabel(toDateKey)}.`);
+        return newDailyStates;
+    }, 'Move Job To Day');
+    setMapRefreshTrigger(prev => prev + 1);
+  }, [recordChange, log]);
+
+  const handlePushUnassignedToNextDay = useCallback((fromDateKey: string) => {
+    recordChange(currentDailyStates => {
+        const toDateKey = getNextLoadedDayKey(activeDayKeys, fromDateKey, currentDailyStates);
+        const dayState = currentDailyStates.get(fromDateKey);
+        if (!toDateKey || !dayState) { log('- WARN: No later day is loaded in the workspace to push jobs to.'); return currentDailyStates; }
+        const jobIds = dayState.unassignedJobs.map(j => j.id);
+        const { dailyStates: newDailyStates, movedCount } = moveJobsToDay(currentDailyStates, jobIds, fromDateKey, toDateKey);
+        if (movedCount === 0) return currentDailyStates;
+        log(`ACTION: Pushed ${movedCount} unassigned job(s) from ${formatDayLabel(fromDateKey)} to ${formatDayLabel(toDateKey)}.`);
+        return newDailyStates;
+    }, 'Push Unassigned To Next Day');
+    setMapRefreshTrigger(prev => prev + 1);
+  }, [recordChange, log, activeDayKeys]);
+
   const handleUpdateRep = useCallback((repId: string, updates: Partial<Rep>) => { 
       const dateKey = formatDateToKey(selectedDate);
       recordChange(currentDailyStates => {
@@ -1454,18 +1459,18 @@ export const useAppLogic = () => {
         const targetRep = newState.reps.find(r => r.id === repId);
         if (!targetRep || !targetRep.isOptimized) return currentDailyStates;
 
-        // Gather all jobs
-        const allJobs = targetRep.schedule.flatMap(s => s.jobs);
+        // Gather the movable jobs; pinned ones stay in the slot they are booked into
+        const allJobs = targetRep.schedule.flatMap(s => s.jobs.filter(job => !isJobPinned(job)));
         
         // Reset schedule buckets
-        targetRep.schedule.forEach(s => s.jobs = []);
+        targetRep.schedule.forEach(s => s.jobs = s.jobs.filter(isJobPinned));
         
         // Redistribute
         allJobs.forEach(job => {
             delete job.timeSlotLabel; // Remove calculated label
-            let targetSlotId = 'ts-1'; // Default
+            let targetSlotId = targetRep.schedule[0]?.id; // Default
             if (job.originalTimeframe) {
-                const mapped = mapTimeframeToSlotId(job.originalTimeframe);
+                const mapped = mapTimeframeToSlotId(job.originalTimeframe, targetRep.schedule);
                 if (mapped) targetSlotId = mapped;
             }
             const slot = targetRep.schedule.find(s => s.id === targetSlotId) || targetRep.schedule[0];
@@ -1484,111 +1489,86 @@ export const useAppLogic = () => {
     if (!rep || rep.schedule.flatMap(s => s.jobs).length < 1) return;
     
     const dateKey = formatDateToKey(selectedDate);
-    let allJobs = rep.schedule.flatMap(s => s.jobs);
-    const addresses = allJobs.map(j => j.address);
-    
-    // Ensure all addresses are geocoded before we sort
-    if (rep.zipCodes && rep.zipCodes.length > 0) {
-        addresses.push(`${rep.zipCodes[0]}, Arizona, USA`);
+    const currentOrder = rep.schedule.flatMap(s => s.jobs);
+    // Confirmed and finished jobs keep their slot; the route is planned around them.
+    const pinnedStops = rep.schedule.flatMap(slot => slot.jobs.filter(isJobPinned).map(job => ({ job, slotId: slot.id })));
+    const movableJobs = currentOrder.filter(job => !isJobPinned(job));
+    if (movableJobs.length === 0) {
+        log(`OPTIMIZE: Every job on ${rep.name}'s route is confirmed or finished, so there is nothing to reorder.`);
+        return;
     }
+    const homeAddress = getHomeZipAddress(rep);
+    const addresses = currentOrder.map(j => j.address);
+    if (homeAddress) addresses.push(homeAddress);
     const geoResults = await geocodeAddresses(addresses); // Populates internal cache
     
     // Manually build a quick lookup map for this operation to avoid relying on stale state
     const tempCoordMap = new Map<string, Coordinates>();
     addresses.forEach((addr, i) => {
-        if (geoResults[i].coordinates) {
-            tempCoordMap.set(addr, geoResults[i].coordinates!);
-        }
+        const coords = geoResults[i].coordinates || getCoordinates(addr, currentOrder[i]);
+        if (coords) tempCoordMap.set(addr, coords);
     });
+    await prefetchDriveTimesWithin(Array.from(tempCoordMap.values()));
+
+    // Slots the rep is off are skipped, unless a job was already booked into one by override.
+    const unavailableSlotIds = (rep.unavailableSlots?.[selectedDayString] || [])
+        .filter(slotId => !rep.schedule.some(s => s.id === slotId && s.jobs.length > 0));
+    const input: RouteOptimizerInput = {
+        jobs: movableJobs,
+        pinnedStops,
+        home: homeAddress ? tempCoordMap.get(homeAddress) || null : null,
+        slots: rep.schedule,
+        unavailableSlotIds,
+        slotCapacity: appState.settings.allowDoubleBooking ? appState.settings.maxJobsPerSlot : 1,
+        getCoordinates: address => tempCoordMap.get(address) || null,
+        getAppointmentMinutes: job => getAppointmentMinutes(job, appState.settings.appointmentDurations),
+    };
+    const plan = optimizeRoute(input);
+    const plannedIds = new Set(plan.stops.map(stop => stop.job.id));
+    const current = measureRoute(currentOrder.filter(job => plannedIds.has(job.id)), input);
+    log(`OPTIMIZE: ${rep.name} — ${plan.totalMiles.toFixed(1)} mi / ${Math.round(plan.totalMinutes)} min (currently ${current.totalMiles.toFixed(1)} mi / ${Math.round(current.totalMinutes)} min).`);
+    setRouteOptimizationPreview({ repId, repName: rep.name, dateKey, current, plan });
+  }, [appState.reps, appState.settings, selectedDate, selectedDayString, getCoordinates, log]);
+
+  const handleAcceptRouteOptimization = useCallback(() => {
+    const preview = routeOptimizationPreview;
+    if (!preview) return;
+    setRouteOptimizationPreview(null);
 
     recordChange(currentDailyStates => {
         const newDailyStates = new Map<string, AppState>(currentDailyStates);
-        const dayState = newDailyStates.get(dateKey);
+        const dayState = newDailyStates.get(preview.dateKey);
         if (!dayState) return currentDailyStates;
         const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
-        const targetRep = newState.reps.find(r => r.id === repId);
+        const targetRep = newState.reps.find(r => r.id === preview.repId);
         if (!targetRep) return currentDailyStates;
 
-        let jobsToOptimize = targetRep.schedule.flatMap(s => s.jobs);
-        const jobCount = jobsToOptimize.length;
-
-        // Conditional optimization logic based on job count
-        if (jobCount >= 5) {
-            // Full optimization for 5+ jobs
-            const sortedJobs = [...jobsToOptimize].sort((a, b) => getSortableHour(a.originalTimeframe) - getSortableHour(b.originalTimeframe));
-            targetRep.schedule.forEach(s => s.jobs = []);
-
-            let slotIndex = 0;
-            const maxJobsInSlot = dayState.settings.allowDoubleBooking ? dayState.settings.maxJobsPerSlot : 1;
-
-            for (const job of sortedJobs) {
-                while (slotIndex < TIME_SLOTS.length) {
-                    const currentSlot = targetRep.schedule[slotIndex];
-                    if (currentSlot.jobs.length < maxJobsInSlot) {
-                        currentSlot.jobs.push({ ...job, timeSlotLabel: currentSlot.label });
-                        break;
-                    }
-                    slotIndex++;
-                }
-                if (slotIndex >= TIME_SLOTS.length) {
-                    newState.unassignedJobs.push(job);
-                }
-            }
-            targetRep.isOptimized = true;
-
-        } else {
-             // Reorder within existing slots for 4 or fewer jobs
-            targetRep.schedule.forEach(slot => {
-                if (slot.jobs.length > 1) {
-                    let sortedSlotJobs: DisplayJob[] = [];
-                    let unvisited = [...slot.jobs];
-                    
-                    let currentReferenceCoord: Coordinates | undefined;
-                    // Try to find a starting point (e.g., closest to home or previous slot)
-                    // For simplicity, we'll start with the first geocodable job
-                    let startIndex = unvisited.findIndex(job => tempCoordMap.has(job.address));
-                    if (startIndex === -1) startIndex = 0; // Fallback
-                    
-                    let [currentJob] = unvisited.splice(startIndex, 1);
-                    sortedSlotJobs.push(currentJob);
-                    currentReferenceCoord = tempCoordMap.get(currentJob.address);
-
-                    while(unvisited.length > 0) {
-                        if (!currentReferenceCoord) {
-                            sortedSlotJobs.push(...unvisited);
-                            break;
-                        }
-                        let nearestIndex = 0;
-                        let minDist = Infinity;
-                        unvisited.forEach((job, idx) => {
-                            const coord = tempCoordMap.get(job.address);
-                            if (coord) {
-                                const dist = haversineDistance(currentReferenceCoord!, coord);
-                                if (dist < minDist) {
-                                    minDist = dist;
-                                    nearestIndex = idx;
-                                }
-                            }
-                        });
-                        
-                        [currentJob] = unvisited.splice(nearestIndex, 1);
-                        sortedSlotJobs.push(currentJob);
-                        currentReferenceCoord = tempCoordMap.get(currentJob.address);
-                    }
-                    slot.jobs = sortedSlotJobs.map(j => ({ ...j, timeSlotLabel: slot.label }));
-                } else if (slot.jobs.length === 1) {
-                    slot.jobs[0].timeSlotLabel = slot.label;
-                }
-            });
-            targetRep.isOptimized = true;
+        // The plan was built from a snapshot; refuse it if the rep's jobs changed since.
+        const plannedIds = [...preview.plan.stops, ...preview.plan.unplacedJobs.map(job => ({ job }))].map(s => s.job.id).sort().join(',');
+        const currentIds = targetRep.schedule.flatMap(s => s.jobs).map(j => j.id).sort().join(',');
+        if (plannedIds !== currentIds) {
+            log(`OPTIMIZE: ${preview.repName}'s schedule changed since the route was planned. Run Optimize Route again.`);
+            return currentDailyStates;
         }
 
-        newDailyStates.set(dateKey, newState);
+        targetRep.schedule.forEach(s => s.jobs = []);
+        preview.plan.stops.forEach(stop => {
+            const slot = targetRep.schedule.find(s => s.id === stop.slotId);
+            if (slot) slot.jobs.push({ ...stop.job, timeSlotLabel: slot.label });
+        });
+        newState.unassignedJobs.push(...preview.plan.unplacedJobs);
+        targetRep.isOptimized = true;
+
+        newDailyStates.set(preview.dateKey, newState);
         return newDailyStates;
     }, 'Optimize Route');
     
-    setAutoMapAction(repId);
-  }, [appState.reps, selectedDate, recordChange, updateGeoCache]);
+    setAutoMapAction(preview.repId);
+  }, [routeOptimizationPreview, recordChange, log]);
+
+  const handleDiscardRouteOptimization = useCallback(() => {
+    setRouteOptimizationPreview(null);
+  }, []);
 
   const handleDistributeJobs = useCallback(() => {
     log('ACTION: Distribute Jobs clicked.');
@@ -1599,37 +1579,16 @@ export const useAppLogic = () => {
             const newDailyStates = new Map<string, AppState>(currentDailyStates);
             const dayState = newDailyStates.get(dateKey);
             if (!dayState || dayState.unassignedJobs.length === 0) { return currentDailyStates; }
-            const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
-            const jobsToAssign = [...newState.unassignedJobs];
-            const repsWithNoJobs = newState.reps.filter(rep => !rep.isLocked && !rep.isOptimized && rep.schedule.flatMap(s => s.jobs).length === 0);
-            if (repsWithNoJobs.length === 0) { return currentDailyStates; }
-            let assignedCount = 0;
-            for (const rep of repsWithNoJobs) {
-                if (jobsToAssign.length === 0) break;
-                const jobIndex = jobsToAssign.findIndex(job => isJobValidForRepRegion(job, rep));
-                if (jobIndex === -1) continue;
-                const [job] = jobsToAssign.splice(jobIndex, 1);
-                let targetSlotId: string | null = null;
-                if (job.originalTimeframe) { targetSlotId = mapTimeframeToSlotId(job.originalTimeframe); }
-                let assigned = false;
-                const availableSlots = rep.schedule.filter(s => !(rep.unavailableSlots?.[selectedDayString] || []).includes(s.id));
-                const dummyBreakdown: ScoreBreakdown = { distanceBase: 0, distanceCluster: 0, skillRoofing: 0, skillType: 0, performance: 0, penalty: 0 };
-                if (targetSlotId) {
-                    const targetSlot = availableSlots.find(s => s.id === targetSlotId);
-                    if (targetSlot) { targetSlot.jobs.push({ ...job, assignmentScore: 50, scoreBreakdown: dummyBreakdown }); assigned = true; }
-                } 
-                if (!assigned && availableSlots.length > 0) { availableSlots[0].jobs.push({ ...job, assignmentScore: 50, scoreBreakdown: dummyBreakdown }); assigned = true; }
-                if (assigned) { assignedCount++; } else { jobsToAssign.unshift(job); }
-            }
-            newState.unassignedJobs = jobsToAssign;
-            log(`- DISTRIBUTE: Assigned ${assignedCount} jobs to reps with empty schedules.`);
+            const { state: newState, assignments } = distributeJobs(dayState, selectedDayString);
+            if (assignments.length === 0) { return currentDailyStates; }
+            log(`- DISTRIBUTE: Assigned ${assignments.length} jobs to reps with empty schedules.`);
             newDailyStates.set(dateKey, newState);
             return newDailyStates;
         }, 'Distribute Jobs');
         setAutoMapAction('show-all');
         setIsDistributing(false);
     }, 10);
-  }, [recordChange, selectedDate, log, selectedDayString, isJobValidForRepRegion]);
+  }, [recordChange, selectedDate, log, selectedDayString]);
 
   const handleAutoAssign = useCallback(() => {
     log('ACTION: Auto-Assign All (Balanced) clicked.');
@@ -1639,8 +1598,10 @@ export const useAppLogic = () => {
         const currentDayState = history[historyIndex]?.get(dateKey);
         
         if (currentDayState && currentDayState.unassignedJobs.length > 0) {
+             // Precise geocoding continues in the background; scoring uses centroid estimates meanwhile.
              const allAddresses = currentDayState.unassignedJobs.map(j => j.address);
-             await updateGeoCache(allAddresses);
+             updateGeoCache(allAddresses);
+             await prefetchDayDriveTimes(currentDayState);
         }
 
         recordChange(currentDailyStates => {
@@ -1651,78 +1612,9 @@ export const useAppLogic = () => {
                 return currentDailyStates;
             }
 
-            const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
-            const jobsToAssign = [...newState.unassignedJobs];
-            newState.unassignedJobs = []; 
-            let assignedCount = 0;
-
-            const cityOrder = EAST_TO_WEST_CITIES.reduce((acc, city, index) => {
-                acc[city.toLowerCase()] = index;
-                return acc;
-            }, {} as Record<string, number>);
-
-            jobsToAssign.sort((a, b) => {
-                const orderA = cityOrder[norm(a.city)] ?? 999;
-                const orderB = cityOrder[norm(b.city)] ?? 999;
-                return orderA - orderB;
-            });
-
-            const availableReps = newState.reps.filter(r => !r.isLocked && !r.isOptimized);
-
-            for (const job of jobsToAssign) {
-                let bestAssignment: { repId: string; slotId: string; score: number; breakdown: ScoreBreakdown } | null = null;
-                
-                const eligibleReps = availableReps.filter(rep => rep.schedule.flatMap(s => s.jobs).length < newState.settings.maxJobsPerRep);
-
-                for (const rep of eligibleReps) {
-                    if (!isJobValidForRepRegion(job, rep)) continue;
-
-                    const { violated } = checkCityRuleViolation(rep, job.city);
-                    if (violated) continue;
-
-                    const currentJobCount = rep.schedule.flatMap(s => s.jobs).length;
-                    const isUnderMinTarget = currentJobCount < newState.settings.minJobsPerRep;
-
-                    for (const slot of rep.schedule) {
-                        const maxJobsInSlot = newState.settings.allowDoubleBooking ? newState.settings.maxJobsPerSlot : 1;
-                        if (slot.jobs.length >= maxJobsInSlot) continue;
-                        
-                        const isUnavailable = (rep.unavailableSlots?.[selectedDayString] || []).includes(slot.id);
-                        if (isUnavailable && !newState.settings.allowAssignOutsideAvailability) continue;
-
-                        if (newState.settings.strictTimeSlotMatching) {
-                            const requiredSlotId = mapTimeframeToSlotId(job.originalTimeframe || '');
-                            if (requiredSlotId && requiredSlotId !== slot.id) continue;
-                        }
-
-                        const { score, breakdown } = calculateAssignmentScore(job, rep, slot.id, newState.settings);
-                        
-                        let finalScore = score;
-                        if (isUnderMinTarget) {
-                            finalScore += 10000;
-                        }
-
-                        if (!bestAssignment || finalScore > bestAssignment.score) {
-                            bestAssignment = { repId: rep.id, slotId: slot.id, score: finalScore, breakdown };
-                        }
-                    }
-                }
-
-                if (bestAssignment) {
-                    const targetRep = newState.reps.find(r => r.id === bestAssignment!.repId)!;
-                    const targetSlot = targetRep.schedule.find(s => s.id === bestAssignment!.slotId)!;
-                    
-                    const displayScore = bestAssignment.score > 1000 ? bestAssignment.score - 10000 : bestAssignment.score;
-                    
-                    const jobWithScore: DisplayJob = { ...job, assignmentScore: displayScore, scoreBreakdown: bestAssignment.breakdown };
-                    targetSlot.jobs.push(jobWithScore);
-                    assignedCount++;
-                } else {
-                    newState.unassignedJobs.push(job);
-                }
-            }
-            
-            log(`- AUTO-ASSIGN: Assigned ${assignedCount} jobs.`);
+            const { state: newState, assignments, explanations = [] } = autoAssignJobs(dayState, schedulerContext);
+            log(`- AUTO-ASSIGN: Assigned ${assignments.length} jobs.`);
+            if (explanations.length > 0) log(`- AUTO-ASSIGN: ${explanations.length} left unassigned (${summarizeRejections(explanations)}). See "Why?" in Unassigned Jobs.`);
             newDailyStates.set(dateKey, newState);
             return newDailyStates;
 
@@ -1730,7 +1622,62 @@ export const useAppLogic = () => {
         setAutoMapAction('show-all');
         setIsAutoAssigning(false);
     }, 100);
-  }, [recordChange, selectedDate, log, selectedDayString, checkCityRuleViolation, calculateAssignmentScore, history, historyIndex, updateGeoCache, isJobValidForRepRegion]);
+  }, [recordChange, selectedDate, log, schedulerContext, history, historyIndex, updateGeoCache, prefetchDayDriveTimes]);
+
+  const handleOptimizeDay = useCallback(() => {
+    log('ACTION: Optimize Day clicked.');
+    setIsAutoAssigning(true);
+    setTimeout(async () => {
+        const dateKey = formatDateToKey(selectedDate);
+        const dayState = history[historyIndex]?.get(dateKey);
+        if (!dayState || dayState.unassignedJobs.length === 0) {
+            log('- INFO: No unassigned jobs to assign.');
+            setIsAutoAssigning(false);
+            return;
+        }
+        updateGeoCache(dayState.unassignedJobs.map(j => j.address));
+        await prefetchDayDriveTimes(dayState);
+
+        const greedy = autoAssignJobs(dayState, schedulerContext);
+        const budgetSeconds = dayState.settings.optimizerTimeBudgetSeconds || DEFAULT_SETTINGS.optimizerTimeBudgetSeconds;
+        const optimized = optimizeAssignments(dayState, schedulerContext, budgetSeconds * 1000);
+        const { elapsedMs, improvementMoves, timedOut } = optimized.runInfo;
+        log(`- OPTIMIZE DAY: ${optimized.assignments.length} jobs placed in ${(elapsedMs / 1000).toFixed(1)}s (${improvementMoves} improving moves${timedOut ? ', stopped at time budget' : ''}). Greedy placed ${greedy.assignments.length}.`);
+
+        setAssignmentComparison({
+            dateKey,
+            baseState: dayState,
+            greedy,
+            optimized,
+            greedySummary: summarizeAssignments(greedy, schedulerContext),
+            optimizedSummary: summarizeAssignments(optimized, schedulerContext),
+        });
+        setIsAutoAssigning(false);
+    }, 100);
+  }, [selectedDate, log, schedulerContext, history, historyIndex, updateGeoCache, prefetchDayDriveTimes]);
+
+  const handleApplyAssignmentResult = useCallback((choice: 'greedy' | 'optimized') => {
+    const comparison = assignmentComparison;
+    if (!comparison) return;
+    setAssignmentComparison(null);
+
+    recordChange(currentDailyStates => {
+        // Both results were computed from a snapshot; refuse them if the day changed since.
+        if (currentDailyStates.get(comparison.dateKey) !== comparison.baseState) {
+            log('- OPTIMIZE DAY: The schedule changed while the comparison was open. Run Optimize Day again.');
+            return currentDailyStates;
+        }
+        const newDailyStates = new Map<string, AppState>(currentDailyStates);
+        newDailyStates.set(comparison.dateKey, comparison[choice].state);
+        log(`- OPTIMIZE DAY: Applied the ${choice} result (${comparison[choice].assignments.length} jobs).`);
+        return newDailyStates;
+    }, choice === 'optimized' ? 'Optimize Day' : 'Auto-Assign All');
+    setAutoMapAction('show-all');
+  }, [assignmentComparison, recordChange, log]);
+
+  const handleDiscardAssignmentComparison = useCallback(() => {
+    setAssignmentComparison(null);
+  }, []);
 
   const handleAutoAssignForRep = useCallback((repId: string) => {
     log(`ACTION: Auto-Assign for Rep ID ${repId} clicked.`);
@@ -1739,8 +1686,10 @@ export const useAppLogic = () => {
         const dateKey = formatDateToKey(selectedDate);
         const currentDayState = history[historyIndex]?.get(dateKey);
         if (currentDayState && currentDayState.unassignedJobs.length > 0) {
+             // Precise geocoding continues in the background; scoring uses centroid estimates meanwhile.
              const allAddresses = currentDayState.unassignedJobs.map(j => j.address);
-             await updateGeoCache(allAddresses);
+             updateGeoCache(allAddresses);
+             await prefetchDayDriveTimes(currentDayState);
         }
 
         recordChange(currentDailyStates => {
@@ -1750,77 +1699,12 @@ export const useAppLogic = () => {
                 return currentDailyStates;
             }
 
-            const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
-            const targetRep = newState.reps.find(r => r.id === repId);
-
+            const targetRep = dayState.reps.find(r => r.id === repId);
             if (!targetRep || targetRep.isLocked || targetRep.isOptimized) {
                 return currentDailyStates;
             }
 
-            const jobsToAssign = [...newState.unassignedJobs];
-            newState.unassignedJobs = [];
-            let assignedCount = 0;
-
-            const cityOrder = EAST_TO_WEST_CITIES.reduce((acc, city, index) => {
-                acc[city.toLowerCase()] = index;
-                return acc;
-            }, {} as Record<string, number>);
-
-            jobsToAssign.sort((a, b) => {
-                const orderA = cityOrder[norm(a.city)] ?? 999;
-                const orderB = cityOrder[norm(b.city)] ?? 999;
-                return orderA - orderB;
-            });
-
-            for (const job of jobsToAssign) {
-                let bestSlot: { slotId: string; score: number; breakdown: ScoreBreakdown } | null = null;
-                
-                const totalJobsForRep = targetRep.schedule.flatMap(s => s.jobs).length;
-                if (totalJobsForRep >= newState.settings.maxJobsPerRep) {
-                    newState.unassignedJobs.push(job);
-                    continue; 
-                }
-
-                if (!isJobValidForRepRegion(job, targetRep)) {
-                     newState.unassignedJobs.push(job);
-                     continue;
-                }
-
-                const cityViolation = checkCityRuleViolation(targetRep, job.city);
-                if (cityViolation.violated) {
-                    newState.unassignedJobs.push(job);
-                    continue;
-                }
-
-                for (const slot of targetRep.schedule) {
-                    const maxJobsInSlot = newState.settings.allowDoubleBooking ? newState.settings.maxJobsPerSlot : 1;
-                    if (slot.jobs.length >= maxJobsInSlot) continue;
-
-                    const isUnavailable = (targetRep.unavailableSlots?.[selectedDayString] || []).includes(slot.id);
-                    if (isUnavailable && !newState.settings.allowAssignOutsideAvailability) continue;
-
-                    if (newState.settings.strictTimeSlotMatching) {
-                        const requiredSlotId = mapTimeframeToSlotId(job.originalTimeframe || '');
-                        if (requiredSlotId && requiredSlotId !== slot.id) continue;
-                    }
-
-                    const { score, breakdown } = calculateAssignmentScore(job, targetRep, slot.id, newState.settings);
-
-                    if (!bestSlot || score > bestSlot.score) {
-                        bestSlot = { slotId: slot.id, score, breakdown };
-                    }
-                }
-
-                if (bestSlot) {
-                    const targetSlot = targetRep.schedule.find(s => s.id === bestSlot!.slotId)!;
-                    targetSlot.jobs.push({ ...job, assignmentScore: bestSlot.score, scoreBreakdown: bestSlot.breakdown });
-                    assignedCount++;
-                } else {
-                    newState.unassignedJobs.push(job);
-                }
-            }
-            
-            newState.unassignedJobs.sort((a,b) => (a.city || '').localeCompare(b.city || ''));
+            const { state: newState } = autoAssignJobsForRep(dayState, repId, schedulerContext);
             newDailyStates.set(dateKey, newState);
             return newDailyStates;
 
@@ -1828,43 +1712,26 @@ export const useAppLogic = () => {
         setMapRefreshTrigger(prev => prev + 1);
         setIsAutoAssigning(false);
     }, 100);
-  }, [recordChange, selectedDate, log, selectedDayString, checkCityRuleViolation, calculateAssignmentScore, history, historyIndex, updateGeoCache, isJobValidForRepRegion]);
+  }, [recordChange, selectedDate, log, schedulerContext, history, historyIndex, updateGeoCache, prefetchDayDriveTimes]);
 
   const handleAiAssign = useCallback(async () => { 
     log('ACTION: Assign with AI clicked.');
-    if (appState.unassignedJobs.length === 0) { log('- INFO: No jobs to assign. Aborting.'); return; }
+    const jobsToAssign = appState.unassignedJobs.filter(isJobSchedulable);
+    if (jobsToAssign.length === 0) { log('- INFO: No jobs to assign. Aborting.'); return; }
     setIsAiAssigning(true);
     clearAiThoughts();
     try {
-        const result = await assignJobsWithAi( appState.reps, appState.unassignedJobs, selectedDayString, appState.settings, addAiThought );
-        addAiThought("Applying assignments...");
+        const result = await assignJobsWithAi( appState.reps, jobsToAssign, selectedDayString, appState.settings, addAiThought );
+        addAiThought("Checking AI assignments against the hard rules...");
         const dateKey = formatDateToKey(selectedDate);
-        recordChange(currentDailyStates => {
-            const newDailyStates = new Map<string, AppState>(currentDailyStates);
-            const dayState = newDailyStates.get(dateKey);
-            if (!dayState) return currentDailyStates;
-            const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
-            let assignedCount = 0;
-            for (const assignment of result.assignments) {
-                const jobIndex = newState.unassignedJobs.findIndex(j => j.id === assignment.jobId);
-                if (jobIndex === -1) continue;
-                const [jobToMove] = newState.unassignedJobs.splice(jobIndex, 1);
-                const rep = newState.reps.find(r => r.id === assignment.repId);
-                if (!rep) continue;
-                const slot = rep.schedule.find(s => s.id === assignment.slotId);
-                if (!slot) continue;
-                slot.jobs.push({ 
-                    ...jobToMove, 
-                    assignmentScore: 85, 
-                    scoreBreakdown: { distanceBase: 0, distanceCluster: 0, skillRoofing: 0, skillType: 0, performance: 0, penalty: 0 } 
-                }); 
-                assignedCount++;
-            }
-            log(`- AI RESULT: ${assignedCount} jobs assigned by AI.`);
-            newDailyStates.set(dateKey, newState);
-            return newDailyStates;
-        }, 'AI Assign');
-        addAiThought(`Assignment complete! ${result.assignments.length} jobs were assigned.`);
+        const proposals = result.assignments || [];
+        const dayState = dailyStatesRef.current.get(dateKey);
+        if (!dayState) return;
+        const { state: newState, assignments, rejected } = validateProposedAssignments(dayState, proposals, schedulerContext);
+        log(`- AI RESULT: ${assignments.length} of ${proposals.length} AI assignments accepted, ${rejected.length} rejected.`);
+        recordChange(currentDailyStates => new Map<string, AppState>(currentDailyStates).set(dateKey, newState), 'AI Assign');
+        setAiValidationReport({ dateKey, acceptedCount: assignments.length, rejected, repairedCount: null });
+        addAiThought(`Assignment complete! ${proposals.length} proposed assignments were checked.`);
         setAutoMapAction('show-all');
     } catch (error) {
         console.error("AI assignment failed:", error);
@@ -1873,7 +1740,22 @@ export const useAppLogic = () => {
     } finally {
         setIsAiAssigning(false);
     }
-  }, [log, appState, selectedDayString, addAiThought, clearAiThoughts, recordChange, selectedDate]);
+  }, [log, appState, selectedDayString, addAiThought, clearAiThoughts, recordChange, selectedDate, schedulerContext]);
+
+  const handleRepairAiAssignments = useCallback(() => {
+    const report = aiValidationReport;
+    if (!report || report.rejected.length === 0 || report.repairedCount !== null) return;
+    const jobIds = report.rejected.map(r => r.proposal.jobId);
+    const dayState = dailyStates.get(report.dateKey);
+    if (!dayState) return;
+    const { state: newState, assignments } = repairAssignments(dayState, jobIds, schedulerContext);
+    log(`- AI REPAIR: Local engine placed ${assignments.length} of ${jobIds.length} rejected jobs.`);
+    if (assignments.length > 0) {
+        recordChange(currentDailyStates => new Map<string, AppState>(currentDailyStates).set(report.dateKey, newState), 'Repair AI Assignments');
+    }
+    setAiValidationReport({ ...report, repairedCount: assignments.length });
+    setAutoMapAction('show-all');
+  }, [aiValidationReport, dailyStates, recordChange, schedulerContext, log]);
 
   const handleSwapSchedules = useCallback((repId1: string, repId2: string) => {
     const dateKey = formatDateToKey(selectedDate);
@@ -1903,6 +1785,34 @@ export const useAppLogic = () => {
     if (expandedRepIds.size < filteredReps.length) setExpandedRepIds(new Set(filteredReps.map(r => r.id)));
     else setExpandedRepIds(new Set());
   };
+  const prepareSheetWriteBack = useCallback(async (): Promise<{ sheetName: string; changes: SheetCellChange[] }> => {
+    const dateKey = formatDateToKey(selectedDate);
+    const layout = sheetLayouts[dateKey];
+    if (!layout) {
+        throw new Error('This day was not loaded from the live sheet in this session. Reload it from the sheet before writing back.');
+    }
+    const changes = buildSheetWriteBack(layout, appState.reps, selectedDayString);
+    log(`Sheet write-back: ${changes.length} cell(s) to update in "${layout.sheetName}".`);
+    return { sheetName: layout.sheetName, changes: await checkSheetWriteConflicts(layout.sheetName, changes) };
+  }, [selectedDate, sheetLayouts, appState.reps, selectedDayString, log]);
+
+  const handleWriteBackToSheet = useCallback(async (sheetName: string, changes: SheetCellChange[], accessToken: string) => {
+    log(`ACTION: Writing ${changes.length} cell(s) back to "${sheetName}".`);
+    await writeSheetCells(sheetName, changes, accessToken);
+    // The written values become the new baseline for conflict checks on every day that shares this sheet.
+    setSheetLayouts(prev => {
+        const next = { ...prev };
+        for (const [dateKey, layout] of Object.entries(prev)) {
+            if (layout.sheetName !== sheetName) continue;
+            const loadedValues = { ...layout.loadedValues };
+            changes.forEach(change => { loadedValues[change.cell] = change.newValue; });
+            next[dateKey] = { ...layout, loadedValues };
+        }
+        return next;
+    });
+    log(`Sheet write-back complete.`);
+  }, [log]);
+
   const handleSaveStateToFile = useCallback(() => { 
     log('ACTION: Save state to file.');
     try {
@@ -1923,6 +1833,153 @@ export const useAppLogic = () => {
     } catch (error) { console.error("Save state error:", error); alert("Error saving file."); }
   }, [dailyStates, activeDayKeys, log]);
 
+  const handleDownloadLlmTranscript = useCallback(() => {
+    const recordings = getLlmTranscript();
+    if (recordings.length === 0) { log('AI: No prompts sent this session.'); return; }
+    const blob = new Blob([JSON.stringify({ recordings }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-transcript-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    log(`AI: Downloaded ${recordings.length} prompt/response pair${recordings.length === 1 ? '' : 's'}.`);
+  }, [log]);
+
+  const handleDownloadDaySheet = useCallback(async (repId: string) => {
+    const rep = appState.reps.find(r => r.id === repId);
+    if (!rep) return;
+    setIsExportingDaySheets(true);
+    try {
+        const sheet = await generateRepDaySheet(rep, selectedDate, appState.settings);
+        if (!sheet) { log(`DAY SHEET: ${rep.name} has no jobs on this day.`); return; }
+        downloadBlob(new Blob([sheet.html], { type: 'text/html' }), sheet.fileName);
+        log(`DAY SHEET: Downloaded ${sheet.fileName}.`);
+    } catch (error) {
+        console.error("Day sheet error:", error);
+        log(`- ERROR: Could not build the day sheet for ${rep.name}.`);
+    } finally {
+        setIsExportingDaySheets(false);
+    }
+  }, [appState.reps, appState.settings, selectedDate, log]);
+
+  const handleDownloadAllDaySheets = useCallback(async () => {
+    const reps = appState.reps.filter(rep => rep.schedule.some(slot => slot.jobs.length > 0));
+    if (reps.length === 0) { log('DAY SHEET: No rep has jobs on this day.'); return; }
+    setIsExportingDaySheets(true);
+    try {
+        // One rep at a time: geocoding and routing go through rate-limited public servers.
+        const sheets: DaySheet[] = [];
+        for (const rep of reps) {
+            const sheet = await generateRepDaySheet(rep, selectedDate, appState.settings);
+            if (sheet) sheets.push(sheet);
+        }
+        const zip = createZip(sheets.map(sheet => ({ name: sheet.fileName, content: sheet.html })));
+        downloadBlob(zip, `day-sheets-${formatDateToKey(selectedDate)}.zip`);
+        log(`DAY SHEET: Downloaded ${sheets.length} day sheet(s) as a ZIP.`);
+    } catch (error) {
+        console.error("Day sheet export error:", error);
+        log('- ERROR: Could not build the day sheets.');
+    } finally {
+        setIsExportingDaySheets(false);
+    }
+  }, [appState.reps, appState.settings, selectedDate, log]);
+
+  const handleSetGeocodeOverride = useCallback((address: string, coordinates: Coordinates | null) => {
+    setGeocodeOverride(address, coordinates);
+    // Scoring reads the app's own coordinate map; dropping the address lets updateGeoCache refill it.
+    setGeoCache(prev => {
+        const next = new Map(prev);
+        if (coordinates) next.set(address, coordinates);
+        else next.delete(address);
+        return next;
+    });
+    log(coordinates
+        ? `GEOCODE: Pinned "${address}" to ${coordinates.lat.toFixed(5)}, ${coordinates.lon.toFixed(5)}.`
+        : `GEOCODE: Removed the pin for "${address}".`);
+    if (activeRoute) setMapRefreshTrigger(prev => prev + 1);
+  }, [log, activeRoute]);
+
+  const handleExportGeocodeCache = useCallback(() => {
+    const data = exportGeocodeCache();
+    downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), `geocode-cache-${formatDateToKey(new Date())}.json`);
+    log(`GEOCODE: Exported ${data.entries.length} cached address(es).`);
+  }, [log]);
+
+  const handleImportGeocodeCache = useCallback(async (file: File) => {
+    let data: unknown;
+    try {
+        data = JSON.parse(await file.text());
+    } catch (error) {
+        console.error("Geocode cache import failed:", error);
+        log(`- ERROR (Geocode import): ${file.name} is not valid JSON.`);
+        throw new Error(`${file.name} could not be read as JSON. Choose a file saved with Export.`);
+    }
+    const counts = importGeocodeCache(data);
+    log(`GEOCODE: Imported ${file.name}: ${counts.added} added, ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.rejected} rejected as invalid.`);
+    if (activeRoute) setMapRefreshTrigger(prev => prev + 1);
+    return counts;
+  }, [log, activeRoute]);
+
+  // Pins a job's address to a point picked on the map, re-scores every assignment at that
+  // address on every loaded day with the new position and redraws the map. A cleaned-up address for the point
+  // is looked up afterwards and offered as a suggestion.
+  const handleSetJobLocation = useCallback((jobId: string, coordinates: Coordinates) => {
+    setPinPlacementJobId(null);
+    const job = allJobs.find(j => j.id === jobId);
+    if (!job) return;
+    const { address } = job;
+    handleSetGeocodeOverride(address, coordinates);
+
+    const pinnedContext: SchedulerContext = { ...schedulerContext, getCoordinates: (addr, hints) => addr === address ? coordinates : schedulerContext.getCoordinates(addr, hints) };
+    const hasAssignmentAtAddress = (dayState: AppState) => dayState.reps.some(rep => rep.schedule.some(slot => slot.jobs.some(j => j.address === address)));
+    recordChange(currentDailyStates => {
+        let newDailyStates: Map<string, AppState> | null = null;
+        for (const [dateKey, dayState] of currentDailyStates) {
+            if (!hasAssignmentAtAddress(dayState)) continue;
+            const newState = JSON.parse(JSON.stringify(dayState)) as AppState;
+            newState.reps.forEach(rep => rep.schedule.forEach(slot => {
+                slot.jobs = slot.jobs.map(j => {
+                    if (j.address !== address) return j;
+                    const { score, breakdown } = scoreAssignment(j, rep, slot.id, newState.settings, pinnedContext);
+                    return { ...j, assignmentScore: score, scoreBreakdown: breakdown };
+                });
+            }));
+            newDailyStates = (newDailyStates || new Map<string, AppState>(currentDailyStates)).set(dateKey, newState);
+        }
+        return newDailyStates || currentDailyStates;
+    }, 'Pin Job Location');
+    const rescoredDays = Array.from(dailyStates.values()).filter(hasAssignmentAtAddress).length;
+    if (rescoredDays > 0) log(`- Re-scored assignments at "${address}" on ${rescoredDays} day(s) with the pinned location.`);
+    setMapRefreshTrigger(prev => prev + 1);
+
+    const requestId = ++pinRequestRef.current;
+    setPinAddressSuggestion(null);
+    reverseGeocode(coordinates).then(placeName => {
+        if (pinRequestRef.current !== requestId) return;
+        const suggestedAddress = placeName ? formatReverseGeocodedAddress(placeName) : null;
+        if (suggestedAddress && suggestedAddress.toLowerCase() !== address.toLowerCase()) {
+            setPinAddressSuggestion({ jobId, address, suggestedAddress, coordinates });
+        } else {
+            setPinAddressSuggestion(null);
+        }
+    });
+  }, [allJobs, dailyStates, schedulerContext, recordChange, handleSetGeocodeOverride, log]);
+
+  const handleApplyPinAddressSuggestion = useCallback(() => {
+    if (!pinAddressSuggestion) return;
+    const { jobId, address, suggestedAddress, coordinates } = pinAddressSuggestion;
+    const job = allJobs.find(j => j.id === jobId);
+    setPinAddressSuggestion(null);
+    if (!job || job.address !== address) return;
+    // The pin is keyed to the address, so the new address gets one too.
+    handleSetGeocodeOverride(suggestedAddress, coordinates);
+    handleUpdateJob(jobId, { address: suggestedAddress, notes: `(Address corrected from: ${address}) ${job.notes || ''}`.trim() });
+    log(`- PIN: Corrected "${address}" to "${suggestedAddress}".`);
+  }, [pinAddressSuggestion, allJobs, handleSetGeocodeOverride, handleUpdateJob, log]);
+
   const handleLoadStateFromFile = useCallback((loadedState: any) => {
     log('ACTION: Load state from file.');
     try {
@@ -1932,9 +1989,9 @@ export const useAppLogic = () => {
             if(Array.isArray(e) && typeof e[0] === 'string' && isAppState(e[1])) {
                 const stateCandidate = e[1];
                 const finalState: AppState = {
-                    reps: stateCandidate.reps,
+                    reps: applyTerritoryDefaults(stateCandidate.reps),
                     unassignedJobs: stateCandidate.unassignedJobs,
-                    settings: { ...DEFAULT_SETTINGS, ...(stateCandidate.settings || {}) }
+                    settings: restoreSettings(stateCandidate.settings)
                 };
                 return [e[0], finalState];
             } throw new Error("Invalid entry.");
@@ -1953,6 +2010,94 @@ export const useAppLogic = () => {
     } catch (error) { const msg = error instanceof Error ? error.message : "Unknown error"; log(`- ERROR: ${msg}`); alert(`Error loading file: ${msg}`); }
   }, [log]);
 
+  const applySavedWorkspace = useCallback((workspace: SavedWorkspace): boolean => {
+      const restoredHistory = workspace.history.map(entries => new Map<string, AppState>(
+          entries.map(([dateKey, state]): [string, AppState] => [dateKey, { ...state, settings: restoreSettings(state.settings) }])
+      ));
+      const restoredIndex = Math.min(Math.max(0, workspace.historyIndex), restoredHistory.length - 1);
+      const dayKeys = workspace.activeDayKeys.length > 0 ? workspace.activeDayKeys : Array.from(restoredHistory[restoredIndex].keys()).sort();
+      if (dayKeys.length === 0) return false;
+      const selectedKey = dayKeys.includes(workspace.selectedDateKey) ? workspace.selectedDateKey : dayKeys[0];
+
+      setHistory(restoredHistory);
+      setHistoryIndex(restoredIndex);
+      setActiveDayKeys(dayKeys);
+      _setSelectedDate(new Date(selectedKey + 'T12:00:00'));
+      setActiveRoute(null);
+      setSelectedRepId(null);
+      setHasInitializedMap(false);
+      return true;
+  }, []);
+
+  const handleRestoreSession = useCallback(() => {
+      if (!restoreCandidate) return;
+      if (applySavedWorkspace(restoreCandidate)) {
+          log(`ACTION: Restored previous session saved at ${new Date(restoreCandidate.savedAt).toLocaleString()}.`);
+      }
+      setRestoreCandidate(null);
+      setIsRestoreResolved(true);
+  }, [restoreCandidate, applySavedWorkspace, log]);
+
+  const handleDiscardSession = useCallback(() => {
+      if (restoreCandidate) {
+          // Keep the discarded session reachable from the autosave list before it gets overwritten.
+          saveAutosaveSnapshot(restoreCandidate).catch(error => console.warn('Failed to keep discarded session as autosave:', error));
+      }
+      log('ACTION: Started a new session (previous session kept in autosaves).');
+      setRestoreCandidate(null);
+      setIsRestoreResolved(true);
+  }, [restoreCandidate, log]);
+
+  const handleOpenAutosave = useCallback(async (snapshotId: number) => {
+      log(`ACTION: Open autosave #${snapshotId}.`);
+      try {
+          const workspace = await loadAutosaveSnapshot(snapshotId);
+          if (!workspace || !applySavedWorkspace(workspace)) throw new Error('Autosave is empty or no longer exists.');
+          setRestoreCandidate(null);
+          setIsRestoreResolved(true);
+          log(`- SUCCESS: Opened autosave from ${new Date(workspace.savedAt).toLocaleString()}.`);
+      } catch (error) {
+          const msg = error instanceof Error ? error.message : 'Unknown error';
+          log(`- ERROR: ${msg}`);
+          alert(`Error opening autosave: ${msg}`);
+      }
+  }, [applySavedWorkspace, log]);
+
+  // Look for a previous session before anything is fetched from the sheet.
+  useEffect(() => {
+      loadWorkspace()
+          .then(saved => {
+              if (saved && countWorkspaceJobs(saved) > 0) setRestoreCandidate(saved);
+              else setIsRestoreResolved(true);
+          })
+          .catch(error => {
+              console.warn('Failed to read saved workspace:', error);
+              setIsRestoreResolved(true);
+          });
+  }, []);
+
+  // Continuously persist the workspace (debounced).
+  useEffect(() => {
+      if (!isRestoreResolved || dailyStates.size === 0) return;
+      const timer = setTimeout(() => {
+          const workspace = buildSavedWorkspace(history, historyIndex, activeDayKeys, formatDateToKey(selectedDate));
+          latestWorkspaceRef.current = workspace;
+          saveWorkspace(workspace).catch(error => console.warn('Autosave failed:', error));
+      }, AUTOSAVE_DEBOUNCE_MS);
+      return () => clearTimeout(timer);
+  }, [history, historyIndex, activeDayKeys, selectedDate, dailyStates, isRestoreResolved]);
+
+  // Keep a timestamped snapshot every few minutes if anything changed.
+  useEffect(() => {
+      const interval = setInterval(() => {
+          const workspace = latestWorkspaceRef.current;
+          if (!workspace || workspace === lastSnapshotRef.current) return;
+          lastSnapshotRef.current = workspace;
+          saveAutosaveSnapshot(workspace).catch(error => console.warn('Autosave snapshot failed:', error));
+      }, AUTOSAVE_SNAPSHOT_INTERVAL_MS);
+      return () => clearInterval(interval);
+  }, []);
+
   const filteredReps = useCallback((repSearchTerm: string, cityFilters: Set<string>, lockFilter: 'all' | 'locked' | 'unlocked') => {
     const repsToSort = appState.reps.filter(rep => {
       if (cityFilters.size > 0 && !rep.schedule.some(slot => slot.jobs.some(job => job.city && cityFilters.has(job.city)))) return false;
@@ -1964,8 +2109,8 @@ export const useAppLogic = () => {
     repsToSort.sort((a, b) => {
       const aUnavailableSlots = a.unavailableSlots?.[selectedDayString];
       const bUnavailableSlots = b.unavailableSlots?.[selectedDayString];
-      const aIsUnavailable = Array.isArray(aUnavailableSlots) && aUnavailableSlots.length === TIME_SLOTS.length;
-      const bIsUnavailable = Array.isArray(bUnavailableSlots) && bUnavailableSlots.length === TIME_SLOTS.length;
+      const aIsUnavailable = Array.isArray(aUnavailableSlots) && aUnavailableSlots.length >= a.schedule.length;
+      const bIsUnavailable = Array.isArray(bUnavailableSlots) && bUnavailableSlots.length >= b.schedule.length;
       if (aIsUnavailable && !bIsUnavailable) return 1;
       if (!aIsUnavailable && bIsUnavailable) return -1;
       let aValue: string | number, bValue: string | number;
@@ -2007,19 +2152,32 @@ export const useAppLogic = () => {
   return {
     appState, setAppState, isLoadingReps, repsError, isParsing, isAutoAssigning, isDistributing, isAiAssigning, isAiFixingAddresses, isTryingVariations, parsingError,
     selectedRepId, usingMockData, activeSheetName, selectedDate, activeDayKeys, addActiveDay, removeActiveDay, setSelectedDate, expandedRepIds,
-    isOverrideActive, sortConfig, setSortConfig, debugLogs, log, aiThoughts, activeRoute, isRouting,
+    isOverrideActive, sortConfig, setSortConfig, debugLogs, log, aiThoughts, aiValidationReport, handleRepairAiAssignments, activeRoute, isRouting,
     draggedJob, setDraggedJob, draggedOverRepId, setDraggedOverRepId, handleJobDragEnd,
     handleRefreshRoute, settings: appState.settings, updateSettings,
-    loadReps, handleShowRoute, handleParseJobs, handleAutoAssign, handleDistributeJobs, handleAutoAssignForRep, handleAiAssign, handleAiFixAddresses, handleTryAddressVariations, clearAiThoughts, handleUnassignJob,
+    loadReps, handleShowRoute, handleParseJobs, handleImportJobs, getSlotsForDateKey, handleAutoAssign, handleDistributeJobs, handleAutoAssignForRep, handleAiAssign, handleAiFixAddresses, handleTryAddressVariations, clearAiThoughts, handleUnassignJob,
     handleClearAllSchedules, handleJobDrop, handleToggleRepLock,
-    handleToggleRepExpansion, handleToggleAllReps, handleUpdateJob, handleRemoveJob, handleUpdateRep, allJobs, assignedJobs, assignedJobsCount,
+    handleToggleRepExpansion, handleToggleAllReps, handleUpdateJob, handleSetJobStatus, handleRemoveJob, handleUpdateRep, allJobs,
+    weekOverview, handleMoveJobToDay, handlePushUnassignedToNextDay, assignedJobs, assignedJobsCount,
     assignedCities, assignedRepNames, filteredReps, handleShowUnassignedJobsOnMap, handleShowAllJobsOnMap, handleShowZipOnMap, handleShowAllRepLocations, handleShowFilteredJobsOnMap,
     isJobValidForRepRegion, checkCityRuleViolation,
     handleOptimizeRepRoute, handleUnoptimizeRepRoute, handleSwapSchedules,
-    handleSaveStateToFile, handleLoadStateFromFile,
+    routeOptimizationPreview, handleAcceptRouteOptimization, handleDiscardRouteOptimization,
+    explainUnassignedJob,
+    assignmentComparison, handleOptimizeDay, handleApplyAssignmentResult, handleDiscardAssignmentComparison,
+    handleSaveStateToFile, handleLoadStateFromFile, handleDownloadLlmTranscript,
+    isExportingDaySheets, handleDownloadDaySheet, handleDownloadAllDaySheets,
+    handleSetGeocodeOverride, handleExportGeocodeCache, handleImportGeocodeCache,
+    pinPlacementJobId, setPinPlacementJobId, handleSetJobLocation, pinAddressSuggestion, setPinAddressSuggestion, handleApplyPinAddressSuggestion,
+    prepareSheetWriteBack, handleWriteBackToSheet,
+    sheetLayoutConfig, updateSheetLayoutConfig, layoutCheckReport,
+    weekdaySlotTemplates, saveWeekdayTimeSlots,
+    messageTemplates, updateMessageTemplates, providerSettings, updateProviderSettings, llmApiKey, updateLlmApiKey,
+    restoreCandidate, handleRestoreSession, handleDiscardSession, listAutosaveSnapshots, handleOpenAutosave,
     handleUndo, handleRedo, canUndo, canRedo,
     hoveredJobId, setHoveredJobId,
     repSettingsModalRepId, setRepSettingsModalRepId,
+    duplicateGroups, findIncomingDuplicates, handleMergeDuplicates, duplicateMergeGroupId, setDuplicateMergeGroupId,
     setFilteredAssignedJobs,
     setFilteredUnassignedJobs,
     filteredAssignedJobs,
@@ -0,0 +1,576 @@
+import type { Coordinates } from './osmService';
+
+// Center of every Arizona ZIP code, used by centroidGeocoder for instant estimates.
+// Generated from the public-domain federalgovernmentzipcodes.us ZIP database.
+// PO box and unique ZIPs sit at the center of the town they serve.
+
+export const ARIZONA_ZIP_CENTROIDS: Record<string, Coordinates> = {
+    "85001": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85002": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85003": { lat: 33.4511, lon: -112.0774 }, // Phoenix
+    "85004": { lat: 33.4557, lon: -112.0686 }, // Phoenix
+    "85005": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85006": { lat: 33.4650, lon: -112.0474 }, // Phoenix
+    "85007": { lat: 33.4523, lon: -112.0893 }, // Phoenix
+    "85008": { lat: 33.4665, lon: -111.9984 }, // Phoenix
+    "85009": { lat: 33.4564, lon: -112.1284 }, // Phoenix
+    "85010": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85011": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85012": { lat: 33.5097, lon: -112.0678 }, // Phoenix
+    "85013": { lat: 33.5085, lon: -112.0827 }, // Phoenix
+    "85014": { lat: 33.5103, lon: -112.0556 }, // Phoenix
+    "85015": { lat: 33.5082, lon: -112.1011 }, // Phoenix
+    "85016": { lat: 33.5021, lon: -112.0305 }, // Phoenix
+    "85017": { lat: 33.5153, lon: -112.1212 }, // Phoenix
+    "85018": { lat: 33.4958, lon: -111.9883 }, // Phoenix
+    "85019": { lat: 33.5123, lon: -112.1417 }, // Phoenix
+    "85020": { lat: 33.5623, lon: -112.0559 }, // Phoenix
+    "85021": { lat: 33.5600, lon: -112.0927 }, // Phoenix
+    "85022": { lat: 33.6315, lon: -112.0520 }, // Phoenix
+    "85023": { lat: 33.6324, lon: -112.1118 }, // Phoenix
+    "85024": { lat: 33.6617, lon: -112.0370 }, // Phoenix
+    "85025": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85026": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85027": { lat: 33.6819, lon: -112.0996 }, // Phoenix
+    "85028": { lat: 33.5851, lon: -112.0087 }, // Phoenix
+    "85029": { lat: 33.5961, lon: -112.1199 }, // Phoenix
+    "85030": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85031": { lat: 33.4939, lon: -112.1696 }, // Phoenix
+    "85032": { lat: 33.6238, lon: -112.0044 }, // Phoenix
+    "85033": { lat: 33.4944, lon: -112.2132 }, // Phoenix
+    "85034": { lat: 33.4413, lon: -112.0421 }, // Phoenix
+    "85035": { lat: 33.4724, lon: -112.1832 }, // Phoenix
+    "85036": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85037": { lat: 33.4913, lon: -112.2468 }, // Phoenix
+    "85038": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85039": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85040": { lat: 33.4061, lon: -112.0265 }, // Phoenix
+    "85041": { lat: 33.3889, lon: -112.0954 }, // Phoenix
+    "85042": { lat: 33.3794, lon: -112.0283 }, // Phoenix
+    "85043": { lat: 33.4491, lon: -112.1972 }, // Phoenix
+    "85044": { lat: 33.3291, lon: -111.9943 }, // Phoenix
+    "85045": { lat: 33.3022, lon: -112.1226 }, // Phoenix
+    "85046": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85048": { lat: 33.3160, lon: -112.0669 }, // Phoenix
+    "85050": { lat: 33.6863, lon: -111.9963 }, // Phoenix
+    "85051": { lat: 33.5591, lon: -112.1332 }, // Phoenix
+    "85053": { lat: 33.6299, lon: -112.1316 }, // Phoenix
+    "85054": { lat: 33.6731, lon: -111.9461 }, // Phoenix
+    "85055": { lat: 33.4500, lon: -111.9700 }, // Phoenix
+    "85060": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85061": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85062": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85063": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85064": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85065": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85066": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85067": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85068": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85069": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85070": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85071": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85072": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85073": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85074": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85075": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85076": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85077": { lat: 33.4500, lon: -111.9700 }, // Greyhound Dial Corp
+    "85078": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85079": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85080": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85082": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85083": { lat: 33.7352, lon: -112.1294 }, // Phoenix
+    "85085": { lat: 33.7529, lon: -112.0893 }, // Phoenix
+    "85086": { lat: 33.8155, lon: -112.1202 }, // Phoenix
+    "85087": { lat: 33.9235, lon: -112.1279 }, // New River
+    "85096": { lat: 33.4400, lon: -112.0900 }, // Census Bureau
+    "85097": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85098": { lat: 33.4484, lon: -112.0740 }, // Phoenix
+    "85099": { lat: 33.4500, lon: -111.9700 }, // Arizona State Lottery
+    "85117": { lat: 33.3284, lon: -111.3270 }, // Apache Junction
+    "85118": { lat: 33.3284, lon: -111.3502 }, // Gold Canyon
+    "85119": { lat: 33.4001, lon: -111.5028 }, // Apache Junction
+    "85120": { lat: 33.3931, lon: -111.5768 }, // Apache Junction
+    "85121": { lat: 33.1405, lon: -111.9128 }, // Bapchule
+    "85122": { lat: 32.8905, lon: -111.7540 }, // Casa Grande
+    "85123": { lat: 32.7559, lon: -111.6710 }, // Arizona City
+    "85127": { lat: 33.2125, lon: -111.6970 }, // Chandler Heights
+    "85128": { lat: 32.9574, lon: -111.5344 }, // Coolidge
+    "85130": { lat: 32.8151, lon: -111.7054 }, // Casa Grande
+    "85131": { lat: 32.7509, lon: -111.5833 }, // Eloy
+    "85132": { lat: 32.9969, lon: -111.3612 }, // Florence
+    "85135": { lat: 33.0041, lon: -110.7868 }, // Hayden
+    "85137": { lat: 33.0594, lon: -110.9123 }, // Kearny
+    "85138": { lat: 33.0073, lon: -111.9324 }, // Maricopa
+    "85139": { lat: 32.9576, lon: -112.0534 }, // Maricopa
+    "85140": { lat: 33.1911, lon: -111.5280 }, // San Tan Valley
+    "85141": { lat: 32.6686, lon: -111.4549 }, // Picacho
+    "85142": { lat: 33.2487, lon: -111.6343 }, // Queen Creek
+    "85143": { lat: 33.1911, lon: -111.5280 }, // San Tan Valley
+    "85145": { lat: 32.5800, lon: -111.3410 }, // Red Rock
+    "85147": { lat: 33.1234, lon: -111.7384 }, // Sacaton
+    "85172": { lat: 32.8823, lon: -111.9660 }, // Stanfield
+    "85173": { lat: 33.2887, lon: -111.0985 }, // Superior
+    "85178": { lat: 33.4050, lon: -111.5470 }, // Apache Junction
+    "85190": { lat: 33.5264, lon: -111.3892 }, // Tortilla Flat
+    "85191": { lat: 32.9827, lon: -111.4429 }, // Valley Farms
+    "85192": { lat: 33.0057, lon: -110.7727 }, // Winkelman
+    "85193": { lat: 32.8554, lon: -111.7973 }, // Casa Grande
+    "85194": { lat: 32.8984, lon: -111.6261 }, // Casa Grande
+    "85201": { lat: 33.4317, lon: -111.8469 }, // Mesa
+    "85202": { lat: 33.3851, lon: -111.8724 }, // Mesa
+    "85203": { lat: 33.4370, lon: -111.8057 }, // Mesa
+    "85204": { lat: 33.3992, lon: -111.7896 }, // Mesa
+    "85205": { lat: 33.4368, lon: -111.7129 }, // Mesa
+    "85206": { lat: 33.4026, lon: -111.7242 }, // Mesa
+    "85207": { lat: 33.4321, lon: -111.6426 }, // Mesa
+    "85208": { lat: 33.3984, lon: -111.6513 }, // Mesa
+    "85209": { lat: 33.3782, lon: -111.6406 }, // Mesa
+    "85210": { lat: 33.3887, lon: -111.8428 }, // Mesa
+    "85211": { lat: 33.4663, lon: -111.8373 }, // Mesa
+    "85212": { lat: 33.3425, lon: -111.6353 }, // Mesa
+    "85213": { lat: 33.4367, lon: -111.7731 }, // Mesa
+    "85214": { lat: 33.4125, lon: -111.8319 }, // Mesa
+    "85215": { lat: 33.4707, lon: -111.7188 }, // Mesa
+    "85216": { lat: 33.4125, lon: -111.8319 }, // Mesa
+    "85217": { lat: 33.3200, lon: -111.3200 }, // Apache Jct
+    "85218": { lat: 33.3500, lon: -111.4100 }, // Apache Junction
+    "85219": { lat: 33.4000, lon: -111.4600 }, // Apache Jct
+    "85220": { lat: 33.4100, lon: -111.5700 }, // Apache Junction
+    "85221": { lat: 33.1200, lon: -111.9000 }, // Bapchule
+    "85222": { lat: 32.8700, lon: -111.7300 }, // Casa Grande
+    "85223": { lat: 32.7400, lon: -111.6800 }, // Arizona City
+    "85224": { lat: 33.3301, lon: -111.8632 }, // Chandler
+    "85225": { lat: 33.3105, lon: -111.8239 }, // Chandler
+    "85226": { lat: 33.3092, lon: -111.9198 }, // Chandler
+    "85227": { lat: 33.3400, lon: -111.6300 }, // Chandler Heights
+    "85228": { lat: 32.9600, lon: -111.5200 }, // Coolidge
+    "85230": { lat: 32.8700, lon: -111.7500 }, // Casa Grande
+    "85231": { lat: 32.7100, lon: -111.5700 }, // Eloy
+    "85232": { lat: 32.9600, lon: -111.3100 }, // Florence
+    "85233": { lat: 33.3354, lon: -111.8153 }, // Gilbert
+    "85234": { lat: 33.3527, lon: -111.7809 }, // Gilbert
+    "85235": { lat: 32.9900, lon: -110.7800 }, // Hayden
+    "85236": { lat: 33.3024, lon: -111.6969 }, // Higley
+    "85237": { lat: 33.0900, lon: -110.9700 }, // Kearny
+    "85238": { lat: 33.0000, lon: -111.9300 }, // Maricopa
+    "85239": { lat: 33.0200, lon: -112.0400 }, // Maricopa
+    "85240": { lat: 33.2200, lon: -111.5300 }, // Queen Creek
+    "85241": { lat: 32.7100, lon: -111.4900 }, // Picacho
+    "85242": { lat: 33.2200, lon: -111.6100 }, // Chandler Hts
+    "85243": { lat: 33.1500, lon: -111.5400 }, // Queen Creek
+    "85244": { lat: 33.3213, lon: -111.8888 }, // Chandler
+    "85245": { lat: 32.6200, lon: -111.3700 }, // Red Rock
+    "85246": { lat: 33.3062, lon: -111.8413 }, // Chandler
+    "85247": { lat: 33.1000, lon: -111.7500 }, // Sacaton
+    "85248": { lat: 33.2509, lon: -111.8593 }, // Chandler
+    "85249": { lat: 33.2414, lon: -111.7745 }, // Chandler
+    "85250": { lat: 33.5218, lon: -111.9049 }, // Scottsdale
+    "85251": { lat: 33.4936, lon: -111.9167 }, // Scottsdale
+    "85252": { lat: 33.4995, lon: -111.8684 }, // Scottsdale
+    "85253": { lat: 33.5494, lon: -111.9565 }, // Paradise Valley
+    "85254": { lat: 33.6165, lon: -111.9554 }, // Scottsdale
+    "85255": { lat: 33.6968, lon: -111.8892 }, // Scottsdale
+    "85256": { lat: 33.4858, lon: -111.8533 }, // Scottsdale
+    "85257": { lat: 33.4669, lon: -111.9151 }, // Scottsdale
+    "85258": { lat: 33.5647, lon: -111.8931 }, // Scottsdale
+    "85259": { lat: 33.5879, lon: -111.8404 }, // Scottsdale
+    "85260": { lat: 33.6013, lon: -111.8867 }, // Scottsdale
+    "85261": { lat: 33.5092, lon: -111.8990 }, // Scottsdale
+    "85262": { lat: 33.7752, lon: -111.7791 }, // Scottsdale
+    "85263": { lat: 33.7225, lon: -111.6757 }, // Rio Verde
+    "85264": { lat: 33.6118, lon: -111.6806 }, // Fort Mcdowell
+    "85266": { lat: 33.7669, lon: -111.9182 }, // Scottsdale
+    "85267": { lat: 33.5092, lon: -111.8990 }, // Scottsdale
+    "85268": { lat: 33.6085, lon: -111.7237 }, // Fountain Hills
+    "85269": { lat: 33.6117, lon: -111.7174 }, // Fountain Hills
+    "85271": { lat: 33.5092, lon: -111.8990 }, // Scottsdale
+    "85272": { lat: 32.8500, lon: -111.9700 }, // Stanfield
+    "85273": { lat: 33.2800, lon: -111.1100 }, // Superior
+    "85274": { lat: 33.4125, lon: -111.8319 }, // Mesa
+    "85275": { lat: 33.4125, lon: -111.8319 }, // Mesa
+    "85277": { lat: 33.4125, lon: -111.8319 }, // Mesa
+    "85278": { lat: 33.4100, lon: -111.5400 }, // Apache Jct
+    "85279": { lat: 32.7900, lon: -111.2100 }, // Florence
+    "85280": { lat: 33.4014, lon: -111.9313 }, // Tempe
+    "85281": { lat: 33.4227, lon: -111.9261 }, // Tempe
+    "85282": { lat: 33.3917, lon: -111.9249 }, // Tempe
+    "85283": { lat: 33.3665, lon: -111.9312 }, // Tempe
+    "85284": { lat: 33.3363, lon: -111.9197 }, // Tempe
+    "85285": { lat: 33.4148, lon: -111.9093 }, // Tempe
+    "85286": { lat: 33.2711, lon: -111.8311 }, // Chandler
+    "85287": { lat: 33.4285, lon: -111.9349 }, // Tempe
+    "85289": { lat: 33.4000, lon: -111.9600 }, // Tempe
+    "85290": { lat: 33.4500, lon: -111.6300 }, // Apache Jct
+    "85291": { lat: 32.9900, lon: -111.4400 }, // Valley Farms
+    "85292": { lat: 32.9400, lon: -110.7200 }, // Dudleyville
+    "85293": { lat: 32.8500, lon: -111.7900 }, // Casa Grande
+    "85294": { lat: 32.9200, lon: -111.6100 }, // Casa Grande
+    "85295": { lat: 33.3054, lon: -111.7408 }, // Gilbert
+    "85296": { lat: 33.3354, lon: -111.7406 }, // Gilbert
+    "85297": { lat: 33.2781, lon: -111.7096 }, // Gilbert
+    "85298": { lat: 33.2522, lon: -111.7022 }, // Gilbert
+    "85299": { lat: 33.3528, lon: -111.7890 }, // Gilbert
+    "85301": { lat: 33.5311, lon: -112.1767 }, // Glendale
+    "85302": { lat: 33.5675, lon: -112.1753 }, // Glendale
+    "85303": { lat: 33.5262, lon: -112.2149 }, // Glendale
+    "85304": { lat: 33.5943, lon: -112.1746 }, // Glendale
+    "85305": { lat: 33.5291, lon: -112.2482 }, // Glendale
+    "85306": { lat: 33.6239, lon: -112.1776 }, // Glendale
+    "85307": { lat: 33.5376, lon: -112.3137 }, // Glendale
+    "85308": { lat: 33.6539, lon: -112.1694 }, // Glendale
+    "85309": { lat: 33.5387, lon: -112.1860 }, // Glendale Luke Afb
+    "85310": { lat: 33.7047, lon: -112.1641 }, // Glendale
+    "85311": { lat: 33.5387, lon: -112.1860 }, // Glendale
+    "85312": { lat: 33.5387, lon: -112.1860 }, // Glendale
+    "85313": { lat: 33.6000, lon: -112.1600 }, // Arizona State Univ West
+    "85318": { lat: 33.5387, lon: -112.1860 }, // Glendale
+    "85320": { lat: 33.9186, lon: -113.2134 }, // Aguila
+    "85321": { lat: 32.2295, lon: -112.6542 }, // Ajo
+    "85322": { lat: 33.3133, lon: -112.7891 }, // Arlington
+    "85323": { lat: 33.4321, lon: -112.3438 }, // Avondale
+    "85324": { lat: 34.0755, lon: -112.1340 }, // Black Canyon City
+    "85325": { lat: 33.9578, lon: -114.0036 }, // Bouse
+    "85326": { lat: 33.3703, lon: -112.5838 }, // Buckeye
+    "85327": { lat: 33.8333, lon: -111.9508 }, // Cave Creek
+    "85328": { lat: 33.3164, lon: -114.6650 }, // Cibola
+    "85329": { lat: 33.4353, lon: -112.2979 }, // Cashion
+    "85331": { lat: 33.8851, lon: -111.9349 }, // Cave Creek
+    "85332": { lat: 34.1764, lon: -112.7680 }, // Congress
+    "85333": { lat: 32.8679, lon: -113.4631 }, // Dateland
+    "85334": { lat: 33.6177, lon: -114.5077 }, // Ehrenberg
+    "85335": { lat: 33.6082, lon: -112.3241 }, // El Mirage
+    "85336": { lat: 32.5545, lon: -114.7850 }, // Gadsden
+    "85337": { lat: 32.9306, lon: -112.7468 }, // Gila Bend
+    "85338": { lat: 33.4368, lon: -112.3834 }, // Goodyear
+    "85339": { lat: 33.3436, lon: -112.1716 }, // Laveen
+    "85340": { lat: 33.5098, lon: -112.4135 }, // Litchfield Park
+    "85341": { lat: 31.8826, lon: -112.8157 }, // Lukeville
+    "85342": { lat: 33.8567, lon: -112.6232 }, // Morristown
+    "85343": { lat: 33.3481, lon: -112.6774 }, // Palo Verde
+    "85344": { lat: 34.1500, lon: -114.2891 }, // Parker
+    "85345": { lat: 33.5761, lon: -112.2344 }, // Peoria
+    "85346": { lat: 33.7292, lon: -114.1925 }, // Quartzsite
+    "85347": { lat: 32.7517, lon: -113.9891 }, // Roll
+    "85348": { lat: 33.7481, lon: -113.5715 }, // Salome
+    "85349": { lat: 32.4870, lon: -114.7822 }, // San Luis
+    "85350": { lat: 32.5634, lon: -114.7127 }, // Somerton
+    "85351": { lat: 33.6061, lon: -112.2797 }, // Sun City
+    "85352": { lat: 32.6934, lon: -113.9763 }, // Tacna
+    "85353": { lat: 33.4347, lon: -112.2774 }, // Tolleson
+    "85354": { lat: 33.4228, lon: -112.9528 }, // Tonopah
+    "85355": { lat: 33.5673, lon: -112.4387 }, // Waddell
+    "85356": { lat: 32.6935, lon: -114.1561 }, // Wellton
+    "85357": { lat: 34.0422, lon: -113.4580 }, // Wenden
+    "85358": { lat: 33.9686, lon: -112.7296 }, // Wickenburg
+    "85359": { lat: 33.6669, lon: -114.2396 }, // Quartzsite
+    "85360": { lat: 34.7033, lon: -113.6113 }, // Wikieup
+    "85361": { lat: 33.7637, lon: -112.6142 }, // Wittmann
+    "85362": { lat: 34.2508, lon: -112.7567 }, // Yarnell
+    "85363": { lat: 33.5908, lon: -112.3013 }, // Youngtown
+    "85364": { lat: 32.7015, lon: -114.6424 }, // Yuma
+    "85365": { lat: 32.7093, lon: -114.4905 }, // Yuma
+    "85366": { lat: 32.6100, lon: -114.6312 }, // Yuma
+    "85367": { lat: 32.6566, lon: -114.4042 }, // Yuma
+    "85369": { lat: 32.7253, lon: -114.6244 }, // Yuma
+    "85371": { lat: 33.9906, lon: -114.3963 }, // Poston
+    "85372": { lat: 33.5975, lon: -112.2718 }, // Sun City
+    "85373": { lat: 33.6588, lon: -112.3214 }, // Sun City
+    "85374": { lat: 33.6300, lon: -112.3314 }, // Surprise
+    "85375": { lat: 33.6856, lon: -112.3659 }, // Sun City West
+    "85376": { lat: 33.6620, lon: -112.3413 }, // Sun City West
+    "85377": { lat: 33.8240, lon: -111.9130 }, // Carefree
+    "85378": { lat: 33.6306, lon: -112.3332 }, // Surprise
+    "85379": { lat: 33.6021, lon: -112.3736 }, // Surprise
+    "85380": { lat: 33.5806, lon: -112.2374 }, // Peoria
+    "85381": { lat: 33.6048, lon: -112.2237 }, // Peoria
+    "85382": { lat: 33.6308, lon: -112.2072 }, // Peoria
+    "85383": { lat: 33.7169, lon: -112.2380 }, // Peoria
+    "85385": { lat: 33.5806, lon: -112.2374 }, // Peoria
+    "85387": { lat: 33.7129, lon: -112.4375 }, // Surprise
+    "85388": { lat: 33.6134, lon: -112.4512 }, // Surprise
+    "85390": { lat: 33.8944, lon: -112.8603 }, // Wickenburg
+    "85392": { lat: 33.4777, lon: -112.3093 }, // Avondale
+    "85395": { lat: 33.4790, lon: -112.3947 }, // Goodyear
+    "85396": { lat: 33.4680, lon: -112.4787 }, // Buckeye
+    "85501": { lat: 33.4024, lon: -110.7892 }, // Globe
+    "85502": { lat: 33.3942, lon: -110.7865 }, // Globe
+    "85530": { lat: 33.1265, lon: -110.1170 }, // Bylas
+    "85531": { lat: 32.8692, lon: -109.7878 }, // Central
+    "85532": { lat: 33.4154, lon: -110.8149 }, // Claypool
+    "85533": { lat: 33.1323, lon: -109.2462 }, // Clifton
+    "85534": { lat: 32.8810, lon: -109.2157 }, // Duncan
+    "85535": { lat: 32.9612, lon: -109.8954 }, // Eden
+    "85536": { lat: 33.0333, lon: -109.9717 }, // Fort Thomas
+    "85539": { lat: 33.3992, lon: -110.8687 }, // Miami
+    "85540": { lat: 33.0787, lon: -109.3654 }, // Morenci
+    "85541": { lat: 34.2198, lon: -111.2878 }, // Payson
+    "85542": { lat: 33.3103, lon: -110.4554 }, // Peridot
+    "85543": { lat: 32.9097, lon: -109.8560 }, // Pima
+    "85544": { lat: 34.3435, lon: -111.5353 }, // Pine
+    "85545": { lat: 33.6358, lon: -110.9749 }, // Roosevelt
+    "85546": { lat: 32.8295, lon: -109.6266 }, // Safford
+    "85547": { lat: 34.2575, lon: -111.2878 }, // Payson
+    "85548": { lat: 32.7970, lon: -109.7522 }, // Safford
+    "85550": { lat: 33.3456, lon: -110.4550 }, // San Carlos
+    "85551": { lat: 32.8126, lon: -109.6340 }, // Solomon
+    "85552": { lat: 32.8504, lon: -109.7461 }, // Thatcher
+    "85553": { lat: 33.8317, lon: -111.2946 }, // Tonto Basin
+    "85554": { lat: 34.1014, lon: -110.9637 }, // Young
+    "85601": { lat: 31.5885, lon: -111.3160 }, // Arivaca
+    "85602": { lat: 31.9883, lon: -110.2941 }, // Benson
+    "85603": { lat: 31.4086, lon: -109.9117 }, // Bisbee
+    "85605": { lat: 32.3265, lon: -109.4870 }, // Bowie
+    "85606": { lat: 32.0979, lon: -109.9239 }, // Cochise
+    "85607": { lat: 31.3511, lon: -109.5447 }, // Douglas
+    "85608": { lat: 31.4151, lon: -109.5960 }, // Douglas
+    "85609": { lat: 32.0281, lon: -110.0387 }, // Dragoon
+    "85610": { lat: 31.7139, lon: -109.6193 }, // Elfrida
+    "85611": { lat: 31.6598, lon: -110.5254 }, // Elgin
+    "85613": { lat: 31.5587, lon: -110.3441 }, // Fort Huachuca
+    "85614": { lat: 31.8543, lon: -111.0003 }, // Green Valley
+    "85615": { lat: 31.4035, lon: -110.2047 }, // Hereford
+    "85616": { lat: 31.6639, lon: -110.3334 }, // Huachuca City
+    "85617": { lat: 31.5121, lon: -109.8438 }, // Mc Neal
+    "85618": { lat: 32.7239, lon: -110.6440 }, // Mammoth
+    "85619": { lat: 32.3763, lon: -110.7605 }, // Mount Lemmon
+    "85620": { lat: 31.3373, lon: -109.9413 }, // Naco
+    "85621": { lat: 31.3770, lon: -110.9435 }, // Nogales
+    "85622": { lat: 31.8269, lon: -111.0755 }, // Green Valley
+    "85623": { lat: 32.6005, lon: -110.7961 }, // Oracle
+    "85624": { lat: 31.5353, lon: -110.6968 }, // Patagonia
+    "85625": { lat: 31.8885, lon: -109.6119 }, // Pearce
+    "85626": { lat: 31.3572, lon: -109.5635 }, // Pirtleville
+    "85627": { lat: 31.9995, lon: -110.2862 }, // Pomerene
+    "85628": { lat: 31.5320, lon: -110.9093 }, // Nogales
+    "85629": { lat: 31.9452, lon: -111.0002 }, // Sahuarita
+    "85630": { lat: 31.8973, lon: -110.2154 }, // Saint David
+    "85631": { lat: 32.6209, lon: -110.5992 }, // San Manuel
+    "85632": { lat: 32.0423, lon: -109.1748 }, // San Simon
+    "85633": { lat: 31.4887, lon: -111.5421 }, // Sasabe
+    "85634": { lat: 32.0315, lon: -112.0065 }, // Sells
+    "85635": { lat: 31.5365, lon: -110.2666 }, // Sierra Vista
+    "85636": { lat: 31.6687, lon: -110.2801 }, // Sierra Vista
+    "85637": { lat: 31.6731, lon: -110.6188 }, // Sonoita
+    "85638": { lat: 31.7216, lon: -110.0584 }, // Tombstone
+    "85639": { lat: 31.8140, lon: -111.8257 }, // Topawa
+    "85640": { lat: 31.5696, lon: -111.0534 }, // Tumacacori
+    "85641": { lat: 32.0027, lon: -110.7053 }, // Vail
+    "85643": { lat: 32.3730, lon: -109.8631 }, // Willcox
+    "85644": { lat: 32.2529, lon: -109.8320 }, // Willcox
+    "85645": { lat: 31.6723, lon: -111.0986 }, // Amado
+    "85646": { lat: 31.6126, lon: -111.0459 }, // Tubac
+    "85648": { lat: 31.5084, lon: -111.0757 }, // Rio Rico
+    "85650": { lat: 31.4892, lon: -110.2153 }, // Sierra Vista
+    "85652": { lat: 32.4201, lon: -111.1132 }, // Cortaro
+    "85653": { lat: 32.4047, lon: -111.2736 }, // Marana
+    "85654": { lat: 32.4148, lon: -111.1562 }, // Rillito
+    "85655": { lat: 31.3447, lon: -109.5468 }, // Douglas
+    "85658": { lat: 32.4305, lon: -111.1459 }, // Marana
+    "85662": { lat: 31.5320, lon: -110.9093 }, // Nogales
+    "85670": { lat: 31.8801, lon: -109.7543 }, // Fort Huachuca
+    "85671": { lat: 31.5545, lon: -110.3037 }, // Sierra Vista
+    "85701": { lat: 32.2139, lon: -110.9694 }, // Tucson
+    "85702": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85703": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85704": { lat: 32.3379, lon: -110.9855 }, // Tucson
+    "85705": { lat: 32.2691, lon: -110.9845 }, // Tucson
+    "85706": { lat: 32.1392, lon: -110.9451 }, // Tucson
+    "85707": { lat: 32.1696, lon: -110.8751 }, // Tucson
+    "85708": { lat: 32.1800, lon: -110.8693 }, // Tucson
+    "85709": { lat: 32.2008, lon: -110.8980 }, // Tucson
+    "85710": { lat: 32.2138, lon: -110.8240 }, // Tucson
+    "85711": { lat: 32.2127, lon: -110.8829 }, // Tucson
+    "85712": { lat: 32.2500, lon: -110.8869 }, // Tucson
+    "85713": { lat: 32.1941, lon: -110.9739 }, // Tucson
+    "85714": { lat: 32.1707, lon: -110.9719 }, // Tucson
+    "85715": { lat: 32.2519, lon: -110.8200 }, // Tucson
+    "85716": { lat: 32.2468, lon: -110.9222 }, // Tucson
+    "85717": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85718": { lat: 32.3112, lon: -110.9179 }, // Tucson
+    "85719": { lat: 32.2474, lon: -110.9491 }, // Tucson
+    "85720": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85721": { lat: 32.2338, lon: -110.9500 }, // Tucson
+    "85722": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85723": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85724": { lat: 32.2406, lon: -110.9443 }, // Tucson
+    "85725": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85726": { lat: 32.2027, lon: -110.9453 }, // Tucson
+    "85728": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85730": { lat: 32.1810, lon: -110.8190 }, // Tucson
+    "85731": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85732": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85733": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85734": { lat: 32.0651, lon: -110.9353 }, // Tucson
+    "85735": { lat: 32.0930, lon: -111.3472 }, // Tucson
+    "85736": { lat: 31.9011, lon: -111.3702 }, // Tucson
+    "85737": { lat: 32.4142, lon: -110.9466 }, // Tucson
+    "85738": { lat: 32.5056, lon: -110.9211 }, // Catalina
+    "85739": { lat: 32.4650, lon: -110.8922 }, // Tucson
+    "85740": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85741": { lat: 32.3472, lon: -111.0419 }, // Tucson
+    "85742": { lat: 32.4076, lon: -111.0650 }, // Tucson
+    "85743": { lat: 32.3366, lon: -111.1771 }, // Tucson
+    "85744": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85745": { lat: 32.2434, lon: -111.0179 }, // Tucson
+    "85746": { lat: 32.1422, lon: -111.0506 }, // Tucson
+    "85747": { lat: 32.0984, lon: -110.7272 }, // Tucson
+    "85748": { lat: 32.2150, lon: -110.7758 }, // Tucson
+    "85749": { lat: 32.2733, lon: -110.7658 }, // Tucson
+    "85750": { lat: 32.2974, lon: -110.8404 }, // Tucson
+    "85751": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85752": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85754": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85755": { lat: 32.4227, lon: -110.9768 }, // Tucson
+    "85756": { lat: 32.0839, lon: -110.9004 }, // Tucson
+    "85757": { lat: 32.1336, lon: -111.0973 }, // Tucson
+    "85775": { lat: 32.2217, lon: -110.9265 }, // Tucson
+    "85777": { lat: 32.0900, lon: -110.9100 }, // Ariz Correctional Ctr
+    "85901": { lat: 34.2998, lon: -110.0000 }, // Show Low
+    "85902": { lat: 34.2981, lon: -110.0352 }, // Show Low
+    "85911": { lat: 34.0448, lon: -110.4854 }, // Cibecue
+    "85912": { lat: 34.2666, lon: -110.2031 }, // White Mountain Lake
+    "85920": { lat: 33.8279, lon: -109.1283 }, // Alpine
+    "85922": { lat: 33.6512, lon: -109.0685 }, // Blue
+    "85923": { lat: 34.3617, lon: -110.2954 }, // Clay Springs
+    "85924": { lat: 34.4458, lon: -109.6741 }, // Concho
+    "85925": { lat: 34.1077, lon: -109.2940 }, // Eagar
+    "85926": { lat: 33.7906, lon: -109.9887 }, // Fort Apache
+    "85927": { lat: 34.0052, lon: -109.4664 }, // Greer
+    "85928": { lat: 34.4100, lon: -110.5883 }, // Heber
+    "85929": { lat: 34.1662, lon: -109.9869 }, // Lakeside
+    "85930": { lat: 34.0754, lon: -109.8532 }, // Mcnary
+    "85931": { lat: 34.4513, lon: -110.8644 }, // Forest Lakes
+    "85932": { lat: 33.9531, lon: -109.2092 }, // Nutrioso
+    "85933": { lat: 34.4086, lon: -110.5600 }, // Overgaard
+    "85934": { lat: 34.3003, lon: -110.2457 }, // Pinedale
+    "85935": { lat: 34.1175, lon: -109.9197 }, // Pinetop
+    "85936": { lat: 34.5010, lon: -109.3796 }, // Saint Johns
+    "85937": { lat: 34.4959, lon: -110.0807 }, // Snowflake
+    "85938": { lat: 34.1702, lon: -109.3315 }, // Springerville
+    "85939": { lat: 34.4390, lon: -110.0858 }, // Taylor
+    "85940": { lat: 34.2575, lon: -109.6929 }, // Vernon
+    "85941": { lat: 33.8021, lon: -109.9937 }, // Whiteriver
+    "85942": { lat: 34.7814, lon: -110.0435 }, // Woodruff
+    "86001": { lat: 35.1859, lon: -111.6620 }, // Flagstaff
+    "86002": { lat: 35.1981, lon: -111.6513 }, // Flagstaff
+    "86003": { lat: 35.1981, lon: -111.6513 }, // Flagstaff
+    "86004": { lat: 35.2257, lon: -111.5741 }, // Flagstaff
+    "86005": { lat: 35.1545, lon: -111.6789 }, // Flagstaff
+    "86011": { lat: 35.1981, lon: -111.6513 }, // Flagstaff
+    "86015": { lat: 35.2381, lon: -111.8335 }, // Bellemont
+    "86016": { lat: 35.7504, lon: -111.6188 }, // Gray Mountain
+    "86017": { lat: 34.9412, lon: -111.6410 }, // Munds Park
+    "86018": { lat: 35.2563, lon: -111.9500 }, // Parks
+    "86020": { lat: 35.9922, lon: -111.5038 }, // Cameron
+    "86021": { lat: 36.9903, lon: -112.9758 }, // Colorado City
+    "86022": { lat: 36.9044, lon: -112.4979 }, // Fredonia
+    "86023": { lat: 35.9421, lon: -112.1309 }, // Grand Canyon
+    "86024": { lat: 34.6616, lon: -111.3404 }, // Happy Jack
+    "86025": { lat: 34.9085, lon: -110.1434 }, // Holbrook
+    "86028": { lat: 35.2375, lon: -109.5229 }, // Petrified Forest Natl Pk
+    "86029": { lat: 34.9806, lon: -110.0582 }, // Sun Valley
+    "86030": { lat: 35.9278, lon: -110.6729 }, // Hotevilla
+    "86031": { lat: 35.4056, lon: -110.0848 }, // Indian Wells
+    "86032": { lat: 34.9814, lon: -110.3373 }, // Joseph City
+    "86033": { lat: 36.6883, lon: -110.2652 }, // Kayenta
+    "86034": { lat: 35.8082, lon: -110.2845 }, // Keams Canyon
+    "86035": { lat: 35.3365, lon: -110.9927 }, // Leupp
+    "86036": { lat: 36.7370, lon: -111.8229 }, // Marble Canyon
+    "86038": { lat: 34.9083, lon: -111.4630 }, // Mormon Lake
+    "86039": { lat: 35.8742, lon: -110.6235 }, // Kykotsmovi Village
+    "86040": { lat: 36.9147, lon: -111.4558 }, // Page
+    "86042": { lat: 35.8617, lon: -110.3875 }, // Polacca
+    "86043": { lat: 35.7933, lon: -110.5051 }, // Second Mesa
+    "86044": { lat: 36.7093, lon: -110.8411 }, // Tonalea
+    "86045": { lat: 36.1037, lon: -111.2686 }, // Tuba City
+    "86046": { lat: 35.5434, lon: -112.1707 }, // Williams
+    "86047": { lat: 35.0242, lon: -110.6974 }, // Winslow
+    "86052": { lat: 36.2105, lon: -112.0613 }, // North Rim
+    "86053": { lat: 36.4025, lon: -111.3518 }, // Kaibeto
+    "86054": { lat: 36.6159, lon: -110.6477 }, // Shonto
+    "86301": { lat: 34.5917, lon: -112.4265 }, // Prescott
+    "86302": { lat: 34.5749, lon: -112.4915 }, // Prescott
+    "86303": { lat: 34.4958, lon: -112.3783 }, // Prescott
+    "86304": { lat: 34.5967, lon: -112.4907 }, // Prescott
+    "86305": { lat: 34.8185, lon: -112.9584 }, // Prescott
+    "86312": { lat: 34.6683, lon: -112.3078 }, // Prescott Valley
+    "86313": { lat: 34.7067, lon: -112.3977 }, // Prescott
+    "86314": { lat: 34.6019, lon: -112.3264 }, // Prescott Valley
+    "86315": { lat: 34.7055, lon: -112.2639 }, // Prescott Valley
+    "86320": { lat: 35.2150, lon: -112.5027 }, // Ash Fork
+    "86321": { lat: 34.5785, lon: -113.1755 }, // Bagdad
+    "86322": { lat: 34.5697, lon: -111.8551 }, // Camp Verde
+    "86323": { lat: 34.7757, lon: -112.4731 }, // Chino Valley
+    "86324": { lat: 34.7711, lon: -112.0579 }, // Clarkdale
+    "86325": { lat: 34.7256, lon: -111.9086 }, // Cornville
+    "86326": { lat: 34.7055, lon: -112.0091 }, // Cottonwood
+    "86327": { lat: 34.5368, lon: -112.2567 }, // Dewey
+    "86329": { lat: 34.5009, lon: -112.2374 }, // Humboldt
+    "86330": { lat: 34.6700, lon: -112.5200 }, // Iron Springs
+    "86331": { lat: 34.7486, lon: -112.1086 }, // Jerome
+    "86332": { lat: 34.4541, lon: -112.8966 }, // Kirkland
+    "86333": { lat: 34.3655, lon: -112.1296 }, // Mayer
+    "86334": { lat: 35.0313, lon: -112.5441 }, // Paulden
+    "86335": { lat: 34.6380, lon: -111.7842 }, // Rimrock
+    "86336": { lat: 34.8266, lon: -111.7506 }, // Sedona
+    "86337": { lat: 35.3212, lon: -112.9548 }, // Seligman
+    "86338": { lat: 34.5053, lon: -112.6855 }, // Skull Valley
+    "86339": { lat: 34.8697, lon: -111.7610 }, // Sedona
+    "86340": { lat: 34.7067, lon: -112.3977 }, // Sedona
+    "86341": { lat: 34.7766, lon: -111.7679 }, // Sedona
+    "86342": { lat: 34.6417, lon: -111.7872 }, // Lake Montezuma
+    "86343": { lat: 34.2241, lon: -112.3340 }, // Crown King
+    "86351": { lat: 34.7784, lon: -111.7851 }, // Sedona
+    "86401": { lat: 35.1328, lon: -113.7033 }, // Kingman
+    "86402": { lat: 35.2632, lon: -114.0637 }, // Kingman
+    "86403": { lat: 34.4814, lon: -114.3483 }, // Lake Havasu City
+    "86404": { lat: 34.5575, lon: -114.3307 }, // Lake Havasu City
+    "86405": { lat: 34.4839, lon: -114.3225 }, // Lake Havasu City
+    "86406": { lat: 34.4228, lon: -114.1250 }, // Lake Havasu City
+    "86409": { lat: 35.2633, lon: -114.0223 }, // Kingman
+    "86411": { lat: 35.3692, lon: -113.7272 }, // Hackberry
+    "86412": { lat: 35.3972, lon: -113.8432 }, // Hualapai
+    "86413": { lat: 35.3002, lon: -114.2215 }, // Golden Valley
+    "86426": { lat: 35.0052, lon: -114.5687 }, // Fort Mohave
+    "86427": { lat: 35.0043, lon: -114.5812 }, // Fort Mohave
+    "86429": { lat: 35.1715, lon: -114.5386 }, // Bullhead City
+    "86430": { lat: 35.1473, lon: -114.5433 }, // Bullhead City
+    "86431": { lat: 35.3896, lon: -114.2221 }, // Chloride
+    "86432": { lat: 36.8872, lon: -113.9297 }, // Littlefield
+    "86433": { lat: 35.0285, lon: -114.3837 }, // Oatman
+    "86434": { lat: 35.5378, lon: -113.4202 }, // Peach Springs
+    "86435": { lat: 36.2242, lon: -112.6932 }, // Supai
+    "86436": { lat: 34.7784, lon: -114.4817 }, // Topock
+    "86437": { lat: 35.3788, lon: -113.6141 }, // Valentine
+    "86438": { lat: 34.8722, lon: -114.1494 }, // Yucca
+    "86439": { lat: 35.1478, lon: -114.5683 }, // Bullhead City
+    "86440": { lat: 34.8929, lon: -114.5951 }, // Mohave Valley
+    "86441": { lat: 35.5692, lon: -114.3777 }, // Dolan Springs
+    "86442": { lat: 35.1060, lon: -114.5947 }, // Bullhead City
+    "86443": { lat: 35.2106, lon: -114.1792 }, // Temple Bar Marina
+    "86444": { lat: 35.9822, lon: -114.0775 }, // Meadview
+    "86445": { lat: 35.7759, lon: -114.5001 }, // Willow Beach
+    "86446": { lat: 34.8499, lon: -114.5917 }, // Mohave Valley
+    "86502": { lat: 35.2375, lon: -109.5229 }, // Chambers
+    "86503": { lat: 36.1304, lon: -109.6037 }, // Chinle
+    "86504": { lat: 35.7445, lon: -109.0765 }, // Fort Defiance
+    "86505": { lat: 35.7114, lon: -109.5420 }, // Ganado
+    "86506": { lat: 35.2831, lon: -109.2070 }, // Houck
+    "86507": { lat: 36.4181, lon: -109.2446 }, // Lukachukai
+    "86508": { lat: 35.3539, lon: -109.0537 }, // Lupton
+    "86510": { lat: 36.1002, lon: -110.2211 }, // Pinon
+    "86511": { lat: 35.6447, lon: -109.0956 }, // Saint Michaels
+    "86512": { lat: 35.2164, lon: -109.3337 }, // Sanders
+    "86514": { lat: 36.7797, lon: -109.3590 }, // Teec Nos Pos
+    "86515": { lat: 35.6676, lon: -109.0784 }, // Window Rock
+    "86520": { lat: 36.1708, lon: -109.9465 }, // Blue Gap
+    "86535": { lat: 36.7773, lon: -109.8610 }, // Dennehotso
+    "86538": { lat: 36.4083, lon: -109.6340 }, // Many Farms
+    "86540": { lat: 35.8964, lon: -109.4487 }, // Nazlini
+    "86544": { lat: 35.2375, lon: -109.5229 }, // Red Valley
+    "86545": { lat: 36.7181, lon: -109.6259 }, // Rock Point
+    "86547": { lat: 36.5131, lon: -109.4734 }, // Round Rock
+    "86555": { lat: 31.3800, lon: -109.5500 }, // Douglas
+    "86556": { lat: 36.3071, lon: -109.2176 }, // Tsaile
+};
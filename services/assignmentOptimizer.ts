@@ -0,0 +1,378 @@
+import { Rep, Job, AppState, DisplayJob } from '../types';
+import {
+    SchedulerContext, SchedulerResult, ProposedAssignment, MIN_TARGET_BONUS,
+    calculateAssignmentScore, isJobValidForRepRegion, checkCityRuleViolation, exceedsMaxDriveTime, getOpenSlotsForJob, explainUnassignedJob,
+} from './scheduler';
+import { isJobSchedulable } from './jobStatus';
+
+// Whole-day assignment optimizer. Where autoAssignJobs commits to each job in turn,
+// this treats the day as one problem:
+//   1. A min-cost flow over job -> (rep, slot) -> rep picks the assignment with the
+//      highest total score, with reps below minJobsPerRep earning MIN_TARGET_BONUS
+//      per job up to their target.
+//   2. Local search (insert, relocate, swap and replace moves) then rescores reps
+//      with their full schedules, which picks up the cluster and adjacency effects
+//      the flow cannot see.
+// Every move goes through the same constraint checks as the greedy pass. Jobs that
+// were already on a schedule stay where they are, and jobs that are cancelled,
+// completed or no-show are not placed.
+
+export interface OptimizerRunInfo {
+    elapsedMs: number;
+    improvementMoves: number;
+    timedOut: boolean;
+}
+
+export interface OptimizerResult extends SchedulerResult {
+    runInfo: OptimizerRunInfo;
+}
+
+export interface AssignmentSummary {
+    assignedCount: number;
+    unassignedCount: number;
+    totalScore: number;
+    averageScore: number;
+    repsBelowMinTarget: number;
+}
+
+// Greedy and optimized results for the same day, shown side by side before one is applied.
+export interface AssignmentComparison {
+    dateKey: string;
+    baseState: AppState; // The day state both results were computed from
+    greedy: SchedulerResult;
+    optimized: OptimizerResult;
+    greedySummary: AssignmentSummary;
+    optimizedSummary: AssignmentSummary;
+}
+
+const cloneState = (state: AppState): AppState => JSON.parse(JSON.stringify(state)) as AppState;
+
+const repJobs = (rep: Rep): DisplayJob[] => rep.schedule.flatMap(s => s.jobs);
+
+const isOpenRep = (rep: Rep) => !rep.isLocked && !rep.isOptimized;
+
+/**
+ * Scores a job that is already on the rep's schedule against the rest of that schedule.
+ */
+export function scoreScheduledJob(job: Job, rep: Rep, slotId: string, state: AppState, context: SchedulerContext) {
+    const others: Rep = { ...rep, schedule: rep.schedule.map(s => ({ ...s, jobs: s.jobs.filter(j => j.id !== job.id) })) };
+    return calculateAssignmentScore(job, others, slotId, state.settings, context);
+}
+
+/**
+ * Rescores a result's assignments against the final schedules, so results built in
+ * different orders can be compared fairly.
+ */
+export function summarizeAssignments(result: SchedulerResult, context: SchedulerContext): AssignmentSummary {
+    const { state, assignments } = result;
+    let totalScore = 0;
+    assignments.forEach(a => {
+        const rep = state.reps.find(r => r.id === a.repId);
+        const job = rep && repJobs(rep).find(j => j.id === a.jobId);
+        if (rep && job) totalScore += scoreScheduledJob(job, rep, a.slotId, state, context).score;
+    });
+    const repsBelowMinTarget = state.reps
+        .filter(isOpenRep)
+        .filter(rep => repJobs(rep).length < state.settings.minJobsPerRep).length;
+    return {
+        assignedCount: assignments.length,
+        unassignedCount: state.unassignedJobs.length,
+        totalScore,
+        averageScore: assignments.length > 0 ? totalScore / assignments.length : 0,
+        repsBelowMinTarget,
+    };
+}
+
+interface FlowEdge {
+    to: number;
+    capacity: number;
+    cost: number;
+    reverse: number; // Index of the reverse edge in graph[to]
+}
+
+// Queue pops between deadline checks inside one shortest-path search.
+const DEADLINE_CHECK_INTERVAL = 256;
+
+/**
+ * Successive-shortest-path min-cost flow. Stops as soon as no augmenting path has
+ * negative cost, so it maximises total value rather than forcing full flow.
+ * The deadline is also checked inside each path search; the flow pushed so far is kept.
+ * @returns False if the deadline cut the search short.
+ */
+function minCostFlow(graph: FlowEdge[][], source: number, sink: number, deadline: number): boolean {
+    const nodeCount = graph.length;
+    let pops = 0;
+    while (true) {
+        if (Date.now() >= deadline) return false;
+        const dist = new Array<number>(nodeCount).fill(Infinity);
+        const inQueue = new Array<boolean>(nodeCount).fill(false);
+        const prevNode = new Array<number>(nodeCount).fill(-1);
+        const prevEdge = new Array<number>(nodeCount).fill(-1);
+        dist[source] = 0;
+        const queue = [source];
+        inQueue[source] = true;
+        while (queue.length > 0) {
+            if (++pops % DEADLINE_CHECK_INTERVAL === 0 && Date.now() >= deadline) return false;
+            const u = queue.shift()!;
+            inQueue[u] = false;
+            graph[u].forEach((edge, i) => {
+                if (edge.capacity > 0 && dist[u] + edge.cost < dist[edge.to]) {
+                    dist[edge.to] = dist[u] + edge.cost;
+                    prevNode[edge.to] = u;
+                    prevEdge[edge.to] = i;
+                    if (!inQueue[edge.to]) { queue.push(edge.to); inQueue[edge.to] = true; }
+                }
+            });
+        }
+        if (dist[sink] >= 0) return true;
+
+        let pushed = Infinity;
+        for (let v = sink; v !== source; v = prevNode[v]) pushed = Math.min(pushed, graph[prevNode[v]][prevEdge[v]].capacity);
+        for (let v = sink; v !== source; v = prevNode[v]) {
+            const edge = graph[prevNode[v]][prevEdge[v]];
+            edge.capacity -= pushed;
+            graph[v][edge.reverse].capacity += pushed;
+        }
+    }
+}
+
+/**
+ * Assigns the day's unassigned jobs by whole-day optimization.
+ * @param state The day state to assign. It is not mutated.
+ * @param context The day name and coordinate lookups used for scoring.
+ * @param timeBudgetMs How long the search may run before returning its best result.
+ */
+export function optimizeAssignments(state: AppState, context: SchedulerContext, timeBudgetMs: number): OptimizerResult {
+    const startedAt = Date.now();
+    const deadline = startedAt + Math.max(0, timeBudgetMs);
+    const newState = cloneState(state);
+    const { settings } = newState;
+    const pool: Job[] = newState.unassignedJobs.filter(isJobSchedulable);
+    const poolIds = new Set(pool.map(j => j.id));
+    newState.unassignedJobs = newState.unassignedJobs.filter(job => !isJobSchedulable(job));
+    const reps = newState.reps.filter(isOpenRep);
+
+    const canPlace = (job: Job, rep: Rep, slotId: string): boolean => {
+        if (repJobs(rep).length >= settings.maxJobsPerRep) return false;
+        if (!isJobValidForRepRegion(job, rep, settings)) return false;
+        if (checkCityRuleViolation(rep, job.city, settings).violated) return false;
+        if (exceedsMaxDriveTime(job, rep, settings, context)) return false;
+        return getOpenSlotsForJob(job, rep, settings, context.dayName).some(s => s.id === slotId);
+    };
+    const openSlotIds = (job: Job, rep: Rep): string[] =>
+        getOpenSlotsForJob(job, rep, settings, context.dayName).map(s => s.id).filter(slotId => canPlace(job, rep, slotId));
+
+    let timedOut = false;
+    const outOfTime = () => {
+        if (Date.now() >= deadline) timedOut = true;
+        return timedOut;
+    };
+
+    const place = (job: Job, rep: Rep, slotId: string) => rep.schedule.find(s => s.id === slotId)!.jobs.push(job);
+    const remove = (job: Job, rep: Rep): string => {
+        const slot = rep.schedule.find(s => s.jobs.some(j => j.id === job.id))!;
+        slot.jobs = slot.jobs.filter(j => j.id !== job.id);
+        return slot.id;
+    };
+
+    // --- 1. Min-cost flow on scores against each rep's current schedule ---
+    const slotNodes: { rep: Rep; slotId: string }[] = [];
+    reps.forEach(rep => rep.schedule.forEach(slot => slotNodes.push({ rep, slotId: slot.id })));
+    const source = 0;
+    const jobBase = 1;
+    const slotBase = jobBase + pool.length;
+    const repBase = slotBase + slotNodes.length;
+    const sink = repBase + reps.length;
+    const graph: FlowEdge[][] = Array.from({ length: sink + 1 }, () => []);
+    const addEdge = (from: number, to: number, capacity: number, cost: number) => {
+        if (capacity <= 0) return;
+        graph[from].push({ to, capacity, cost, reverse: graph[to].length });
+        graph[to].push({ to: from, capacity: 0, cost: -cost, reverse: graph[from].length - 1 });
+    };
+
+    const maxJobsInSlot = settings.allowDoubleBooking ? settings.maxJobsPerSlot : 1;
+    // Scoring every job against every slot is the slow part; jobs left without edges
+    // when time runs out stay unassigned.
+    for (const [j, job] of pool.entries()) {
+        if (outOfTime()) break;
+        addEdge(source, jobBase + j, 1, 0);
+        slotNodes.forEach(({ rep, slotId }, k) => {
+            if (!canPlace(job, rep, slotId)) return;
+            addEdge(jobBase + j, slotBase + k, 1, -calculateAssignmentScore(job, rep, slotId, settings, context).score);
+        });
+    }
+    slotNodes.forEach(({ rep, slotId }, k) => {
+        const booked = rep.schedule.find(s => s.id === slotId)!.jobs.length;
+        addEdge(slotBase + k, repBase + reps.indexOf(rep), maxJobsInSlot - booked, 0);
+    });
+    reps.forEach((rep, r) => {
+        const booked = repJobs(rep).length;
+        const belowTarget = Math.max(0, settings.minJobsPerRep - booked);
+        addEdge(repBase + r, sink, belowTarget, -MIN_TARGET_BONUS);
+        addEdge(repBase + r, sink, Math.max(0, settings.maxJobsPerRep - booked - belowTarget), 0);
+    });
+    if (!timedOut && !minCostFlow(graph, source, sink, deadline)) timedOut = true;
+
+    // Apply the flow best-first, re-checking constraints as schedules fill up.
+    const flowPicks: { job: Job; rep: Rep; slotId: string; score: number }[] = [];
+    pool.forEach((job, j) => {
+        graph[jobBase + j].forEach(edge => {
+            const k = edge.to - slotBase;
+            if (k >= 0 && k < slotNodes.length && edge.capacity === 0 && edge.cost < 0) {
+                flowPicks.push({ job, rep: slotNodes[k].rep, slotId: slotNodes[k].slotId, score: -edge.cost });
+            }
+        });
+    });
+    const unplaced = new Map(pool.map(job => [job.id, job]));
+    flowPicks.sort((a, b) => b.score - a.score).forEach(({ job, rep, slotId }) => {
+        const slotIds = canPlace(job, rep, slotId) ? [slotId] : openSlotIds(job, rep);
+        if (slotIds.length === 0) return;
+        place(job, rep, slotIds[0]);
+        unplaced.delete(job.id);
+    });
+
+    // --- 2. Local search on full-schedule scores ---
+    const repValue = (rep: Rep): number => {
+        const jobs = repJobs(rep);
+        let value = Math.min(jobs.length, settings.minJobsPerRep) * MIN_TARGET_BONUS;
+        rep.schedule.forEach(slot => slot.jobs.forEach(job => {
+            value += scoreScheduledJob(job, rep, slot.id, newState, context).score;
+        }));
+        return value;
+    };
+    const values = new Map(reps.map(rep => [rep.id, repValue(rep)]));
+    const movableJobs = (rep: Rep) => repJobs(rep).filter(j => poolIds.has(j.id));
+
+    let improvementMoves = 0;
+
+    // Tries a change to the given reps; keeps it if their combined value improves.
+    const tryMove = (touched: Rep[], apply: () => boolean, undo: () => void): boolean => {
+        const before = touched.reduce((sum, rep) => sum + values.get(rep.id)!, 0);
+        if (!apply()) { undo(); return false; }
+        const after = touched.map(repValue);
+        if (after.reduce((sum, v) => sum + v, 0) > before + 1e-6) {
+            touched.forEach((rep, i) => values.set(rep.id, after[i]));
+            improvementMoves++;
+            return true;
+        }
+        undo();
+        return false;
+    };
+
+    let improved = true;
+    while (improved && !outOfTime()) {
+        improved = false;
+
+        // Insert: an unplaced job into any rep that can take it.
+        for (const job of Array.from(unplaced.values())) {
+            for (const rep of reps) {
+                const [slotId] = openSlotIds(job, rep);
+                if (slotId && tryMove([rep], () => { place(job, rep, slotId); return true; }, () => remove(job, rep))) {
+                    unplaced.delete(job.id);
+                    improved = true;
+                    break;
+                }
+            }
+            if (outOfTime()) break;
+        }
+
+        // Replace: an unplaced job takes a scheduled job's place.
+        for (const job of Array.from(unplaced.values())) {
+            if (outOfTime()) break;
+            let replaced = false;
+            for (const rep of reps) {
+                for (const current of movableJobs(rep)) {
+                    let slotId = '';
+                    replaced = tryMove([rep], () => {
+                        slotId = remove(current, rep);
+                        const [target] = openSlotIds(job, rep);
+                        if (!target) return false;
+                        place(job, rep, target);
+                        return true;
+                    }, () => {
+                        if (repJobs(rep).some(j => j.id === job.id)) remove(job, rep);
+                        place(current, rep, slotId);
+                    });
+                    if (replaced) {
+                        unplaced.delete(job.id);
+                        unplaced.set(current.id, current);
+                        improved = true;
+                        break;
+                    }
+                }
+                if (replaced) break;
+            }
+        }
+
+        // Relocate: move a job to another rep.
+        for (const fromRep of reps) {
+            if (outOfTime()) break;
+            for (const job of movableJobs(fromRep)) {
+                for (const toRep of reps) {
+                    if (toRep === fromRep) continue;
+                    let fromSlot = '';
+                    const moved = tryMove([fromRep, toRep], () => {
+                        fromSlot = remove(job, fromRep);
+                        const [target] = openSlotIds(job, toRep);
+                        if (!target) return false;
+                        place(job, toRep, target);
+                        return true;
+                    }, () => {
+                        if (repJobs(toRep).some(j => j.id === job.id)) remove(job, toRep);
+                        place(job, fromRep, fromSlot);
+                    });
+                    if (moved) { improved = true; break; }
+                }
+            }
+        }
+
+        // Swap: exchange one job between two reps.
+        for (let a = 0; a < reps.length && !outOfTime(); a++) {
+            for (let b = a + 1; b < reps.length; b++) {
+                const repA = reps[a];
+                const repB = reps[b];
+                for (const jobA of movableJobs(repA)) {
+                    for (const jobB of movableJobs(repB)) {
+                        let slotA = '';
+                        let slotB = '';
+                        const swapped = tryMove([repA, repB], () => {
+                            slotA = remove(jobA, repA);
+                            slotB = remove(jobB, repB);
+                            const [targetB] = openSlotIds(jobA, repB);
+                            const [targetA] = openSlotIds(jobB, repA);
+                            if (!targetA || !targetB) return false;
+                            place(jobA, repB, targetB);
+                            place(jobB, repA, targetA);
+                            return true;
+                        }, () => {
+                            if (repJobs(repB).some(j => j.id === jobA.id)) remove(jobA, repB);
+                            if (repJobs(repA).some(j => j.id === jobB.id)) remove(jobB, repA);
+                            place(jobA, repA, slotA);
+                            place(jobB, repB, slotB);
+                        });
+                        if (swapped) { improved = true; break; }
+                    }
+                }
+            }
+        }
+    }
+
+    // Attach final scores to the jobs this run placed.
+    const assignments: ProposedAssignment[] = [];
+    reps.forEach(rep => rep.schedule.forEach(slot => {
+        slot.jobs = slot.jobs.map(job => {
+            if (!poolIds.has(job.id)) return job;
+            const { score, breakdown } = scoreScheduledJob(job, rep, slot.id, newState, context);
+            assignments.push({ jobId: job.id, repId: rep.id, slotId: slot.id, score, breakdown });
+            return { ...job, assignmentScore: score, scoreBreakdown: breakdown };
+        });
+    }));
+    newState.unassignedJobs = pool.filter(job => unplaced.has(job.id));
+
+    return {
+        state: newState,
+        assignments,
+        explanations: newState.unassignedJobs.map(job => explainUnassignedJob(job, newState, context)),
+        runInfo: { elapsedMs: Date.now() - startedAt, improvementMoves, timedOut },
+    };
+}
@@ -0,0 +1,253 @@
+import type { Coordinates } from './osmService';
+import { ARIZONA_ZIP_CENTROIDS } from './arizonaZipCentroids';
+
+// Offline fallback geocoder. Gives an approximate position for an address
+// instantly from bundled Arizona ZIP, city and ZIP-prefix centroids, so scoring and
+// the map do not have to wait for Nominatim. Positions are only estimates and
+// are replaced as soon as precise geocoding finishes.
+
+export type EstimateSource = 'zip' | 'city' | 'zip-prefix';
+
+// The city and ZIP a job keeps in their own fields, apart from the street address.
+export interface LocationHints {
+    city?: string;
+    zipCode?: string;
+}
+
+export interface EstimatedLocation {
+    coordinates: Coordinates;
+    source: EstimateSource;
+    label: string; // e.g. "Mesa" or "ZIP 85201", for tooltips and logs
+}
+
+// Approximate town centers. Keys are lowercase to match the sets in geography.ts.
+export const CITY_CENTROIDS: Record<string, Coordinates> = {
+    // Greater Phoenix
+    "phoenix": { lat: 33.4484, lon: -112.0740 },
+    "scottsdale": { lat: 33.4942, lon: -111.9261 },
+    "tempe": { lat: 33.4255, lon: -111.9400 },
+    "mesa": { lat: 33.4152, lon: -111.8315 },
+    "chandler": { lat: 33.3062, lon: -111.8413 },
+    "gilbert": { lat: 33.3528, lon: -111.7890 },
+    "glendale": { lat: 33.5387, lon: -112.1860 },
+    "peoria": { lat: 33.5806, lon: -112.2374 },
+    "surprise": { lat: 33.6292, lon: -112.3679 },
+    "avondale": { lat: 33.4356, lon: -112.3496 },
+    "goodyear": { lat: 33.4353, lon: -112.3582 },
+    "buckeye": { lat: 33.3703, lon: -112.5838 },
+    "queen creek": { lat: 33.2487, lon: -111.6343 },
+    "san tan valley": { lat: 33.1911, lon: -111.5280 },
+    "apache junction": { lat: 33.4150, lon: -111.5496 },
+    "fountain hills": { lat: 33.6117, lon: -111.7174 },
+    "paradise valley": { lat: 33.5310, lon: -111.9426 },
+    "cave creek": { lat: 33.8333, lon: -111.9507 },
+    "carefree": { lat: 33.8223, lon: -111.9182 },
+    "anthem": { lat: 33.8673, lon: -112.1468 },
+    "el mirage": { lat: 33.6131, lon: -112.3246 },
+    "youngtown": { lat: 33.5939, lon: -112.3024 },
+    "litchfield park": { lat: 33.4934, lon: -112.3580 },
+    "tolleson": { lat: 33.4500, lon: -112.2593 },
+    "waddell": { lat: 33.5667, lon: -112.4290 },
+    "sun city": { lat: 33.5975, lon: -112.2718 },
+    "sun city west": { lat: 33.6620, lon: -112.3413 },
+    "sun city grand": { lat: 33.6530, lon: -112.3980 },
+    "sun city festival": { lat: 33.6950, lon: -112.4680 },
+    "verrado": { lat: 33.4700, lon: -112.5300 },
+    "estrella mountain ranch": { lat: 33.3600, lon: -112.4000 },
+    "ahwatukee": { lat: 33.3418, lon: -111.9843 },
+    "ahwatukee foothills": { lat: 33.3418, lon: -111.9843 },
+    "new river": { lat: 33.9156, lon: -112.1360 },
+    "gold canyon": { lat: 33.3715, lon: -111.4368 },
+    "sun lakes": { lat: 33.2117, lon: -111.8754 },
+    "laveen": { lat: 33.3628, lon: -112.1693 },
+    "guadalupe": { lat: 33.3709, lon: -111.9629 },
+    "rio verde": { lat: 33.7225, lon: -111.6757 },
+    "fort mcdowell": { lat: 33.6406, lon: -111.6757 },
+    "higley": { lat: 33.3050, lon: -111.7250 },
+    "red mountain": { lat: 33.4600, lon: -111.6700 },
+    // Lower Valley / Pinal
+    "maricopa": { lat: 33.0581, lon: -112.0476 },
+    "casa grande": { lat: 32.8795, lon: -111.7574 },
+    "florence": { lat: 33.0314, lon: -111.3873 },
+    "coolidge": { lat: 32.9778, lon: -111.5176 },
+    "stanfield": { lat: 32.8825, lon: -111.9621 },
+    "arizona city": { lat: 32.7559, lon: -111.6709 },
+    "eloy": { lat: 32.7559, lon: -111.5548 },
+    "casa blanca": { lat: 33.1170, lon: -111.8880 },
+    "sacaton": { lat: 33.0767, lon: -111.7393 },
+    "blackwater": { lat: 33.0312, lon: -111.5834 },
+    "chuichu": { lat: 32.7540, lon: -111.7790 },
+    "toltec": { lat: 32.8000, lon: -111.6400 },
+    "gila bend": { lat: 32.9478, lon: -112.7168 },
+    // Northern Arizona
+    "prescott": { lat: 34.5400, lon: -112.4685 },
+    "prescott valley": { lat: 34.6100, lon: -112.3157 },
+    "flagstaff": { lat: 35.1983, lon: -111.6513 },
+    "payson": { lat: 34.2309, lon: -111.3251 },
+    "sedona": { lat: 34.8697, lon: -111.7610 },
+    "cottonwood": { lat: 34.7392, lon: -112.0099 },
+    "camp verde": { lat: 34.5636, lon: -111.8543 },
+    "chino valley": { lat: 34.7575, lon: -112.4538 },
+    "williams": { lat: 35.2495, lon: -112.1910 },
+    "kingman": { lat: 35.1894, lon: -114.0530 },
+    "bullhead city": { lat: 35.1478, lon: -114.5683 },
+    "lake havasu city": { lat: 34.4839, lon: -114.3225 },
+    "show low": { lat: 34.2542, lon: -110.0298 },
+    "pinetop": { lat: 34.1425, lon: -109.9604 },
+    "snowflake": { lat: 34.5134, lon: -110.0784 },
+    "holbrook": { lat: 34.9022, lon: -110.1582 },
+    "winslow": { lat: 35.0242, lon: -110.6974 },
+    "page": { lat: 36.9147, lon: -111.4558 },
+    "tuba city": { lat: 36.1350, lon: -111.2399 },
+    "fredonia": { lat: 36.9458, lon: -112.5266 },
+    "kayenta": { lat: 36.7278, lon: -110.2546 },
+    "peach springs": { lat: 35.5292, lon: -113.4255 },
+    "eagar": { lat: 34.1111, lon: -109.2915 },
+    "springerville": { lat: 34.1334, lon: -109.2856 },
+    "st. johns": { lat: 34.5058, lon: -109.3609 },
+    "clarkdale": { lat: 34.7711, lon: -112.0580 },
+    "cornville": { lat: 34.7178, lon: -111.9215 },
+    "dewey-humboldt": { lat: 34.5300, lon: -112.2427 },
+    "skull valley": { lat: 34.5036, lon: -112.6849 },
+    "yarnell": { lat: 34.2214, lon: -112.7474 },
+    "crown king": { lat: 34.2056, lon: -112.3388 },
+    "happy jack": { lat: 34.7464, lon: -111.4040 },
+    "pine": { lat: 34.3845, lon: -111.4554 },
+    "strawberry": { lat: 34.4070, lon: -111.4990 },
+    "rimrock": { lat: 34.6467, lon: -111.7882 },
+    "village of oak creek": { lat: 34.7811, lon: -111.7613 },
+    "munds park": { lat: 34.9408, lon: -111.6410 },
+    "parks": { lat: 35.2606, lon: -111.9488 },
+    "star valley": { lat: 34.2550, lon: -111.2577 },
+    "verde village": { lat: 34.7117, lon: -111.9985 },
+    "cordes junction": { lat: 34.3267, lon: -112.1182 },
+    "mayer": { lat: 34.3978, lon: -112.2360 },
+    "bagdad": { lat: 34.5811, lon: -113.2046 },
+    "seligman": { lat: 35.3256, lon: -112.8741 },
+    "ash fork": { lat: 35.2250, lon: -112.4841 },
+    "black canyon city": { lat: 34.0717, lon: -112.1535 },
+    "wickenburg": { lat: 33.9686, lon: -112.7296 },
+    // Southern Arizona
+    "tucson": { lat: 32.2226, lon: -110.9747 },
+    "south tucson": { lat: 32.1995, lon: -110.9684 },
+    "oro valley": { lat: 32.3909, lon: -110.9665 },
+    "marana": { lat: 32.4367, lon: -111.2254 },
+    "vail": { lat: 32.0479, lon: -110.7120 },
+    "sahuarita": { lat: 31.9576, lon: -110.9556 },
+    "green valley": { lat: 31.8543, lon: -111.0001 },
+    "catalina foothills": { lat: 32.2979, lon: -110.9187 },
+    "nogales": { lat: 31.3404, lon: -110.9343 },
+    "rio rico": { lat: 31.4712, lon: -110.9765 },
+    "sierra vista": { lat: 31.5455, lon: -110.2773 },
+    "benson": { lat: 31.9679, lon: -110.2945 },
+    "oracle": { lat: 32.6109, lon: -110.7709 },
+    "mammoth": { lat: 32.7226, lon: -110.6404 },
+    "red rock": { lat: 32.5453, lon: -111.3262 },
+    "saddlebrooke": { lat: 32.5345, lon: -110.8873 },
+    "sonoita": { lat: 31.6790, lon: -110.6556 },
+    "tubac": { lat: 31.6126, lon: -111.0457 },
+    "patagonia": { lat: 31.5398, lon: -110.7565 },
+    "willcox": { lat: 32.2529, lon: -109.8320 },
+    "douglas": { lat: 31.3445, lon: -109.5453 },
+    "san manuel": { lat: 32.5998, lon: -110.6323 },
+    "rillito": { lat: 32.4148, lon: -111.1562 },
+    "tanque verde": { lat: 32.2515, lon: -110.7373 },
+    "three points": { lat: 32.0768, lon: -111.2865 },
+    "summit": { lat: 32.0670, lon: -110.9514 },
+    "catalina": { lat: 32.5056, lon: -110.9212 },
+    "redington": { lat: 32.4320, lon: -110.4940 },
+    "corona de tucson": { lat: 31.9634, lon: -110.7731 },
+    "picacho peak": { lat: 32.6450, lon: -111.4010 },
+    "globe": { lat: 33.3942, lon: -110.7865 },
+    "miami": { lat: 33.3992, lon: -110.8687 },
+    "claypool": { lat: 33.4117, lon: -110.8426 },
+    "amado": { lat: 31.7084, lon: -111.0582 },
+    "arivaca": { lat: 31.5745, lon: -111.3329 },
+    "elgin": { lat: 31.6590, lon: -110.5240 },
+    "huachuca city": { lat: 31.6276, lon: -110.3340 },
+    "tombstone": { lat: 31.7129, lon: -110.0676 },
+    "bisbee": { lat: 31.4482, lon: -109.9284 },
+    "naco": { lat: 31.3354, lon: -109.9481 },
+    "safford": { lat: 32.8340, lon: -109.7076 },
+    "thatcher": { lat: 32.8495, lon: -109.7592 },
+    // Western Arizona
+    "yuma": { lat: 32.6927, lon: -114.6277 },
+    "somerton": { lat: 32.5964, lon: -114.7097 },
+    "san luis": { lat: 32.4870, lon: -114.7822 },
+    "fortuna foothills": { lat: 32.6578, lon: -114.4119 },
+    "quartzsite": { lat: 33.6639, lon: -114.2300 },
+    "parker": { lat: 34.1500, lon: -114.2891 },
+};
+
+// Very coarse last resort: the rough center of each Arizona 3-digit ZIP prefix.
+const ZIP_PREFIX_CENTROIDS: Record<string, Coordinates> = {
+    "850": { lat: 33.4800, lon: -112.0700 }, // Phoenix
+    "851": { lat: 33.1000, lon: -111.6500 }, // Pinal County (Casa Grande, Maricopa, San Tan Valley)
+    "852": { lat: 33.4000, lon: -111.8500 }, // East Valley (Mesa, Tempe, Chandler, Gilbert, Scottsdale)
+    "853": { lat: 33.5500, lon: -112.3000 }, // West Valley (Glendale, Peoria, Surprise)
+    "855": { lat: 33.3900, lon: -110.7900 }, // Globe
+    "856": { lat: 31.7000, lon: -110.5000 }, // Southeast (Nogales, Sierra Vista, Benson)
+    "857": { lat: 32.2200, lon: -110.9700 }, // Tucson
+    "859": { lat: 34.2500, lon: -110.0300 }, // Show Low
+    "860": { lat: 35.2000, lon: -111.6500 }, // Flagstaff
+    "863": { lat: 34.5400, lon: -112.4700 }, // Prescott
+    "864": { lat: 35.1900, lon: -114.0500 }, // Kingman
+    "865": { lat: 35.5000, lon: -109.9000 }, // Holbrook / Navajo Nation
+};
+
+// Longest names first so "sun city west" wins over "sun city".
+const CITY_NAMES_BY_LENGTH = Object.keys(CITY_CENTROIDS).sort((a, b) => b.length - a.length);
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the last Arizona ZIP code (85xxx/86xxx) in an address.
+ */
+export function extractZipCode(address: string): string | null {
+    const matches = address.match(/\b8[56]\d{3}\b/g);
+    return matches ? matches[matches.length - 1] : null;
+}
+
+/**
+ * Finds a known Arizona city name in an address. Returns the lowercase name.
+ */
+export function extractCity(address: string): string | null {
+    const lower = address.toLowerCase();
+    for (const city of CITY_NAMES_BY_LENGTH) {
+        if (new RegExp(`\\b${escapeRegex(city)}\\b`).test(lower)) return city;
+    }
+    return null;
+}
+
+/**
+ * Estimates a location without any network calls.
+ * Order of preference: a precisely geocoded ZIP (via lookupZip), the bundled ZIP
+ * centroid, the city centroid, then the 3-digit ZIP prefix centroid.
+ * @param lookupZip Optional lookup for ZIP centroids that were already geocoded precisely.
+ */
+export function estimateLocation(
+    address: string,
+    hints: LocationHints = {},
+    lookupZip?: (zip: string) => Coordinates | null | undefined
+): EstimatedLocation | null {
+    const zip = hints.zipCode?.match(/\b8[56]\d{3}\b/)?.[0] || extractZipCode(address);
+
+    if (zip) {
+        const zipCoords = lookupZip?.(zip) || ARIZONA_ZIP_CENTROIDS[zip];
+        if (zipCoords) return { coordinates: zipCoords, source: 'zip', label: `ZIP ${zip}` };
+    }
+
+    const hintedCity = hints.city?.trim().toLowerCase();
+    const city = hintedCity && CITY_CENTROIDS[hintedCity] ? hintedCity : extractCity(address);
+    if (city) {
+        const label = city.replace(/\b\w/g, c => c.toUpperCase());
+        return { coordinates: CITY_CENTROIDS[city], source: 'city', label };
+    }
+
+    if (zip) {
+        const prefixCoords = ZIP_PREFIX_CENTROIDS[zip.slice(0, 3)];
+        if (prefixCoords) return { coordinates: prefixCoords, source: 'zip-prefix', label: `ZIP area ${zip.slice(0, 3)}xx` };
+    }
+
+    return null;
+}
@@ -0,0 +1,66 @@
+import { Job } from '../types';
+
+// Customer contact details: pulling them out of pasted job lines, and naming a job
+// for display when no customer name is known.
+
+const EMAIL_REGEX = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/;
+// (480) 555-1234, 480-555-1234, 480.555.1234, +1 480 555 1234
+const PHONE_REGEX = /(?:\+?1[\s.-]?)?\(?\b(\d{3})\)?[\s.-]?(\d{3})[\s.-](\d{4})\b/;
+// "Name: Jane Doe" or "Cust: Jane Doe", up to the next separator or digit
+const NAME_REGEX = /\b(?:name|customer|cust)\s*:\s*([A-Za-z][A-Za-z.' -]*?)\s*(?=[-,|;(]|\d|$)/i;
+
+export interface ContactInfo {
+    customerName?: string;
+    phone?: string;
+    email?: string;
+}
+
+export function formatPhone(value: string): string {
+    const digits = value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+    return digits.length === 10 ? `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}` : value.trim();
+}
+
+/**
+ * Finds a phone number, email address and "Name:" label in a line of text.
+ * @returns The contact details and the line with them removed.
+ */
+export function extractContactInfo(line: string): { contact: ContactInfo; rest: string } {
+    const contact: ContactInfo = {};
+    let rest = line;
+
+    const email = rest.match(EMAIL_REGEX);
+    if (email) {
+        contact.email = email[0];
+        rest = rest.replace(email[0], ' ');
+    }
+    const phone = rest.match(PHONE_REGEX);
+    if (phone) {
+        contact.phone = formatPhone(phone[0]);
+        rest = rest.replace(phone[0], ' ');
+    }
+    const name = rest.match(NAME_REGEX);
+    if (name && name[1].trim()) {
+        contact.customerName = name[1].trim();
+        rest = rest.replace(name[0], ' ');
+    }
+
+    // Tidy the separators left behind: "A -  - B" -> "A - B", "A , B" -> "A, B"
+    rest = rest.replace(/(?:\s*[-|]\s*){2,}/g, ' - ').replace(/\s+,/g, ',').replace(/,(?:\s*,)+/g, ',');
+    return { contact, rest: rest.replace(/\s{2,}/g, ' ').trim() };
+}
+
+/**
+ * The customer's name, or '' if unknown. Older jobs stored the city in customerName,
+ * so a name equal to the city does not count.
+ */
+export function getCustomerName(job: Job): string {
+    const name = (job.customerName || '').trim();
+    return name && name.toLowerCase() !== (job.city || '').toLowerCase() ? name : '';
+}
+
+/**
+ * A short label for lists and map pins: the customer's name, else the city, else the address.
+ */
+export function getJobLabel(job: Job): string {
+    return getCustomerName(job) || job.city || job.address;
+}
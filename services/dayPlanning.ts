@@ -0,0 +1,123 @@
+import { AppState, DisplayJob, Job } from '../types';
+import { getJobAttributes } from './jobAttributes';
+import { getJobStatus, isJobSchedulable, transitionJobStatus } from './jobStatus';
+
+// Planning across the days in the workspace: a per-day overview for the week board and
+// moving jobs from one day to another. Days are keyed "YYYY-MM-DD" like dailyStates.
+
+export interface RepDayLoad {
+    repId: string;
+    repName: string;
+    jobCount: number;
+    openSlotCount: number; // Slots the rep has not marked unavailable that day
+}
+
+export interface DayOverview {
+    dateKey: string;
+    isLoaded: boolean;
+    unassignedJobs: Job[];
+    assignedCount: number;
+    reps: RepDayLoad[];
+}
+
+const dateFromKey = (dateKey: string) => new Date(dateKey + 'T12:00:00'); // Noon avoids timezone shifts
+
+// "2026-10-21" -> "Wed 10/21"
+export const formatDayLabel = (dateKey: string) => {
+    const date = dateFromKey(dateKey);
+    return `${date.toLocaleDateString('en-US', { weekday: 'short' })} ${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+export function summarizeDay(dateKey: string, state: AppState | undefined): DayOverview {
+    if (!state) return { dateKey, isLoaded: false, unassignedJobs: [], assignedCount: 0, reps: [] };
+    const weekday = dateFromKey(dateKey).toLocaleString('en-us', { weekday: 'long' });
+    const reps = state.reps.map(rep => {
+        const unavailable = new Set(rep.unavailableSlots?.[weekday] || []);
+        return {
+            repId: rep.id,
+            repName: rep.name,
+            jobCount: rep.schedule.reduce((sum, slot) => sum + slot.jobs.length, 0),
+            openSlotCount: rep.schedule.filter(slot => !unavailable.has(slot.id)).length,
+        };
+    });
+    return {
+        dateKey,
+        isLoaded: true,
+        unassignedJobs: state.unassignedJobs,
+        assignedCount: reps.reduce((sum, rep) => sum + rep.jobCount, 0),
+        reps,
+    };
+}
+
+/**
+ * The next loaded day after dateKey in the workspace, or null if there is none.
+ */
+export function getNextLoadedDayKey(activeDayKeys: string[], dateKey: string, dailyStates: Map<string, AppState>): string | null {
+    return [...activeDayKeys].sort().find(key => key > dateKey && dailyStates.has(key)) || null;
+}
+
+/**
+ * Removes a job from a day's unassigned pool or rep schedule.
+ * @returns The job and the window it was booked in, or null if the day does not have it.
+ */
+const takeJob = (state: AppState, jobId: string): { job: DisplayJob; bookedWindow?: string } | null => {
+    const unassignedIndex = state.unassignedJobs.findIndex(j => j.id === jobId);
+    if (unassignedIndex > -1) return { job: state.unassignedJobs.splice(unassignedIndex, 1)[0] };
+    for (const rep of state.reps) {
+        for (const slot of rep.schedule) {
+            const jobIndex = slot.jobs.findIndex(j => j.id === jobId);
+            if (jobIndex > -1) {
+                const [job] = slot.jobs.splice(jobIndex, 1);
+                return { job, bookedWindow: job.timeSlotLabel || slot.label };
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Moves jobs from one day into another day's unassigned pool, as a single change to the
+ * day map so one undo puts them back. A job booked on the first day keeps that window as
+ * its requested time and is marked as rescheduled from it; confirmed jobs go back to
+ * tentative since the customer agreed to a different day. Jobs that are finished or
+ * cancelled, that sit on a locked or route-optimized rep, or that the target day already
+ * has, stay put.
+ * @returns The updated day map and how many jobs moved.
+ */
+export function moveJobsToDay(dailyStates: Map<string, AppState>, jobIds: string[], fromKey: string, toKey: string): { dailyStates: Map<string, AppState>; movedCount: number } {
+    const fromDay = dailyStates.get(fromKey);
+    const toDay = dailyStates.get(toKey);
+    if (!fromDay || !toDay || fromKey === toKey) return { dailyStates, movedCount: 0 };
+
+    const from = JSON.parse(JSON.stringify(fromDay)) as AppState;
+    const to = JSON.parse(JSON.stringify(toDay)) as AppState;
+    const targetIds = new Set([...to.unassignedJobs, ...to.reps.flatMap(r => r.schedule.flatMap(s => s.jobs))].map(j => j.id));
+
+    // Unlock or un-optimize the rep first to take jobs off their route.
+    const openReps = from.reps.filter(r => !r.isLocked && !r.isOptimized);
+    const movableIds = new Set([...from.unassignedJobs, ...openReps.flatMap(r => r.schedule.flatMap(s => s.jobs))]
+        .filter(isJobSchedulable).map(j => j.id));
+    let movedCount = 0;
+
+    jobIds.forEach(jobId => {
+        if (!movableIds.has(jobId) || targetIds.has(jobId)) return;
+        const taken = takeJob(from, jobId);
+        if (!taken) return;
+        const { assignmentScore, scoreBreakdown, timeSlotLabel, ...job } = taken.job;
+        const window = taken.bookedWindow || job.originalTimeframe;
+        let moved: Job = {
+            ...job,
+            notes: (job.notes || '').replace(/\(Scheduled: [^)]+\)\s*/, '').trim(),
+            originalTimeframe: window,
+            attributes: { ...getJobAttributes(job), rescheduleFrom: window ? `${formatDayLabel(fromKey)} ${window}` : formatDayLabel(fromKey) },
+        };
+        if (getJobStatus(moved) === 'confirmed') moved = transitionJobStatus(moved, 'tentative') || moved;
+        to.unassignedJobs.push(moved);
+        targetIds.add(jobId);
+        movedCount++;
+    });
+
+    if (movedCount === 0) return { dailyStates, movedCount };
+    to.unassignedJobs.sort((a, b) => (a.city || '').localeCompare(b.city || ''));
+    return { dailyStates: new Map(dailyStates).set(fromKey, from).set(toKey, to), movedCount };
+}
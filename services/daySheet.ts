@@ -0,0 +1,188 @@
+import { DisplayJob, Rep, Settings } from '../types';
+import { fetchRoute, Coordinates } from './osmService';
+import { planRepDay, RepDayPlan, formatDuration } from './itinerary';
+import { getCustomerName } from './customerContact';
+import { getJobAttributes, getJobTags, getDisplayNotes } from './jobAttributes';
+
+// Rep-facing day sheets: one self-contained HTML page per rep (no scripts, no external
+// assets) that reads well on a phone. Stops come from the same plan (order, home start
+// and itinerary) as the route card; the map is an inline SVG of the routed line.
+
+export interface DaySheet {
+    repName: string;
+    fileName: string;
+    html: string;
+}
+
+interface DaySheetInput {
+    repName: string;
+    date: Date;
+    plan: RepDayPlan;
+    routeLine: Coordinates[]; // Home, stops and home again, or the routed geometry
+}
+
+const MAP_WIDTH = 360;
+const MAP_HEIGHT = 220;
+const MAP_PADDING = 18;
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const navigateUrl = (address: string) => `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(address)}`;
+
+// "John "JJ" Smith (Phoenix)" on 2026-10-21 -> "john-jj-smith-phoenix-2026-10-21.html"
+export function daySheetFileName(repName: string, date: Date): string {
+    const slug = repName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'rep';
+    const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return `${slug}-${dateKey}.html`;
+}
+
+/**
+ * Draws the route line and numbered stops, projected onto a fixed-size SVG.
+ */
+function renderRouteSvg(routeLine: Coordinates[], home: Coordinates | null, stops: { coord: Coordinates; number: number }[]): string {
+    const points = [...routeLine, ...stops.map(stop => stop.coord), ...(home ? [home] : [])];
+    if (points.length === 0) return '';
+    const lats = points.map(p => p.lat);
+    const lons = points.map(p => p.lon);
+    const minLat = Math.min(...lats), maxLat = Math.max(...lats);
+    const minLon = Math.min(...lons), maxLon = Math.max(...lons);
+    // Shrink longitude so the map is not stretched east-west.
+    const lonScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const spanX = Math.max((maxLon - minLon) * lonScale, 0.005);
+    const spanY = Math.max(maxLat - minLat, 0.005);
+    const scale = Math.min((MAP_WIDTH - 2 * MAP_PADDING) / spanX, (MAP_HEIGHT - 2 * MAP_PADDING) / spanY);
+    const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+    const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+    const project = (p: Coordinates) => ({
+        x: offsetX + (p.lon - minLon) * lonScale * scale,
+        y: MAP_HEIGHT - (offsetY + (p.lat - minLat) * scale),
+    });
+
+    const line = routeLine.map(project).map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+    const homeMarker = home ? (() => {
+        const { x, y } = project(home);
+        return `<rect x="${(x - 7).toFixed(1)}" y="${(y - 7).toFixed(1)}" width="14" height="14" rx="3" fill="#111827"/><text x="${x.toFixed(1)}" y="${(y + 4).toFixed(1)}" text-anchor="middle" font-size="10" fill="#fff">H</text>`;
+    })() : '';
+    const stopMarkers = stops.map(stop => {
+        const { x, y } = project(stop.coord);
+        return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="9" fill="#4f46e5" stroke="#fff" stroke-width="2"/><text x="${x.toFixed(1)}" y="${(y + 4).toFixed(1)}" text-anchor="middle" font-size="10" font-weight="bold" fill="#fff">${stop.number}</text>`;
+    }).join('');
+
+    return `<svg class="map" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" role="img" aria-label="Route map">`
+        + `<rect width="${MAP_WIDTH}" height="${MAP_HEIGHT}" fill="#f3f4f6"/>`
+        + (line ? `<polyline points="${line}" fill="none" stroke="#6366f1" stroke-width="3" stroke-linejoin="round" stroke-linecap="round"/>` : '')
+        + homeMarker + stopMarkers + '</svg>';
+}
+
+const renderStop = (job: DisplayJob, stopNumber: number, eta: string, onSite: string, warning?: string): string => {
+    const customer = getCustomerName(job);
+    const tags = getJobTags(getJobAttributes(job));
+    const notes = getDisplayNotes(job.notes);
+    const place = [job.address, job.city, job.zipCode].filter(Boolean).join(', ');
+    return `<section class="stop">
+<div class="stop-head"><span class="num">${stopNumber}</span><span class="eta">${escapeHtml(eta)}</span><span class="muted">${escapeHtml(onSite)} on site</span></div>
+${job.originalTimeframe ? `<p class="muted">Customer window: ${escapeHtml(job.originalTimeframe)}</p>` : ''}
+${warning ? `<p class="warn">${escapeHtml(warning)}</p>` : ''}
+<p class="addr">${escapeHtml(job.address)}${job.city ? `<br><span class="muted">${escapeHtml(job.city)}${job.zipCode ? ` ${escapeHtml(job.zipCode)}` : ''}</span>` : ''}</p>
+${customer || job.phone ? `<p>${escapeHtml(customer)}${customer && job.phone ? ' · ' : ''}${job.phone ? `<a href="tel:${escapeHtml(job.phone.replace(/[^\d+]/g, ''))}">${escapeHtml(job.phone)}</a>` : ''}</p>` : ''}
+${tags.length > 0 ? `<p>${tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join(' ')}</p>` : ''}
+${notes ? `<p class="notes">${escapeHtml(notes)}</p>` : ''}
+<a class="nav" href="${escapeHtml(navigateUrl(place))}">Navigate</a>
+</section>`;
+};
+
+/**
+ * The day sheet as a complete HTML document.
+ */
+export function buildDaySheetHtml({ repName, date, plan, routeLine }: DaySheetInput): string {
+    const dateText = date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+    const jobItems = plan.items.filter(item => item.type === 'job' && item.job);
+    const driveMinutes = plan.items
+        .filter(item => item.type === 'travel' && item.startMinutes !== undefined && item.endMinutes !== undefined)
+        .reduce((sum, item) => sum + (item.endMinutes! - item.startMinutes!), 0);
+    // Stops that could not be located are left off the map but keep their numbers.
+    const stops = jobItems.flatMap((item, i) => {
+        const coord = plan.coordinates.get(item.job!.address);
+        return coord ? [{ coord, number: i + 1 }] : [];
+    });
+
+    let stopNumber = 0;
+    const body = plan.items.map(item => {
+        if (item.type === 'job' && item.job) return renderStop(item.job, ++stopNumber, item.timeRange, item.duration, item.warning);
+        if (item.type === 'lunch') return `<p class="break">Lunch ${escapeHtml(item.timeRange)}</p>`;
+        return `<p class="drive">Drive ${escapeHtml(item.timeRange.replace(/^\(|\)$/g, ''))}</p>`;
+    }).join('\n');
+
+    const fullRoute = jobItems.map(item => encodeURIComponent(item.job!.address));
+    if (plan.homeAddress) {
+        fullRoute.unshift(encodeURIComponent(plan.homeAddress));
+        fullRoute.push(encodeURIComponent(plan.homeAddress));
+    }
+    const routeUrl = `https://www.google.com/maps/dir/${fullRoute.join('/')}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(repName)} · ${escapeHtml(dateText)}</title>
+<style>
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:#f9fafb;color:#111827;font-size:16px;line-height:1.4}
+main{max-width:560px;margin:0 auto;padding:16px}
+h1{font-size:22px;margin:0}
+.muted{color:#6b7280;font-size:14px}
+.map{width:100%;height:auto;border-radius:12px;margin:12px 0;display:block}
+.stop{background:#fff;border:1px solid #e5e7eb;border-radius:12px;padding:12px;margin:8px 0}
+.stop p{margin:6px 0}
+.stop-head{display:flex;align-items:center;gap:8px}
+.num{background:#4f46e5;color:#fff;border-radius:999px;width:26px;height:26px;display:inline-flex;align-items:center;justify-content:center;font-weight:bold;font-size:14px}
+.eta{font-weight:bold;flex:1}
+.addr{font-weight:600}
+.tag{display:inline-block;background:#eef2ff;color:#4338ca;border-radius:6px;padding:2px 8px;font-size:13px}
+.notes{background:#f3f4f6;border-radius:8px;padding:8px;font-size:14px}
+.warn{background:#fef2f2;color:#b91c1c;border-radius:8px;padding:6px 8px;font-size:14px;font-weight:600}
+.nav,.route{display:block;text-align:center;background:#2563eb;color:#fff;text-decoration:none;border-radius:10px;padding:12px;font-weight:bold;margin-top:8px}
+.drive{color:#9ca3af;font-size:13px;text-align:center;margin:4px 0}
+.break{background:#fef3c7;color:#92400e;border-radius:10px;padding:8px;text-align:center;font-weight:bold}
+a{color:#2563eb}
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(repName)}</h1>
+<p class="muted">${escapeHtml(dateText)} · ${jobItems.length} stop${jobItems.length === 1 ? '' : 's'} · ${formatDuration(driveMinutes)} driving</p>
+${renderRouteSvg(routeLine, plan.home, stops)}
+${body}
+${jobItems.length > 0 ? `<a class="route" href="${escapeHtml(routeUrl)}">Open full route in Google Maps</a>` : ''}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Plans the rep's day and renders their sheet, or null if they have no jobs. The map
+ * follows the OSRM route when it can be fetched, else straight legs.
+ */
+export async function generateRepDaySheet(rep: Rep, date: Date, settings: Pick<Settings, 'appointmentDurations' | 'lunchBreak'>): Promise<DaySheet | null> {
+    const jobs = rep.schedule.flatMap(slot => slot.jobs.map(job => ({ ...job, timeSlotLabel: job.timeSlotLabel || slot.label })));
+    if (jobs.length === 0) return null;
+    const plan = await planRepDay(jobs, rep, settings);
+
+    const stops = plan.jobs.map(job => plan.coordinates.get(job.address)).filter((c): c is Coordinates => !!c);
+    const waypoints = plan.home ? [plan.home, ...stops, plan.home] : stops;
+    const route = waypoints.length > 1 ? await fetchRoute(waypoints) : null;
+    const geometry: [number, number][] | undefined = route?.geometry?.coordinates;
+    const routeLine = geometry ? geometry.map(([lon, lat]) => ({ lat, lon })) : waypoints;
+
+    return {
+        repName: rep.name,
+        fileName: daySheetFileName(rep.name, date),
+        html: buildDaySheetHtml({ repName: rep.name, date, plan, routeLine }),
+    };
+}
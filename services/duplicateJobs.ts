@@ -0,0 +1,199 @@
+import { AppState, DisplayJob, Job } from '../types';
+import { Coordinates, expandAddressAbbreviations, getCachedCoordinates } from './osmService';
+import { haversineDistance } from './geography';
+import { countJobDetails, getJobAttributes } from './jobAttributes';
+import { formatDayLabel } from './dayPlanning';
+
+// Possible duplicate jobs across every day in the workspace. Two jobs match when their
+// street addresses are the same once abbreviations are spelled out (and their zips or
+// cities do not disagree), or when they share a house number and geocode to nearly the
+// same spot.
+
+// Same house number and geocoded this close counts as the same property.
+const SAME_PLACE_KM = 0.05;
+
+export interface JobLocation {
+    dateKey: string;
+    job: DisplayJob;
+    repId?: string; // Unassigned when missing
+    repName?: string;
+    slotLabel?: string;
+}
+
+export interface DuplicateGroup {
+    id: string; // The first location's "dateKey:jobId"
+    reason: string;
+    locations: JobLocation[];
+}
+
+type CoordinateLookup = (address: string) => Coordinates | null;
+
+const locationKey = (location: { dateKey: string; job: Job }) => `${location.dateKey}:${location.job.id}`;
+
+const DIRECTIONS: Record<string, string> = { n: 'north', s: 'south', e: 'east', w: 'west' };
+
+// Markers the scheduler and parser keep in notes; they belong to the job's current booking.
+const BOOKING_MARKER_REGEX = /\s*\((?:Rep|Scheduled):[^)]*\)/g;
+
+/**
+ * The street part of an address, lowercase, with directions and street types spelled out:
+ * "13858 W. Tara Ln, Surprise AZ" -> "13858 west tara lane".
+ */
+export function normalizeStreetAddress(address: string): string {
+    const street = address.split(/[#([]|\s-\s/)[0].split(',')[0].replace(/\s{2,}/g, ' ').trim();
+    return expandAddressAbbreviations(street).toLowerCase()
+        .replace(/[^a-z0-9 ]/g, '')
+        .replace(/\b[nsew]\b/g, letter => DIRECTIONS[letter]) // The shared rules only expand capitals
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+const houseNumber = (normalized: string) => normalized.match(/^\d+/)?.[0] || '';
+
+/**
+ * Why two jobs look like the same lead, or null if they do not.
+ */
+export function getDuplicateReason(a: Job, b: Job, getCoordinates: CoordinateLookup = getCachedCoordinates): string | null {
+    const streetA = normalizeStreetAddress(a.address);
+    const streetB = normalizeStreetAddress(b.address);
+    const number = houseNumber(streetA);
+    if (!number || number !== houseNumber(streetB)) return null;
+
+    if (streetA === streetB) {
+        if (a.zipCode && b.zipCode) return a.zipCode === b.zipCode ? 'Same address and zip' : null;
+        if (a.city && b.city && a.city.toLowerCase() !== b.city.toLowerCase()) return null;
+        return 'Same address';
+    }
+    const coordA = getCoordinates(a.address);
+    const coordB = getCoordinates(b.address);
+    if (coordA && coordB) {
+        const meters = haversineDistance(coordA, coordB) * 1000;
+        if (meters <= SAME_PLACE_KM * 1000) return `Same house number, ${Math.round(meters)}m apart on the map`;
+    }
+    return null;
+}
+
+/**
+ * Every job in the workspace with the day and rep it is on.
+ */
+export function listJobLocations(dailyStates: Map<string, AppState>): JobLocation[] {
+    return Array.from(dailyStates.entries()).flatMap(([dateKey, state]) => [
+        ...state.unassignedJobs.map(job => ({ dateKey, job })),
+        ...state.reps.flatMap(rep => rep.schedule.flatMap(slot => slot.jobs.map(job => ({
+            dateKey, job, repId: rep.id, repName: rep.name, slotLabel: job.timeSlotLabel || slot.label,
+        })))),
+    ]);
+}
+
+/**
+ * Groups jobs across all days that look like the same lead. Only jobs with the same house
+ * number are compared, which keeps this quick enough to run on every change.
+ */
+export function findDuplicateGroups(dailyStates: Map<string, AppState>, getCoordinates: CoordinateLookup = getCachedCoordinates): DuplicateGroup[] {
+    const byHouseNumber = new Map<string, JobLocation[]>();
+    listJobLocations(dailyStates).forEach(location => {
+        const number = houseNumber(normalizeStreetAddress(location.job.address));
+        if (number) byHouseNumber.set(number, [...(byHouseNumber.get(number) || []), location]);
+    });
+
+    const groups: DuplicateGroup[] = [];
+    byHouseNumber.forEach(candidates => {
+        const grouped = new Set<number>();
+        candidates.forEach((location, i) => {
+            if (grouped.has(i)) return;
+            const members = [location];
+            let reason = '';
+            for (let j = i + 1; j < candidates.length; j++) {
+                if (grouped.has(j)) continue;
+                const match = members.map(member => getDuplicateReason(member.job, candidates[j].job, getCoordinates)).find(Boolean);
+                if (!match) continue;
+                members.push(candidates[j]);
+                grouped.add(j);
+                reason = reason || match;
+            }
+            if (members.length > 1) groups.push({ id: locationKey(location), reason, locations: members });
+        });
+    });
+    return groups;
+}
+
+/**
+ * "Wed 10/21 · Jane Smith 8am - 10am" or "Wed 10/21 · Unassigned"
+ */
+export function describeJobLocation(location: JobLocation): string {
+    return `${formatDayLabel(location.dateKey)} · ${location.repName ? `${location.repName} ${location.slotLabel || ''}`.trim() : 'Unassigned'}`;
+}
+
+/**
+ * For jobs about to be added: what each one duplicates, either a job already in the
+ * workspace or an earlier job in the same batch.
+ * @returns Descriptions of the matches by incoming job ID; jobs with no match are left out.
+ */
+export function findDuplicatesOfIncoming(jobs: Job[], dailyStates: Map<string, AppState>, getCoordinates: CoordinateLookup = getCachedCoordinates): Map<string, string[]> {
+    const existing = listJobLocations(dailyStates);
+    const matches = new Map<string, string[]>();
+    jobs.forEach((job, i) => {
+        const found = [
+            ...existing.filter(location => getDuplicateReason(job, location.job, getCoordinates)).map(describeJobLocation),
+            ...(jobs.slice(0, i).some(earlier => getDuplicateReason(job, earlier, getCoordinates)) ? ['An earlier job in this list'] : []),
+        ];
+        if (found.length > 0) matches.set(job.id, found);
+    });
+    return matches;
+}
+
+/**
+ * The location to keep when merging: a booked job over an unassigned one, then the one
+ * with the most details.
+ */
+export function pickMergeKeeper(group: DuplicateGroup): JobLocation {
+    return [...group.locations].sort((a, b) =>
+        Number(!!b.repId) - Number(!!a.repId)
+        || countJobDetails(getJobAttributes(b.job)) - countJobDetails(getJobAttributes(a.job))
+        || (b.job.notes || '').length - (a.job.notes || '').length)[0];
+}
+
+/**
+ * Merges a duplicate group into the kept job, as a single change to the day map. The kept
+ * job stays where it is booked and keeps its status; it takes the richest notes in the
+ * group (with its own booking markers) and any contact details it was missing. The other
+ * copies are removed from their days.
+ */
+export function mergeDuplicateJobs(dailyStates: Map<string, AppState>, group: DuplicateGroup, keeper: JobLocation): Map<string, AppState> {
+    const richest = [...group.locations].sort((a, b) =>
+        countJobDetails(getJobAttributes(b.job)) - countJobDetails(getJobAttributes(a.job))
+        || (b.job.notes || '').replace(BOOKING_MARKER_REGEX, '').length - (a.job.notes || '').replace(BOOKING_MARKER_REGEX, '').length)[0];
+    const bookingMarkers = (keeper.job.notes || '').match(BOOKING_MARKER_REGEX)?.map(marker => marker.trim()) || [];
+    const notes = [(richest.job.notes || '').replace(BOOKING_MARKER_REGEX, '').trim(), ...bookingMarkers].filter(Boolean).join(' ');
+    const others = group.locations.filter(location => locationKey(location) !== locationKey(keeper)).map(location => location.job);
+    const pick = <K extends 'customerName' | 'phone' | 'email' | 'zipCode' | 'originalTimeframe'>(field: K) =>
+        keeper.job[field] || others.map(job => job[field]).find(Boolean) || keeper.job[field];
+
+    const merged: DisplayJob = {
+        ...keeper.job,
+        customerName: pick('customerName') || '',
+        phone: pick('phone'),
+        email: pick('email'),
+        zipCode: pick('zipCode'),
+        originalTimeframe: pick('originalTimeframe'),
+        notes,
+        attributes: richest === keeper ? getJobAttributes(keeper.job) : { ...getJobAttributes(richest.job), rescheduleFrom: getJobAttributes(keeper.job).rescheduleFrom },
+    };
+
+    const keeperKey = locationKey(keeper);
+    const removeKeys = new Set(group.locations.map(locationKey).filter(key => key !== keeperKey));
+    const newDailyStates = new Map(dailyStates);
+    new Set(group.locations.map(location => location.dateKey)).forEach(dateKey => {
+        const state = newDailyStates.get(dateKey);
+        if (!state) return;
+        const update = (jobs: DisplayJob[]) => jobs
+            .filter(job => !removeKeys.has(`${dateKey}:${job.id}`))
+            .map(job => `${dateKey}:${job.id}` === keeperKey ? merged : job);
+        newDailyStates.set(dateKey, {
+            ...state,
+            unassignedJobs: update(state.unassignedJobs),
+            reps: state.reps.map(rep => ({ ...rep, schedule: rep.schedule.map(slot => ({ ...slot, jobs: update(slot.jobs) })) })),
+        });
+    });
+    return newDailyStates;
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Rep, ScheduledTimeSlot, Settings } from '../types';
+import { TIME_SLOTS } from '../constants';
+import { LOCAL_MOCK_RESPONDERS, assignJobsWithAi, fixAddressesWithAi, parseJobsFromText, setLlmProvider } from './geminiService';
+import { createMockProvider, createReplayProvider, getLlmTranscript } from './llmProviders';
+
+const PASTED_DAY = [
+    'Tuesday, October 28, 2025',
+    '7:30am - 10am (2)',
+    'Mesa Tile 85201 - 123 E Main St',
+    'Tempe Shingle - 9 W Elm Rd',
+    '1pm - 4pm (1)',
+    'Mesa Flat - 450 N Center St',
+].join('\n');
+
+// Only the rules assignJobsWithAi reads.
+const SETTINGS = {
+    allowDoubleBooking: false,
+    maxJobsPerSlot: 1,
+    allowAssignOutsideAvailability: false,
+    strictTimeSlotMatching: true,
+    allowRegionalRepsInPhoenix: true,
+    timeSlots: TIME_SLOTS,
+} as Settings;
+
+const emptySchedule = (): ScheduledTimeSlot[] => TIME_SLOTS.map(slot => ({ id: slot.id, label: slot.label, jobs: [] }));
+
+const buildReps = (): Rep[] => [
+    { id: 'rep-1', name: 'Jane Doe', availability: '', schedule: emptySchedule(), unavailableSlots: { Tuesday: ['ts-3'] } },
+    { id: 'rep-2', name: 'Sam Lee', availability: '', schedule: emptySchedule(), unavailableSlots: {} },
+    { id: 'rep-3', name: 'Kim Fox', availability: '', schedule: emptySchedule(), isLocked: true },
+];
+
+const parseAndAssign = async (reps: Rep[]) => {
+    const parsed = await parseJobsFromText(PASTED_DAY, reps);
+    const { assignments } = await assignJobsWithAi(reps, parsed.jobs, 'Tuesday', SETTINGS, () => {});
+    return { jobs: parsed.jobs, assignments };
+};
+
+describe('AI assignment through the local mock and replay providers', () => {
+    beforeEach(() => setLlmProvider(createMockProvider(LOCAL_MOCK_RESPONDERS)));
+
+    it('parses a pasted day and assigns it with the local mock', async () => {
+        const reps = buildReps();
+        const { jobs, assignments } = await parseAndAssign(reps);
+        expect(jobs.map(job => [job.city, job.originalTimeframe])).toEqual([
+            ['MESA', '7:30am - 10am'],
+            ['TEMPE', '7:30am - 10am'],
+            ['MESA', '1pm - 4pm'],
+        ]);
+        expect(assignments.map(({ jobId, repId, slotId }) => [jobs.findIndex(job => job.id === jobId), repId, slotId])).toEqual([
+            [0, 'rep-1', 'ts-1'],
+            [1, 'rep-2', 'ts-1'],
+            // Jane is unavailable at 1pm and Kim is locked.
+            [2, 'rep-2', 'ts-3'],
+        ]);
+    });
+
+    it('replays a recorded assignment for the same prompt', async () => {
+        const reps = buildReps();
+        const parsed = await parseJobsFromText(PASTED_DAY, reps);
+        const recorded = await assignJobsWithAi(reps, parsed.jobs, 'Tuesday', SETTINGS, () => {});
+
+        setLlmProvider(createReplayProvider(getLlmTranscript()));
+        const replayed = await assignJobsWithAi(reps, parsed.jobs, 'Tuesday', SETTINGS, () => {});
+        expect(replayed).toEqual(recorded);
+    });
+
+    it('rejects a prompt it has no recording for instead of reusing another', async () => {
+        const reps = buildReps();
+        await parseAndAssign(reps);
+
+        setLlmProvider(createReplayProvider(getLlmTranscript().filter(r => r.task === 'assignJobs')));
+        // A fresh parse gives the jobs new IDs, so the prompt differs from every recording.
+        await expect(parseAndAssign(reps)).rejects.toThrow(/No recorded "assignJobs" response matches this prompt/);
+    });
+
+    it('repairs addresses with the local mock', async () => {
+        const fixes = await fixAddressesWithAi([
+            { id: 'job-1', customerName: '', address: '123 E Main St', city: 'Mesa', zipCode: '85201', notes: '' },
+            { id: 'job-2', customerName: '', address: 'Near the park', notes: '' },
+        ] as Parameters<typeof fixAddressesWithAi>[0]);
+        expect(fixes).toEqual([
+            { jobId: 'job-1', correctedAddress: '123 E Main St, Mesa, AZ 85201' },
+            { jobId: 'job-2', correctedAddress: 'Unverified: Near the park' },
+        ]);
+    });
+});
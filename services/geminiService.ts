@@ -1,48 +1,33 @@
 
-import { Job, Rep, ParsedJobsResult, DisplayJob, Settings } from '../types';
-import { GoogleGenAI, Type } from '@google/genai';
+import { Job, Rep, ParsedTextResult, ParsedTextLine, DisplayJob, Settings, TimeSlot } from '../types';
 import { TIME_SLOTS, TAG_KEYWORDS } from '../constants';
 import { ALL_KNOWN_CITIES } from './geography';
+import { parseJobAttributes } from './jobAttributes';
+import { extractContactInfo } from './customerContact';
+import { mapTimeframeToSlotId } from './timeSlots';
+import { AddressFix, AiAssignment, LlmProvider, LlmRequest, LlmTask, LlmTaskInput, MockResponders, createGeminiProvider, recordLlmExchange } from './llmProviders';
 
-/**
- * Helper to get the 24-hour start hour from a time string (e.g., "7:30am", "1pm").
- * @param timeString The time string to parse.
- * @returns The hour in 24-hour format (0-23) or null.
- */
-const getStartHour24 = (timeString: string): number | null => {
-    const match = timeString.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-    if (!match) return null;
+// The provider selected in Settings. Defaults to Gemini.
+let activeLlm: LlmProvider = createGeminiProvider();
 
-    let [_, hourStr, minuteStr, period] = match;
-    let hour = parseInt(hourStr, 10);
-    
-    period = period?.toLowerCase();
+export function setLlmProvider(provider: LlmProvider): void {
+    activeLlm = provider;
+}
 
-    if (period === 'pm' && hour < 12) {
-        hour += 12;
-    }
-    if (period === 'am' && hour === 12) { // 12am is 00:00
-        hour = 0;
-    }
-    return hour;
-};
+export function getLlmProvider(): LlmProvider {
+    return activeLlm;
+}
 
 /**
- * Maps a job's timeframe string to a predefined time slot ID.
- * @param timeframe The timeframe string (e.g., "7:30am-9am").
- * @returns The matching slot ID ('ts-1', 'ts-2', etc.) or null.
+ * Sends one request to the active provider and adds the exchange to the transcript.
+ * The answer is whatever JSON the model returned; callers check its shape.
  */
-export const mapTimeframeToSlotId = (timeframe: string): string | null => {
-    const jobStartHour = getStartHour24(timeframe);
-    if (jobStartHour === null) return null;
-
-    if (jobStartHour >= 7 && jobStartHour < 10) return 'ts-1'; // 7:30am - 10am
-    if (jobStartHour >= 10 && jobStartHour < 13) return 'ts-2'; // 10am - 1pm
-    if (jobStartHour >= 13 && jobStartHour < 16) return 'ts-3'; // 1pm - 4pm
-    if (jobStartHour >= 16 && jobStartHour < 19) return 'ts-4'; // 4pm - 7pm
-    
-    return null;
-};
+async function generateJson<T extends LlmTask>(request: LlmRequest<T>): Promise<unknown> {
+    const provider = activeLlm;
+    const response = await provider.generate(request);
+    recordLlmExchange({ task: request.task, prompt: request.prompt, response, provider: provider.name, recordedAt: new Date().toISOString() });
+    return JSON.parse(response);
+}
 
 /**
  * Builds a list of searchable name variations for each rep to find them in text.
@@ -50,7 +35,7 @@ export const mapTimeframeToSlotId = (timeframe: string): string | null => {
  * @param reps The list of all representative objects.
  * @returns An array of objects, each containing a rep and their name variations.
  */
-const buildRepNameMatchers = (reps: Rep[]): { rep: Rep; searchTerms: string[] }[] => {
+export const buildRepNameMatchers = (reps: Rep[]): { rep: Rep; searchTerms: string[] }[] => {
     return reps.map(rep => {
         const terms = new Set<string>();
         const originalName = rep.name.toLowerCase();
@@ -100,13 +85,18 @@ const buildRepNameMatchers = (reps: Rep[]): { rep: Rep; searchTerms: string[] }[
  * and creates pre-assignments for them.
  * @param text The raw text pasted by the user.
  * @param reps A list of available reps to check against.
- * @returns A promise resolving to jobs, a detected date, and any pre-assignments.
+ * @param getSlotsForDate Returns the time slots of the day the jobs go to (the detected
+ * date, or null when the text has none), used to place pre-assigned jobs.
+ * @returns A promise resolving to jobs, a detected date, any pre-assignments, and how
+ * each non-blank line was read (including why skipped lines produced no job).
  */
 export async function parseJobsFromText(
   text: string,
-  reps: Rep[]
-): Promise<ParsedJobsResult & { assignments: { jobId: string, repId: string, slotId: string }[] }> {
+  reps: Rep[],
+  getSlotsForDate: (date: string | null) => TimeSlot[] = () => TIME_SLOTS
+): Promise<ParsedTextResult> {
   const jobs: Job[] = [];
+  const parsedLines: ParsedTextLine[] = [];
   const assignments: { jobId: string, repId: string, slotId: string }[] = [];
   const repNameMatchers = buildRepNameMatchers(reps);
   
@@ -135,26 +125,36 @@ export async function parseJobsFromText(
         }
     }
   }
+  const slots = getSlotsForDate(detectedDate);
 
   const timeSlotRegex = /(\d{1,2}(?::\d{2})?(?:am|pm)?\s*-\s*\d{1,2}(?::\d{2})?(?:am|pm)?)/i;
   let currentTimeframe: string | undefined = undefined;
 
   const knownCitiesList = Array.from(ALL_KNOWN_CITIES).sort((a, b) => b.length - a.length);
 
-  for (const line of lines) {
+  for (const [lineIndex, line] of lines.entries()) {
     const trimmedLine = line.trim();
     if (!trimmedLine) continue;
-    if (dateRegex.test(trimmedLine) && trimmedLine.split(' ').length < 6) continue;
+    const lineNumber = lineIndex + 1;
+    const skip = (reason: string) => parsedLines.push({ lineNumber, text: trimmedLine, kind: 'skipped', reason, timeframe: currentTimeframe });
+    if (dateRegex.test(trimmedLine) && trimmedLine.split(' ').length < 6) {
+      parsedLines.push({ lineNumber, text: trimmedLine, kind: 'date' });
+      continue;
+    }
 
     const timeSlotMatch = trimmedLine.match(timeSlotRegex);
     if (timeSlotMatch && /\(\d+\)$/.test(trimmedLine)) {
       currentTimeframe = timeSlotMatch[1];
+      parsedLines.push({ lineNumber, text: trimmedLine, kind: 'timeframe' });
       continue;
     }
 
+    // Phone, email and "Name:" come out first so their digits are not read as an address.
+    const { contact, rest: lineWithoutContact } = extractContactInfo(trimmedLine);
+
     // New, more robust parsing logic: Find rep first, then parse the rest.
     let assignedRep: Rep | null = null;
-    let lineWithoutRep = trimmedLine;
+    let lineWithoutRep = lineWithoutContact;
     
     // 1. Find and remove rep name from the entire line for cleaner parsing.
     for (const matcher of repNameMatchers) {
@@ -247,6 +247,7 @@ export async function parseJobsFromText(
         if (/\d/.test(notes) && /[a-zA-Z]/.test(notes)) {
             address = notes;
         } else {
+            skip('No street address found');
             continue;
         }
     }
@@ -264,6 +265,7 @@ export async function parseJobsFromText(
     }
 
     if (!city) {
+      skip('No city found');
       continue;
     }
     
@@ -281,42 +283,133 @@ export async function parseJobsFromText(
     const hasNumber = /\d/.test(address);
     const hasStreetName = /\b[a-zA-Z]{3,}\b/.test(address);
     if (!address || !hasNumber || !hasStreetName) {
+        skip('Address needs a house number and street name');
         continue;
     }
 
-    const newJob = {
+    const newJob: Job = {
       id: `job-${Date.now()}-${jobs.length}-${Math.random().toString(36).substring(2, 9)}`,
-      customerName: city,
+      customerName: contact.customerName || '',
+      ...(contact.phone ? { phone: contact.phone } : {}),
+      ...(contact.email ? { email: contact.email } : {}),
       address, city, notes,
       originalTimeframe: currentTimeframe,
       zipCode,
+      attributes: parseJobAttributes(notes),
     };
     jobs.push(newJob);
+    parsedLines.push({ lineNumber, text: trimmedLine, kind: 'job', jobId: newJob.id });
 
     if (assignedRep && currentTimeframe) {
-        const slotId = mapTimeframeToSlotId(currentTimeframe);
+        const slotId = mapTimeframeToSlotId(currentTimeframe, slots);
         if (slotId) {
             assignments.push({ jobId: newJob.id, repId: assignedRep.id, slotId });
         }
     }
   }
 
-  const result = { date: detectedDate, jobs, assignments };
+  const result = { date: detectedDate, jobs, assignments, lines: parsedLines };
   return Promise.resolve(result);
 }
 
+const ASSIGNMENT_SCHEMA = {
+    type: 'object',
+    properties: {
+        assignments: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    jobId: { type: 'string' },
+                    repId: { type: 'string' },
+                    slotId: { type: 'string' },
+                    reason: { type: 'string' }
+                },
+                required: ['jobId', 'repId', 'slotId']
+            }
+        },
+        thoughts: { type: 'string' }
+    },
+    required: ['assignments']
+};
+
+const ADDRESS_FIX_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            jobId: { type: 'string' },
+            correctedAddress: { type: 'string' }
+        },
+        required: ['jobId', 'correctedAddress']
+    }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isAiAssignment = (value: unknown): value is AiAssignment =>
+    isRecord(value) && typeof value.jobId === 'string' && typeof value.repId === 'string' && typeof value.slotId === 'string'
+    && (value.reason === undefined || typeof value.reason === 'string');
+
+const isAddressFix = (value: unknown): value is AddressFix =>
+    isRecord(value) && typeof value.jobId === 'string' && typeof value.correctedAddress === 'string';
+
+/**
+ * Answers for the local mock provider. Assignment walks the jobs in order and gives each
+ * to an unlocked rep with room in the job's slot, preferring a rep already in that city
+ * and then the lightest load. Address repair appends the city, state and zip.
+ */
+export const LOCAL_MOCK_RESPONDERS: MockResponders = {
+    assignJobs: ({ reps, jobs, slotIds: daySlotIds, maxJobsInSlot, allowOutsideAvailability }) => {
+        const slotCounts = new Map(reps.map(rep => [rep.id, new Map(rep.currentSchedule.map(s => [s.slotId, s.jobCount]))]));
+        const cities = new Map(reps.map(rep => [rep.id, new Set(rep.assignedCities.map(c => c.toLowerCase()))]));
+        const totals = new Map(reps.map(rep => [rep.id, rep.currentSchedule.reduce((sum, s) => sum + s.jobCount, 0)]));
+        const assignments: AiAssignment[] = [];
+
+        for (const job of jobs) {
+            const city = (job.city || '').toLowerCase();
+            const slotIds = job.slotId ? [job.slotId] : daySlotIds;
+            let best: { repId: string; slotId: string; sameCity: boolean; load: number } | null = null;
+            for (const rep of reps) {
+                if (rep.isLocked) continue;
+                const slotId = slotIds.find(id =>
+                    (slotCounts.get(rep.id)!.get(id) || 0) < maxJobsInSlot &&
+                    (allowOutsideAvailability || !rep.unavailableSlots.includes(id)));
+                if (!slotId) continue;
+                const candidate = { repId: rep.id, slotId, sameCity: cities.get(rep.id)!.has(city), load: totals.get(rep.id)! };
+                if (!best || (candidate.sameCity && !best.sameCity) || (candidate.sameCity === best.sameCity && candidate.load < best.load)) {
+                    best = candidate;
+                }
+            }
+            if (!best) continue;
+            const counts = slotCounts.get(best.repId)!;
+            counts.set(best.slotId, (counts.get(best.slotId) || 0) + 1);
+            cities.get(best.repId)!.add(city);
+            totals.set(best.repId, best.load + 1);
+            assignments.push({ jobId: job.id, repId: best.repId, slotId: best.slotId, reason: best.sameCity ? 'Mock: rep already in this city' : 'Mock: lightest open rep' });
+        }
+        return { assignments, thoughts: `Local mock placed ${assignments.length} of ${jobs.length} jobs.` };
+    },
+    fixAddresses: jobList =>
+        jobList.map(({ id, address, city, zip }) => {
+            if (!/\d/.test(address) || !/[a-z]/i.test(address)) {
+                return { jobId: id, correctedAddress: `Unverified: ${address}` };
+            }
+            const parts = [address.trim().replace(/,\s*$/, '')];
+            if (city && !address.toLowerCase().includes(city.toLowerCase())) parts.push(city);
+            if (!/\bAZ\b|arizona/i.test(address)) parts.push(zip && !address.includes(zip) ? `AZ ${zip}` : 'AZ');
+            return { jobId: id, correctedAddress: parts.join(', ') };
+        }),
+};
+
 export async function assignJobsWithAi(
     reps: Rep[],
     unassignedJobs: Job[],
     selectedDay: string,
     settings: Settings,
     onThought: (thought: string) => void
-): Promise<{ assignments: { jobId: string; repId: string; slotId: string }[] }> {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
+): Promise<{ assignments: AiAssignment[] }> {
     onThought("Initializing AI assignment process...");
     onThought(`Analyzing ${reps.length} reps and ${unassignedJobs.length} unassigned jobs for ${selectedDay}.`);
     
@@ -328,6 +421,7 @@ export async function assignJobsWithAi(
             isLocked: rep.isLocked,
             skills: rep.skills,
             region: rep.region,
+            territory: rep.territory,
             zipCodes: rep.zipCodes,
             currentSchedule: rep.schedule.map(slot => ({
                 slotId: slot.id,
@@ -350,6 +444,7 @@ export async function assignJobsWithAi(
     onThought("Building a detailed prompt for the AI based on current settings...");
 
     const maxJobsInSlot = settings.allowDoubleBooking ? settings.maxJobsPerSlot : 1;
+    const timeSlots = settings.timeSlots || TIME_SLOTS;
     const slotCapacityDescription = settings.allowDoubleBooking 
         ? `Double booking is ALLOWED. A single time slot cannot have more than ${maxJobsInSlot} jobs.`
         : `Double booking is NOT ALLOWED. A single time slot can only have one job.`;
@@ -369,9 +464,9 @@ You are an expert dispatcher for a roofing company. Your task is to create the m
 **Rules for Assignment (Follow these strictly in order):**
 
 **--- Hard Constraints (Must NOT be violated) ---**
-1.  **Locked Reps:** A representative with "isLocked: true" in the input JSON MUST NOT have any changes made to their schedule. Do not unassign or move their existing jobs. You may add new jobs to them only if they are not full.
+1.  **Locked Reps:** A representative with "isLocked: true" in the input JSON MUST NOT have any changes made to their schedule. Do not assign new jobs to them. Assignments to locked reps are rejected.
 2.  **Availability:**
-    - Reps have 'unavailableSlots' listed by ID (e.g., 'ts-1'). Do NOT assign jobs to these slots unless absolutely necessary to meet the goal of maximizing appointments.
+    - Reps have 'unavailableSlots' listed by ID (e.g., '${timeSlots[0]?.id}'). Do NOT assign jobs to these slots unless absolutely necessary to meet the goal of maximizing appointments.
     - ${settings.allowAssignOutsideAvailability ? "You are PERMITTED to assign jobs to unavailable slots if no other option exists, but prioritize available slots." : "You are STRICTLY FORBIDDEN from assigning jobs to unavailable slots."}
 3.  **Slot Capacity:** ${slotCapacityDescription}
 4.  **Regional Constraints:**
@@ -380,6 +475,7 @@ You are an expert dispatcher for a roofing company. Your task is to create the m
     - Reps with 'SOUTH' region should primarily be assigned jobs in Southern Arizona (Tucson, Marana, Vail, etc).
     - Reps with 'PHX' region should primarily be assigned jobs in the Phoenix Metro area.
     - 'UNKNOWN' region reps can be assigned anywhere, but try to keep them clustered.
+    - Some reps have a 'territory' that overrides their region: 'forbiddenCities' are never allowed, 'allowedCities' are always allowed, 'allowedRegions' limits them to those regions, and 'phoenixRequiresOverride' means Phoenix follows the rule below.
     - ${settings.allowRegionalRepsInPhoenix ? "Regional reps (North/South) ARE allowed to take jobs in Phoenix if needed." : "Regional reps (North/South) are NOT allowed to take jobs in Phoenix."}
 
 **--- Optimization Guidelines (Follow these to improve score) ---**
@@ -391,7 +487,7 @@ You are an expert dispatcher for a roofing company. Your task is to create the m
     - Reps with 'Insurance' skill should get insurance jobs. 'Commercial' skill should get commercial jobs.
 3.  **Time Slot Matching:**
     - Jobs have an 'originalTimeframe' (e.g., '7:30am - 10am').
-    - Try to assign the job to the matching slot ID (ts-1: 7:30-10, ts-2: 10-1, ts-3: 1-4, ts-4: 4-7).
+    - Try to assign the job to the matching slot ID (${timeSlots.map(slot => `${slot.id}: ${slot.label}`).join(', ')}).
     - ${settings.strictTimeSlotMatching ? "You MUST match the time slot exactly." : "You should try to match the time slot, but can shift it if needed for efficiency."}
 
 **Input Data:**
@@ -412,61 +508,39 @@ Return a JSON object with the following structure:
 }
 `;
 
-    onThought("Sending data to Gemini for processing...");
+    onThought(`Sending data to ${activeLlm.name} for processing...`);
+
+    const input: LlmTaskInput<'assignJobs'> = {
+        reps: simplifiedReps,
+        jobs: simplifiedJobs.map(job => ({ id: job.id, city: job.city, slotId: job.originalTimeframe ? mapTimeframeToSlotId(job.originalTimeframe, timeSlots) : null })),
+        slotIds: timeSlots.map(slot => slot.id),
+        maxJobsInSlot,
+        allowOutsideAvailability: settings.allowAssignOutsideAvailability,
+    };
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        assignments: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    jobId: { type: Type.STRING },
-                                    repId: { type: Type.STRING },
-                                    slotId: { type: Type.STRING },
-                                    reason: { type: Type.STRING }
-                                },
-                                required: ['jobId', 'repId', 'slotId']
-                            }
-                        },
-                        thoughts: { type: Type.STRING }
-                    }
-                }
-            }
-        });
+        const result = await generateJson({ task: 'assignJobs', prompt, schema: ASSIGNMENT_SCHEMA, input });
 
         onThought("Received response from AI. Parsing assignments...");
-        
-        const responseText = response.text;
-        if (!responseText) {
-            throw new Error("Empty response from AI");
-        }
 
-        const result = JSON.parse(responseText);
-        
-        if (result.thoughts) {
+        if (isRecord(result) && typeof result.thoughts === 'string' && result.thoughts) {
             onThought(`AI Strategy: ${result.thoughts}`);
         }
 
-        return result;
+        const proposals = isRecord(result) && Array.isArray(result.assignments) ? result.assignments : [];
+        const assignments = proposals.filter(isAiAssignment);
+        if (assignments.length < proposals.length) {
+            onThought(`Ignored ${proposals.length - assignments.length} malformed assignment(s) in the AI response.`);
+        }
+        return { assignments };
 
     } catch (error) {
-        console.error("Gemini API Error:", error);
+        console.error("AI Assignment Error:", error);
         throw error;
     }
 }
 
-export async function fixAddressesWithAi(jobs: DisplayJob[]): Promise<{ jobId: string, correctedAddress: string }[]> {
-    if (!process.env.API_KEY) throw new Error("API_KEY not set");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
+export async function fixAddressesWithAi(jobs: DisplayJob[]): Promise<AddressFix[]> {
     const jobList = jobs.map(j => ({ id: j.id, address: j.address, city: j.city, zip: j.zipCode, notes: j.notes }));
     
     const prompt = `
@@ -480,28 +554,10 @@ export async function fixAddressesWithAi(jobs: DisplayJob[]): Promise<{ jobId: s
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            jobId: { type: Type.STRING },
-                            correctedAddress: { type: Type.STRING }
-                        },
-                        required: ['jobId', 'correctedAddress']
-                    }
-                }
-            }
-        });
-        
-        return JSON.parse(response.text || '[]');
+        const result = await generateJson({ task: 'fixAddresses', prompt, schema: ADDRESS_FIX_SCHEMA, input: jobList });
+        return Array.isArray(result) ? result.filter(isAddressFix) : [];
     } catch (error) {
-        console.error("Gemini Address Fix Error:", error);
+        console.error("AI Address Fix Error:", error);
         return [];
     }
 }
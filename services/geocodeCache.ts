@@ -0,0 +1,391 @@
+import type { Coordinates, GeocodeResult } from './osmService';
+
+// Persistent geocode cache. Entries live in memory for synchronous lookups and are
+// written behind to IndexedDB in batches. Successful results expire after
+// GEOCODE_TTL_MS and failures are retried after GEOCODE_RETRY_MS; the least recently
+// used entries are evicted beyond MAX_GEOCODE_ENTRIES. A manual override pins an
+// address to a point: it always wins over the geocoder and is never evicted.
+
+export interface GeocodeCacheEntry {
+    result: GeocodeResult;
+    fetchedAt: number; // epoch ms the result was obtained; 0 for override-only entries
+    checkedAt: number; // epoch ms of the last geocoder attempt
+    lastUsedAt: number;
+    override?: Coordinates;
+}
+
+export interface GeocodeCacheRecord extends GeocodeCacheEntry {
+    address: string;
+}
+
+export interface GeocodeCacheExport {
+    version: 1;
+    exportedAt: number;
+    entries: GeocodeCacheRecord[];
+}
+
+export interface GeocodeCacheStats {
+    total: number;
+    failed: number;
+    expired: number;
+    overrides: number;
+}
+
+export const GEOCODE_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+export const GEOCODE_RETRY_MS = 24 * 60 * 60 * 1000;
+export const MAX_GEOCODE_ENTRIES = 5000;
+
+const DB_NAME = 'rep-route-planner-geocodes';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const LEGACY_STORAGE_KEY = 'geocode-cache';
+const WRITE_DELAY_MS = 1000;
+// Reads only move lastUsedAt (and queue a write) once it is this stale.
+const TOUCH_RESOLUTION_MS = 60 * 60 * 1000;
+
+// Map order is recency order: touched entries are moved to the end, evictions come from the front.
+const cache = new Map<string, GeocodeCacheEntry>();
+const dirtyAddresses = new Set<string>();
+const deletedAddresses = new Set<string>();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+                db.createObjectStore(ENTRY_STORE, { keyPath: 'address' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isCoordinates = (value: unknown): value is Coordinates =>
+    isObject(value) && typeof value.lat === 'number' && typeof value.lon === 'number' && isFinite(value.lat) && isFinite(value.lon);
+
+// Accepts stored or imported records, dropping anything that does not look like an entry.
+const toRecord = (value: unknown): GeocodeCacheRecord | null => {
+    if (!isObject(value) || typeof value.address !== 'string' || !value.address.trim() || !isObject(value.result)) return null;
+    const coordinates = isCoordinates(value.result.coordinates) ? value.result.coordinates : null;
+    const override = isCoordinates(value.override) ? value.override : undefined;
+    const fetchedAt = typeof value.fetchedAt === 'number' ? value.fetchedAt : 0;
+    return {
+        address: value.address,
+        result: { coordinates, error: coordinates ? null : String(value.result.error || 'Address not found') },
+        fetchedAt,
+        checkedAt: typeof value.checkedAt === 'number' ? value.checkedAt : fetchedAt,
+        lastUsedAt: typeof value.lastUsedAt === 'number' ? value.lastUsedAt : fetchedAt,
+        ...(override ? { override } : {}),
+    };
+};
+
+const markDirty = (address: string) => {
+    deletedAddresses.delete(address);
+    dirtyAddresses.add(address);
+    scheduleWrite();
+};
+
+const markDeleted = (address: string) => {
+    dirtyAddresses.delete(address);
+    deletedAddresses.add(address);
+    scheduleWrite();
+};
+
+function scheduleWrite(): void {
+    if (writeTimer) return;
+    writeTimer = setTimeout(() => {
+        writeTimer = null;
+        flushGeocodeCache();
+    }, WRITE_DELAY_MS);
+}
+
+/**
+ * Writes every pending change to IndexedDB in one transaction.
+ */
+export async function flushGeocodeCache(): Promise<void> {
+    if (dirtyAddresses.size === 0 && deletedAddresses.size === 0) return;
+    const puts = Array.from(dirtyAddresses).flatMap(address => {
+        const entry = cache.get(address);
+        return entry ? [{ address, ...entry }] : [];
+    });
+    const deletes = Array.from(deletedAddresses);
+    dirtyAddresses.clear();
+    deletedAddresses.clear();
+    try {
+        const db = await openDb();
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(ENTRY_STORE, 'readwrite');
+            const store = tx.objectStore(ENTRY_STORE);
+            deletes.forEach(address => store.delete(address));
+            puts.forEach(record => store.put(record));
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    } catch (e) {
+        // Without IndexedDB the entries stay in memory for this session only.
+    }
+}
+
+// Drops the least recently used entries beyond the cap. Overrides are pinned.
+const evictOverflow = () => {
+    let excess = cache.size - MAX_GEOCODE_ENTRIES;
+    if (excess <= 0) return;
+    for (const [address, entry] of cache) {
+        if (excess <= 0) break;
+        if (entry.override) continue;
+        cache.delete(address);
+        markDeleted(address);
+        excess--;
+    }
+};
+
+const putEntry = (address: string, entry: GeocodeCacheEntry, evict = true) => {
+    cache.delete(address);
+    cache.set(address, entry);
+    markDirty(address);
+    if (evict) evictOverflow();
+};
+
+// Restores recency order after entries were added out of order (loading, importing).
+const sortByLastUse = (entries: [string, GeocodeCacheEntry][]) => {
+    cache.clear();
+    entries.sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt).forEach(([address, entry]) => cache.set(address, entry));
+};
+
+// The pre-IndexedDB cache: a localStorage object of address -> GeocodeResult with no
+// timestamps. Successes start a fresh TTL; failures are due for a retry straight away.
+const readLegacyEntries = (now: number): GeocodeCacheRecord[] => {
+    try {
+        const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (!saved) return [];
+        return Object.entries(JSON.parse(saved)).flatMap(([address, result]) => {
+            const record = toRecord({ address, result, fetchedAt: isObject(result) && isCoordinates(result.coordinates) ? now : 0, lastUsedAt: now });
+            return record ? [record] : [];
+        });
+    } catch (e) {
+        // Unreadable leftovers are skipped; the addresses are simply geocoded again.
+        return [];
+    }
+};
+
+async function loadGeocodeCache(): Promise<void> {
+    const now = Date.now();
+    let stored: GeocodeCacheRecord[] = [];
+    try {
+        const db = await openDb();
+        stored = await new Promise<unknown[]>((resolve, reject) => {
+            const request = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).getAll();
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(values => values.flatMap(value => {
+            const record = toRecord(value);
+            return record ? [record] : [];
+        }));
+    } catch (e) {
+        // No IndexedDB (e.g. private browsing): geocodes are only kept for this session.
+    }
+
+    const legacy = readLegacyEntries(now);
+    // Stored entries override legacy ones, and anything geocoded while loading is newer than both.
+    const merged = new Map<string, GeocodeCacheEntry>();
+    [...legacy, ...stored].forEach(({ address, ...entry }) => merged.set(address, entry));
+    cache.forEach((entry, address) => merged.set(address, entry));
+    sortByLastUse(Array.from(merged.entries()));
+
+    if (legacy.length > 0) {
+        legacy.forEach(({ address }) => markDirty(address));
+        try {
+            localStorage.removeItem(LEGACY_STORAGE_KEY);
+        } catch (e) {
+            // Harmless: the entries are re-imported (and deduplicated) on the next start.
+        }
+    }
+    evictOverflow();
+}
+
+const loadPromise = loadGeocodeCache();
+
+/**
+ * Resolves once stored entries are in memory. Lookups before then only see this session's results.
+ */
+export function whenGeocodeCacheReady(): Promise<void> {
+    return loadPromise;
+}
+
+/**
+ * The result to use for an address (an override as a plain result), or undefined if it
+ * has never been geocoded. Expired results are still returned until they are refreshed.
+ */
+export function lookupGeocode(address: string, now: number = Date.now()): GeocodeResult | undefined {
+    const entry = cache.get(address);
+    if (!entry) return undefined;
+    if (now - entry.lastUsedAt > TOUCH_RESOLUTION_MS) {
+        cache.delete(address);
+        cache.set(address, { ...entry, lastUsedAt: now });
+        markDirty(address);
+    }
+    return entry.override ? { coordinates: entry.override, error: null } : entry.result;
+}
+
+/**
+ * Whether the geocoder should be asked about an address: never asked, a failure older
+ * than the retry interval, or a success past its TTL (and not just retried).
+ */
+export function needsGeocode(address: string, now: number = Date.now()): boolean {
+    const entry = cache.get(address);
+    if (!entry) return true;
+    if (entry.override) return false;
+    if (now - entry.checkedAt < GEOCODE_RETRY_MS) return false;
+    return !entry.result.coordinates || now - entry.fetchedAt > GEOCODE_TTL_MS;
+}
+
+/**
+ * Records a geocoder result. A failed refresh keeps the previous coordinates, and any
+ * override stays in place. Offline estimates are never stored.
+ */
+export function storeGeocode(address: string, result: GeocodeResult, now: number = Date.now()): void {
+    if (result.isEstimated) return;
+    const existing = cache.get(address);
+    const keepPrevious = !result.coordinates && !!existing?.result.coordinates;
+    putEntry(address, {
+        result: keepPrevious ? existing!.result : { coordinates: result.coordinates, error: result.error },
+        fetchedAt: keepPrevious ? existing!.fetchedAt : now,
+        checkedAt: now,
+        lastUsedAt: now,
+        ...(existing?.override ? { override: existing.override } : {}),
+    });
+}
+
+/**
+ * Pins an address to a point. Pass null to remove the pin; an address that was only
+ * known through its pin is then forgotten.
+ */
+export function setGeocodeOverride(address: string, coordinates: Coordinates | null, now: number = Date.now()): void {
+    const existing = cache.get(address);
+    if (!coordinates) {
+        if (!existing?.override) return;
+        const { override, ...rest } = existing;
+        if (rest.fetchedAt === 0 && !rest.result.coordinates) removeGeocodeEntry(address);
+        else putEntry(address, rest);
+        return;
+    }
+    putEntry(address, {
+        result: existing?.result || { coordinates: null, error: 'Not geocoded yet' },
+        fetchedAt: existing?.fetchedAt || 0,
+        checkedAt: existing?.checkedAt || 0,
+        lastUsedAt: now,
+        override: { lat: coordinates.lat, lon: coordinates.lon },
+    });
+}
+
+export function removeGeocodeEntry(address: string): void {
+    if (!cache.delete(address)) return;
+    markDeleted(address);
+}
+
+/**
+ * Empties the cache, optionally keeping pinned addresses.
+ * @returns How many entries were removed.
+ */
+export function clearGeocodeCache(keepOverrides = true): number {
+    let removed = 0;
+    Array.from(cache.entries()).forEach(([address, entry]) => {
+        if (keepOverrides && entry.override) return;
+        removeGeocodeEntry(address);
+        removed++;
+    });
+    return removed;
+}
+
+/**
+ * Forgets every failed lookup so the addresses are tried again on next use.
+ * @returns How many entries were removed.
+ */
+export function clearFailedGeocodes(): number {
+    const failed = Array.from(cache.entries()).filter(([, entry]) => !entry.override && !entry.result.coordinates);
+    failed.forEach(([address]) => removeGeocodeEntry(address));
+    return failed.length;
+}
+
+/**
+ * Every entry, most recently used first.
+ */
+export function listGeocodeEntries(): GeocodeCacheRecord[] {
+    return Array.from(cache.entries()).reverse().map(([address, entry]) => ({ address, ...entry }));
+}
+
+export function isGeocodeExpired(entry: GeocodeCacheEntry, now: number = Date.now()): boolean {
+    return !entry.override && !!entry.result.coordinates && now - entry.fetchedAt > GEOCODE_TTL_MS;
+}
+
+export function getGeocodeCacheStats(now: number = Date.now()): GeocodeCacheStats {
+    const stats: GeocodeCacheStats = { total: cache.size, failed: 0, expired: 0, overrides: 0 };
+    cache.forEach(entry => {
+        if (entry.override) stats.overrides++;
+        else if (!entry.result.coordinates) stats.failed++;
+        else if (isGeocodeExpired(entry, now)) stats.expired++;
+    });
+    return stats;
+}
+
+export function exportGeocodeCache(now: number = Date.now()): GeocodeCacheExport {
+    return { version: 1, exportedAt: now, entries: listGeocodeEntries().reverse() };
+}
+
+/**
+ * Merges an exported cache into this one. For each address the newer geocoder result
+ * wins; an imported override is taken unless this machine already pins the address.
+ * @returns How many addresses were added, updated, or left as they were, and how many
+ * entries were rejected as malformed.
+ */
+export function importGeocodeCache(data: unknown): { added: number; updated: number; unchanged: number; rejected: number } {
+    const entries = (data as GeocodeCacheExport)?.entries;
+    if (!data || (data as GeocodeCacheExport).version !== 1 || !Array.isArray(entries)) {
+        throw new Error('This is not a geocode cache export.');
+    }
+    const counts = { added: 0, updated: 0, unchanged: 0, rejected: 0 };
+    entries.forEach(value => {
+        const record = toRecord(value);
+        if (!record) {
+            counts.rejected++;
+            return;
+        }
+        const { address, ...incoming } = record;
+        const existing = cache.get(address);
+        if (!existing) {
+            putEntry(address, incoming, false);
+            counts.added++;
+            return;
+        }
+        const newerResult = incoming.fetchedAt > existing.fetchedAt && (!!incoming.result.coordinates || !existing.result.coordinates);
+        const takeOverride = !existing.override && !!incoming.override;
+        if (!newerResult && !takeOverride) {
+            counts.unchanged++;
+            return;
+        }
+        putEntry(address, {
+            ...(newerResult ? { result: incoming.result, fetchedAt: incoming.fetchedAt, checkedAt: Math.max(existing.checkedAt, incoming.checkedAt) } : existing),
+            lastUsedAt: Math.max(existing.lastUsedAt, incoming.lastUsedAt),
+            ...(existing.override || incoming.override ? { override: existing.override || incoming.override } : {}),
+        }, false);
+        counts.updated++;
+    });
+    sortByLastUse(Array.from(cache.entries()));
+    evictOverflow();
+    return counts;
+}
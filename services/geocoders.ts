@@ -0,0 +1,189 @@
+import { GeocoderConfig } from '../types';
+import type { Coordinates } from './osmService';
+
+// Geocoding providers. osmService owns the cache, address variations and the
+// Arizona bounds check; a provider only turns one query into raw coordinates.
+// A query with no match resolves to "Address not found". A server that can't be
+// reached or keeps refusing (rate limits, outages) makes geocode reject instead,
+// so the failure is never cached as if the address did not exist.
+
+export interface RawGeocodeResult {
+    coordinates: Coordinates | null;
+    error: string | null;
+}
+
+export interface Geocoder {
+    readonly name: string;
+    // Minimum delay between requests. The public Nominatim server allows one per second.
+    readonly minRequestIntervalMs: number;
+    geocode(query: string): Promise<RawGeocodeResult>;
+    geocodeBatch(queries: string[]): Promise<RawGeocodeResult[]>;
+    reverseGeocode(coordinates: Coordinates): Promise<string | null>;
+}
+
+export const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+/**
+ * Runs queries one after another, honouring the provider's request interval.
+ */
+async function geocodeSequentially(geocoder: Geocoder, queries: string[]): Promise<RawGeocodeResult[]> {
+    const results: RawGeocodeResult[] = [];
+    for (let i = 0; i < queries.length; i++) {
+        if (i > 0 && geocoder.minRequestIntervalMs > 0) await sleep(geocoder.minRequestIntervalMs);
+        results.push(await geocoder.geocode(queries[i]));
+    }
+    return results;
+}
+
+/**
+ * Fetches JSON, retrying rate limits (429), overload (503) and network errors with backoff.
+ * Throws once the retries run out or the server answers with any other error status.
+ */
+async function fetchJsonWithRetry(url: string, retries = 2, initialDelay = 1000): Promise<any> {
+    let currentDelay = initialDelay;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                headers: {
+                    'Accept': 'application/json',
+                    'User-Agent': 'RepRoutePlanner/1.0 (Arizona)'
+                }
+            });
+        } catch (error) {
+            if (attempt < retries) {
+                await sleep(currentDelay);
+                currentDelay *= 2;
+                continue;
+            }
+            throw error;
+        }
+        if (response.ok) {
+            return response.json();
+        }
+        if ((response.status === 503 || response.status === 429) && attempt < retries) {
+            await sleep(currentDelay);
+            currentDelay *= 2;
+            continue;
+        }
+        throw new Error(`Geocoder API status ${response.status}: ${response.statusText}`);
+    }
+    throw new Error('Max retries exceeded');
+}
+
+/**
+ * Nominatim search API. Works for the public server and for self-hosted instances.
+ */
+export function createNominatimGeocoder(baseUrl: string = PUBLIC_NOMINATIM_URL): Geocoder {
+    const root = trimSlash(baseUrl) || PUBLIC_NOMINATIM_URL;
+    const isPublic = root === PUBLIC_NOMINATIM_URL;
+    const geocoder: Geocoder = {
+        name: isPublic ? 'Nominatim (public)' : `Nominatim (${root})`,
+        minRequestIntervalMs: isPublic ? 1000 : 0,
+        async geocode(query) {
+            const data = await fetchJsonWithRetry(`${root}/search?q=${encodeURIComponent(query)}&format=json&limit=1`);
+            if (Array.isArray(data) && data.length > 0) {
+                return { coordinates: { lat: parseFloat(data[0].lat), lon: parseFloat(data[0].lon) }, error: null };
+            }
+            return { coordinates: null, error: 'Address not found' };
+        },
+        geocodeBatch: queries => geocodeSequentially(geocoder, queries),
+        async reverseGeocode({ lat, lon }) {
+            const data = await fetchJsonWithRetry(`${root}/reverse?lat=${lat}&lon=${lon}&format=json`);
+            return data?.display_name ?? null;
+        },
+    };
+    return geocoder;
+}
+
+/**
+ * Photon (komoot) API, usually self-hosted. Returns GeoJSON features.
+ */
+export function createPhotonGeocoder(baseUrl: string): Geocoder {
+    const root = trimSlash(baseUrl);
+    const geocoder: Geocoder = {
+        name: `Photon (${root})`,
+        minRequestIntervalMs: 0,
+        async geocode(query) {
+            const data = await fetchJsonWithRetry(`${root}/api?q=${encodeURIComponent(query)}&limit=1`);
+            const [lon, lat] = data?.features?.[0]?.geometry?.coordinates || [];
+            if (typeof lat === 'number' && typeof lon === 'number') {
+                return { coordinates: { lat, lon }, error: null };
+            }
+            return { coordinates: null, error: 'Address not found' };
+        },
+        geocodeBatch: queries => geocodeSequentially(geocoder, queries),
+        async reverseGeocode({ lat, lon }) {
+            const data = await fetchJsonWithRetry(`${root}/reverse?lat=${lat}&lon=${lon}`);
+            const props = data?.features?.[0]?.properties;
+            if (!props) return null;
+            return [props.housenumber && props.street ? `${props.housenumber} ${props.street}` : props.name, props.city, props.state]
+                .filter(Boolean).join(', ') || null;
+        },
+    };
+    return geocoder;
+}
+
+/**
+ * Answers from a fixed table of query -> coordinates. Used for offline demos and
+ * deterministic tests. Matching ignores case and extra whitespace; a null entry
+ * means "known not found".
+ */
+export function createFixtureGeocoder(fixtures: Record<string, Coordinates | null>): Geocoder {
+    const normalize = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const table = new Map(Object.entries(fixtures).map(([query, coords]) => [normalize(query), coords]));
+    const geocoder: Geocoder = {
+        name: `Fixtures (${table.size} entries)`,
+        minRequestIntervalMs: 0,
+        async geocode(query) {
+            const coordinates = table.get(normalize(query));
+            return coordinates ? { coordinates, error: null } : { coordinates: null, error: 'Address not found' };
+        },
+        geocodeBatch: queries => geocodeSequentially(geocoder, queries),
+        async reverseGeocode({ lat, lon }) {
+            for (const [query, coords] of table) {
+                if (coords && Math.abs(coords.lat - lat) < 1e-4 && Math.abs(coords.lon - lon) < 1e-4) return query;
+            }
+            return null;
+        },
+    };
+    return geocoder;
+}
+
+/**
+ * Loads a fixture file: a JSON object mapping query strings to { lat, lon } or null.
+ */
+export async function loadGeocoderFixtures(url: string): Promise<Record<string, Coordinates | null>> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load geocoder fixtures from ${url} (Status: ${response.status}).`);
+    }
+    const data = await response.json();
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Geocoder fixture file must be a JSON object of "query": { "lat", "lon" } entries.');
+    }
+    return data;
+}
+
+/**
+ * Builds the provider selected in Settings.
+ */
+export async function createGeocoder(config: GeocoderConfig): Promise<Geocoder> {
+    switch (config.provider) {
+        case 'nominatim-custom':
+            if (!config.baseUrl) throw new Error('A base URL is required for a self-hosted Nominatim server.');
+            return createNominatimGeocoder(config.baseUrl);
+        case 'photon':
+            if (!config.baseUrl) throw new Error('A base URL is required for a Photon server.');
+            return createPhotonGeocoder(config.baseUrl);
+        case 'fixture':
+            if (!config.fixtureUrl) throw new Error('A fixture file URL is required for the fixture geocoder.');
+            return createFixtureGeocoder(await loadGeocoderFixtures(config.fixtureUrl));
+        case 'nominatim':
+        default:
+            return createNominatimGeocoder();
+    }
+}
@@ -120,9 +120,8 @@ export const SOUTHERN_AZ_CITIES = new Set([
     "amado", "arivaca", "elgin", "huachuca city", "tombstone", "bisbee", "naco"
 ]);
 
-// Joseph Simms' restricted hybrid territory. 
-// REMOVED: Mesa, Chandler, Gilbert to prevent him from being assigned core East Valley jobs.
-// He is now focused on the true "Outer Ring" + South.
+// Southeast Phoenix outer edge.
+// Excludes Mesa, Chandler, Gilbert so that a rep restricted to it stays out of the core East Valley.
 export const SOUTHEAST_PHOENIX_CITIES = new Set([
     "queen creek", "san tan valley", "apache junction", "gold canyon", "sun lakes"
 ]);
@@ -133,13 +132,20 @@ export const LOWER_VALLEY_EXTENSION_CITIES = new Set([
     "sacaton", "blackwater", "chuichu", "san tan valley", "queen creek", "toltec"
 ]);
 
-// New set for the Southern Outer Ring to prioritize Joseph Simms
+// New set for the Southern Outer Ring
 export const SOUTH_OUTER_RING_CITIES = new Set<string>([
   "maricopa","casa grande","stanfield","arizona city","eloy","coolidge","florence",
   "blackwater","sacaton","casa blanca","chuichu","gila bend",
   "queen creek","san tan valley","apache junction","gold canyon"
 ]);
 
+// City groups offered as one-click presets when editing a rep's territory.
+export const TERRITORY_CITY_PRESETS: { label: string; cities: Set<string> }[] = [
+    { label: 'Southeast Phoenix', cities: SOUTHEAST_PHOENIX_CITIES },
+    { label: 'Lower Valley', cities: LOWER_VALLEY_EXTENSION_CITIES },
+    { label: 'South Outer Ring', cities: SOUTH_OUTER_RING_CITIES },
+];
+
 export const ALL_KNOWN_CITIES = new Set([
     ...GREATER_PHOENIX_CITIES,
     ...NORTHERN_AZ_CITIES,
@@ -0,0 +1,179 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Job, Rep } from '../types';
+import { SHEETS_API_BASE_URL } from '../constants';
+import { buildSheetWriteBack, parseAvailabilityValues, placeSheetBookings, setSheetsApiBaseUrl, writeSheetCells } from './googleSheetsService';
+
+// A Tuesday, so the bookings land in column C of the range below.
+const DATE = new Date('2025-10-28T12:00:00');
+
+// Range A2:H200: row 2 holds the day headers, reps start on row 3.
+const buildSheet = (): string[][] => [
+    ['', 'Monday 10/27', 'Tuesday 10/28', 'Wednesday 10/29'],
+    ['PHOENIX'],
+    ['Jane Doe 7:30am - 10am', 'TRUE', '', ''],
+    ['10am - 1pm', '', 'FALSE', ''],
+    ['1pm - 4pm', 'Dentist', '', ''],
+    ['4pm - 7pm', '', '✅', ''],
+];
+
+const cellToIndex = (cell: string) => {
+    const [, column, row] = cell.match(/^([A-Z]+)(\d+)$/)!;
+    // Column A is index 0 and row 2 is the first row of the range.
+    return { row: Number(row) - 2, column: column.charCodeAt(0) - 65 };
+};
+
+const loadDay = (values: string[][]) => {
+    const parsed = parseAvailabilityValues(values, 'SRA 10/27 - 11/2', DATE);
+    const reps: Rep[] = parsed.reps.map(rep => ({
+        ...rep,
+        isLocked: false,
+        schedule: [
+            { id: 'ts-1', label: '7:30am - 10am', jobs: [] },
+            { id: 'ts-2', label: '10am - 1pm', jobs: [] },
+            { id: 'ts-3', label: '1pm - 4pm', jobs: [] },
+            { id: 'ts-4', label: '4pm - 7pm', jobs: [] },
+        ],
+    }));
+    return { ...parsed, reps: placeSheetBookings(reps, parsed.bookings) };
+};
+
+const applyChanges = (values: string[][], reps: Rep[], layout: ReturnType<typeof loadDay>['layout']) => {
+    const written = values.map(row => [...row]);
+    for (const change of buildSheetWriteBack(layout, reps, 'Tuesday')) {
+        const { row, column } = cellToIndex(change.cell);
+        written[row][column] = change.newValue;
+    }
+    return written;
+};
+
+const summarize = (reps: Rep[]) => reps.map(rep => ({
+    name: rep.name,
+    unavailableSlots: rep.unavailableSlots,
+    schedule: rep.schedule.map(slot => ({
+        id: slot.id,
+        jobs: slot.jobs.map(({ customerName, phone, address, city, zipCode, notes }) => ({ customerName, phone, address, city, zipCode, notes })),
+    })),
+}));
+
+const job = (overrides: Partial<Job>): Job => ({
+    id: `job-${overrides.customerName}`,
+    customerName: '',
+    address: '',
+    notes: '',
+    ...overrides,
+});
+
+describe('sheet write-back', () => {
+    it('reloads a written-back day with the same schedule and availability', () => {
+        const sheet = buildSheet();
+        const first = loadDay(sheet);
+        expect(first.bookings).toEqual([]);
+
+        const [jane] = first.reps;
+        jane.schedule[0].jobs.push(
+            job({ customerName: 'Maria Lopez', phone: '(602) 555-0101', address: '123 E Main St, Mesa, AZ 85201', city: 'Mesa', zipCode: '85201', notes: 'Tile roof | 2 stories\nGate code 4411' }),
+            job({ customerName: 'Tom Reed', address: '9 W Elm Rd, Tempe, AZ 85281', city: 'Tempe', zipCode: '85281', notes: '' }),
+        );
+        jane.schedule[3].jobs.push(job({ customerName: 'Ann Park', address: '77 N 1st Ave, Phoenix, AZ 85003', city: 'Phoenix', notes: 'Shingle' }));
+
+        const written = applyChanges(sheet, first.reps, first.layout);
+        const reloaded = loadDay(written);
+
+        const expected = summarize(first.reps);
+        // Field separators and line breaks in notes are flattened to spaces in the sheet.
+        expected[0].schedule[0].jobs[0].notes = 'Tile roof 2 stories Gate code 4411';
+        expect(summarize(reloaded.reps)).toEqual(expected);
+        expect(reloaded.reps[0].unavailableSlots.Tuesday).toEqual(['ts-2']);
+        expect(reloaded.reps[0].unavailableSlots.Monday).toEqual(['ts-3']);
+
+        // Writing the reloaded day back again changes nothing.
+        expect(buildSheetWriteBack(reloaded.layout, reloaded.reps, 'Tuesday')).toEqual([]);
+    });
+
+    it('clears a booked cell once its jobs are moved out of the slot', () => {
+        const sheet = buildSheet();
+        const first = loadDay(sheet);
+        first.reps[0].schedule[0].jobs.push(job({ customerName: 'Maria Lopez', address: '123 E Main St, Mesa, AZ 85201' }));
+        const booked = loadDay(applyChanges(sheet, first.reps, first.layout));
+        expect(booked.reps[0].schedule[0].jobs).toHaveLength(1);
+
+        booked.reps[0].schedule[0].jobs = [];
+        const changes = buildSheetWriteBack(booked.layout, booked.reps, 'Tuesday');
+        expect(changes.map(change => [change.cell, change.newValue])).toEqual([['C4', '']]);
+    });
+});
+
+// A minimal stand-in for the Sheets values API: batchGet reads and batchUpdate writes one
+// sheet held as A1 cell -> value, and every batchUpdate body is recorded.
+const startFakeSheetsServer = async (values: string[][]) => {
+    const cells = new Map<string, string>();
+    values.forEach((row, r) => row.forEach((value, c) => cells.set(`${String.fromCharCode(65 + c)}${r + 2}`, value)));
+    const updates: { range: string; values: string[][] }[][] = [];
+    const cellOf = (range: string) => range.slice(range.lastIndexOf('!') + 1);
+
+    const server = createServer((req, res) => {
+        const url = new URL(req.url!, 'http://localhost');
+        if (req.method === 'GET' && url.pathname.endsWith('/values:batchGet')) {
+            const valueRanges = url.searchParams.getAll('ranges').map(range => {
+                const value = cells.get(cellOf(range));
+                return value ? { range, values: [[value]] } : { range };
+            });
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ valueRanges }));
+            return;
+        }
+        if (req.method === 'POST' && url.pathname.endsWith('/values:batchUpdate')) {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                const { data } = JSON.parse(body) as { data: { range: string; values: string[][] }[] };
+                updates.push(data);
+                data.forEach(update => cells.set(cellOf(update.range), update.values[0][0]));
+                res.setHeader('Content-Type', 'application/json');
+                res.end('{}');
+            });
+            return;
+        }
+        res.statusCode = 404;
+        res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, cells, updates, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v4` };
+};
+
+describe('sheet write-back against a fake Sheets server', () => {
+    let fake: Awaited<ReturnType<typeof startFakeSheetsServer>>;
+    let first: ReturnType<typeof loadDay>;
+
+    beforeEach(async () => {
+        const sheet = buildSheet();
+        fake = await startFakeSheetsServer(sheet);
+        setSheetsApiBaseUrl(fake.baseUrl);
+        first = loadDay(sheet);
+        first.reps[0].schedule[0].jobs.push(job({ customerName: 'Maria Lopez', address: '123 E Main St, Mesa, AZ 85201' }));
+    });
+
+    afterEach(async () => {
+        setSheetsApiBaseUrl(SHEETS_API_BASE_URL);
+        await new Promise<void>(resolve => fake.server.close(() => resolve()));
+    });
+
+    it('writes the booked cells when nothing changed since load', async () => {
+        const changes = buildSheetWriteBack(first.layout, first.reps, 'Tuesday');
+        await writeSheetCells(first.layout.sheetName, changes, 'test-token');
+
+        expect(fake.updates).toHaveLength(1);
+        expect(fake.cells.get('C4')).toBe('Booked: Maria Lopez |  | 123 E Main St, Mesa, AZ 85201 |  |  | ');
+    });
+
+    it('refuses to write and changes nothing when a target cell was edited since load', async () => {
+        const changes = buildSheetWriteBack(first.layout, first.reps, 'Tuesday');
+        fake.cells.set('C4', 'Dentist');
+
+        await expect(writeSheetCells(first.layout.sheetName, changes, 'test-token')).rejects.toThrow(/Refusing to write: C4 changed/);
+        expect(fake.updates).toEqual([]);
+        expect(fake.cells.get('C4')).toBe('Dentist');
+    });
+});
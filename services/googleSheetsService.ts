@@ -1,18 +1,32 @@
-import { Rep } from '../types';
-import { GOOGLE_API_KEY, SPREADSHEET_ID, SHEET_TITLE_PREFIX, DATA_RANGE, USE_MOCK_DATA_ON_FAILURE, TIME_SLOTS, SKILLS_SHEET_TITLE, SKILLS_DATA_RANGE, SALES_ORDER_DATA_RANGE } from '../constants';
+import { Rep, Job, RepRegion, SheetLayoutConfig, TimeSlot } from '../types';
+import { GOOGLE_API_KEY, SPREADSHEET_ID, SHEETS_API_BASE_URL, SHEET_TITLE_PREFIX, USE_MOCK_DATA_ON_FAILURE, TIME_SLOTS, DEFAULT_SHEET_LAYOUT } from '../constants';
+import { parseRangeStart } from './sheetLayout';
 import { MOCK_REPS_DATA } from './mockData';
+import { mapTimeframeToSlotId } from './timeSlots';
+import { getCustomerName } from './customerContact';
+import { parseJobAttributes } from './jobAttributes';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+let sheetsApiBaseUrl = SHEETS_API_BASE_URL;
+
+/**
+ * Points every Sheets request at another server, e.g. a local fake Sheets API.
+ * An empty URL restores the Google endpoint.
+ */
+export function setSheetsApiBaseUrl(url: string): void {
+    sheetsApiBaseUrl = url.trim().replace(/\/+$/, '') || SHEETS_API_BASE_URL;
+}
+
 /**
  * Fetches a URL with exponential backoff retry logic for server errors (5xx) and rate limits (429).
  */
-async function fetchWithRetry(url: string, retries = 3, initialDelay = 1000): Promise<Response> {
+async function fetchWithRetry(url: string, retries = 3, initialDelay = 1000, init?: RequestInit): Promise<Response> {
     let currentDelay = initialDelay;
     
     for (let i = 0; i <= retries; i++) {
         try {
-            const response = await fetch(url);
+            const response = await fetch(url, init);
             
             // If successful or a client error (4xx except 429), return the response immediately.
             // We let the caller handle 404s, 403s etc.
@@ -102,15 +116,69 @@ function findSheetNameForDate(dateToFind: Date, sheets: any[]): string | null {
     return null;
 }
 
+/**
+ * Where each rep/slot/day lives in an SRA sheet, plus the cell values as they were
+ * when the sheet was loaded. Write-back uses the loaded values to detect cells
+ * that someone else has edited in the meantime.
+ */
+export interface SheetLayout {
+    sheetName: string;
+    dayColumns: Record<string, string>; // Day name (e.g. "Monday") -> column letter
+    slotRows: Record<string, Record<string, number>>; // Rep name -> slot id -> 1-based sheet row
+    loadedValues: Record<string, string>; // A1 cell -> formatted value at load time
+}
+
+export interface SheetCellChange {
+    cell: string; // A1 notation, without the sheet name
+    repName: string;
+    dayName: string;
+    slotId: string;
+    loadedValue: string;
+    currentValue?: string; // Filled in by checkSheetWriteConflicts
+    newValue: string;
+    hasConflict: boolean;
+}
+
+const columnToLetter = (index: number): string => {
+    let letters = '';
+    let n = index + 1;
+    while (n > 0) {
+        const remainder = (n - 1) % 26;
+        letters = String.fromCharCode(65 + remainder) + letters;
+        n = Math.floor((n - 1) / 26);
+    }
+    return letters;
+};
+
+const letterToColumnIndex = (letters: string): number =>
+    letters.split('').reduce((index, letter) => index * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+
+/**
+ * Returns the region whose banner keywords appear in an all-caps section row, if any.
+ */
+const matchRegionBanner = (text: string, layoutConfig: SheetLayoutConfig): RepRegion | null => {
+    // Compare on whole words so "NORTH" does not match "NORTHWEST".
+    const normalize = (value: string) => ` ${value.toUpperCase().split(/[^A-Z]+/).filter(Boolean).join(' ')} `;
+    const bannerText = normalize(text);
+    for (const [region, keywords] of Object.entries(layoutConfig.regionBanners)) {
+        if (keywords.some(keyword => keyword.trim() && bannerText.includes(normalize(keyword)))) {
+            return region as RepRegion;
+        }
+    }
+    return null;
+};
+
+const sheetRange = (sheetName: string, cell: string) => `'${sheetName.replace(/'/g, "''")}'!${cell}`;
+
 // Helper to normalize names for matching
 const normalizeName = (name: string) => name.trim().toLowerCase().replace(/"/g, '').replace(/[^a-z0-9]/g, '');
 
 // Fetches the sales rankings from the 'Appointment Blocks' sheet.
 // The list is expected to be in order of highest sales to lowest.
-async function fetchSalesRankings(): Promise<Map<string, number>> {
+async function fetchSalesRankings(layoutConfig: SheetLayoutConfig): Promise<Map<string, number>> {
     const rankMap = new Map<string, number>();
     try {
-        const url = `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(SKILLS_SHEET_TITLE)}'!${SALES_ORDER_DATA_RANGE}?key=${GOOGLE_API_KEY}`;
+        const url = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(layoutConfig.skillsSheetTitle)}'!${layoutConfig.salesOrderDataRange}?key=${GOOGLE_API_KEY}`;
         const response = await fetchWithRetry(url);
         if (!response.ok) {
             console.warn(`Failed to fetch sales rankings: ${response.statusText}`);
@@ -127,7 +195,7 @@ async function fetchSalesRankings(): Promise<Map<string, number>> {
         values.forEach((row: any[], index: number) => {
             if (row && row.length > 0 && row[0]) {
                 const name = String(row[0]);
-                // Skip header if it was included by accident (though range B44 should avoid it)
+                // Skip header if it was included by accident (though the configured range should avoid it)
                 if (name.toLowerCase().includes('sales order')) return;
                 
                 const normalized = normalizeName(name);
@@ -144,10 +212,10 @@ async function fetchSalesRankings(): Promise<Map<string, number>> {
 }
 
 // Fetches and parses the rep skills from the 'Appointment Blocks' sheet.
-async function fetchRepSkills(): Promise<Map<string, { skills: Record<string, number>, zipCodes: string[] }>> {
+async function fetchRepSkills(layoutConfig: SheetLayoutConfig): Promise<Map<string, { skills: Record<string, number>, zipCodes: string[] }>> {
   const skillsMap = new Map<string, { skills: Record<string, number>, zipCodes: string[] }>();
   try {
-    const url = `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(SKILLS_SHEET_TITLE)}'!${SKILLS_DATA_RANGE}?key=${GOOGLE_API_KEY}`;
+    const url = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(layoutConfig.skillsSheetTitle)}'!${layoutConfig.skillsDataRange}?key=${GOOGLE_API_KEY}`;
     const response = await fetchWithRetry(url);
     if (!response.ok) {
       console.error(`Failed to fetch skills sheet: ${response.statusText}`);
@@ -196,46 +264,89 @@ async function fetchRepSkills(): Promise<Map<string, { skills: Record<string, nu
 }
 
 
+// A rep's slot row ends in its time range, e.g. "Jane Doe 7:30am - 10am".
+const SLOT_ROW_REGEX = /(\d{1,2}(?::\d{2})?\s*(?:am|pm)?\s*[-–]\s*\d{1,2}(?::\d{2})?\s*(?:am|pm)?)\s*$/i;
+
 /**
- * Fetches rep availability data directly from the Google Sheets API based on the visual layout.
- * This requires the spreadsheet to be public ("Anyone with the link can view").
- * @param date The date for which to fetch availability. Defaults to today.
+ * Finds the configured slot for a sheet row's time range: an exact label match first,
+ * then whichever slot the row's start time falls in.
  */
-export async function fetchSheetData(date: Date = new Date()): Promise<{ reps: Omit<Rep, 'schedule'>[], sheetName: string }> {
-  let sheetName = '';
-  try {
-    // 0. Fetch skills and rankings data in parallel
-    const skillsPromise = fetchRepSkills();
-    const ranksPromise = fetchSalesRankings();
+const matchSheetSlot = (rowTimeframe: string, slots: TimeSlot[]): string | null => {
+    const normalize = (label: string) => label.toLowerCase().replace(/\s+/g, '');
+    const exact = slots.find(slot => normalize(slot.label) === normalize(rowTimeframe));
+    return exact ? exact.id : mapTimeframeToSlotId(rowTimeframe, slots);
+};
+
+// Write-back marks each booked job with this prefix; its fields are separated by " | ".
+const BOOKING_PREFIX = 'Booked:';
+const BOOKING_SEPARATOR = ' | ';
+
+/** A job read from a slot cell that an earlier write-back filled in. */
+export interface SheetBooking {
+    repName: string;
+    slotId: string;
+    job: Job;
+}
 
-    // 1. Get spreadsheet metadata to find the current sheet name
-    const metaUrl = `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}?key=${GOOGLE_API_KEY}`;
-    const metaResponse = await fetchWithRetry(metaUrl);
-    if (!metaResponse.ok) {
-        throw new Error(`Failed to fetch spreadsheet metadata (Status: ${metaResponse.status}). Is the spreadsheet ID correct and public?`);
+/**
+ * Reads the jobs out of a cell written by `formatJobsForSheetCell`. Returns null unless
+ * every line of the cell is a booking, so hand-typed notes still mark the slot unavailable.
+ */
+const parseBookedCell = (value: string): Omit<Job, 'id'>[] | null => {
+    const lines = value.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0 || !lines.every(line => line.toLowerCase().startsWith(BOOKING_PREFIX.toLowerCase()))) {
+        return null;
     }
-    const metaData = await metaResponse.json();
+    return lines.map(line => {
+        const [customerName = '', phone = '', address = '', city = '', zipCode = '', notes = ''] = line
+            .slice(BOOKING_PREFIX.length)
+            .split(BOOKING_SEPARATOR.trim())
+            .map(field => field.trim());
+        return {
+            customerName,
+            phone: phone || undefined,
+            address,
+            city: city || undefined,
+            zipCode: zipCode || undefined,
+            notes,
+            attributes: parseJobAttributes(notes),
+        };
+    });
+};
 
-    const foundSheetName = findSheetNameForDate(date, metaData.sheets);
+/**
+ * Puts the jobs booked in the sheet into the matching reps' slots.
+ */
+export function placeSheetBookings(reps: Rep[], bookings: SheetBooking[]): Rep[] {
+    if (bookings.length === 0) return reps;
+    return reps.map(rep => ({
+        ...rep,
+        schedule: rep.schedule.map(slot => ({
+            ...slot,
+            jobs: [...slot.jobs, ...bookings.filter(b => b.repName === rep.name && b.slotId === slot.id).map(b => b.job)],
+        })),
+    }));
+}
 
-    if (!foundSheetName) {
-        throw new Error(`No sheet found in the spreadsheet with the prefix "${SHEET_TITLE_PREFIX}".`);
-    }
-    sheetName = foundSheetName;
-    
-    // 2. Fetch the data from the specified range, getting the formatted values.
-    const dataUrl = `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(sheetName)}'!${DATA_RANGE}?key=${GOOGLE_API_KEY}&valueRenderOption=FORMATTED_VALUE`;
-    const dataResponse = await fetchWithRetry(dataUrl);
-    if (!dataResponse.ok) {
-        throw new Error(`Failed to fetch sheet data (Status: ${dataResponse.status}). Check API key and spreadsheet permissions.`);
-    }
-    const data = await dataResponse.json();
-    const values = data.values;
-    if (!values || values.length < 2) { // Need at least header and one data row
-      console.warn("Sheet has no data or only a header row.");
-      if (USE_MOCK_DATA_ON_FAILURE) return { reps: MOCK_REPS_DATA.map(rep => ({...rep, isMock: true})), sheetName: 'Mock Data' };
-      return { reps: [], sheetName };
+/**
+ * Reads rep availability (and slots booked by a previous write-back) out of the values
+ * of an SRA sheet's availability range. The first row holds the day headers.
+ * @param getSlotsForDay The time slots configured for a weekday; slot rows are matched against them.
+ */
+export function parseAvailabilityValues(
+    values: any[][],
+    sheetName: string,
+    date: Date,
+    layoutConfig: SheetLayoutConfig = DEFAULT_SHEET_LAYOUT,
+    getSlotsForDay: (weekday: string) => TimeSlot[] = () => TIME_SLOTS,
+    skillsMap: Map<string, { skills: Record<string, number>, zipCodes: string[] }> = new Map(),
+    rankingsMap: Map<string, number> = new Map()
+): { reps: Omit<Rep, 'schedule'>[]; layout: SheetLayout; regionSource: 'banners' | 'rowRanges'; bookings: SheetBooking[] } {
+    const rangeStart = parseRangeStart(layoutConfig.dataRange);
+    if (!rangeStart) {
+        throw new Error(`Invalid availability range "${layoutConfig.dataRange}" in the sheet layout.`);
     }
+    const startColumnOffset = letterToColumnIndex(rangeStart.column);
 
     // 3. Parse header row to dynamically find day columns
     const headerRow = values[0];
@@ -253,17 +364,29 @@ export async function fetchSheetData(date: Date = new Date()): Promise<{ reps: O
     });
 
     if (days.length === 0) {
-        throw new Error("Could not find valid day headers in row 2 (e.g., 'Monday 10/27').");
+        throw new Error(`Could not find valid day headers in row ${rangeStart.row} (e.g., 'Monday 10/27').`);
     }
 
     // 4. Parse data rows into Rep structure
-    const repsMap = new Map<string, { name: string; unavailableSlots: Record<string, Set<string>>; firstRowIndex: number }>();
-    const timeSlotLabelsToIds = new Map(TIME_SLOTS.map(slot => [slot.label.trim().toLowerCase(), slot.id]));
+    const repsMap = new Map<string, { name: string; unavailableSlots: Record<string, Set<string>>; firstRowIndex: number; bannerRegion: RepRegion }>();
+    const layout: SheetLayout = {
+        sheetName,
+        dayColumns: Object.fromEntries(days.map(d => [d.name, columnToLetter(startColumnOffset + d.colIndex)])),
+        slotRows: {},
+        loadedValues: {},
+    };
+    const toWeekday = (dayName: string) => dayName.charAt(0).toUpperCase() + dayName.slice(1).toLowerCase();
+    const selectedWeekday = date.toLocaleString('en-us', { weekday: 'long' });
     const dataRows = values.slice(1);
-    
+    const bookings: SheetBooking[] = [];
+
     let currentRepContext: string | null = null;
+    let currentBannerRegion: RepRegion = layoutConfig.bannerDefaultRegion;
+    let bannersFound = false;
 
     for (const [rowIndex, row] of dataRows.entries()) {
+        // The header is the first row of the range, so data rows start one below it.
+        const sheetRow = rangeStart.row + 1 + rowIndex;
         const firstCol = String(row?.[0] || '').trim();
         if (!firstCol) {
             currentRepContext = null;
@@ -272,99 +395,112 @@ export async function fetchSheetData(date: Date = new Date()): Promise<{ reps: O
 
         if (firstCol.toUpperCase() === firstCol && firstCol.replace(/[^A-Z\s]/g, '').length > 1) {
             currentRepContext = null;
+            const bannerRegion = matchRegionBanner(firstCol, layoutConfig);
+            if (bannerRegion) {
+                currentBannerRegion = bannerRegion;
+                bannersFound = true;
+            }
             continue;
         }
-        
-        let wasRowProcessed = false;
 
-        for (const [label, id] of timeSlotLabelsToIds.entries()) {
-            const labelRegex = new RegExp(label.replace(/(\s-\s)/, '\\s?-\\s?') + '$', 'i');
-            if (labelRegex.test(firstCol)) {
-                const slotId = id;
-                let repName = firstCol.replace(labelRegex, '').trim().replace(/:$/, '').trim();
+        const slotRowMatch = firstCol.match(SLOT_ROW_REGEX);
+        if (slotRowMatch) {
+            const rowTimeframe = slotRowMatch[1];
+            let repName = firstCol.slice(0, slotRowMatch.index).trim().replace(/:$/, '').trim();
 
-                if (!repName && currentRepContext) {
-                    repName = currentRepContext;
-                }
+            if (!repName && currentRepContext) {
+                repName = currentRepContext;
+            }
 
-                if (!repName) {
-                    wasRowProcessed = true;
-                    break;
-                }
-                
-                currentRepContext = repName;
-
-                if (!repsMap.has(repName)) {
-                    repsMap.set(repName, {
-                        name: repName,
-                        unavailableSlots: Object.fromEntries(days.map(d => [d.name, new Set()])),
-                        firstRowIndex: rowIndex + 2 // Sheet rows are 1-based, and we sliced the header.
-                    });
-                }
-                
-                const repData = repsMap.get(repName)!;
-                days.forEach(day => {
-                    const availabilityMark = row[day.colIndex];
-                    
-                    // New, more robust availability logic. Default to AVAILABLE unless explicitly marked otherwise.
-                    // This handles empty cells, "TRUE", boolean true, and '✅' as AVAILABLE.
-                    // It handles "FALSE", boolean false, and any other text as UNAVAILABLE.
-                    const availabilityMarkStr = String(availabilityMark ?? '').trim();
-                    const isExplicitlyUnavailable = 
-                        availabilityMark === false || 
-                        availabilityMarkStr.toUpperCase() === 'FALSE' ||
-                        (availabilityMarkStr !== '' && availabilityMarkStr.toUpperCase() !== 'TRUE' && availabilityMarkStr !== '✅');
-
-                    if (isExplicitlyUnavailable) {
-                        repData.unavailableSlots[day.name].add(slotId);
-                    }
+            if (!repName) {
+                continue;
+            }
+
+            currentRepContext = repName;
+
+            if (!repsMap.has(repName)) {
+                repsMap.set(repName, {
+                    name: repName,
+                    unavailableSlots: Object.fromEntries(days.map(d => [d.name, new Set()])),
+                    firstRowIndex: sheetRow,
+                    bannerRegion: currentBannerRegion,
                 });
-                
-                wasRowProcessed = true;
-                break;
             }
+
+            const repData = repsMap.get(repName)!;
+            const selectedSlotId = matchSheetSlot(rowTimeframe, getSlotsForDay(selectedWeekday));
+            if (selectedSlotId) {
+                layout.slotRows[repName] = { ...layout.slotRows[repName], [selectedSlotId]: sheetRow };
+            }
+            days.forEach(day => {
+                const availabilityMark = row[day.colIndex];
+                layout.loadedValues[`${layout.dayColumns[day.name]}${sheetRow}`] = String(availabilityMark ?? '');
+
+                // New, more robust availability logic. Default to AVAILABLE unless explicitly marked otherwise.
+                // This handles empty cells, "TRUE", boolean true, and '✅' as AVAILABLE.
+                // It handles "FALSE", boolean false, and any other text as UNAVAILABLE.
+                const availabilityMarkStr = String(availabilityMark ?? '').trim();
+                const isExplicitlyUnavailable = 
+                    availabilityMark === false || 
+                    availabilityMarkStr.toUpperCase() === 'FALSE' ||
+                    (availabilityMarkStr !== '' && availabilityMarkStr.toUpperCase() !== 'TRUE' && availabilityMarkStr !== '✅');
+
+                const slotId = matchSheetSlot(rowTimeframe, getSlotsForDay(toWeekday(day.name)));
+                const bookedJobs = parseBookedCell(availabilityMarkStr);
+                if (bookedJobs) {
+                    // Booked by an earlier write-back: available, and the jobs come back in for the selected day.
+                    if (toWeekday(day.name) === selectedWeekday && selectedSlotId) {
+                        bookedJobs.forEach((job, index) => bookings.push({
+                            repName,
+                            slotId: selectedSlotId,
+                            job: { ...job, id: `job-sheet-${layout.dayColumns[day.name]}${sheetRow}-${index + 1}`, originalTimeframe: rowTimeframe },
+                        }));
+                    }
+                } else if (isExplicitlyUnavailable && slotId) {
+                    repData.unavailableSlots[day.name].add(slotId);
+                }
+            });
+
+            continue;
         }
 
-        if (!wasRowProcessed && firstCol) {
+        if (firstCol) {
             currentRepContext = firstCol.replace(/:$/, '').trim();
         }
     }
 
-    const skillsMap = await skillsPromise;
-    const rankingsMap = await ranksPromise;
+
+    const regionSource = layoutConfig.regionDetection === 'banners' && bannersFound ? 'banners' : 'rowRanges';
+    if (layoutConfig.regionDetection === 'banners' && !bannersFound) {
+        console.warn('No region banner rows found in the sheet. Falling back to the configured row ranges.');
+    }
 
     // 5. Convert the map into the final array of Rep objects and merge skills
     const reps: Omit<Rep, 'schedule'>[] = Array.from(repsMap.values()).map((repData, index) => {
         const availableDaysSummary: string[] = [];
         days.forEach(day => {
             const unavailableCount = repData.unavailableSlots[day.name]?.size || 0;
-            if (unavailableCount < TIME_SLOTS.length) {
+            if (unavailableCount < getSlotsForDay(toWeekday(day.name)).length) {
                 availableDaysSummary.push(day.name.substring(0, 3));
             }
         });
 
         const availability = availableDaysSummary.join(', ') || 'Not available';
-        
+
         const finalUnavailableSlots: Record<string, string[]> = {};
         for (const day in repData.unavailableSlots) {
             finalUnavailableSlots[day] = Array.from(repData.unavailableSlots[day]);
         }
-        
+
         const normalizedName = normalizeName(repData.name);
         const repInfo = skillsMap.get(normalizedName);
         const skills = repInfo?.skills;
         const zipCodes = repInfo?.zipCodes;
         const salesRank = rankingsMap.get(normalizedName);
-        
-        const { firstRowIndex } = repData;
-        let region: Rep['region'] = 'UNKNOWN';
-        if (firstRowIndex >= 2 && firstRowIndex <= 118) {
-            region = 'PHX';
-        } else if (firstRowIndex >= 119 && firstRowIndex <= 135) {
-            region = 'NORTH';
-        } else if (firstRowIndex >= 136 && firstRowIndex <= 152) {
-            region = 'SOUTH';
-        }
+
+        const region: Rep['region'] = regionSource === 'banners'
+            ? repData.bannerRegion
+            : layoutConfig.regionRowRanges.find(range => repData.firstRowIndex >= range.startRow && repData.firstRowIndex <= range.endRow)?.region || 'UNKNOWN';
 
         return {
             id: `rep-${index + 1}-${repData.name.replace(/\s+/g, '-')}`,
@@ -378,6 +514,58 @@ export async function fetchSheetData(date: Date = new Date()): Promise<{ reps: O
         }
     });
 
+    return { reps, layout, regionSource, bookings };
+}
+
+/**
+ * Fetches rep availability data directly from the Google Sheets API based on the visual layout.
+ * This requires the spreadsheet to be public ("Anyone with the link can view").
+ * @param date The date for which to fetch availability. Defaults to today.
+ * @param layoutConfig Where the data lives and how reps are mapped to regions.
+ * @param getSlotsForDay The time slots configured for a weekday; slot rows are matched against them.
+ */
+export async function fetchSheetData(
+    date: Date = new Date(),
+    layoutConfig: SheetLayoutConfig = DEFAULT_SHEET_LAYOUT,
+    getSlotsForDay: (weekday: string) => TimeSlot[] = () => TIME_SLOTS
+): Promise<{ reps: Omit<Rep, 'schedule'>[], sheetName: string, layout?: SheetLayout, regionSource?: 'banners' | 'rowRanges', bookings?: SheetBooking[] }> {
+  let sheetName = '';
+  try {
+    // 0. Fetch skills and rankings data in parallel
+    const skillsPromise = fetchRepSkills(layoutConfig);
+    const ranksPromise = fetchSalesRankings(layoutConfig);
+
+    // 1. Get spreadsheet metadata to find the current sheet name
+    const metaUrl = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}?key=${GOOGLE_API_KEY}`;
+    const metaResponse = await fetchWithRetry(metaUrl);
+    if (!metaResponse.ok) {
+        throw new Error(`Failed to fetch spreadsheet metadata (Status: ${metaResponse.status}). Is the spreadsheet ID correct and public?`);
+    }
+    const metaData = await metaResponse.json();
+
+    const foundSheetName = findSheetNameForDate(date, metaData.sheets);
+
+    if (!foundSheetName) {
+        throw new Error(`No sheet found in the spreadsheet with the prefix "${SHEET_TITLE_PREFIX}".`);
+    }
+    sheetName = foundSheetName;
+    
+    // 2. Fetch the data from the specified range, getting the formatted values.
+    const dataUrl = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(sheetName)}'!${layoutConfig.dataRange}?key=${GOOGLE_API_KEY}&valueRenderOption=FORMATTED_VALUE`;
+    const dataResponse = await fetchWithRetry(dataUrl);
+    if (!dataResponse.ok) {
+        throw new Error(`Failed to fetch sheet data (Status: ${dataResponse.status}). Check API key and spreadsheet permissions.`);
+    }
+    const data = await dataResponse.json();
+    const values = data.values;
+    if (!values || values.length < 2) { // Need at least header and one data row
+      console.warn("Sheet has no data or only a header row.");
+      if (USE_MOCK_DATA_ON_FAILURE) return { reps: MOCK_REPS_DATA.map(rep => ({...rep, isMock: true})), sheetName: 'Mock Data' };
+      return { reps: [], sheetName };
+    }
+
+    const { reps, layout, regionSource, bookings } = parseAvailabilityValues(values, sheetName, date, layoutConfig, getSlotsForDay, await skillsPromise, await ranksPromise);
+
     if (reps.length === 0) {
       console.warn("Successfully connected and data was found, but no valid rep data could be parsed. Check the sheet format.");
       if (USE_MOCK_DATA_ON_FAILURE) {
@@ -385,7 +573,7 @@ export async function fetchSheetData(date: Date = new Date()): Promise<{ reps: O
       }
     }
     
-    return { reps, sheetName };
+    return { reps, sheetName, layout, regionSource, bookings };
 
   } catch (error) {
     console.error("Error fetching from Google Sheets API:", error);
@@ -408,7 +596,7 @@ export async function fetchSheetCell(cell: string, sheetName:string): Promise<st
   if (!sheetName) {
     throw new Error('Sheet name must be provided to fetch a cell.');
   }
-  const url = `https://sheets.googleapis.com/v4/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(sheetName)}'!${encodeURIComponent(cell)}?key=${GOOGLE_API_KEY}&valueRenderOption=FORMATTED_VALUE`;
+  const url = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}/values/'${encodeURIComponent(sheetName)}'!${encodeURIComponent(cell)}?key=${GOOGLE_API_KEY}&valueRenderOption=FORMATTED_VALUE`;
   
   try {
     const response = await fetchWithRetry(url);
@@ -426,4 +614,97 @@ export async function fetchSheetCell(cell: string, sheetName:string): Promise<st
     console.error(`Error fetching cell data for ${cell} from ${sheetName}:`, err);
     throw new Error(`Could not retrieve data for cell ${cell}.`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Formats the jobs booked into one slot, one "Booked:" line per job. The parser reads
+ * these lines back as an available slot holding those jobs.
+ */
+export const formatJobsForSheetCell = (jobs: Job[]): string =>
+    jobs.map(job => `${BOOKING_PREFIX} ${[getCustomerName(job), job.phone, job.address, job.city, job.zipCode, job.notes]
+        .map(value => (value || '').replace(/\s*[|\r\n]+\s*/g, ' ').trim())
+        .join(BOOKING_SEPARATOR)}`).join('\n');
+
+/**
+ * Builds the cell-level changes needed to push each rep's booked slots for one day
+ * into the sheet. Empty slots are left alone so availability marks are preserved,
+ * unless they held bookings when loaded; those are cleared.
+ */
+export function buildSheetWriteBack(layout: SheetLayout, reps: Rep[], dayName: string): SheetCellChange[] {
+    const column = layout.dayColumns[dayName];
+    if (!column) {
+        throw new Error(`Sheet "${layout.sheetName}" has no column for ${dayName}.`);
+    }
+
+    const changes: SheetCellChange[] = [];
+    for (const rep of reps) {
+        const rows = layout.slotRows[rep.name];
+        if (!rows) continue;
+        for (const slot of rep.schedule) {
+            const row = rows[slot.id];
+            if (!row) continue;
+            const cell = `${column}${row}`;
+            const loadedValue = layout.loadedValues[cell] ?? '';
+            if (slot.jobs.length === 0 && !parseBookedCell(loadedValue)) continue;
+            const newValue = formatJobsForSheetCell(slot.jobs);
+            if (newValue === loadedValue) continue;
+            changes.push({ cell, repName: rep.name, dayName, slotId: slot.id, loadedValue, newValue, hasConflict: false });
+        }
+    }
+    return changes;
+}
+
+// One entry of a values:batchGet response, in the order the ranges were requested.
+interface SheetValueRange {
+    range: string;
+    values?: unknown[][]; // Omitted when the range is empty
+}
+
+/**
+ * Re-reads the target cells and flags any whose value no longer matches what was loaded.
+ */
+export async function checkSheetWriteConflicts(sheetName: string, changes: SheetCellChange[]): Promise<SheetCellChange[]> {
+    if (changes.length === 0) return changes;
+    const ranges = changes.map(change => `ranges=${encodeURIComponent(sheetRange(sheetName, change.cell))}`).join('&');
+    const url = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}/values:batchGet?${ranges}&key=${GOOGLE_API_KEY}&valueRenderOption=FORMATTED_VALUE`;
+    const response = await fetchWithRetry(url);
+    if (!response.ok) {
+        throw new Error(`Failed to re-read sheet cells (Status: ${response.status}).`);
+    }
+    const data: { valueRanges?: SheetValueRange[] } = await response.json();
+    const valueRanges = data.valueRanges || [];
+
+    return changes.map((change, index) => {
+        const currentValue = String(valueRanges[index]?.values?.[0]?.[0] ?? '');
+        return { ...change, currentValue, hasConflict: currentValue !== change.loadedValue };
+    });
+}
+
+/**
+ * Writes the given changes to the sheet. The cells are re-checked first and the
+ * write is refused if any of them changed since the sheet was loaded.
+ * @param accessToken An OAuth token with the spreadsheets scope.
+ */
+export async function writeSheetCells(sheetName: string, changes: SheetCellChange[], accessToken: string): Promise<void> {
+    if (!accessToken) {
+        throw new Error('An OAuth access token is required to write to the sheet.');
+    }
+    const checked = await checkSheetWriteConflicts(sheetName, changes);
+    const conflicts = checked.filter(change => change.hasConflict);
+    if (conflicts.length > 0) {
+        throw new Error(`Refusing to write: ${conflicts.map(c => c.cell).join(', ')} changed in the sheet since it was loaded.`);
+    }
+
+    const url = `${sheetsApiBaseUrl}/spreadsheets/${SPREADSHEET_ID}/values:batchUpdate`;
+    const response = await fetchWithRetry(url, 3, 1000, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({
+            valueInputOption: 'RAW',
+            data: changes.map(change => ({ range: sheetRange(sheetName, change.cell), values: [[change.newValue]] })),
+        }),
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to write to the sheet (Status: ${response.status}). Check the access token and sheet permissions.`);
+    }
+}
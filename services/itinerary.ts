@@ -0,0 +1,220 @@
+import { AppointmentDurations, DisplayJob, ItineraryItem, LunchBreak, Rep, Settings } from '../types';
+import { DEFAULT_APPOINTMENT_DURATIONS } from '../constants';
+import { geocodeAddresses, Coordinates } from './osmService';
+import { DriveTimeLookup, getDriveMinutes, prefetchDriveTimesWithin } from './travelTime';
+import { getJobAttributes } from './jobAttributes';
+import { parseTimeWindow, parseClockInput, formatClockTime } from './timeSlots';
+import { haversineDistance } from './geography';
+import { getHomeZipAddress } from './scheduler';
+
+// A rep's day in visiting order: leave home in time for the first window, drive each
+// leg (OSRM durations where cached), spend the job's appointment time on site, wait
+// for windows that have not opened yet, and fit the lunch break into the first gap
+// where the rep would be heading out after the lunch window opens.
+
+// A request for a single time ("10am") still counts as on time this long after it.
+const SINGLE_TIME_GRACE_MINUTES = 30;
+// Used for the first stop when it has no window at all.
+const DEFAULT_DAY_START_MINUTES = 7 * 60 + 30;
+
+export interface ItineraryInput {
+    jobs: DisplayJob[]; // In visiting order
+    home: Coordinates | null;
+    getCoordinates: (address: string) => Coordinates | null;
+    durations: AppointmentDurations;
+    lunch: LunchBreak;
+    getDriveMinutes?: DriveTimeLookup;
+}
+
+export interface PlannedItinerary {
+    items: ItineraryItem[];
+    home: Coordinates | null;
+    coordinates: Map<string, Coordinates>; // Stop coordinates by address
+}
+
+export interface RepDayPlan extends PlannedItinerary {
+    jobs: DisplayJob[]; // In visiting order
+    homeAddress: string | null;
+}
+
+/**
+ * Minutes on site for a job: the longest of the default, its job-type rules and the
+ * large-home rule.
+ */
+export function getAppointmentMinutes(job: DisplayJob, durations: AppointmentDurations = DEFAULT_APPOINTMENT_DURATIONS): number {
+    const attributes = getJobAttributes(job);
+    const candidates = [durations.defaultMinutes, ...attributes.jobTypes.map(type => durations.byJobType[type] ?? 0)];
+    if (durations.largeHomeSqft > 0 && (attributes.sqft ?? 0) >= durations.largeHomeSqft) candidates.push(durations.largeHomeMinutes);
+    return Math.max(...candidates);
+}
+
+/**
+ * "1h 30m", "45m" or "2h".
+ */
+export function formatDuration(minutes: number): string {
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    const rest = rounded % 60;
+    if (hours === 0) return `${rest}m`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+const lateWarning = (job: DisplayJob, arrival: number): string | undefined => {
+    const window = parseTimeWindow(job.originalTimeframe);
+    if (!window) return undefined;
+    const latest = window.end === Infinity ? window.start + SINGLE_TIME_GRACE_MINUTES : window.end;
+    return arrival > latest ? `Arrives ${formatClockTime(arrival)}, after the requested ${job.originalTimeframe}` : undefined;
+};
+
+/**
+ * Builds the itinerary: a travel item before every job and back home, a job item per
+ * stop with its ETA, and a lunch item when the break is enabled and fits.
+ */
+export function buildItinerary(input: ItineraryInput): ItineraryItem[] {
+    const minutesLookup = input.getDriveMinutes || getDriveMinutes;
+    const lunchEarliest = parseClockInput(input.lunch.earliest);
+    const lunchLatest = parseClockInput(input.lunch.latest);
+    let lunchPending = input.lunch.enabled && lunchEarliest !== null && lunchLatest !== null;
+
+    const items: ItineraryItem[] = [];
+    let position = input.home;
+    let clock: number | null = null; // When the rep is free to leave the current stop
+
+    input.jobs.forEach(job => {
+        const coord = input.getCoordinates(job.address);
+        const drive = position && coord ? minutesLookup(position, coord) : 0;
+        // The customer's window, else the slot the job is booked in.
+        const window = parseTimeWindow(job.originalTimeframe) || parseTimeWindow(job.timeSlotLabel);
+
+        if (clock !== null && lunchPending) {
+            const departAt = Math.max(clock + drive, window?.start ?? -Infinity) - drive;
+            if (departAt >= lunchEarliest!) {
+                const lunchStart = Math.max(clock, lunchEarliest!);
+                if (lunchStart <= lunchLatest!) {
+                    items.push({
+                        type: 'lunch',
+                        timeRange: `${formatClockTime(lunchStart)} - ${formatClockTime(lunchStart + input.lunch.minutes)}`,
+                        duration: formatDuration(input.lunch.minutes),
+                        startMinutes: lunchStart,
+                        endMinutes: lunchStart + input.lunch.minutes,
+                    });
+                    clock = lunchStart + input.lunch.minutes;
+                }
+                lunchPending = false;
+            }
+        }
+
+        const arrival = clock === null ? (window?.start ?? DEFAULT_DAY_START_MINUTES) : Math.max(clock + drive, window?.start ?? -Infinity);
+        const departure = clock === null ? arrival - drive : clock;
+        const spare = arrival - drive - departure;
+        if (position && coord) {
+            items.push({
+                type: 'travel',
+                timeRange: spare >= 1 ? `(${formatDuration(drive)} drive, ${formatDuration(spare)} spare)` : `(${formatDuration(drive)} drive)`,
+                duration: formatDuration(drive),
+                startMinutes: arrival - drive,
+                endMinutes: arrival,
+            });
+        }
+
+        const onSite = getAppointmentMinutes(job, input.durations);
+        items.push({
+            type: 'job',
+            timeRange: `${formatClockTime(arrival)} - ${formatClockTime(arrival + onSite)}`,
+            job,
+            duration: formatDuration(onSite),
+            startMinutes: arrival,
+            endMinutes: arrival + onSite,
+            warning: lateWarning(job, arrival),
+        });
+        clock = arrival + onSite;
+        if (coord) position = coord;
+    });
+
+    if (clock !== null && position && input.home) {
+        const drive = minutesLookup(position, input.home);
+        items.push({
+            type: 'travel',
+            timeRange: `(${formatDuration(drive)} drive home)`,
+            duration: formatDuration(drive),
+            startMinutes: clock,
+            endMinutes: clock + drive,
+        });
+    }
+    return items;
+}
+
+/**
+ * Geocodes the stops and the rep's home, fetches the drive times between them (falling
+ * back to estimates if OSRM is slow) and builds the itinerary. The route card and the
+ * rep day sheets both use this.
+ */
+export async function planItinerary(jobs: DisplayJob[], homeAddress: string | null, settings: Pick<Settings, 'appointmentDurations' | 'lunchBreak'>): Promise<PlannedItinerary> {
+    const addresses = jobs.map(job => job.address);
+    const results = await geocodeAddresses(homeAddress ? [homeAddress, ...addresses] : addresses);
+    const home = homeAddress ? results[0]?.coordinates || null : null;
+    const coordinates = new Map<string, Coordinates>();
+    addresses.forEach((address, i) => {
+        const coord = results[i + (homeAddress ? 1 : 0)]?.coordinates;
+        if (coord) coordinates.set(address, coord);
+    });
+    await prefetchDriveTimesWithin([...(home ? [home] : []), ...coordinates.values()]);
+    const items = buildItinerary({
+        jobs,
+        home,
+        getCoordinates: address => coordinates.get(address) || null,
+        durations: settings.appointmentDurations,
+        lunch: settings.lunchBreak,
+    });
+    return { items, home, coordinates };
+}
+
+/**
+ * Visiting order by requested start hour; within an hour, nearest first from the
+ * previous stop (the first from home). Jobs with no requested time go last.
+ */
+async function orderByWindowThenNearest(jobs: DisplayJob[], home: Coordinates | null): Promise<DisplayJob[]> {
+    const results = await geocodeAddresses(jobs.map(job => job.address));
+    const coordinates = new Map<string, Coordinates>();
+    jobs.forEach((job, i) => { if (results[i]?.coordinates) coordinates.set(job.id, results[i].coordinates!); });
+
+    const startHour = (job: DisplayJob) => {
+        const start = parseTimeWindow(job.originalTimeframe)?.start;
+        return start === undefined ? Infinity : Math.floor(start / 60);
+    };
+    const hours = [...new Set(jobs.map(startHour))].sort((a, b) => a - b);
+
+    const ordered: DisplayJob[] = [];
+    let position = home;
+    for (const hour of hours) {
+        const unvisited = jobs.filter(job => startHour(job) === hour);
+        while (unvisited.length > 0) {
+            let nearestIndex = 0;
+            if (position) {
+                let nearestDistance = Infinity;
+                unvisited.forEach((job, i) => {
+                    const coord = coordinates.get(job.id);
+                    const distance = coord ? haversineDistance(position!, coord) : Infinity;
+                    if (distance < nearestDistance) { nearestDistance = distance; nearestIndex = i; }
+                });
+            }
+            const [next] = unvisited.splice(nearestIndex, 1);
+            ordered.push(next);
+            position = coordinates.get(next.id) || position;
+        }
+    }
+    return ordered;
+}
+
+/**
+ * A rep's day as the route card and the day sheets show it: starting and ending at the
+ * rep's home ZIP, in the accepted route's order when the rep is optimized, otherwise by
+ * requested time and distance.
+ */
+export async function planRepDay(jobs: DisplayJob[], rep: Rep | undefined, settings: Pick<Settings, 'appointmentDurations' | 'lunchBreak'>): Promise<RepDayPlan> {
+    const homeAddress = rep ? getHomeZipAddress(rep) : null;
+    const home = homeAddress ? (await geocodeAddresses([homeAddress]))[0]?.coordinates || null : null;
+    const ordered = rep?.isOptimized ? jobs : await orderByWindowThenNearest(jobs, home);
+    const plan = await planItinerary(ordered, homeAddress, settings);
+    return { ...plan, jobs: ordered, homeAddress };
+}
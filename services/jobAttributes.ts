@@ -0,0 +1,76 @@
+import { Job, JobAttributes, RoofType, JobType } from '../types';
+import { ROOF_KEYWORDS, TYPE_KEYWORDS } from '../constants';
+
+// Structured job details. The note shorthand ("Tile 16yrs 1802sq 2S #(Referral)") is
+// read once when a job is parsed; everything else reads job.attributes.
+
+const hasKeyword = (notesLower: string, keyword: string) => new RegExp(`\\b${keyword.toLowerCase()}\\b`).test(notesLower);
+
+const matchNumber = (notes: string, regex: RegExp): number | undefined => {
+    const match = notes.match(regex);
+    return match ? parseInt(match[1], 10) : undefined;
+};
+
+/**
+ * Extracts roof/job type tags, roof age, square footage, stories, the priority marker
+ * and any reschedule note from free-text job notes.
+ */
+export function parseJobAttributes(notes: string): JobAttributes {
+    const text = notes || '';
+    const notesLower = text.toLowerCase();
+    const priorityReason = text.match(/#\s*\(([^)]+)\)/)?.[1]?.trim();
+    const rescheduleFrom = text.match(/\(Recommended Reschedule from ([^)]+)\)/i)?.[1]?.trim();
+
+    return {
+        roofTypes: ROOF_KEYWORDS.filter(keyword => hasKeyword(notesLower, keyword)),
+        jobTypes: TYPE_KEYWORDS.filter(keyword => hasKeyword(notesLower, keyword)),
+        roofAgeYears: matchNumber(text, /\b(\d+)\s*yrs\b/i),
+        sqft: matchNumber(text, /\b(\d+)\s*sq\.?\b/i),
+        stories: matchNumber(text, /\b(\d)S\b/i),
+        isPriority: text.includes('#'),
+        ...(priorityReason ? { priorityReason } : {}),
+        ...(rescheduleFrom ? { rescheduleFrom } : {}),
+    };
+}
+
+/**
+ * The job's structured attributes. Jobs saved before attributes existed are parsed
+ * from their notes on the fly.
+ */
+export function getJobAttributes(job: Job): JobAttributes {
+    return job.attributes || parseJobAttributes(job.notes);
+}
+
+/**
+ * Roof and job type tags in keyword order, e.g. ['Tile', 'Insurance'].
+ */
+export function getJobTags(attributes: JobAttributes): (RoofType | JobType)[] {
+    return [...attributes.roofTypes, ...attributes.jobTypes];
+}
+
+/**
+ * How many details are known: one per tag plus age, size and stories.
+ * Jobs with one or fewer show up in "Needs Details".
+ */
+export function countJobDetails(attributes: JobAttributes): number {
+    return getJobTags(attributes).length
+        + (attributes.sqft !== undefined ? 1 : 0)
+        + (attributes.roofAgeYears !== undefined ? 1 : 0)
+        + (attributes.stories !== undefined ? 1 : 0);
+}
+
+/**
+ * Notes for display, with type tags and scheduling boilerplate removed.
+ */
+export function getDisplayNotes(notes: string): string {
+    let cleanNotes = notes || '';
+    [...ROOF_KEYWORDS, ...TYPE_KEYWORDS].forEach(tag => {
+        cleanNotes = cleanNotes.replace(new RegExp(`\\b${tag}\\b`, 'ig'), '').trim();
+    });
+    return cleanNotes
+        .replace(/\(Recommended Reschedule from [^)]+\)/gi, '')
+        .replace(/\(Scheduled: [^)]+\)/gi, '')
+        .replace(/\(\s*\)/g, '') // remove empty parentheses
+        .replace(/^[-,.\s]+|[-,.\s]+$/g, '') // trim lingering separators
+        .trim();
+}
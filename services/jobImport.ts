@@ -0,0 +1,177 @@
+import { Job, Rep, TimeSlot } from '../types';
+import { TIME_SLOTS } from '../constants';
+import { ALL_KNOWN_CITIES } from './geography';
+import { parseJobAttributes } from './jobAttributes';
+import { formatPhone } from './customerContact';
+import { mapTimeframeToSlotId, parseTimeWindow } from './timeSlots';
+import { buildRepNameMatchers } from './geminiService';
+import { cleanRepName } from './messageTemplates';
+
+// Structured job import from CSV/Excel rows. Each column is mapped to a job field
+// (detected from the header row, or picked by the user), then every row becomes a Job
+// and, when it names a rep and a time that fits one of the day's slots, a
+// pre-assignment, the same as a pasted line would.
+
+export type ImportField = 'customer' | 'phone' | 'email' | 'address' | 'city' | 'zip' | 'timeframe' | 'tags' | 'rep' | 'notes';
+
+// Column index for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+    rowNumber: number; // 1-based, as shown in the spreadsheet
+    job: Job | null; // Null when the row has errors
+    assignment?: { repId: string; slotId: string };
+    errors: string[];
+    warnings: string[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+    { field: 'customer', label: 'Customer' },
+    { field: 'phone', label: 'Phone' },
+    { field: 'email', label: 'Email' },
+    { field: 'address', label: 'Address' },
+    { field: 'city', label: 'City' },
+    { field: 'zip', label: 'Zip' },
+    { field: 'timeframe', label: 'Timeframe' },
+    { field: 'tags', label: 'Tags' },
+    { field: 'rep', label: 'Rep' },
+    { field: 'notes', label: 'Notes' },
+];
+
+// Header names each field is recognized by, compared lowercase with spaces and punctuation removed.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    customer: ['customer', 'customername', 'name', 'fullname', 'client', 'clientname', 'homeowner', 'contact', 'contactname'],
+    phone: ['phone', 'phonenumber', 'mobile', 'mobilephone', 'cell', 'cellphone', 'tel', 'telephone'],
+    email: ['email', 'emailaddress'],
+    address: ['address', 'streetaddress', 'street', 'address1', 'addressline1', 'siteaddress', 'propertyaddress', 'serviceaddress'],
+    city: ['city', 'town'],
+    zip: ['zip', 'zipcode', 'postalcode', 'postcode'],
+    timeframe: ['timeframe', 'time', 'timewindow', 'window', 'arrivalwindow', 'appointmenttime', 'appointmentwindow', 'slot'],
+    tags: ['tags', 'tag', 'rooftype', 'roof', 'jobtype', 'type'],
+    rep: ['rep', 'repname', 'salesrep', 'assignedrep', 'assignedto', 'representative', 'inspector'],
+    notes: ['notes', 'note', 'comments', 'comment', 'description', 'details'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Maps columns to fields by their header names: exact alias matches first, then headers
+ * that contain an alias ("Customer Phone #"). Each column is used at most once.
+ */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(normalizeHeader);
+    const mapping: ColumnMapping = {};
+    const used = new Set<number>();
+    const assign = (matches: (header: string, alias: string) => boolean) => {
+        IMPORT_FIELDS.forEach(({ field }) => {
+            if (mapping[field] !== undefined) return;
+            const index = normalized.findIndex((header, i) => !used.has(i) && header && HEADER_ALIASES[field].some(alias => matches(header, alias)));
+            if (index > -1) {
+                mapping[field] = index;
+                used.add(index);
+            }
+        });
+    };
+    assign((header, alias) => header === alias);
+    assign((header, alias) => alias.length > 3 && header.includes(alias));
+    return mapping;
+}
+
+/**
+ * Whether the first row reads as column headers rather than a job: it names an address
+ * column, or at least two other known fields.
+ */
+export function looksLikeHeaderRow(row: string[]): boolean {
+    const mapping = detectColumnMapping(row);
+    return mapping.address !== undefined || Object.keys(mapping).length >= 2;
+}
+
+const findRep = (name: string, reps: Rep[], matchers: ReturnType<typeof buildRepNameMatchers>): Rep | null => {
+    const wanted = cleanRepName(name).toLowerCase();
+    if (!wanted) return null;
+    const exact = reps.find(rep => cleanRepName(rep.name).toLowerCase() === wanted);
+    if (exact) return exact;
+    for (const matcher of matchers) {
+        if (matcher.searchTerms.some(term => term === wanted || new RegExp(`\\b${term.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&')}\\b`, 'i').test(wanted))) return matcher.rep;
+    }
+    // A first name alone is fine as long as only one rep has it.
+    const byFirstName = reps.filter(rep => cleanRepName(rep.name).toLowerCase().split(' ')[0] === wanted);
+    return byFirstName.length === 1 ? byFirstName[0] : null;
+};
+
+/**
+ * What stops a job from being added: the same checks the text parser applies to a line.
+ */
+export function getJobFieldErrors(address: string, city: string): string[] {
+    const errors: string[] = [];
+    if (!address.trim()) errors.push('No address');
+    else if (!/\d/.test(address) || !/\b[a-zA-Z]{3,}\b/.test(address)) errors.push('Address needs a house number and street name');
+    if (!city.trim()) errors.push('No city');
+    return errors;
+}
+
+// "123 Main St, Mesa, AZ 85204" -> "Mesa"
+const cityFromAddress = (address: string): string => {
+    const parts = address.split(',').map(part => part.trim());
+    if (parts.length < 2) return '';
+    const candidate = parts.length > 2 ? parts[parts.length - 2] : parts[1];
+    return /^[A-Z]{2}(\s\d{5})?$/i.test(candidate) ? '' : candidate;
+};
+
+/**
+ * Turns spreadsheet rows into jobs. Rows without a usable address or city are reported
+ * as errors and produce no job; everything else that looks off is a warning.
+ * @param rows The data rows, without the header row.
+ * @param firstRowNumber The spreadsheet row number of rows[0], for messages.
+ */
+export function buildImportRows(rows: string[][], mapping: ColumnMapping, reps: Rep[], slots: TimeSlot[] = TIME_SLOTS, firstRowNumber = 1): ImportRow[] {
+    const matchers = buildRepNameMatchers(reps);
+    const knownCities = new Map(Array.from(ALL_KNOWN_CITIES).map(city => [city.toLowerCase(), city]));
+
+    return rows.map((row, i) => {
+        const cell = (field: ImportField) => mapping[field] !== undefined ? (row[mapping[field]!] || '').trim() : '';
+        const warnings: string[] = [];
+        const address = cell('address');
+        let city = cell('city') || cityFromAddress(address);
+        const errors = getJobFieldErrors(address, city);
+        const knownCity = knownCities.get(city.toLowerCase());
+        if (knownCity) city = knownCity.toUpperCase();
+        else if (city) warnings.push(`"${city}" is not a known Arizona city`);
+
+        const zipText = cell('zip') || address.match(/,[^,]*\b(\d{5})(?:-\d{4})?\s*$/)?.[1] || '';
+        const zipCode = zipText.match(/^\d{5}/)?.[0];
+        if (zipText && !zipCode) warnings.push(`Zip "${zipText}" is not a 5-digit zip`);
+
+        const timeframe = cell('timeframe');
+        if (timeframe && !parseTimeWindow(timeframe)) warnings.push(`Timeframe "${timeframe}" is not a time range`);
+
+        let notes = [cell('tags'), cell('notes')].filter(Boolean).join(' ');
+        let assignment: ImportRow['assignment'];
+        const repName = cell('rep');
+        if (repName) {
+            const rep = findRep(repName, reps, matchers);
+            if (!rep) {
+                warnings.push(`Rep "${repName}" not found; left unassigned`);
+            } else {
+                notes = `${notes} (Rep: ${rep.name})`.trim();
+                const slotId = timeframe ? mapTimeframeToSlotId(timeframe, slots) : null;
+                if (slotId) assignment = { repId: rep.id, slotId };
+                else warnings.push(timeframe ? `No slot fits "${timeframe}"; left unassigned` : 'Rep given without a timeframe; left unassigned');
+            }
+        }
+
+        const phone = cell('phone');
+        const email = cell('email');
+        const job: Job | null = errors.length > 0 ? null : {
+            id: `job-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 9)}`,
+            customerName: cell('customer'),
+            ...(phone ? { phone: formatPhone(phone) } : {}),
+            ...(email ? { email } : {}),
+            address, city, notes,
+            originalTimeframe: timeframe || undefined,
+            zipCode,
+            attributes: parseJobAttributes(notes),
+        };
+        return { rowNumber: firstRowNumber + i, job, ...(job && assignment ? { assignment } : {}), errors, warnings };
+    });
+}
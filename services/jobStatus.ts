@@ -0,0 +1,59 @@
+import { Job, JobStatus, JobStatusChange } from '../types';
+
+// Job status lifecycle. New jobs are tentative until the customer confirms their window;
+// the auto-assign tools never move confirmed or finished jobs and skip jobs that are off.
+
+export const JOB_STATUSES: JobStatus[] = ['tentative', 'confirmed', 'completed', 'cancelled', 'no-show'];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+    'tentative': 'Tentative',
+    'confirmed': 'Confirmed',
+    'completed': 'Completed',
+    'cancelled': 'Cancelled',
+    'no-show': 'No-show',
+};
+
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+    'tentative': ['confirmed', 'cancelled'],
+    'confirmed': ['tentative', 'completed', 'cancelled', 'no-show'],
+    'completed': ['confirmed'], // Undo a mistaken completion
+    'cancelled': ['tentative'],
+    'no-show': ['tentative', 'completed'],
+};
+
+export function getJobStatus(job: Job): JobStatus {
+    return job.status || 'tentative';
+}
+
+export function getAllowedTransitions(status: JobStatus): JobStatus[] {
+    return TRANSITIONS[status];
+}
+
+/**
+ * The job with its new status and the change appended to its history, or null if the
+ * lifecycle does not allow that move.
+ */
+export function transitionJobStatus(job: Job, to: JobStatus, at: Date = new Date()): Job | null {
+    const from = getJobStatus(job);
+    if (!TRANSITIONS[from].includes(to)) return null;
+    const change: JobStatusChange = { from, to, at: at.toISOString() };
+    return { ...job, status: to, statusHistory: [...(job.statusHistory || []), change] };
+}
+
+/**
+ * Confirmed, completed and no-show jobs stay where they are booked: clearing schedules
+ * and the auto-assign tools leave them in place.
+ */
+export function isJobPinned(job: Job): boolean {
+    const status = getJobStatus(job);
+    return status === 'confirmed' || status === 'completed' || status === 'no-show';
+}
+
+/**
+ * Whether the auto-assign tools may place this job. Only open (tentative or confirmed)
+ * jobs are scheduled.
+ */
+export function isJobSchedulable(job: Job): boolean {
+    const status = getJobStatus(job);
+    return status === 'tentative' || status === 'confirmed';
+}
@@ -0,0 +1,243 @@
+import { GoogleGenAI } from '@google/genai';
+import { LlmConfig } from '../types';
+
+// Language-model providers for the AI features. geminiService builds the prompts
+// and reads the answers; a provider only turns one request into raw JSON text.
+
+export interface AiAssignment {
+    jobId: string;
+    repId: string;
+    slotId: string;
+    reason?: string;
+}
+
+export interface AddressFix {
+    jobId: string;
+    correctedAddress: string;
+}
+
+// For each task: the structured data its prompt is built from, and the answer it asks for.
+export interface LlmTaskTypes {
+    assignJobs: {
+        input: {
+            reps: { id: string; isLocked?: boolean; currentSchedule: { slotId: string; jobCount: number }[]; assignedCities: string[]; unavailableSlots: string[] }[];
+            jobs: { id: string; city?: string; slotId: string | null }[];
+            slotIds: string[];
+            maxJobsInSlot: number;
+            allowOutsideAvailability: boolean;
+        };
+        output: { assignments: AiAssignment[]; thoughts?: string };
+    };
+    fixAddresses: {
+        input: { id: string; address: string; city?: string; zip?: string; notes: string }[];
+        output: AddressFix[];
+    };
+}
+
+export type LlmTask = keyof LlmTaskTypes;
+export type LlmTaskInput<T extends LlmTask> = LlmTaskTypes[T]['input'];
+export type LlmTaskOutput<T extends LlmTask> = LlmTaskTypes[T]['output'];
+
+export interface LlmRequest<T extends LlmTask = LlmTask> {
+    task: T;
+    prompt: string;
+    schema: object; // JSON Schema for the expected answer
+    input: LlmTaskInput<T>; // The structured data the prompt was built from, for the mock provider
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    generate(request: LlmRequest): Promise<string>;
+}
+
+// One captured prompt/response pair. A list of these is also the replay file format.
+export interface LlmRecording {
+    task: LlmTask;
+    prompt: string;
+    response: string;
+    provider?: string;
+    recordedAt?: string;
+}
+
+export type MockResponders = { [T in LlmTask]?: (input: LlmTaskInput<T>) => LlmTaskOutput<T> };
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// The OpenAI-compatible server key lives under its own localStorage key, never in
+// Settings, so workspaces, autosaves and exported files do not carry it.
+const API_KEY_STORAGE_KEY = 'llm-api-key';
+
+export function loadLlmApiKey(): string {
+    try {
+        return localStorage.getItem(API_KEY_STORAGE_KEY) || '';
+    } catch (e) {
+        return '';
+    }
+}
+
+export function saveLlmApiKey(apiKey: string): void {
+    try {
+        if (apiKey) localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+        else localStorage.removeItem(API_KEY_STORAGE_KEY);
+    } catch (e) {
+        console.warn("Failed to save the AI server key to localStorage");
+    }
+}
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+/**
+ * Google Gemini. Reads the key from the API_KEY environment variable.
+ */
+export function createGeminiProvider(model: string = DEFAULT_GEMINI_MODEL): LlmProvider {
+    return {
+        name: `Gemini (${model})`,
+        async generate({ prompt, schema }) {
+            if (!process.env.API_KEY) {
+                throw new Error("API_KEY environment variable not set.");
+            }
+            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: { responseMimeType: 'application/json', responseJsonSchema: schema },
+            });
+            if (!response.text) throw new Error("Empty response from AI");
+            return response.text;
+        },
+    };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: llama.cpp, Ollama, vLLM, LM Studio.
+ * The schema is sent both as a structured-output format and in the system message,
+ * since not every local server enforces the former.
+ */
+export function createOpenAiCompatibleProvider(baseUrl: string, model: string, apiKey?: string): LlmProvider {
+    const root = trimSlash(baseUrl).replace(/\/v1$/, '');
+    return {
+        name: `${model} (${root})`,
+        async generate({ task, prompt, schema }) {
+            const response = await fetch(`${root}/v1/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    temperature: 0,
+                    messages: [
+                        { role: 'system', content: `Reply with JSON only, matching this JSON Schema:\n${JSON.stringify(schema)}` },
+                        { role: 'user', content: prompt },
+                    ],
+                    response_format: { type: 'json_schema', json_schema: { name: task, schema } },
+                }),
+            });
+            if (!response.ok) {
+                throw new Error(`LLM server returned ${response.status}: ${response.statusText}`);
+            }
+            const data = await response.json();
+            const content: string | undefined = data?.choices?.[0]?.message?.content;
+            if (!content) throw new Error("Empty response from AI");
+            // Some local models wrap JSON in a markdown fence despite the instructions.
+            return content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+        },
+    };
+}
+
+/**
+ * Answers from previously captured responses. Only a recording of the same task with
+ * exactly the same prompt is used; repeats of one prompt are handed out in file order.
+ * Anything else is an error rather than another prompt's answer. Job IDs are part of
+ * the prompt, so replay against the recorded session's save.
+ */
+export function createReplayProvider(recordings: LlmRecording[]): LlmProvider {
+    const nextIndex = new Map<string, number>();
+    return {
+        name: `Replay (${recordings.length} recording${recordings.length === 1 ? '' : 's'})`,
+        async generate({ task, prompt }) {
+            const matches = recordings.filter(r => r.task === task && r.prompt === prompt);
+            if (matches.length === 0) {
+                const forTask = recordings.filter(r => r.task === task).length;
+                throw new Error(`No recorded "${task}" response matches this prompt (${forTask} recording${forTask === 1 ? '' : 's'} for the task). Load the recorded session's save, or record again.`);
+            }
+            const key = `${task}\n${prompt}`;
+            const index = nextIndex.get(key) || 0;
+            nextIndex.set(key, index + 1);
+            return matches[index % matches.length].response;
+        },
+    };
+}
+
+const respondLocally = <T extends LlmTask>(responders: MockResponders, { task, input }: LlmRequest<T>): LlmTaskOutput<T> => {
+    const responder = responders[task];
+    if (!responder) throw new Error(`The local mock has no responder for "${task}".`);
+    return responder(input);
+};
+
+/**
+ * Deterministic local stand-in. Each task's responder computes an answer from the
+ * request's structured input, so the AI flows run end to end with no model at all.
+ */
+export function createMockProvider(responders: MockResponders): LlmProvider {
+    return {
+        name: 'Local mock',
+        async generate(request) {
+            return JSON.stringify(respondLocally(responders, request));
+        },
+    };
+}
+
+/**
+ * Loads a replay file: either a JSON array of recordings or a transcript download
+ * ({ "recordings": [...] }).
+ */
+export async function loadLlmRecordings(url: string): Promise<LlmRecording[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load LLM recordings from ${url} (Status: ${response.status}).`);
+    }
+    const data = await response.json();
+    const recordings = Array.isArray(data) ? data : data?.recordings;
+    if (!Array.isArray(recordings) || recordings.some(r => typeof r?.task !== 'string' || typeof r?.response !== 'string')) {
+        throw new Error('LLM recording file must be a list of { "task", "prompt", "response" } entries.');
+    }
+    return recordings;
+}
+
+/**
+ * Builds the provider selected in Settings.
+ * @param apiKey The stored key for an OpenAI-compatible server, if it needs one.
+ */
+export async function createLlmProvider(config: LlmConfig, mockResponders: MockResponders, apiKey?: string): Promise<LlmProvider> {
+    switch (config.provider) {
+        case 'openai-compatible':
+            if (!config.baseUrl) throw new Error('A base URL is required for an OpenAI-compatible server.');
+            if (!config.model) throw new Error('A model name is required for an OpenAI-compatible server.');
+            return createOpenAiCompatibleProvider(config.baseUrl, config.model, apiKey || undefined);
+        case 'replay':
+            if (!config.recordingsUrl) throw new Error('A recording file URL is required for the replay provider.');
+            return createReplayProvider(await loadLlmRecordings(config.recordingsUrl));
+        case 'mock':
+            return createMockProvider(mockResponders);
+        case 'gemini':
+        default:
+            return createGeminiProvider(config.model || DEFAULT_GEMINI_MODEL);
+    }
+}
+
+// --- Transcript ---
+// Every exchange in this session is kept (newest last) so prompts and answers can be
+// reviewed, and downloaded as a replay file.
+
+const MAX_TRANSCRIPT_ENTRIES = 50;
+let transcript: LlmRecording[] = [];
+
+export function recordLlmExchange(recording: LlmRecording): void {
+    transcript = [...transcript, recording].slice(-MAX_TRANSCRIPT_ENTRIES);
+}
+
+export function getLlmTranscript(): LlmRecording[] {
+    return transcript;
+}
@@ -0,0 +1,111 @@
+import { AppState, DisplayJob, MessageTemplates, Rep } from '../types';
+import { DEFAULT_MESSAGE_TEMPLATES, MESSAGE_PLACEHOLDERS } from '../constants';
+import { getCustomerName } from './customerContact';
+import { isJobSchedulable } from './jobStatus';
+import { parseTimeWindow } from './timeSlots';
+
+// Outbound customer messages: editable templates (kept in localStorage), filled in
+// per job and exported as a CSV for the texting tool.
+
+const TEMPLATES_STORAGE_KEY = 'message-templates';
+
+export type MessagePlaceholder = typeof MESSAGE_PLACEHOLDERS[number];
+export type MessageValues = Record<MessagePlaceholder, string>;
+
+export interface CustomerMessage {
+    jobId: string;
+    customer: string;
+    phone: string;
+    email: string;
+    repName: string;
+    newWindow: string;
+    oldWindow: string;
+    message: string;
+}
+
+export function loadMessageTemplates(): MessageTemplates {
+    try {
+        const saved = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+        if (saved) return { ...DEFAULT_MESSAGE_TEMPLATES, ...JSON.parse(saved) };
+    } catch (e) {
+        console.warn("Failed to load message templates from localStorage");
+    }
+    return DEFAULT_MESSAGE_TEMPLATES;
+}
+
+export function saveMessageTemplates(templates: MessageTemplates): void {
+    try {
+        localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    } catch (e) {
+        console.warn("Failed to save message templates to localStorage");
+    }
+}
+
+/**
+ * Placeholders in the template that will not be filled in, e.g. a typo like {custmer}.
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+    const known = new Set<string>(MESSAGE_PLACEHOLDERS);
+    return Array.from(new Set(Array.from(template.matchAll(/\{(\w+)\}/g), m => m[1]))).filter(name => !known.has(name));
+}
+
+export function renderMessage(template: string, values: MessageValues): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in values ? values[name as MessagePlaceholder] : placeholder);
+}
+
+// Rep names in the sheet carry nicknames and regions: 'John "JJ" Smith (Phoenix)' -> 'John Smith'
+export const cleanRepName = (name: string) => name.replace(/"[^"]*"/g, '').replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+
+export const formatMessageDate = (date: Date) => date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+/**
+ * Whether the job is booked outside the window the customer asked for. A single
+ * requested time counts as a match when it falls inside the booked window.
+ */
+export function isBookedOutsideRequest(job: DisplayJob, bookedWindow: string): boolean {
+    const requested = parseTimeWindow(job.originalTimeframe);
+    const booked = parseTimeWindow(bookedWindow);
+    if (!requested || !booked) return false;
+    return !(requested.start < booked.end && booked.start < requested.end);
+}
+
+/**
+ * One message per booked job that can still be scheduled (tentative or confirmed).
+ * @param kind 'reschedule' limits the list to jobs booked outside their requested window.
+ */
+export function buildCustomerMessages(state: AppState, template: string, date: Date, kind: 'all' | 'reschedule'): CustomerMessage[] {
+    const messages: CustomerMessage[] = [];
+    state.reps.forEach((rep: Rep) => rep.schedule.forEach(slot => slot.jobs.forEach(job => {
+        if (!isJobSchedulable(job)) return;
+        const newWindow = job.timeSlotLabel || slot.label;
+        if (kind === 'reschedule' && !isBookedOutsideRequest(job, newWindow)) return;
+        const customer = getCustomerName(job);
+        const values: MessageValues = {
+            customer: customer || 'there',
+            rep: cleanRepName(rep.name),
+            newWindow,
+            oldWindow: job.originalTimeframe || newWindow,
+            date: formatMessageDate(date),
+        };
+        messages.push({
+            jobId: job.id,
+            customer,
+            phone: job.phone || '',
+            email: job.email || '',
+            repName: rep.name,
+            newWindow,
+            oldWindow: values.oldWindow,
+            message: renderMessage(template, values),
+        });
+    })));
+    return messages;
+}
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function messagesToCsv(messages: CustomerMessage[]): string {
+    const header = ['Phone', 'Email', 'Customer', 'Rep', 'Window', 'Original Window', 'Message'];
+    const rows = messages.map(m => [m.phone, m.email, m.customer, m.repName, m.newWindow, m.oldWindow, m.message]);
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
@@ -1,5 +1,9 @@
 
 import { RouteInfo } from "../types";
+import { estimateLocation, EstimateSource, LocationHints } from "./centroidGeocoder";
+import { Geocoder, createNominatimGeocoder } from "./geocoders";
+import { getOsrmBaseUrl } from "./travelTime";
+import { clearGeocodeCache, lookupGeocode, needsGeocode, storeGeocode, whenGeocodeCacheReady } from "./geocodeCache";
 
 export interface Coordinates {
     lat: number;
@@ -9,35 +13,10 @@ export interface Coordinates {
 export interface GeocodeResult {
     coordinates: Coordinates | null;
     error: string | null;
+    isEstimated?: boolean; // Set for offline centroid estimates, never stored in the cache
+    estimateSource?: EstimateSource;
 }
 
-
-// In-memory cache for geocoded addresses.
-// This prevents re-querying the API for the same address, making the map much faster.
-const geocodeCache = new Map<string, GeocodeResult>();
-
-// Load cache from localStorage on startup
-try {
-    const savedCache = localStorage.getItem('geocode-cache');
-    if (savedCache) {
-        const parsed = JSON.parse(savedCache);
-        Object.entries(parsed).forEach(([key, value]) => {
-            geocodeCache.set(key, value as GeocodeResult);
-        });
-    }
-} catch (e) {
-    console.warn("Failed to load geocode cache from localStorage");
-}
-
-const saveCacheToStorage = () => {
-    try {
-        const obj = Object.fromEntries(geocodeCache);
-        localStorage.setItem('geocode-cache', JSON.stringify(obj));
-    } catch (e) {
-        console.warn("Failed to save geocode cache to localStorage");
-    }
-};
-
 // Define Arizona's geographical boundaries to filter out incorrect geocodes.
 const ARIZONA_BOUNDS = {
     north: 37.1,    // Northern border with Utah
@@ -48,10 +27,56 @@ const ARIZONA_BOUNDS = {
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// The provider selected in Settings. Defaults to the public Nominatim server.
+let activeGeocoder: Geocoder = createNominatimGeocoder();
+
+// Name of the provider whose results are in the geocode cache.
+const CACHED_GEOCODER_STORAGE_KEY = 'geocode-cache-provider';
+
+/**
+ * Switches the geocoding provider. The cache is keyed by address only, so when the
+ * provider differs from the one that filled it, cached results are cleared (pinned
+ * addresses are kept) and re-geocoded by the new provider on next use.
+ * @returns The number of cached addresses cleared.
+ */
+export async function setGeocoder(geocoder: Geocoder): Promise<number> {
+    activeGeocoder = geocoder;
+    await whenGeocodeCacheReady();
+    if (activeGeocoder !== geocoder) return 0; // Superseded while the cache was loading
+
+    const cachedProvider = localStorage.getItem(CACHED_GEOCODER_STORAGE_KEY);
+    localStorage.setItem(CACHED_GEOCODER_STORAGE_KEY, geocoder.name);
+    return cachedProvider !== null && cachedProvider !== geocoder.name ? clearGeocodeCache() : 0;
+}
+
+export function isWithinArizona({ lat, lon }: Coordinates): boolean {
+    return lat >= ARIZONA_BOUNDS.south && lat <= ARIZONA_BOUNDS.north && lon >= ARIZONA_BOUNDS.west && lon <= ARIZONA_BOUNDS.east;
+}
+
+/**
+ * Spells out street directions and types: "425 N Vineyard Dr" -> "425 North Vineyard Drive".
+ */
+export const expandAddressAbbreviations = (str: string) => str
+    .replace(/\bN[\.]?\b/g, 'North')
+    .replace(/\bS[\.]?\b/g, 'South')
+    .replace(/\bE[\.]?\b/g, 'East')
+    .replace(/\bW[\.]?\b/g, 'West')
+    .replace(/\bSt[\.]?\b/gi, 'Street')
+    .replace(/\bRd[\.]?\b/gi, 'Road')
+    .replace(/\bDr[\.]?\b/gi, 'Drive')
+    .replace(/\bAve[\.]?\b/gi, 'Avenue')
+    .replace(/\bBlvd[\.]?\b/gi, 'Boulevard')
+    .replace(/\bLn[\.]?\b/gi, 'Lane')
+    .replace(/\bCt[\.]?\b/gi, 'Court')
+    .replace(/\bPl[\.]?\b/gi, 'Place')
+    .replace(/\bTrl[\.]?\b/gi, 'Trail')
+    .replace(/\bCir[\.]?\b/gi, 'Circle')
+    .replace(/\bWy[\.]?\b/gi, 'Way');
+
 /**
  * Expands abbreviations and generates variations of an address to increase match probability.
  */
-function getAddressVariations(address: string): string[] {
+export function getAddressVariations(address: string): string[] {
     const variations = new Set<string>();
 
     // 1. Basic cleanup: Remove country, "story", normalize spaces
@@ -63,24 +88,6 @@ function getAddressVariations(address: string): string[] {
     
     variations.add(clean);
 
-    // Helper to expand directions/types
-    const expand = (str: string) => str
-        .replace(/\bN[\.]?\b/g, 'North')
-        .replace(/\bS[\.]?\b/g, 'South')
-        .replace(/\bE[\.]?\b/g, 'East')
-        .replace(/\bW[\.]?\b/g, 'West')
-        .replace(/\bSt[\.]?\b/gi, 'Street')
-        .replace(/\bRd[\.]?\b/gi, 'Road')
-        .replace(/\bDr[\.]?\b/gi, 'Drive')
-        .replace(/\bAve[\.]?\b/gi, 'Avenue')
-        .replace(/\bBlvd[\.]?\b/gi, 'Boulevard')
-        .replace(/\bLn[\.]?\b/gi, 'Lane')
-        .replace(/\bCt[\.]?\b/gi, 'Court')
-        .replace(/\bPl[\.]?\b/gi, 'Place')
-        .replace(/\bTrl[\.]?\b/gi, 'Trail')
-        .replace(/\bCir[\.]?\b/gi, 'Circle')
-        .replace(/\bWy[\.]?\b/gi, 'Way');
-
     // 2. Strip Junk (notes, gate codes, etc) using delimiters like #, (, [
     // Example: "425 N Vineyard, Mesa, AZ 85201 # (old roof)" -> "425 N Vineyard, Mesa, AZ 85201"
     const noJunk = clean.split(/[\#\(\[]|\s-\s/)[0].trim();
@@ -101,7 +108,7 @@ function getAddressVariations(address: string): string[] {
         
         // Add "Street Only Expanded" (e.g., "21036 West Maiden Lane")
         // This is critical for the user's use case where W -> West makes it plot.
-        const expandedStreet = expand(streetOnly);
+        const expandedStreet = expandAddressAbbreviations(streetOnly);
         variations.add(expandedStreet);
         
         // Try Street + AZ context
@@ -111,13 +118,13 @@ function getAddressVariations(address: string): string[] {
         const splitStreet = noJunk.split(',')[0].trim();
         if (splitStreet !== noJunk && /\d/.test(splitStreet)) {
             variations.add(splitStreet);
-            variations.add(expand(splitStreet));
+            variations.add(expandAddressAbbreviations(splitStreet));
         }
     }
 
     // 4. Expand everything collected so far to ensure coverage
     Array.from(variations).forEach(v => {
-        const expanded = expand(v);
+        const expanded = expandAddressAbbreviations(v);
         if (expanded !== v) variations.add(expanded);
     });
 
@@ -131,9 +138,10 @@ function getAddressVariations(address: string): string[] {
 }
 
 /**
- * Performs the raw API call to Nominatim for a specific query string.
+ * Sends one query to the active geocoder, adding Arizona context and
+ * rejecting matches that fall outside the state.
  */
-async function queryNominatim(query: string, retries = 2, initialDelay = 1000): Promise<GeocodeResult> {
+async function queryGeocoder(query: string): Promise<GeocodeResult> {
     // Ensure Arizona context is present if it looks like a US address and lacks it
     let finalQuery = query;
     if (!/,\s*(az|arizona)\b/i.test(finalQuery)) {
@@ -146,54 +154,46 @@ async function queryNominatim(query: string, retries = 2, initialDelay = 1000):
         finalQuery = `${streetPart}, Vail, AZ`;
     }
 
-    const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(finalQuery)}&format=json&limit=1`;
-    let currentDelay = initialDelay;
-
-    for (let attempt = 0; attempt <= retries; attempt++) {
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    'Accept': 'application/json',
-                    'User-Agent': 'RepRoutePlanner/1.0 (Arizona)'
-                }
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-                if (data && data.length > 0) {
-                    const lat = parseFloat(data[0].lat);
-                    const lon = parseFloat(data[0].lon);
-
-                    // Validate that the coordinates are within Arizona's bounds.
-                    if (lat >= ARIZONA_BOUNDS.south && lat <= ARIZONA_BOUNDS.north && lon >= ARIZONA_BOUNDS.west && lon <= ARIZONA_BOUNDS.east) {
-                        return { coordinates: { lat, lon }, error: null };
-                    } else {
-                        // If we found something but it's outside bounds, treat as not found so we might try another variation
-                        return { coordinates: null, error: 'Location found outside of Arizona' };
-                    }
-                }
-                return { coordinates: null, error: 'Address not found' };
-            }
+    const result = await activeGeocoder.geocode(finalQuery);
+    if (!result.coordinates) return result;
 
-            if (response.status === 503 || response.status === 429) {
-                if (attempt < retries) {
-                    await sleep(currentDelay);
-                    currentDelay *= 2;
-                    continue;
-                }
-            }
-            return { coordinates: null, error: `API status ${response.status}: ${response.statusText}` };
+    // Validate that the coordinates are within Arizona's bounds.
+    // If we found something outside, treat as not found so we might try another variation.
+    if (!isWithinArizona(result.coordinates)) {
+        return { coordinates: null, error: 'Location found outside of Arizona' };
+    }
+    return result;
+}
 
-        } catch (error) {
-            if (attempt < retries) {
-                await sleep(currentDelay);
-                currentDelay *= 2;
-                continue;
-            }
-            return { coordinates: null, error: error instanceof Error ? error.message : "Network error" };
-        }
+/**
+ * Looks up a human-readable address for a point using the active geocoder.
+ */
+export async function reverseGeocode(coordinates: Coordinates): Promise<string | null> {
+    try {
+        return await activeGeocoder.reverseGeocode(coordinates);
+    } catch (error) {
+        console.error("Reverse geocoding failed:", error);
+        return null;
     }
-    return { coordinates: null, error: 'Max retries exceeded' };
+}
+
+/**
+ * Turns a reverse-geocoded place name into a job-style address:
+ * "1234, West Main Street, Mesa, Maricopa County, Arizona, 85201, United States"
+ * -> "1234 West Main Street, Mesa, AZ 85201". Returns null without a house number,
+ * since a bare street is no better than the address it would replace.
+ */
+export function formatReverseGeocodedAddress(placeName: string): string | null {
+    const parts = placeName.split(',').map(part => part.trim()).filter(Boolean);
+    // The zip comes last; a five-digit house number comes first.
+    const zipIndex = parts.map(part => /^\d{5}(-\d{4})?$/.test(part)).lastIndexOf(true);
+    const zip = zipIndex > 0 ? parts[zipIndex].slice(0, 5) : undefined;
+    const rest = parts.filter((part, i) => (i !== zipIndex || !zip) && !/\bcounty$|^(united states|usa)$|^(arizona|az)$/i.test(part));
+    const street = /^\d+[a-z]?$/i.test(rest[0] || '') ? `${rest.shift()} ${rest.shift() || ''}`.trim() : rest.shift() || '';
+    if (!/^\d+[a-z]?\s+\S/i.test(street)) return null;
+    // Nominatim lists suburbs and neighbourhoods before the city; the city is the last place left.
+    const city = rest[rest.length - 1];
+    return `${street}${city ? `, ${city}` : ''}, AZ${zip ? ` ${zip}` : ''}`;
 }
 
 /**
@@ -207,9 +207,9 @@ async function geocodeSingleAddressAPI(address: string): Promise<GeocodeResult>
         const variation = variations[i];
         
         // Respect rate limiting between variations for the same job
-        if (i > 0) await sleep(1200);
+        if (i > 0 && activeGeocoder.minRequestIntervalMs > 0) await sleep(activeGeocoder.minRequestIntervalMs + 200);
 
-        const result = await queryNominatim(variation);
+        const result = await queryGeocoder(variation);
         if (result.coordinates) {
             return result;
         }
@@ -219,16 +219,19 @@ async function geocodeSingleAddressAPI(address: string): Promise<GeocodeResult>
     return { coordinates: null, error: lastError };
 }
 
+const zipCacheKey = (zip: string) => `${zip}, Arizona, USA`;
 
 /**
  * Geocodes a list of addresses in the background to populate the cache.
  * This function respects the API rate limit but does not block the main thread.
- * It's intended to be called as a "fire-and-forget" task.
+ * It's intended to be called as a "fire-and-forget" task. It stops and rejects if the
+ * geocoder can't be reached; the addresses left over are tried again next time.
  * @param addresses An array of street addresses to pre-cache.
  */
 export async function preCacheGeocodes(addresses: string[]): Promise<void> {
+    await whenGeocodeCacheReady();
     const uniqueAddresses = [...new Set(addresses)];
-    const addressesToFetch = uniqueAddresses.filter(address => !geocodeCache.has(address));
+    const addressesToFetch = uniqueAddresses.filter(address => needsGeocode(address));
 
     if (addressesToFetch.length === 0) {
         return;
@@ -238,42 +241,84 @@ export async function preCacheGeocodes(addresses: string[]): Promise<void> {
     
     for (const address of addressesToFetch) {
         // Check cache again in case another process geocoded it
-        if (!geocodeCache.has(address)) {
-            await sleep(1000); // Respect Nominatim's usage policy
-            const result = await geocodeSingleAddressAPI(address);
-            geocodeCache.set(address, result);
-            saveCacheToStorage(); // Save after every new fetch
+        if (needsGeocode(address)) {
+            await sleep(activeGeocoder.minRequestIntervalMs); // Respect the provider's usage policy
+            storeGeocode(address, await geocodeSingleAddressAPI(address));
         }
     }
     console.log(`[GeoCache] Finished pre-caching.`);
 }
 
+/**
+ * Returns an offline centroid estimate for an address, preferring ZIP codes
+ * that were already geocoded precisely (rep home ZIPs are cached this way).
+ */
+export function estimateAddress(address: string, hints: LocationHints = {}): GeocodeResult | null {
+    const estimate = estimateLocation(address, hints, zip => lookupGeocode(zipCacheKey(zip))?.coordinates);
+    if (!estimate) return null;
+    return { coordinates: estimate.coordinates, error: `Estimated location (${estimate.label})`, isEstimated: true, estimateSource: estimate.source };
+}
+
+/**
+ * Returns precise coordinates (or a manual override) only if the address is already in the cache.
+ */
+export function getCachedCoordinates(address: string): Coordinates | null {
+    return lookupGeocode(address)?.coordinates ?? null;
+}
+
+/**
+ * Resolves addresses without waiting on the network: precise cached results where
+ * available, otherwise an offline centroid estimate from the address and its city/ZIP
+ * fields (jobs keep only the street in `address`). Addresses that still need
+ * precise geocoding are listed in `pending` so the caller can refine them with
+ * preCacheGeocodes in the background.
+ */
+export function geocodeAddressesNow(locations: ({ address: string } & LocationHints)[]): { results: GeocodeResult[]; pending: string[] } {
+    const pending = new Set<string>();
+    const results = locations.map(({ address, ...hints }) => {
+        const cached = lookupGeocode(address);
+        if (needsGeocode(address)) pending.add(address);
+        if (cached?.coordinates) return cached;
+        const estimate = estimateAddress(address, hints);
+        if (estimate) return estimate;
+        return cached ?? { coordinates: null, error: 'Not geocoded yet' };
+    });
+    return { results, pending: Array.from(pending) };
+}
+
 /**
  * Geocodes a list of addresses. It first checks a cache for existing coordinates.
- * For any addresses not in the cache, it calls the Nominatim API with a delay
- * to comply with the usage policy (max 1 request per second).
+ * For any addresses not in the cache (or due for a refresh or retry), it calls the active geocoder with a delay
+ * to comply with its usage policy (public Nominatim: max 1 request per second).
  * This version returns a result object with coordinates or an error, preserving order.
  * @param addresses An array of street addresses.
  * @returns A promise that resolves to an array of `GeocodeResult` objects.
  */
 export async function geocodeAddresses(addresses: string[]): Promise<GeocodeResult[]> {
-    const uniqueAddressesToFetch = [...new Set(addresses)].filter(addr => !geocodeCache.has(addr));
+    await whenGeocodeCacheReady();
+    const uniqueAddressesToFetch = [...new Set(addresses)].filter(addr => needsGeocode(addr));
+    let unavailableError: string | null = null;
 
     // Fetch any addresses that were not in the cache sequentially
     if (uniqueAddressesToFetch.length > 0) {
         for (const address of uniqueAddressesToFetch) {
             // Re-check cache in case a parallel pre-cache process is running
-            if (geocodeCache.has(address)) continue;
+            if (!needsGeocode(address)) continue;
             
-            await sleep(1000); // Respect Nominatim's usage policy of max 1 request/sec
-            const result = await geocodeSingleAddressAPI(address);
-            geocodeCache.set(address, result); // Cache the result (even if null)
-            saveCacheToStorage(); // Save after every new fetch
+            await sleep(activeGeocoder.minRequestIntervalMs); // Respect the provider's usage policy (public Nominatim: max 1 request/sec)
+            try {
+                storeGeocode(address, await geocodeSingleAddressAPI(address)); // Cache the result (even if not found)
+            } catch (error) {
+                // The geocoder is unreachable or rate limiting us. Nothing is cached, so the
+                // remaining addresses are retried next time instead of being marked not found.
+                unavailableError = `Geocoder unavailable: ${error instanceof Error ? error.message : 'request failed'}`;
+                break;
+            }
         }
     }
     
     // Now that the cache is populated, map over the original addresses to preserve order.
-    return addresses.map(address => geocodeCache.get(address) ?? { coordinates: null, error: 'Internal cache failure' });
+    return addresses.map(address => lookupGeocode(address) ?? { coordinates: null, error: unavailableError ?? 'Internal cache failure' });
 }
 
 
@@ -286,7 +331,7 @@ export async function fetchRoute(coordinates: Coordinates[]): Promise<RouteInfo
     if (coordinates.length < 2) return null;
 
     const coordinatesString = coordinates.map(c => `${c.lon},${c.lat}`).join(';');
-    const url = `https://router.project-osrm.org/route/v1/driving/${coordinatesString}?overview=full&geometries=geojson`;
+    const url = `${getOsrmBaseUrl()}/route/v1/driving/${coordinatesString}?overview=full&geometries=geojson`;
 
     try {
         const response = await fetch(url);
@@ -0,0 +1,34 @@
+import { ProviderSettings } from '../types';
+import { SHEETS_API_BASE_URL } from '../constants';
+import { PUBLIC_OSRM_URL } from './travelTime';
+
+// The geocoder, routing server, Sheets API and language model. They describe this browser's setup,
+// not a day's plan, so they are kept in localStorage rather than in the per-day settings:
+// switching days or undoing never swaps a provider (which would clear the geocode cache).
+
+const PROVIDER_SETTINGS_STORAGE_KEY = 'provider-settings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    geocoder: { provider: 'nominatim' },
+    routingBaseUrl: PUBLIC_OSRM_URL,
+    sheetsApiBaseUrl: SHEETS_API_BASE_URL,
+    llm: { provider: 'gemini' },
+};
+
+export function loadProviderSettings(): ProviderSettings {
+    try {
+        const saved = localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY);
+        if (saved) return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) };
+    } catch (e) {
+        console.warn("Failed to load provider settings from localStorage");
+    }
+    return DEFAULT_PROVIDER_SETTINGS;
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+    try {
+        localStorage.setItem(PROVIDER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Failed to save provider settings to localStorage");
+    }
+}
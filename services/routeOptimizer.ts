@@ -0,0 +1,254 @@
+import { DisplayJob, TimeSlot } from '../types';
+import { APPOINTMENT_DURATION_MINUTES } from '../constants';
+import type { Coordinates } from './osmService';
+import { DriveTimeLookup, getDriveMinutes, getDriveMiles } from './travelTime';
+import { TimeWindow, parseTimeWindow, getSlotWindow } from './timeSlots';
+
+// Single-rep route optimizer. A route starts and ends at the rep's home ZIP and
+// visits every job once. Each job must be reached inside its customer window
+// (parsed from originalTimeframe) and inside the time slot it is booked into;
+// slots are filled in order and never exceed their capacity. The visiting order
+// is improved with 2-opt and Or-opt moves on total drive minutes. Pinned jobs
+// (confirmed or finished) are fixed stops: each stays in its booked slot and is
+// visited when the route reaches that slot.
+
+export interface PlannedStop {
+    job: DisplayJob;
+    slotId: string;
+    arrivalMinutes: number;
+    driveMinutes: number; // From the previous stop (or home)
+    driveMiles: number;
+}
+
+export interface RoutePlan {
+    stops: PlannedStop[];
+    unplacedJobs: DisplayJob[]; // Jobs that fit no window/slot in this order
+    totalMinutes: number; // Driving only, home to home
+    totalMiles: number;
+}
+
+export interface RouteTotals {
+    totalMinutes: number;
+    totalMiles: number;
+}
+
+// An optimized route waiting for the dispatcher to accept it.
+export interface RouteOptimizationPreview {
+    repId: string;
+    repName: string;
+    dateKey: string;
+    current: RouteTotals; // Current order over the plan's stops only, so unplaced jobs do not count as savings
+    plan: RoutePlan;
+}
+
+export interface RouteOptimizerInput {
+    jobs: DisplayJob[]; // The jobs to order and slot
+    pinnedStops?: { job: DisplayJob; slotId: string }[]; // Visited in their own slot, never moved
+    home: Coordinates | null;
+    slots: TimeSlot[];
+    unavailableSlotIds: string[];
+    slotCapacity: number;
+    getCoordinates: (address: string) => Coordinates | null;
+    getDriveMinutes?: DriveTimeLookup;
+    getDriveMiles?: DriveTimeLookup;
+    getAppointmentMinutes?: (job: DisplayJob) => number; // Defaults to APPOINTMENT_DURATION_MINUTES
+}
+
+// An unplaced job costs far more than any realistic detour.
+const UNPLACED_PENALTY_MINUTES = 10000;
+const MAX_IMPROVEMENT_PASSES = 50;
+const MAX_OR_OPT_SEGMENT = 3;
+
+const getSlotWindows = (slots: TimeSlot[]): (TimeWindow | null)[] => slots.map(getSlotWindow);
+
+interface RouteCursor {
+    position: Coordinates | null;
+    readyAt: number;
+    totalMinutes: number;
+    totalMiles: number;
+}
+
+/**
+ * Walks the jobs in the given order, booking each into the earliest slot (at or
+ * after the previous job's slot) where it can be reached inside both windows.
+ * Pinned stops are visited, late or not, before the first job placed after their slot starts.
+ */
+export function evaluateRoute(order: DisplayJob[], input: RouteOptimizerInput): RoutePlan {
+    const minutesLookup = input.getDriveMinutes || getDriveMinutes;
+    const milesLookup = input.getDriveMiles || getDriveMiles;
+    const slotWindows = getSlotWindows(input.slots);
+    const slotCounts = input.slots.map(() => 0);
+    const pinnedBySlot = input.slots.map(slot => (input.pinnedStops || []).filter(stop => stop.slotId === slot.id).map(stop => stop.job));
+    pinnedBySlot.forEach((jobs, s) => { slotCounts[s] += jobs.length; });
+
+    const stops: PlannedStop[] = [];
+    const unplacedJobs: DisplayJob[] = [];
+    // The rep leaves home in time for the first stop.
+    let cursor: RouteCursor = { position: input.home, readyAt: -Infinity, totalMinutes: 0, totalMiles: 0 };
+    let slotIndex = 0;
+    let pinnedVisitedThrough = -1; // Last slot whose pinned stops are in the route
+
+    // Drives from the cursor to the job and books it at the arrival time earliestFor gives.
+    const visit = (from: RouteCursor, job: DisplayJob, slotId: string, visited: PlannedStop[], earliestFor: (reachedAt: number) => number): RouteCursor => {
+        const coord = input.getCoordinates(job.address);
+        const driveMinutes = from.position && coord ? minutesLookup(from.position, coord) : 0;
+        const driveMiles = from.position && coord ? milesLookup(from.position, coord) : 0;
+        const arrivalMinutes = earliestFor(from.readyAt + driveMinutes);
+        visited.push({ job, slotId, arrivalMinutes, driveMinutes, driveMiles });
+        return {
+            position: coord || from.position,
+            readyAt: arrivalMinutes + (input.getAppointmentMinutes?.(job) ?? APPOINTMENT_DURATION_MINUTES),
+            totalMinutes: from.totalMinutes + driveMinutes,
+            totalMiles: from.totalMiles + driveMiles,
+        };
+    };
+
+    const visitPinnedThrough = (from: RouteCursor, lastSlot: number, visited: PlannedStop[]): RouteCursor => {
+        let next = from;
+        for (let s = pinnedVisitedThrough + 1; s <= lastSlot; s++) {
+            const slotStart = slotWindows[s]?.start ?? -Infinity;
+            for (const job of pinnedBySlot[s]) {
+                const jobStart = parseTimeWindow(job.originalTimeframe)?.start ?? -Infinity;
+                next = visit(next, job, input.slots[s].id, visited, reachedAt => Math.max(reachedAt, slotStart, jobStart));
+            }
+        }
+        return next;
+    };
+
+    for (const job of order) {
+        const jobWindow = parseTimeWindow(job.originalTimeframe);
+
+        let placed = false;
+        for (let s = slotIndex; s < input.slots.length; s++) {
+            const slotWindow = slotWindows[s];
+            if (!slotWindow || slotCounts[s] >= input.slotCapacity || input.unavailableSlotIds.includes(input.slots[s].id)) continue;
+            const visited: PlannedStop[] = [];
+            const beforeJob = visitPinnedThrough(cursor, s, visited);
+            const afterJob = visit(beforeJob, job, input.slots[s].id, visited, reachedAt => Math.max(reachedAt, slotWindow.start, jobWindow?.start ?? -Infinity));
+            const earliest = visited[visited.length - 1].arrivalMinutes;
+            const latest = Math.min(slotWindow.end, jobWindow?.end ?? Infinity);
+            // A slot's end belongs to the next slot ("10am - 1pm" then "1pm - 4pm").
+            if (earliest > latest || earliest >= slotWindow.end) continue;
+
+            stops.push(...visited);
+            slotCounts[s]++;
+            slotIndex = s;
+            pinnedVisitedThrough = Math.max(pinnedVisitedThrough, s);
+            cursor = afterJob;
+            placed = true;
+            break;
+        }
+        if (!placed) unplacedJobs.push(job);
+    }
+    cursor = visitPinnedThrough(cursor, input.slots.length - 1, stops);
+    const { position } = cursor;
+    let { totalMinutes, totalMiles } = cursor;
+
+    if (position && input.home && stops.length > 0) {
+        totalMinutes += minutesLookup(position, input.home);
+        totalMiles += milesLookup(position, input.home);
+    }
+
+    return { stops, unplacedJobs, totalMinutes, totalMiles };
+}
+
+/**
+ * Home-to-home drive totals for jobs visited in the given order, ignoring windows.
+ */
+export function measureRoute(order: DisplayJob[], input: RouteOptimizerInput): RouteTotals {
+    const minutesLookup = input.getDriveMinutes || getDriveMinutes;
+    const milesLookup = input.getDriveMiles || getDriveMiles;
+    const points = [input.home, ...order.map(job => input.getCoordinates(job.address)), input.home]
+        .filter((c): c is Coordinates => !!c);
+    let totalMinutes = 0;
+    let totalMiles = 0;
+    for (let i = 1; i < points.length; i++) {
+        totalMinutes += minutesLookup(points[i - 1], points[i]);
+        totalMiles += milesLookup(points[i - 1], points[i]);
+    }
+    return { totalMinutes, totalMiles };
+}
+
+const routeCost = (plan: RoutePlan) => plan.totalMinutes + plan.unplacedJobs.length * UNPLACED_PENALTY_MINUTES;
+
+/**
+ * Nearest-neighbour order from home, used as one of the starting solutions.
+ */
+function nearestNeighbourOrder(input: RouteOptimizerInput): DisplayJob[] {
+    const minutesLookup = input.getDriveMinutes || getDriveMinutes;
+    const remaining = [...input.jobs];
+    const order: DisplayJob[] = [];
+    let position = input.home;
+    while (remaining.length > 0) {
+        let bestIndex = 0;
+        if (position) {
+            let bestMinutes = Infinity;
+            remaining.forEach((job, i) => {
+                const coord = input.getCoordinates(job.address);
+                const minutes = coord ? minutesLookup(position!, coord) : Infinity;
+                if (minutes < bestMinutes) { bestMinutes = minutes; bestIndex = i; }
+            });
+        }
+        const [next] = remaining.splice(bestIndex, 1);
+        order.push(next);
+        position = input.getCoordinates(next.address) || position;
+    }
+    return order;
+}
+
+/**
+ * Finds a low-cost visiting order. Starts from the better of window order and
+ * nearest-neighbour order, then applies 2-opt reversals and Or-opt segment moves
+ * until neither improves the route.
+ */
+export function optimizeRoute(input: RouteOptimizerInput): RoutePlan {
+    const windowStart = (job: DisplayJob) => parseTimeWindow(job.originalTimeframe)?.start ?? Infinity;
+    const byWindow = [...input.jobs].sort((a, b) => windowStart(a) - windowStart(b));
+    const candidates = [byWindow, nearestNeighbourOrder(input)];
+
+    let bestOrder = candidates[0];
+    let bestCost = routeCost(evaluateRoute(bestOrder, input));
+    candidates.slice(1).forEach(order => {
+        const cost = routeCost(evaluateRoute(order, input));
+        if (cost < bestCost) { bestOrder = order; bestCost = cost; }
+    });
+
+    const tryOrder = (order: DisplayJob[]): boolean => {
+        const cost = routeCost(evaluateRoute(order, input));
+        if (cost < bestCost - 1e-6) {
+            bestOrder = order;
+            bestCost = cost;
+            return true;
+        }
+        return false;
+    };
+
+    const n = bestOrder.length;
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+        let improved = false;
+
+        // 2-opt: reverse the segment i..j.
+        for (let i = 0; i < n - 1 && !improved; i++) {
+            for (let j = i + 1; j < n && !improved; j++) {
+                const order = [...bestOrder.slice(0, i), ...bestOrder.slice(i, j + 1).reverse(), ...bestOrder.slice(j + 1)];
+                improved = tryOrder(order);
+            }
+        }
+
+        // Or-opt: move a segment of 1-3 jobs to another position.
+        for (let length = 1; length <= MAX_OR_OPT_SEGMENT && !improved; length++) {
+            for (let i = 0; i + length <= n && !improved; i++) {
+                const segment = bestOrder.slice(i, i + length);
+                const rest = [...bestOrder.slice(0, i), ...bestOrder.slice(i + length)];
+                for (let k = 0; k <= rest.length && !improved; k++) {
+                    if (k === i) continue;
+                    improved = tryOrder([...rest.slice(0, k), ...segment, ...rest.slice(k)]);
+                }
+            }
+        }
+
+        if (!improved) break;
+    }
+
+    return evaluateRoute(bestOrder, input);
+}
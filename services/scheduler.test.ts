@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, Job, Rep, Settings } from '../types';
+import { TIME_SLOTS } from '../constants';
+import { SchedulerContext, autoAssignJobs, explainUnassignedJob, repairAssignments, validateProposedAssignments } from './scheduler';
+
+// Only the rules the scheduler reads.
+const SETTINGS = {
+    allowDoubleBooking: false,
+    maxJobsPerSlot: 2,
+    allowAssignOutsideAvailability: false,
+    maxJobsPerRep: 4,
+    minJobsPerRep: 3,
+    maxCitiesPerRep: 3,
+    unavailabilityPenalty: 1.2,
+    strictTimeSlotMatching: true,
+    maxTravelTimeMinutes: 75,
+    scoringWeights: { distanceBase: 1.0, distanceCluster: 3.0, skillRoofing: 1.0, skillType: 1.5, performance: 1.5 },
+    allowRegionalRepsInPhoenix: false,
+    timeSlots: TIME_SLOTS,
+} as Settings;
+
+// No coordinates are known, so drive-time limits never reject a rep.
+const CONTEXT: SchedulerContext = { dayName: 'Tuesday', getCoordinates: () => undefined };
+
+const rep = (id: string, overrides: Partial<Rep> = {}): Rep => ({
+    id,
+    name: `Rep ${id}`,
+    availability: '',
+    region: 'PHX',
+    schedule: TIME_SLOTS.map(slot => ({ ...slot, jobs: [] })),
+    ...overrides,
+});
+
+const job = (id: string, overrides: Partial<Job> = {}): Job => ({
+    id,
+    customerName: '',
+    address: `${id} E Main St`,
+    city: 'Mesa',
+    notes: '',
+    originalTimeframe: '7:30am - 10am',
+    ...overrides,
+});
+
+const dayState = (reps: Rep[], unassignedJobs: Job[], settings: Partial<Settings> = {}): AppState => ({
+    reps,
+    unassignedJobs,
+    settings: { ...SETTINGS, ...settings },
+});
+
+const placements = (state: AppState) => state.reps.flatMap(r => r.schedule.flatMap(s => s.jobs.map(j => [j.id, r.id, s.id])));
+
+describe('autoAssignJobs', () => {
+    it('fills each slot only up to its capacity and explains the job left over', () => {
+        const state = dayState([rep('a'), rep('b')], [job('j1'), job('j2'), job('j3')]);
+        const { state: result, assignments, explanations } = autoAssignJobs(state, CONTEXT);
+
+        expect(assignments.map(a => [a.jobId, a.repId, a.slotId])).toEqual([['j1', 'a', 'ts-1'], ['j2', 'b', 'ts-1']]);
+        expect(result.unassignedJobs.map(j => j.id)).toEqual(['j3']);
+        expect(explanations?.[0].rejections.map(r => r.reason)).toEqual(['slotCapacity', 'slotCapacity']);
+        expect(explanations?.[0].suggestion).toEqual({ label: 'Turn on "Allow Double Booking"', unlocksRepNames: ['Rep a', 'Rep b'] });
+    });
+
+    it('double books a slot when allowed', () => {
+        const state = dayState([rep('a')], [job('j1'), job('j2'), job('j3')], { allowDoubleBooking: true, maxJobsPerSlot: 2 });
+        const { state: result } = autoAssignJobs(state, CONTEXT);
+
+        expect(placements(result)).toEqual([['j1', 'a', 'ts-1'], ['j2', 'a', 'ts-1']]);
+        expect(result.unassignedJobs.map(j => j.id)).toEqual(['j3']);
+    });
+
+    it('stops at maxJobsPerRep', () => {
+        const jobs = ['7:30am - 10am', '10am - 1pm', '1pm - 4pm'].map((timeframe, i) => job(`j${i + 1}`, { originalTimeframe: timeframe }));
+        const { state: result } = autoAssignJobs(dayState([rep('a')], jobs, { maxJobsPerRep: 2 }), CONTEXT);
+
+        expect(placements(result)).toEqual([['j1', 'a', 'ts-1'], ['j2', 'a', 'ts-2']]);
+        expect(result.unassignedJobs.map(j => j.id)).toEqual(['j3']);
+    });
+
+    it('leaves locked and optimized reps alone', () => {
+        const locked = rep('a', { isLocked: true });
+        const optimized = rep('b', { isOptimized: true });
+        const { state: result } = autoAssignJobs(dayState([locked, optimized, rep('c')], [job('j1')]), CONTEXT);
+
+        expect(placements(result)).toEqual([['j1', 'c', 'ts-1']]);
+    });
+
+    it('skips slots the rep is unavailable for', () => {
+        const busy = rep('a', { unavailableSlots: { Tuesday: ['ts-1'] } });
+        const { state: result } = autoAssignJobs(dayState([busy, rep('b')], [job('j1')]), CONTEXT);
+
+        expect(placements(result)).toEqual([['j1', 'b', 'ts-1']]);
+    });
+
+    it('does not change the state it was given', () => {
+        const state = dayState([rep('a')], [job('j1')]);
+        const before = JSON.stringify(state);
+        autoAssignJobs(state, CONTEXT);
+
+        expect(JSON.stringify(state)).toBe(before);
+    });
+});
+
+describe('validateProposedAssignments', () => {
+    it('keeps the proposals that pass the hard rules and reports the rest', () => {
+        const busy = rep('busy', { unavailableSlots: { Tuesday: ['ts-1'] } });
+        const state = dayState([rep('a'), rep('locked', { isLocked: true }), busy], [
+            job('j1'), job('j2'), job('j3'), job('j4'), job('j5'), job('j6', { originalTimeframe: '1pm - 4pm' }),
+        ]);
+        const { state: result, assignments, rejected } = validateProposedAssignments(state, [
+            { jobId: 'j1', repId: 'a', slotId: 'ts-1' },
+            { jobId: 'j1', repId: 'a', slotId: 'ts-1' },
+            { jobId: 'j2', repId: 'a', slotId: 'ts-1' },
+            { jobId: 'j3', repId: 'locked', slotId: 'ts-1' },
+            { jobId: 'j4', repId: 'busy', slotId: 'ts-1' },
+            { jobId: 'j5', repId: 'a', slotId: 'ts-9' },
+            { jobId: 'j6', repId: 'a', slotId: 'ts-2' },
+        ], CONTEXT);
+
+        expect(assignments.map(a => [a.jobId, a.repId, a.slotId])).toEqual([['j1', 'a', 'ts-1']]);
+        expect(rejected.map(r => [r.proposal.jobId, r.violation])).toEqual([
+            ['j1', 'Job was proposed more than once'],
+            ['j2', 'The 7:30am - 10am slot is full'],
+            ['j3', 'Schedule is locked'],
+            ['j4', 'Unavailable 7:30am - 10am'],
+            ['j5', 'Unknown slot "ts-9"'],
+            ['j6', '"1pm - 4pm" belongs in ts-3, not ts-2'],
+        ]);
+        expect(result.unassignedJobs.map(j => j.id)).toEqual(['j2', 'j3', 'j4', 'j5', 'j6']);
+    });
+
+    it('rejects jobs that are not schedulable', () => {
+        const state = dayState([rep('a')], [job('j1', { status: 'cancelled' })]);
+        const { assignments, rejected } = validateProposedAssignments(state, [{ jobId: 'j1', repId: 'a', slotId: 'ts-1' }], CONTEXT);
+
+        expect(assignments).toEqual([]);
+        expect(rejected.map(r => r.violation)).toEqual(['Job is cancelled']);
+    });
+});
+
+describe('repairAssignments', () => {
+    it('assigns only the given jobs and keeps the rest of the pool', () => {
+        const state = dayState([rep('a')], [job('j1'), job('j2', { originalTimeframe: '10am - 1pm' })]);
+        const { state: result, assignments } = repairAssignments(state, ['j2'], CONTEXT);
+
+        expect(assignments.map(a => [a.jobId, a.repId, a.slotId])).toEqual([['j2', 'a', 'ts-2']]);
+        expect(result.unassignedJobs.map(j => j.id)).toEqual(['j1']);
+    });
+});
+
+describe('explainUnassignedJob', () => {
+    it('gives the first blocking rule for every rep', () => {
+        const full = rep('full');
+        full.schedule[1].jobs.push(job('booked', { originalTimeframe: '10am - 1pm' }));
+        const state = dayState([
+            rep('locked', { isLocked: true }),
+            rep('south', { region: 'SOUTH' }),
+            full,
+            rep('busy', { unavailableSlots: { Tuesday: ['ts-1'] } }),
+        ], [], { maxJobsPerRep: 1 });
+
+        const { rejections } = explainUnassignedJob(job('j1'), state, CONTEXT);
+        expect(rejections.map(r => [r.repId, r.reason, r.detail])).toEqual([
+            ['locked', 'locked', 'Schedule is locked'],
+            ['south', 'region', 'Mesa is outside the SOUTH region'],
+            ['full', 'maxJobs', 'Already has 1 of 1 jobs'],
+            ['busy', 'unavailable', 'Unavailable 7:30am - 10am'],
+        ]);
+    });
+
+    it('suggests the change that unlocks the most reps', () => {
+        const state = dayState([rep('south1', { region: 'SOUTH' }), rep('south2', { region: 'SOUTH' }), rep('locked', { isLocked: true })], []);
+
+        const { suggestion } = explainUnassignedJob(job('j1'), state, CONTEXT);
+        expect(suggestion).toEqual({ label: 'Turn on "Allow Regional Reps in Phoenix"', unlocksRepNames: ['Rep south1', 'Rep south2'] });
+    });
+
+    it('suggests a rep-level fix when only one rep is blocked', () => {
+        const state = dayState([rep('a', { isLocked: true })], []);
+
+        const { suggestion } = explainUnassignedJob(job('j1'), state, CONTEXT);
+        expect(suggestion).toEqual({ label: 'Unlock Rep a', unlocksRepNames: ['Rep a'] });
+    });
+
+    it('lists no rejections when a rep could take the job', () => {
+        const { rejections, suggestion } = explainUnassignedJob(job('j1'), dayState([rep('a')], []), CONTEXT);
+        expect(rejections).toEqual([]);
+        expect(suggestion).toBeNull();
+    });
+});
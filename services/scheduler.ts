@@ -0,0 +1,809 @@
+import { Rep, Job, AppState, DisplayJob, Settings, ScoreBreakdown, TerritoryRule } from '../types';
+import { DEFAULT_REP_TERRITORIES } from '../constants';
+import { mapTimeframeToSlotId } from './timeSlots';
+import { getJobAttributes } from './jobAttributes';
+import { getCustomerName, getJobLabel } from './customerContact';
+import { getJobStatus, isJobSchedulable, JOB_STATUS_LABELS } from './jobStatus';
+import { ARIZONA_CITY_ADJACENCY, GREATER_PHOENIX_CITIES, NORTHERN_AZ_CITIES, SOUTHERN_AZ_CITIES, EAST_TO_WEST_CITIES, WEST_VALLEY_CITIES, EAST_VALLEY_CITIES } from './geography';
+import { Coordinates } from './osmService';
+import { LocationHints } from './centroidGeocoder';
+import { DriveTimeLookup, estimateDriveMinutes } from './travelTime';
+
+// This file contains the assignment engine for the Rep Route Planner.
+// Everything here is pure: it takes an AppState and returns a new one, so it can run
+// from the React context, a web worker, a test, or a command-line tool against saved day files.
+
+/**
+ * Resolves an address to coordinates if they are already known. Jobs pass themselves
+ * as hints, since their city and ZIP are kept apart from the street address.
+ * The engine never geocodes on its own; callers decide where coordinates come from.
+ */
+export type CoordinateLookup = (address: string, hints?: LocationHints) => Coordinates | undefined;
+
+export interface SchedulerContext {
+    dayName: string; // e.g. "Monday", used to look up rep.unavailableSlots
+    getCoordinates: CoordinateLookup;
+    getDriveMinutes?: DriveTimeLookup; // Defaults to a straight-line estimate
+}
+
+export interface ProposedAssignment {
+    jobId: string;
+    repId: string;
+    slotId: string;
+    score: number;
+    breakdown: ScoreBreakdown;
+}
+
+export interface SchedulerResult {
+    state: AppState;
+    assignments: ProposedAssignment[];
+    explanations?: UnassignedJobExplanation[]; // One per job left unassigned
+}
+
+export type RejectionReason = 'locked' | 'maxJobs' | 'region' | 'cityRule' | 'maxDriveTime' | 'slotCapacity' | 'timeSlotMismatch' | 'unavailable';
+
+export interface RepRejection {
+    repId: string;
+    repName: string;
+    reason: RejectionReason;
+    detail: string;
+}
+
+// A single change that would let at least one rep take the job.
+export interface UnlockSuggestion {
+    label: string;
+    unlocksRepNames: string[];
+}
+
+export interface UnassignedJobExplanation {
+    jobId: string;
+    rejections: RepRejection[]; // Every rep, with the first rule that rejected the job
+    suggestion: UnlockSuggestion | null;
+}
+
+// Added to a candidate's score while the rep is below minJobsPerRep, so coverage beats fit.
+export const MIN_TARGET_BONUS = 10000;
+
+// Helpers
+const norm = (city: string | null | undefined): string => (city || '').toLowerCase().trim();
+
+const cloneState = (state: AppState): AppState => JSON.parse(JSON.stringify(state)) as AppState;
+
+export const getHomeZipAddress = (rep: Rep): string | null => rep.zipCodes && rep.zipCodes.length > 0 ? `${rep.zipCodes[0]}, Arizona, USA` : null;
+
+/**
+ * Drive minutes from the rep's home base to the job, or null if either location is unknown.
+ */
+export const getHomeDriveMinutes = (job: Job, rep: Rep, context: SchedulerContext): number | null => {
+    const homeZipAddress = getHomeZipAddress(rep);
+    if (!homeZipAddress) return null;
+    const jobCoord = context.getCoordinates(job.address, job);
+    const homeCoord = context.getCoordinates(homeZipAddress);
+    if (!jobCoord || !homeCoord) return null;
+    return (context.getDriveMinutes || estimateDriveMinutes)(homeCoord, jobCoord);
+};
+
+/**
+ * Drive minutes from the nearest job already on the rep's schedule, or null if none can be located.
+ */
+export const getClusterDriveMinutes = (job: Job, rep: Rep, context: SchedulerContext): number | null => {
+    const jobCoord = context.getCoordinates(job.address, job);
+    if (!jobCoord) return null;
+    const lookup = context.getDriveMinutes || estimateDriveMinutes;
+    let nearest = Infinity;
+    rep.schedule.flatMap(s => s.jobs).forEach(existing => {
+        if (existing.id === job.id) return;
+        const existingCoord = context.getCoordinates(existing.address, existing);
+        if (existingCoord) nearest = Math.min(nearest, lookup(existingCoord, jobCoord));
+    });
+    return nearest === Infinity ? null : nearest;
+};
+
+/**
+ * Hard constraint for Settings.maxTravelTimeMinutes: the drive to the job from the
+ * rep's nearest booked job (or from home on an empty day) must not exceed the limit.
+ * Unknown locations never exceed it.
+ */
+export const exceedsMaxDriveTime = (job: Job, rep: Rep, settings: Settings, context: SchedulerContext): boolean => {
+    if (!settings.maxTravelTimeMinutes || settings.maxTravelTimeMinutes <= 0) return false;
+    const hasJobs = rep.schedule.some(s => s.jobs.length > 0);
+    const minutes = hasJobs ? getClusterDriveMinutes(job, rep, context) : getHomeDriveMinutes(job, rep, context);
+    return minutes !== null && minutes > settings.maxTravelTimeMinutes;
+};
+
+export const getCityRegion = (city: string | undefined | null): Rep['region'] | null => {
+    if (!city) return null;
+    const normalizedCity = city.toLowerCase().trim();
+    if (GREATER_PHOENIX_CITIES.has(normalizedCity)) return 'PHX';
+    if (NORTHERN_AZ_CITIES.has(normalizedCity)) return 'NORTH';
+    if (SOUTHERN_AZ_CITIES.has(normalizedCity)) return 'SOUTH';
+    return null;
+};
+
+export const isJobValidForRepRegion = (job: Job, rep: Rep, settings: Settings): boolean => {
+    const jobCity = norm(job.city);
+    if (!jobCity) return true;
+    const jobRegion = getCityRegion(jobCity);
+
+    // 1. Rep-specific territory rules (edited in Rep Settings)
+    const territory = rep.territory;
+    if (territory) {
+        if (territory.forbiddenCities?.includes(jobCity)) return false;
+        if (territory.allowedCities?.includes(jobCity)) return true;
+        // Allow in Phoenix only if explicit setting is ON
+        if (jobRegion === 'PHX' && territory.phoenixRequiresOverride) return settings.allowRegionalRepsInPhoenix;
+        if (territory.allowedRegions && territory.allowedRegions.length > 0) {
+            return !!jobRegion && jobRegion !== 'UNKNOWN' && territory.allowedRegions.includes(jobRegion);
+        }
+    }
+
+    // 2. General Regional Logic
+    if (jobRegion) {
+        if (rep.region === 'UNKNOWN' || rep.region === jobRegion) return true;
+        // Allow South Reps in PHX if setting is enabled (Only for generic South reps, not ones with their own territory)
+        if (settings.allowRegionalRepsInPhoenix && rep.region === 'SOUTH' && jobRegion === 'PHX') {
+            return true;
+        }
+        return false;
+    }
+    return true;
+};
+
+/**
+ * Whether a territory rule restricts anything. A cleared territory is kept as an empty
+ * rule so that applyTerritoryDefaults does not seed it again.
+ */
+export const hasTerritoryRules = (territory?: TerritoryRule): boolean =>
+    !!territory && (!!territory.allowedRegions?.length || !!territory.allowedCities?.length || !!territory.forbiddenCities?.length || !!territory.phoenixRequiresOverride);
+
+/**
+ * Gives each rep whose territory was never set the one it had on another loaded day,
+ * falling back to the seed rules in DEFAULT_REP_TERRITORIES. Reps with a territory
+ * field, including an empty (cleared) one, are left as they are.
+ * @param reps The freshly loaded reps.
+ * @param knownReps Reps from days that are already in the workspace.
+ */
+export function applyTerritoryDefaults<T extends Pick<Rep, 'name' | 'territory'>>(reps: T[], knownReps: Rep[] = []): T[] {
+    return reps.map(rep => {
+        if (rep.territory !== undefined) return rep;
+        const name = rep.name.trim().toLowerCase();
+        const known = knownReps.find(r => r.territory !== undefined && r.name.trim().toLowerCase() === name);
+        if (known) return { ...rep, territory: known.territory };
+        const seed = DEFAULT_REP_TERRITORIES.find(d => name.startsWith(d.namePrefix));
+        return seed ? { ...rep, territory: seed.territory } : rep;
+    });
+}
+
+export const checkCityRuleViolation = (rep: Rep, newJobCity: string | undefined | null, settings: Settings): { violated: boolean; cities: Set<string> } => {
+    const currentCitiesOriginalCase = new Set(rep.schedule.flatMap(s => s.jobs).map(j => j.city).filter((c): c is string => !!c));
+    const currentCitiesLowercase = new Set(Array.from(currentCitiesOriginalCase).map(c => c.toLowerCase()));
+
+    if (!newJobCity) return { violated: false, cities: currentCitiesOriginalCase };
+
+    const newJobCityLower = newJobCity.toLowerCase();
+
+    // If rep is already in this city, it's allowed
+    if (currentCitiesLowercase.has(newJobCityLower)) {
+        return { violated: false, cities: currentCitiesOriginalCase };
+    }
+
+    // 1. Check Max Cities Count
+    if (currentCitiesLowercase.size >= settings.maxCitiesPerRep) {
+        return { violated: true, cities: currentCitiesOriginalCase };
+    }
+
+    // 2. Check Adjacency (Strict Mode)
+    // If the rep already has cities, the new one MUST be adjacent to at least one of them.
+    if (currentCitiesLowercase.size > 0) {
+        const isAdjacent = Array.from(currentCitiesLowercase).some(existingCity => {
+            const neighbors = ARIZONA_CITY_ADJACENCY[existingCity] || [];
+            return neighbors.includes(newJobCityLower);
+        });
+
+        if (!isAdjacent) {
+            return { violated: true, cities: currentCitiesOriginalCase };
+        }
+    }
+
+    return { violated: false, cities: currentCitiesOriginalCase };
+};
+
+export const calculateAssignmentScore = (job: Job, rep: Rep, slotId: string, allSettings: Settings, context: SchedulerContext): { score: number, breakdown: ScoreBreakdown } => {
+    const { dayName } = context;
+    const overrides = rep.scoringOverrides || {};
+    const weights = { ...allSettings.scoringWeights, ...overrides };
+
+    if (!rep.zipCodes || rep.zipCodes.length === 0) {
+        weights.distanceBase = 0;
+    }
+
+    let distanceBaseScore = 0;
+    let distanceClusterScore = 0;
+    let skillRoofingScore = 0;
+    let skillTypeScore = 0;
+
+    const rank = rep.salesRank || 99;
+    let performanceScore = 0;
+    if (rank === 1) performanceScore = 100;
+    else if (rank === 2) performanceScore = 98;
+    else if (rank === 3) performanceScore = 95;
+    else if (rank <= 5) performanceScore = 90;
+    else if (rank <= 10) performanceScore = 80;
+    else if (rank <= 20) performanceScore = 60;
+    else performanceScore = Math.max(10, 60 - ((rank - 20) * 2));
+
+    const jobCity = norm(job.city);
+    const jobRegion = getCityRegion(jobCity);
+    const maxReasonableMinutes = jobRegion === 'PHX' ? 55 : 90; // Wide enough in PHX to allow East Valley coverage
+
+    const repHomeZips = new Set(rep.zipCodes || []);
+    const existingJobs = rep.schedule.flatMap(s => s.jobs);
+
+    const calculateDistanceScore = (minutes: number) => {
+        const clampedMinutes = Math.min(minutes, maxReasonableMinutes);
+        const percentage = 1 - (clampedMinutes / maxReasonableMinutes);
+        const score = Math.pow(percentage, 2) * 100;
+        return Math.max(1, Math.round(score));
+    };
+
+    // 1. DRIVE TIME FROM HOME
+    const homeMinutes = getHomeDriveMinutes(job, rep, context);
+
+    if (homeMinutes !== null) {
+        distanceBaseScore = calculateDistanceScore(homeMinutes);
+    } else {
+        if (job.zipCode && repHomeZips.has(job.zipCode)) distanceBaseScore = 100;
+        else if (isJobValidForRepRegion(job, rep, allSettings)) distanceBaseScore = 50;
+        else distanceBaseScore = 1;
+    }
+
+    // 2. DISTANCE TO CLUSTER
+    if (existingJobs.length > 0) {
+        // CRITICAL CHANGE: If jobs exist, the Home Base distance is IRRELEVANT.
+        // We must force the algorithm to prioritize proximity to existing commitments.
+        weights.distanceBase = 0;
+
+        const clusterMinutes = getClusterDriveMinutes(job, rep, context);
+
+        if (clusterMinutes !== null) {
+            // STEEPER DROP-OFF for drive time
+            if (clusterMinutes < 10) distanceClusterScore = 100;
+            else if (clusterMinutes < 20) distanceClusterScore = 90;
+            else if (clusterMinutes < 30) distanceClusterScore = 60; // Slightly relaxed for suburban spread
+            else if (clusterMinutes < 40) distanceClusterScore = 30;
+            else distanceClusterScore = 10; // > 40 minutes is bad
+        } else {
+            const repCities = new Set(existingJobs.map(j => norm(j.city)));
+            if (repCities.has(norm(job.city))) distanceClusterScore = 100;
+            else {
+                const isAdjacent = Array.from(repCities).some(city => (ARIZONA_CITY_ADJACENCY[city] || []).includes(norm(job.city)));
+                distanceClusterScore = isAdjacent ? 60 : 1;
+            }
+        }
+    } else {
+        // New Logic: If no existing jobs, rely on Home Score.
+        // If no Home Score (no zip), treat as 100 (clean slate/opportunity).
+        if (rep.zipCodes && rep.zipCodes.length > 0) {
+           distanceClusterScore = distanceBaseScore;
+        } else {
+           // No home, no jobs -> This is a fresh rep.
+           // Any job is a good start.
+           distanceClusterScore = 100;
+        }
+    }
+
+    // 3. SKILL MATCHING
+    const attributes = getJobAttributes(job);
+
+    const roofTags = attributes.roofTypes;
+    if (roofTags.length > 0) {
+        const totalSkill = roofTags.reduce((acc, tag) => acc + (rep.skills?.[tag] || 0), 0);
+        skillRoofingScore = Math.min(100, ((totalSkill / roofTags.length) / 3) * 100);
+    } else {
+        skillRoofingScore = 50;
+    }
+
+    // 4. TYPE MATCHING
+    const typeTags = attributes.jobTypes;
+    let isSpecialist = false;
+
+    if (typeTags.length > 0) {
+        const totalSkill = typeTags.reduce((acc, tag) => acc + (rep.skills?.[tag] || 0), 0);
+        skillTypeScore = Math.min(100, ((totalSkill / typeTags.length) / 3) * 100);
+
+        if (typeTags.some(tag => (rep.skills?.[tag] || 0) >= 3)) {
+            isSpecialist = true;
+        }
+    } else {
+        skillTypeScore = -1;
+        weights.skillType = 0;
+    }
+
+    // 5. PRIORITY
+    if (!attributes.isPriority) {
+        weights.performance = 0;
+    }
+
+    // 6. WEIGHTED AVERAGE
+    const totalWeight = weights.distanceBase + weights.distanceCluster + weights.skillRoofing + weights.skillType + weights.performance;
+
+    let weightedScore = 0;
+    if (totalWeight > 0) {
+        const effectiveTypeScore = skillTypeScore === -1 ? 0 : skillTypeScore;
+
+        weightedScore = (
+            (distanceBaseScore * weights.distanceBase) +
+            (distanceClusterScore * weights.distanceCluster) +
+            (skillRoofingScore * weights.skillRoofing) +
+            (effectiveTypeScore * weights.skillType) +
+            (performanceScore * weights.performance)
+        ) / totalWeight;
+    }
+
+    let penalty = 0;
+    const isUnavailable = (rep.unavailableSlots?.[dayName] || []).includes(slotId);
+    if (isUnavailable) {
+        // Penalty adjusted for multiplier scale (0-2.0).
+        // 1.6 * 50 = 80 points penalty.
+        penalty += (allSettings.unavailabilityPenalty * 50);
+    }
+
+    // --- ADJACENCY & VALLEY LOGIC ---
+    if (existingJobs.length > 0) {
+        const currentCities = new Set(existingJobs.map(j => norm(j.city)));
+        const targetCity = norm(job.city);
+
+        if (targetCity) {
+            // 1. Valley Split Firewall
+            // If the rep is already working in the East Valley, PUNISH West Valley jobs severely.
+            const hasWest = Array.from(currentCities).some(c => WEST_VALLEY_CITIES.has(c));
+            const hasEast = Array.from(currentCities).some(c => EAST_VALLEY_CITIES.has(c));
+
+            const isTargetWest = WEST_VALLEY_CITIES.has(targetCity);
+            const isTargetEast = EAST_VALLEY_CITIES.has(targetCity);
+
+            // If we are crossing the boundary, apply massive penalty
+            if ((hasWest && isTargetEast) || (hasEast && isTargetWest)) {
+                penalty += 60; // Huge deterrent
+            }
+
+            // 2. Basic Adjacency Check
+            let isConnected = false;
+            if (currentCities.has(targetCity)) isConnected = true;
+
+            if (!isConnected) {
+                for (const city of currentCities) {
+                    const neighbors = ARIZONA_CITY_ADJACENCY[city] || [];
+                    if (neighbors.includes(targetCity)) {
+                        isConnected = true;
+                        break;
+                    }
+                }
+            }
+
+            if (!isConnected) {
+                // Apply penalty for breaking the chain (non-adjacent city)
+                // Increased from 30 to 50 to prevent jumping
+                penalty += 50;
+            }
+        }
+    }
+
+    let finalScore = Math.max(1, Math.min(100, Math.round(weightedScore - penalty)));
+
+    if (isSpecialist) {
+        finalScore = Math.min(100, finalScore + 25);
+    }
+
+    return {
+        score: finalScore,
+        breakdown: {
+            distanceBase: distanceBaseScore,
+            distanceCluster: distanceClusterScore,
+            skillRoofing: skillRoofingScore,
+            skillType: skillTypeScore,
+            performance: attributes.isPriority ? performanceScore : 0,
+            penalty: penalty
+        }
+    };
+};
+
+/**
+ * Sorts jobs along the valley from east to west so that greedy passes build contiguous clusters.
+ */
+const sortJobsEastToWest = (jobs: Job[]): Job[] => {
+    const cityOrder = EAST_TO_WEST_CITIES.reduce((acc, city, index) => {
+        acc[city.toLowerCase()] = index;
+        return acc;
+    }, {} as Record<string, number>);
+
+    return [...jobs].sort((a, b) => {
+        const orderA = cityOrder[norm(a.city)] ?? 999;
+        const orderB = cityOrder[norm(b.city)] ?? 999;
+        return orderA - orderB;
+    });
+};
+
+/**
+ * Returns the slots of a rep that can legally take the job, ignoring region and city rules.
+ * Checks slot capacity, availability and (optionally) strict time slot matching.
+ */
+export const getOpenSlotsForJob = (job: Job, rep: Rep, settings: Settings, dayName: string) => {
+    const maxJobsInSlot = settings.allowDoubleBooking ? settings.maxJobsPerSlot : 1;
+    return rep.schedule.filter(slot => {
+        if (slot.jobs.length >= maxJobsInSlot) return false;
+
+        const isUnavailable = (rep.unavailableSlots?.[dayName] || []).includes(slot.id);
+        if (isUnavailable && !settings.allowAssignOutsideAvailability) return false;
+
+        if (settings.strictTimeSlotMatching) {
+            const requiredSlotId = mapTimeframeToSlotId(job.originalTimeframe || '', rep.schedule);
+            if (requiredSlotId && requiredSlotId !== slot.id) return false;
+        }
+        return true;
+    });
+};
+
+/**
+ * Returns the first rule that stops the rep from taking the job, checked in the same
+ * order as autoAssignJobs, or null if the rep could take it. With a slotId, only that
+ * slot is considered.
+ */
+export function findRejection(job: Job, rep: Rep, settings: Settings, context: SchedulerContext, slotId?: string): RepRejection | null {
+    const reject = (reason: RejectionReason, detail: string): RepRejection => ({ repId: rep.id, repName: rep.name, reason, detail });
+    const jobCount = rep.schedule.flatMap(s => s.jobs).length;
+
+    if (rep.isLocked) return reject('locked', 'Schedule is locked');
+    if (rep.isOptimized) return reject('locked', 'Route is optimized');
+    if (jobCount >= settings.maxJobsPerRep) return reject('maxJobs', `Already has ${jobCount} of ${settings.maxJobsPerRep} jobs`);
+    if (!isJobValidForRepRegion(job, rep, settings)) {
+        return reject('region', `${job.city || 'Job'} is outside ${hasTerritoryRules(rep.territory) ? 'their territory' : `the ${rep.region || 'rep'} region`}`);
+    }
+    const cityRule = checkCityRuleViolation(rep, job.city, settings);
+    if (cityRule.violated) {
+        const cities = Array.from(cityRule.cities).join(', ');
+        return reject('cityRule', cityRule.cities.size >= settings.maxCitiesPerRep
+            ? `Already in ${cityRule.cities.size} cities (${cities})`
+            : `${job.city} is not next to ${cities}`);
+    }
+    if (exceedsMaxDriveTime(job, rep, settings, context)) {
+        const minutes = jobCount > 0 ? getClusterDriveMinutes(job, rep, context) : getHomeDriveMinutes(job, rep, context);
+        return reject('maxDriveTime', `${Math.round(minutes || 0)} min drive (limit ${settings.maxTravelTimeMinutes})`);
+    }
+
+    const maxJobsInSlot = settings.allowDoubleBooking ? settings.maxJobsPerSlot : 1;
+    const unavailable = rep.unavailableSlots?.[context.dayName] || [];
+    const requiredSlotId = settings.strictTimeSlotMatching ? mapTimeframeToSlotId(job.originalTimeframe || '', rep.schedule) : null;
+    if (slotId && requiredSlotId && slotId !== requiredSlotId) return reject('timeSlotMismatch', `"${job.originalTimeframe}" belongs in ${requiredSlotId}, not ${slotId}`);
+    const candidateSlots = rep.schedule.filter(s => slotId ? s.id === slotId : !requiredSlotId || s.id === requiredSlotId);
+    if (candidateSlots.length === 0) return reject('timeSlotMismatch', slotId ? `No slot ${slotId}` : `No slot matches "${job.originalTimeframe}"`);
+    const slotsWithRoom = candidateSlots.filter(s => s.jobs.length < maxJobsInSlot);
+    if (slotsWithRoom.length === 0) {
+        return reject('slotCapacity', candidateSlots.length === 1 ? `The ${candidateSlots[0].label} slot is full` : 'Every slot is full');
+    }
+    if (!settings.allowAssignOutsideAvailability && slotsWithRoom.every(s => unavailable.includes(s.id))) {
+        return reject('unavailable', candidateSlots.length === 1 ? `Unavailable ${candidateSlots[0].label}` : 'Unavailable in every open slot');
+    }
+    return null;
+}
+
+/**
+ * Explains why a job is unassigned: the first blocking rule for every rep, plus the
+ * one settings change or rep change that would unlock the most reps.
+ */
+export function explainUnassignedJob(job: Job, state: AppState, context: SchedulerContext): UnassignedJobExplanation {
+    const { settings, reps } = state;
+    const rejections = reps
+        .map(rep => findRejection(job, rep, settings, context))
+        .filter((r): r is RepRejection => !!r);
+    const reasons = new Set(rejections.map(r => r.reason));
+
+    const candidates: { label: string; settings: Settings; reps: Rep[] }[] = [];
+    const withSettings = (label: string, updates: Partial<Settings>) => candidates.push({ label, settings: { ...settings, ...updates }, reps });
+    if (reasons.has('region') && !settings.allowRegionalRepsInPhoenix) withSettings('Turn on "Allow Regional Reps in Phoenix"', { allowRegionalRepsInPhoenix: true });
+    if (reasons.has('cityRule')) withSettings(`Raise Max Cities / Rep to ${settings.maxCitiesPerRep + 1}`, { maxCitiesPerRep: settings.maxCitiesPerRep + 1 });
+    if (reasons.has('maxJobs')) withSettings(`Raise Max Jobs / Rep to ${settings.maxJobsPerRep + 1}`, { maxJobsPerRep: settings.maxJobsPerRep + 1 });
+    if (reasons.has('slotCapacity')) {
+        if (settings.allowDoubleBooking) withSettings(`Raise max jobs per time slot to ${settings.maxJobsPerSlot + 1}`, { maxJobsPerSlot: settings.maxJobsPerSlot + 1 });
+        else withSettings('Turn on "Allow Double Booking"', { allowDoubleBooking: true });
+    }
+    if (reasons.has('timeSlotMismatch') || reasons.has('slotCapacity')) {
+        if (settings.strictTimeSlotMatching) withSettings('Turn off "Strict Time Slot Matching"', { strictTimeSlotMatching: false });
+    }
+    if (reasons.has('unavailable')) withSettings('Turn on "Override Rep Availability"', { allowAssignOutsideAvailability: true });
+    if (reasons.has('maxDriveTime')) {
+        const needed = rejections
+            .filter(r => r.reason === 'maxDriveTime')
+            .map(r => {
+                const rep = reps.find(x => x.id === r.repId)!;
+                const hasJobs = rep.schedule.some(s => s.jobs.length > 0);
+                return (hasJobs ? getClusterDriveMinutes(job, rep, context) : getHomeDriveMinutes(job, rep, context)) || 0;
+            });
+        const limit = Math.ceil(Math.min(...needed) / 5) * 5;
+        withSettings(`Raise Max Drive to ${limit} min`, { maxTravelTimeMinutes: limit });
+    }
+
+    // Rep-level fixes apply to one rep at a time.
+    rejections.forEach(r => {
+        const rep = reps.find(x => x.id === r.repId)!;
+        const withRep = (label: string, updated: Rep) => candidates.push({ label, settings, reps: [updated] });
+        if (r.reason === 'locked') withRep(rep.isLocked ? `Unlock ${rep.name}` : `Un-optimize ${rep.name}'s route`, { ...rep, isLocked: false, isOptimized: false });
+        if (r.reason === 'region' && job.city) {
+            const territory = rep.territory || {};
+            withRep(`Add ${job.city} to ${rep.name}'s allowed cities`, {
+                ...rep,
+                territory: {
+                    ...territory,
+                    allowedCities: [...(territory.allowedCities || []), norm(job.city)],
+                    forbiddenCities: territory.forbiddenCities?.filter(c => c !== norm(job.city)),
+                },
+            });
+        }
+    });
+
+    let suggestion: UnlockSuggestion | null = null;
+    candidates.forEach(candidate => {
+        const unlocksRepNames = candidate.reps
+            .filter(rep => !findRejection(job, rep, candidate.settings, context))
+            .map(rep => rep.name);
+        if (unlocksRepNames.length > 0 && (!suggestion || unlocksRepNames.length > suggestion.unlocksRepNames.length)) {
+            suggestion = { label: candidate.label, unlocksRepNames };
+        }
+    });
+
+    return { jobId: job.id, rejections, suggestion };
+}
+
+/**
+ * One-line tally of the reason that blocked the most reps for each job, e.g. "region: 2, slotCapacity: 1".
+ */
+export function summarizeRejections(explanations: UnassignedJobExplanation[]): string {
+    const tally = new Map<RejectionReason, number>();
+    explanations.forEach(({ rejections }) => {
+        const counts = new Map<RejectionReason, number>();
+        rejections.forEach(r => counts.set(r.reason, (counts.get(r.reason) || 0) + 1));
+        const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        if (top) tally.set(top[0], (tally.get(top[0]) || 0) + 1);
+    });
+    return Array.from(tally.entries()).map(([reason, count]) => `${reason}: ${count}`).join(', ') || 'no eligible reps';
+}
+
+// An assignment suggested from outside the engine (e.g. the AI assistant).
+export interface ExternalAssignment {
+    jobId: string;
+    repId: string;
+    slotId: string;
+    reason?: string; // The proposer's own justification
+}
+
+export interface RejectedAssignment {
+    proposal: ExternalAssignment;
+    jobLabel: string;
+    repName: string;
+    violation: string;
+}
+
+export interface ValidationResult extends SchedulerResult {
+    rejected: RejectedAssignment[];
+}
+
+/**
+ * Applies externally proposed assignments one at a time, keeping only those that pass
+ * the same hard rules as autoAssignJobs. Accepted jobs get real scores; everything
+ * else stays unassigned and is reported with the rule it broke.
+ * @param state The day state to assign. It is not mutated.
+ * @param proposals Assignments in the order they should be applied.
+ * @param context The day name and coordinate lookup used for scoring.
+ */
+export function validateProposedAssignments(state: AppState, proposals: ExternalAssignment[], context: SchedulerContext): ValidationResult {
+    const newState = cloneState(state);
+    const assignments: ProposedAssignment[] = [];
+    const rejected: RejectedAssignment[] = [];
+    const assignedJobIds = new Set<string>();
+
+    for (const proposal of proposals) {
+        const job = newState.unassignedJobs.find(j => j.id === proposal.jobId);
+        const rep = newState.reps.find(r => r.id === proposal.repId);
+        const reject = (violation: string) => rejected.push({
+            proposal,
+            jobLabel: job ? `${getJobLabel(job)}${job.city && getCustomerName(job) ? ` (${job.city})` : ''}` : proposal.jobId,
+            repName: rep?.name || proposal.repId,
+            violation,
+        });
+
+        if (!job) { reject(assignedJobIds.has(proposal.jobId) ? 'Job was proposed more than once' : 'Unknown or already assigned job'); continue; }
+        if (!rep) { reject('Unknown rep'); continue; }
+        if (!isJobSchedulable(job)) { reject(`Job is ${JOB_STATUS_LABELS[getJobStatus(job)].toLowerCase()}`); continue; }
+        if (!rep.schedule.some(s => s.id === proposal.slotId)) { reject(`Unknown slot "${proposal.slotId}"`); continue; }
+
+        const rejection = findRejection(job, rep, newState.settings, context, proposal.slotId);
+        if (rejection) { reject(rejection.detail); continue; }
+
+        const { score, breakdown } = calculateAssignmentScore(job, rep, proposal.slotId, newState.settings, context);
+        rep.schedule.find(s => s.id === proposal.slotId)!.jobs.push({ ...job, assignmentScore: score, scoreBreakdown: breakdown });
+        newState.unassignedJobs = newState.unassignedJobs.filter(j => j.id !== job.id);
+        assignedJobIds.add(job.id);
+        assignments.push({ jobId: job.id, repId: rep.id, slotId: proposal.slotId, score, breakdown });
+    }
+
+    return { state: newState, assignments, rejected };
+}
+
+/**
+ * Runs autoAssignJobs on just the given unassigned jobs, leaving the rest of the pool alone.
+ */
+export function repairAssignments(state: AppState, jobIds: string[], context: SchedulerContext): SchedulerResult {
+    const ids = new Set(jobIds);
+    const untouched = state.unassignedJobs.filter(j => !ids.has(j.id));
+    const result = autoAssignJobs({ ...state, unassignedJobs: state.unassignedJobs.filter(j => ids.has(j.id)) }, context);
+    return { ...result, state: { ...result.state, unassignedJobs: [...untouched, ...result.state.unassignedJobs] } };
+}
+
+/**
+ * Greedily assigns every unassigned job to the best-scoring unlocked rep.
+ * Reps under `minJobsPerRep` are strongly preferred so that the load is balanced.
+ * Cancelled, completed and no-show jobs are left unassigned.
+ * @param state The day state to assign. It is not mutated.
+ * @param context The day name and coordinate lookup used for scoring.
+ * @returns The new day state and the list of assignments that were made.
+ */
+export function autoAssignJobs(state: AppState, context: SchedulerContext): SchedulerResult {
+    const newState = cloneState(state);
+    const jobsToAssign = sortJobsEastToWest(newState.unassignedJobs.filter(isJobSchedulable));
+    const assignments: ProposedAssignment[] = [];
+    const explanations: UnassignedJobExplanation[] = [];
+    newState.unassignedJobs = newState.unassignedJobs.filter(job => !isJobSchedulable(job));
+
+    const availableReps = newState.reps.filter(r => !r.isLocked && !r.isOptimized);
+
+    for (const job of jobsToAssign) {
+        let bestAssignment: ProposedAssignment | null = null;
+
+        const eligibleReps = availableReps.filter(rep => rep.schedule.flatMap(s => s.jobs).length < newState.settings.maxJobsPerRep);
+
+        for (const rep of eligibleReps) {
+            if (!isJobValidForRepRegion(job, rep, newState.settings)) continue;
+
+            const { violated } = checkCityRuleViolation(rep, job.city, newState.settings);
+            if (violated) continue;
+
+            if (exceedsMaxDriveTime(job, rep, newState.settings, context)) continue;
+
+            const currentJobCount = rep.schedule.flatMap(s => s.jobs).length;
+            const isUnderMinTarget = currentJobCount < newState.settings.minJobsPerRep;
+
+            for (const slot of getOpenSlotsForJob(job, rep, newState.settings, context.dayName)) {
+                const { score, breakdown } = calculateAssignmentScore(job, rep, slot.id, newState.settings, context);
+
+                let finalScore = score;
+                if (isUnderMinTarget) {
+                    finalScore += MIN_TARGET_BONUS;
+                }
+
+                if (!bestAssignment || finalScore > bestAssignment.score) {
+                    bestAssignment = { jobId: job.id, repId: rep.id, slotId: slot.id, score: finalScore, breakdown };
+                }
+            }
+        }
+
+        if (bestAssignment) {
+            const targetRep = newState.reps.find(r => r.id === bestAssignment!.repId)!;
+            const targetSlot = targetRep.schedule.find(s => s.id === bestAssignment!.slotId)!;
+
+            const displayScore = bestAssignment.score > 1000 ? bestAssignment.score - MIN_TARGET_BONUS : bestAssignment.score;
+            const assignment = { ...bestAssignment, score: displayScore };
+
+            const jobWithScore: DisplayJob = { ...job, assignmentScore: displayScore, scoreBreakdown: assignment.breakdown };
+            targetSlot.jobs.push(jobWithScore);
+            assignments.push(assignment);
+        } else {
+            newState.unassignedJobs.push(job);
+            explanations.push(explainUnassignedJob(job, newState, context));
+        }
+    }
+
+    return { state: newState, assignments, explanations };
+}
+
+/**
+ * Fills a single rep's schedule from the unassigned pool, picking the best slot for each job.
+ * Locked or optimized reps are left untouched.
+ * @param state The day state to assign. It is not mutated.
+ * @param repId The rep to fill.
+ * @param context The day name and coordinate lookup used for scoring.
+ * @returns The new day state and the list of assignments that were made.
+ */
+export function autoAssignJobsForRep(state: AppState, repId: string, context: SchedulerContext): SchedulerResult {
+    const newState = cloneState(state);
+    const targetRep = newState.reps.find(r => r.id === repId);
+
+    if (!targetRep || targetRep.isLocked || targetRep.isOptimized) {
+        return { state: newState, assignments: [] };
+    }
+
+    const jobsToAssign = sortJobsEastToWest(newState.unassignedJobs.filter(isJobSchedulable));
+    const assignments: ProposedAssignment[] = [];
+    newState.unassignedJobs = newState.unassignedJobs.filter(job => !isJobSchedulable(job));
+
+    for (const job of jobsToAssign) {
+        let bestSlot: ProposedAssignment | null = null;
+
+        const totalJobsForRep = targetRep.schedule.flatMap(s => s.jobs).length;
+        if (totalJobsForRep >= newState.settings.maxJobsPerRep) {
+            newState.unassignedJobs.push(job);
+            continue;
+        }
+
+        if (!isJobValidForRepRegion(job, targetRep, newState.settings)) {
+             newState.unassignedJobs.push(job);
+             continue;
+        }
+
+        const cityViolation = checkCityRuleViolation(targetRep, job.city, newState.settings);
+        if (cityViolation.violated) {
+            newState.unassignedJobs.push(job);
+            continue;
+        }
+
+        if (exceedsMaxDriveTime(job, targetRep, newState.settings, context)) {
+            newState.unassignedJobs.push(job);
+            continue;
+        }
+
+        for (const slot of getOpenSlotsForJob(job, targetRep, newState.settings, context.dayName)) {
+            const { score, breakdown } = calculateAssignmentScore(job, targetRep, slot.id, newState.settings, context);
+
+            if (!bestSlot || score > bestSlot.score) {
+                bestSlot = { jobId: job.id, repId: targetRep.id, slotId: slot.id, score, breakdown };
+            }
+        }
+
+        if (bestSlot) {
+            const targetSlot = targetRep.schedule.find(s => s.id === bestSlot!.slotId)!;
+            targetSlot.jobs.push({ ...job, assignmentScore: bestSlot.score, scoreBreakdown: bestSlot.breakdown });
+            assignments.push(bestSlot);
+        } else {
+            newState.unassignedJobs.push(job);
+        }
+    }
+
+    newState.unassignedJobs.sort((a,b) => (a.city || '').localeCompare(b.city || ''));
+    return { state: newState, assignments };
+}
+
+/**
+ * Gives one job to each unlocked rep whose schedule is still empty, so nobody starts the day idle.
+ * Uses a flat placeholder score since the goal is coverage rather than fit.
+ * @param state The day state to distribute. It is not mutated.
+ * @param dayName The weekday name used to look up unavailable slots.
+ * @returns The new day state and the list of assignments that were made.
+ */
+export function distributeJobs(state: AppState, dayName: string): SchedulerResult {
+    const newState = cloneState(state);
+    const jobsToAssign = newState.unassignedJobs.filter(isJobSchedulable);
+    const heldJobs = newState.unassignedJobs.filter(job => !isJobSchedulable(job));
+    const assignments: ProposedAssignment[] = [];
+    const repsWithNoJobs = newState.reps.filter(rep => !rep.isLocked && !rep.isOptimized && rep.schedule.flatMap(s => s.jobs).length === 0);
+
+    for (const rep of repsWithNoJobs) {
+        if (jobsToAssign.length === 0) break;
+        const jobIndex = jobsToAssign.findIndex(job => isJobValidForRepRegion(job, rep, newState.settings));
+        if (jobIndex === -1) continue;
+        const [job] = jobsToAssign.splice(jobIndex, 1);
+        let targetSlotId: string | null = null;
+        if (job.originalTimeframe) { targetSlotId = mapTimeframeToSlotId(job.originalTimeframe, rep.schedule); }
+        const availableSlots = rep.schedule.filter(s => !(rep.unavailableSlots?.[dayName] || []).includes(s.id));
+        const dummyBreakdown: ScoreBreakdown = { distanceBase: 0, distanceCluster: 0, skillRoofing: 0, skillType: 0, performance: 0, penalty: 0 };
+        let targetSlot = targetSlotId ? availableSlots.find(s => s.id === targetSlotId) : undefined;
+        if (!targetSlot && availableSlots.length > 0) targetSlot = availableSlots[0];
+        if (targetSlot) {
+            targetSlot.jobs.push({ ...job, assignmentScore: 50, scoreBreakdown: dummyBreakdown });
+            assignments.push({ jobId: job.id, repId: rep.id, slotId: targetSlot.id, score: 50, breakdown: dummyBreakdown });
+        } else {
+            jobsToAssign.unshift(job);
+        }
+    }
+
+    newState.unassignedJobs = [...jobsToAssign, ...heldJobs];
+    return { state: newState, assignments };
+}
@@ -0,0 +1,149 @@
+import { SheetLayoutConfig, RepRegion } from '../types';
+import { DEFAULT_SHEET_LAYOUT } from '../constants';
+
+// Stores the editable sheet layout and the last-seen region of every rep,
+// so that a shifted sheet shows up in the layout check instead of silently
+// moving reps between regions.
+
+const LAYOUT_STORAGE_KEY = 'sheet-layout-config';
+const REGION_HISTORY_STORAGE_KEY = 'sheet-rep-regions';
+
+const A1_RANGE_REGEX = /^([A-Z]+)(\d+):([A-Z]+)(\d+)$/;
+
+export interface RegionChange {
+    repName: string;
+    previous: RepRegion;
+    current: RepRegion;
+}
+
+export interface LayoutCheckReport {
+    sheetName: string;
+    checkedAt: number; // epoch ms
+    regionSource: 'banners' | 'rowRanges';
+    changedReps: RegionChange[];
+    newReps: string[];
+    missingReps: string[];
+    unknownRegionReps: string[];
+}
+
+export function loadSheetLayoutConfig(): SheetLayoutConfig {
+    try {
+        const saved = localStorage.getItem(LAYOUT_STORAGE_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved);
+            return {
+                ...DEFAULT_SHEET_LAYOUT,
+                ...parsed,
+                regionBanners: { ...DEFAULT_SHEET_LAYOUT.regionBanners, ...parsed.regionBanners },
+            };
+        }
+    } catch (e) {
+        console.warn("Failed to load sheet layout from localStorage");
+    }
+    return DEFAULT_SHEET_LAYOUT;
+}
+
+export function saveSheetLayoutConfig(config: SheetLayoutConfig): void {
+    try {
+        localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(config));
+    } catch (e) {
+        console.warn("Failed to save sheet layout to localStorage");
+    }
+}
+
+/**
+ * Splits an A1 range like "A2:H200" into its start column letters and start row.
+ */
+export function parseRangeStart(range: string): { column: string; row: number } | null {
+    const match = range.trim().toUpperCase().match(A1_RANGE_REGEX);
+    if (!match) return null;
+    return { column: match[1], row: parseInt(match[2], 10) };
+}
+
+/**
+ * Returns a list of human-readable problems; an empty list means the layout is usable.
+ */
+export function validateSheetLayoutConfig(config: SheetLayoutConfig): string[] {
+    const errors: string[] = [];
+    const checkRange = (label: string, range: string) => {
+        const match = range.trim().toUpperCase().match(A1_RANGE_REGEX);
+        if (!match) {
+            errors.push(`${label} "${range}" is not an A1 range like A2:H200.`);
+        } else if (parseInt(match[2], 10) > parseInt(match[4], 10)) {
+            errors.push(`${label} "${range}" ends before it starts.`);
+        }
+    };
+    checkRange('Availability range', config.dataRange);
+    checkRange('Skills range', config.skillsDataRange);
+    checkRange('Sales order range', config.salesOrderDataRange);
+    if (!config.skillsSheetTitle.trim()) errors.push('Skills sheet title is required.');
+
+    if (config.regionDetection === 'banners') {
+        const allKeywords = Object.values(config.regionBanners).flat();
+        if (allKeywords.every(k => !k.trim())) errors.push('At least one banner keyword is required in banner mode.');
+    }
+
+    const ranges = [...config.regionRowRanges].sort((a, b) => a.startRow - b.startRow);
+    ranges.forEach((range, index) => {
+        if (range.startRow < 1 || range.endRow < range.startRow) {
+            errors.push(`${range.region} rows ${range.startRow}-${range.endRow} are not a valid range.`);
+        }
+        const next = ranges[index + 1];
+        if (next && next.startRow <= range.endRow) {
+            errors.push(`${range.region} rows overlap ${next.region} rows.`);
+        }
+    });
+    return errors;
+}
+
+const loadRegionHistory = (): Record<string, RepRegion> => {
+    try {
+        const saved = localStorage.getItem(REGION_HISTORY_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+/**
+ * Compares the regions from this load against the last load and records the
+ * new regions as the baseline for the next check.
+ */
+export function runLayoutCheck(
+    sheetName: string,
+    reps: { name: string; region?: RepRegion }[],
+    regionSource: 'banners' | 'rowRanges'
+): LayoutCheckReport {
+    const previous = loadRegionHistory();
+    const hasHistory = Object.keys(previous).length > 0;
+    const current: Record<string, RepRegion> = {};
+    reps.forEach(rep => { current[rep.name] = rep.region || 'UNKNOWN'; });
+
+    const report: LayoutCheckReport = {
+        sheetName,
+        checkedAt: Date.now(),
+        regionSource,
+        changedReps: [],
+        newReps: [],
+        missingReps: [],
+        unknownRegionReps: reps.filter(rep => !rep.region || rep.region === 'UNKNOWN').map(rep => rep.name),
+    };
+
+    if (hasHistory) {
+        for (const [repName, region] of Object.entries(current)) {
+            if (!(repName in previous)) {
+                report.newReps.push(repName);
+            } else if (previous[repName] !== region) {
+                report.changedReps.push({ repName, previous: previous[repName], current: region });
+            }
+        }
+        report.missingReps = Object.keys(previous).filter(repName => !(repName in current));
+    }
+
+    try {
+        localStorage.setItem(REGION_HISTORY_STORAGE_KEY, JSON.stringify(current));
+    } catch (e) {
+        console.warn("Failed to save rep regions to localStorage");
+    }
+    return report;
+}
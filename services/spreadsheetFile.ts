@@ -0,0 +1,125 @@
+import { readZip } from './zipArchive';
+
+// Reads uploaded CSV and Excel files into plain rows of cell text. Column meaning is
+// worked out later (see jobImport.ts); nothing here knows about jobs.
+
+const CSV_DELIMITERS = [',', '\t', ';'];
+
+// Whichever delimiter appears most in the first line: exports from Excel in some
+// locales use semicolons, and copying cells gives tabs.
+const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    const counts = CSV_DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+    return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded delimiters,
+ * newlines and doubled quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.some(value => value.trim())) rows.push(row.map(value => value.trim()));
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else cell += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) endRow();
+    return rows;
+}
+
+const parseXml = (bytes: Uint8Array) => new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+
+const elements = (parent: Document | Element, tagName: string) => Array.from(parent.getElementsByTagNameNS('*', tagName));
+
+// "AB12" -> 27
+const columnIndex = (cellRef: string): number => {
+    const letters = cellRef.replace(/\d+$/, '').toUpperCase();
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Rich text keeps its runs in separate <t> elements; phonetic guides (<rPh>) are not part of the value.
+const stringItemText = (item: Element) => elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell text.
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+    const files = await readZip(buffer);
+    const workbook = files.get('xl/workbook.xml');
+    if (!workbook) throw new Error('This file is not an Excel workbook.');
+
+    // The first sheet in tab order, found through the workbook relationships.
+    let sheetPath = 'xl/worksheets/sheet1.xml';
+    const firstSheet = elements(parseXml(workbook), 'sheet')[0];
+    const relationId = firstSheet && Array.from(firstSheet.attributes).find(attr => attr.localName === 'id')?.value;
+    const relations = files.get('xl/_rels/workbook.xml.rels');
+    if (relationId && relations) {
+        const target = elements(parseXml(relations), 'Relationship').find(rel => rel.getAttribute('Id') === relationId)?.getAttribute('Target');
+        if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+    const sheet = files.get(sheetPath);
+    if (!sheet) throw new Error('The workbook has no readable worksheet.');
+
+    const sharedStringsFile = files.get('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsFile ? elements(parseXml(sharedStringsFile), 'si').map(stringItemText) : [];
+
+    const rows: string[][] = [];
+    elements(parseXml(sheet), 'row').forEach(rowElement => {
+        const row: string[] = [];
+        elements(rowElement, 'c').forEach((cellElement, position) => {
+            const ref = cellElement.getAttribute('r');
+            const index = ref ? columnIndex(ref) : position;
+            const type = cellElement.getAttribute('t');
+            const value = elements(cellElement, 'v')[0]?.textContent || '';
+            let text = value;
+            if (type === 's') text = sharedStrings[parseInt(value, 10)] ?? '';
+            else if (type === 'inlineStr') text = elements(cellElement, 'is').map(stringItemText).join('');
+            else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+            else if (type === 'e') text = '';
+            while (row.length < index) row.push('');
+            row[index] = text.trim();
+        });
+        if (row.some(value => value)) rows.push(row);
+    });
+    return rows;
+}
+
+/**
+ * Reads a .csv, .tsv, .txt or .xlsx file into rows of cell text.
+ */
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.xlsx')) return readXlsxRows(await file.arrayBuffer());
+    if (name.endsWith('.xls')) throw new Error('Old .xls workbooks are not supported. Save the file as .xlsx or CSV and try again.');
+    return parseCsv(await file.text());
+}
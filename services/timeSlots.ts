@@ -0,0 +1,221 @@
+import { AppState, DisplayJob, TimeSlot } from '../types';
+import { TIME_SLOTS } from '../constants';
+import { isJobPinned } from './jobStatus';
+
+// Time-slot definitions. Each day's Settings carries its own slots, and a rep's
+// schedule is those slots with jobs in them; weekday templates (kept in
+// localStorage) decide which slots a newly loaded day starts with.
+
+const WEEKDAY_SLOTS_STORAGE_KEY = 'weekday-time-slots';
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export type WeekdaySlotTemplates = Partial<Record<string, TimeSlot[]>>;
+
+export interface TimeWindow {
+    start: number; // Minutes after midnight
+    end: number;
+}
+
+const parseClockTime = (text: string, fallbackPeriod?: string): { minutes: number; period?: string } | null => {
+    const match = text.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
+    if (!match) return null;
+    let hour = parseInt(match[1], 10);
+    const minute = match[2] ? parseInt(match[2], 10) : 0;
+    const period = match[3]?.toLowerCase() || fallbackPeriod;
+    if (period === 'pm' && hour < 12) hour += 12;
+    if (period === 'am' && hour === 12) hour = 0;
+    // Same heuristic as the rest of the app: a bare 1-6 is an afternoon hour.
+    if (!period && hour >= 1 && hour <= 6) hour += 12;
+    return { minutes: hour * 60 + minute, period: match[3]?.toLowerCase() };
+};
+
+/**
+ * Parses "8am - 10am", "1:30-3pm" or "10am" into minutes after midnight.
+ * A single time yields a window with no explicit end (end = Infinity).
+ */
+export function parseTimeWindow(text: string | undefined): TimeWindow | null {
+    if (!text) return null;
+    const [startText, endText] = text.split(/\s*(?:-|–|to)\s*/i);
+    const end = endText ? parseClockTime(endText) : null;
+    // "1-3pm": the start borrows the end's am/pm, unless that puts it after the end ("11-1pm").
+    let start = parseClockTime(startText, end?.period);
+    if (start && end && start.minutes > end.minutes) start = parseClockTime(startText);
+    if (!start) return null;
+    if (!end || end.minutes <= start.minutes) return { start: start.minutes, end: Infinity };
+    return { start: start.minutes, end: end.minutes };
+}
+
+/**
+ * Formats minutes after midnight as "9:05am".
+ */
+export function formatClockTime(minutes: number): string {
+    const rounded = Math.round(minutes);
+    const hour24 = Math.floor(rounded / 60) % 24;
+    const minute = rounded % 60;
+    const period = hour24 >= 12 ? 'pm' : 'am';
+    const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+    return `${hour12}:${minute.toString().padStart(2, '0')}${period}`;
+}
+
+// "HH:MM" (24h, as used by <input type="time">) <-> minutes after midnight.
+export const parseClockInput = (value: string): number | null => {
+    const match = value.match(/^(\d{1,2}):(\d{2})$/);
+    return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+export const toClockInput = (minutes: number): string =>
+    `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Builds a label in the app's usual style: "7:30am - 10am".
+ */
+export function formatSlotLabel(start: string, end: string): string {
+    const short = (value: string) => {
+        const minutes = parseClockInput(value);
+        return minutes === null ? value : formatClockTime(minutes).replace(':00', '');
+    };
+    return `${short(start)} - ${short(end)}`;
+}
+
+/**
+ * The slot's window. Slots saved before start/end existed fall back to their label.
+ */
+export function getSlotWindow(slot: TimeSlot): TimeWindow | null {
+    const start = slot.start ? parseClockInput(slot.start) : null;
+    const end = slot.end ? parseClockInput(slot.end) : null;
+    if (start !== null && end !== null) return { start, end };
+    return parseTimeWindow(slot.label);
+}
+
+/**
+ * Maps a job's timeframe (e.g. "7:30am-9am") to the slot its start time falls in.
+ * A slot also takes starts from the top of its first hour, so "7am-9am" lands in a
+ * 7:30 slot. Pass the day's slots (or a rep's schedule); defaults to TIME_SLOTS.
+ * @returns The matching slot ID or null.
+ */
+export function mapTimeframeToSlotId(timeframe: string, slots: TimeSlot[] = TIME_SLOTS): string | null {
+    const jobStart = parseTimeWindow(timeframe)?.start;
+    if (jobStart === undefined) return null;
+    for (const slot of slots) {
+        const window = getSlotWindow(slot);
+        if (window && jobStart >= Math.floor(window.start / 60) * 60 && jobStart < window.end) return slot.id;
+    }
+    return null;
+}
+
+/**
+ * Returns a problem with the slot list, or null if it is usable: every slot needs a
+ * start before its end, and slots may not overlap.
+ */
+export function validateTimeSlots(slots: TimeSlot[]): string | null {
+    if (slots.length === 0) return 'At least one time slot is required.';
+    const windows = slots.map(slot => ({ slot, window: getSlotWindow(slot) }));
+    const broken = windows.find(({ window }) => !window || window.end === Infinity || window.end <= window.start);
+    if (broken) return `"${broken.slot.label || broken.slot.id}" needs a start time before its end time.`;
+    const sorted = windows.sort((a, b) => a.window!.start - b.window!.start);
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].window!.start < sorted[i - 1].window!.end) {
+            return `"${sorted[i - 1].slot.label}" and "${sorted[i].slot.label}" overlap.`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Sorts slots by start time and gives new ones a fresh id. Ids are never reused, so a
+ * deleted slot's jobs and unavailability cannot silently carry over to a new slot.
+ */
+export function normalizeTimeSlots(slots: TimeSlot[]): TimeSlot[] {
+    const stamp = Date.now().toString(36);
+    let next = 1;
+    return [...slots]
+        .sort((a, b) => (getSlotWindow(a)?.start ?? 0) - (getSlotWindow(b)?.start ?? 0))
+        .map(slot => slot.id ? slot : { ...slot, id: `ts-${stamp}-${next++}` });
+}
+
+export function loadWeekdaySlotTemplates(): WeekdaySlotTemplates {
+    try {
+        const saved = localStorage.getItem(WEEKDAY_SLOTS_STORAGE_KEY);
+        if (saved) return JSON.parse(saved);
+    } catch (e) {
+        console.warn("Failed to load weekday time slots from localStorage");
+    }
+    return {};
+}
+
+export function saveWeekdaySlotTemplates(templates: WeekdaySlotTemplates): void {
+    try {
+        localStorage.setItem(WEEKDAY_SLOTS_STORAGE_KEY, JSON.stringify(templates));
+    } catch (e) {
+        console.warn("Failed to save weekday time slots to localStorage");
+    }
+}
+
+export function getSlotsForWeekday(templates: WeekdaySlotTemplates, weekday: string): TimeSlot[] {
+    return templates[weekday] || TIME_SLOTS;
+}
+
+// The slot whose start is nearest the old slot's, for pinned jobs no slot matches.
+const findNearestSlotId = (oldSlot: TimeSlot, slots: TimeSlot[]): string | null => {
+    const oldStart = getSlotWindow(oldSlot)?.start;
+    if (oldStart === undefined) return slots[0]?.id || null;
+    let nearest: { id: string; distance: number } | null = null;
+    for (const slot of slots) {
+        const start = getSlotWindow(slot)?.start;
+        const distance = start === undefined ? Infinity : Math.abs(start - oldStart);
+        if (!nearest || distance < nearest.distance) nearest = { id: slot.id, distance };
+    }
+    return nearest?.id || null;
+};
+
+const windowsOverlap = (a: TimeWindow | null, b: TimeWindow | null) => !!a && !!b && a.start < b.end && b.start < a.end;
+
+// A rep's unavailable slots on the new slots: surviving slots keep their flag, and new
+// slots are unavailable where they overlap a removed slot the rep was off.
+const remapUnavailableSlotIds = (unavailableIds: string[], oldSlots: TimeSlot[], slots: TimeSlot[]): string[] => {
+    const oldIds = new Set(oldSlots.map(s => s.id));
+    const newIds = new Set(slots.map(s => s.id));
+    const removedWindows = oldSlots.filter(s => unavailableIds.includes(s.id) && !newIds.has(s.id)).map(getSlotWindow);
+    return slots
+        .filter(slot => unavailableIds.includes(slot.id)
+            || (!oldIds.has(slot.id) && removedWindows.some(window => windowsOverlap(window, getSlotWindow(slot)))))
+        .map(slot => slot.id);
+};
+
+/**
+ * Rebuilds every rep's schedule on a new set of slots. Jobs keep their slot when its id
+ * survives, otherwise they move to the slot their time falls in; jobs with no matching
+ * slot go back to Unassigned. Pinned jobs follow their booked time instead and, if no
+ * slot covers it, take the nearest slot rather than leaving the rep. Each rep's
+ * unavailable slots for `weekday` are carried over to the new slots the same way.
+ */
+export function applyTimeSlotsToState(state: AppState, slots: TimeSlot[], weekday: string): { state: AppState; unassignedCount: number } {
+    const unassignedJobs = [...state.unassignedJobs];
+    let unassignedCount = 0;
+
+    const reps = state.reps.map(rep => {
+        const schedule = slots.map(slot => ({ ...slot, jobs: [] as DisplayJob[] }));
+        rep.schedule.forEach(oldSlot => oldSlot.jobs.forEach(job => {
+            const targetId = schedule.some(s => s.id === oldSlot.id)
+                ? oldSlot.id
+                : isJobPinned(job)
+                    ? mapTimeframeToSlotId(oldSlot.label, slots) || findNearestSlotId(oldSlot, slots)
+                    : mapTimeframeToSlotId(job.originalTimeframe || oldSlot.label, slots) || mapTimeframeToSlotId(oldSlot.label, slots);
+            const target = schedule.find(s => s.id === targetId);
+            if (target) {
+                target.jobs.push(job.timeSlotLabel ? { ...job, timeSlotLabel: target.label } : job);
+            } else {
+                const { assignmentScore, scoreBreakdown, timeSlotLabel, ...cleanJob } = job;
+                unassignedJobs.push(cleanJob);
+                unassignedCount++;
+            }
+        }));
+        const unavailableIds = rep.unavailableSlots?.[weekday];
+        if (!unavailableIds) return { ...rep, schedule };
+        const unavailableSlots = { ...rep.unavailableSlots, [weekday]: remapUnavailableSlotIds(unavailableIds, rep.schedule, slots) };
+        return { ...rep, schedule, unavailableSlots };
+    });
+
+    return { state: { ...state, reps, unassignedJobs, settings: { ...state.settings, timeSlots: slots } }, unassignedCount };
+}
@@ -0,0 +1,165 @@
+import type { Coordinates } from './osmService';
+import { haversineDistance } from './geography';
+
+// Drive-time matrix backed by the OSRM `table` endpoint. Durations and distances
+// are cached per coordinate pair (in memory and localStorage) so scoring can look
+// them up synchronously; pairs that were never fetched fall back to a straight-line estimate.
+
+export type DriveTimeLookup = (from: Coordinates, to: Coordinates) => number;
+
+interface DriveLeg {
+    minutes: number;
+    miles: number;
+}
+
+export const PUBLIC_OSRM_URL = 'https://router.project-osrm.org';
+
+const KM_TO_MILES = 0.621371;
+// Straight-line miles are multiplied by ROAD_FACTOR to approximate road miles,
+// then driven at FALLBACK_AVERAGE_MPH. Tuned for Valley surface streets plus freeway.
+const ROAD_FACTOR = 1.3;
+const FALLBACK_AVERAGE_MPH = 40;
+// The public OSRM server rejects table requests with more than 100 coordinates.
+const MAX_TABLE_COORDINATES = 100;
+const MAX_CACHED_PAIRS = 10000;
+const CACHE_STORAGE_KEY = 'drive-time-cache';
+// Callers that cannot keep the dispatcher waiting give up on OSRM after this long.
+export const DRIVE_TIME_PREFETCH_TIMEOUT_MS = 4000;
+
+let osrmBaseUrl = PUBLIC_OSRM_URL;
+
+export function setOsrmBaseUrl(url: string): void {
+    osrmBaseUrl = url.trim().replace(/\/+$/, '') || PUBLIC_OSRM_URL;
+}
+
+export function getOsrmBaseUrl(): string {
+    return osrmBaseUrl;
+}
+
+const pointKey = (c: Coordinates) => `${c.lat.toFixed(5)},${c.lon.toFixed(5)}`;
+const pairKey = (from: Coordinates, to: Coordinates) => `${pointKey(from)}|${pointKey(to)}`;
+
+const driveTimeCache = new Map<string, DriveLeg>();
+
+try {
+    const saved = localStorage.getItem(CACHE_STORAGE_KEY);
+    if (saved) {
+        Object.entries(JSON.parse(saved)).forEach(([key, leg]) => {
+            const { minutes, miles } = (leg || {}) as Partial<DriveLeg>;
+            if (typeof minutes === 'number' && typeof miles === 'number') driveTimeCache.set(key, { minutes, miles });
+        });
+    }
+} catch (e) {
+    console.warn("Failed to load drive-time cache from localStorage");
+}
+
+const saveCacheToStorage = () => {
+    try {
+        // Keep only the most recently added pairs (Map preserves insertion order).
+        const entries = Array.from(driveTimeCache.entries()).slice(-MAX_CACHED_PAIRS);
+        localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (e) {
+        console.warn("Failed to save drive-time cache to localStorage");
+    }
+};
+
+/**
+ * Offline estimate of road miles from straight-line distance.
+ */
+export function estimateDriveMiles(from: Coordinates, to: Coordinates): number {
+    return haversineDistance(from, to) * KM_TO_MILES * ROAD_FACTOR;
+}
+
+/**
+ * Offline estimate of drive minutes from straight-line distance.
+ */
+export function estimateDriveMinutes(from: Coordinates, to: Coordinates): number {
+    return (estimateDriveMiles(from, to) / FALLBACK_AVERAGE_MPH) * 60;
+}
+
+/**
+ * Drive minutes between two points: the cached OSRM duration if known, otherwise the estimate.
+ */
+export const getDriveMinutes: DriveTimeLookup = (from, to) => {
+    if (pointKey(from) === pointKey(to)) return 0;
+    return driveTimeCache.get(pairKey(from, to))?.minutes ?? estimateDriveMinutes(from, to);
+};
+
+/**
+ * Road miles between two points: the cached OSRM distance if known, otherwise the estimate.
+ */
+export const getDriveMiles: DriveTimeLookup = (from, to) => {
+    if (pointKey(from) === pointKey(to)) return 0;
+    return driveTimeCache.get(pairKey(from, to))?.miles ?? estimateDriveMiles(from, to);
+};
+
+export function hasCachedDriveTime(from: Coordinates, to: Coordinates): boolean {
+    return driveTimeCache.has(pairKey(from, to));
+}
+
+/**
+ * Fetches one OSRM table for the given points and caches every pair.
+ */
+async function fetchTable(points: Coordinates[]): Promise<void> {
+    const coordinatesString = points.map(c => `${c.lon},${c.lat}`).join(';');
+    const url = `${osrmBaseUrl}/table/v1/driving/${coordinatesString}?annotations=duration,distance`;
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`OSRM table error: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    const durations: (number | null)[][] | undefined = data.durations;
+    const distances: (number | null)[][] | undefined = data.distances;
+    if (data.code !== 'Ok' || !durations || !distances) {
+        throw new Error(`OSRM table returned ${data.code || 'no durations'}`);
+    }
+    durations.forEach((row, i) => {
+        row.forEach((seconds, j) => {
+            const meters = distances[i]?.[j];
+            if (i !== j && seconds !== null && meters !== null && meters !== undefined) {
+                driveTimeCache.set(pairKey(points[i], points[j]), { minutes: seconds / 60, miles: (meters / 1000) * KM_TO_MILES });
+            }
+        });
+    });
+}
+
+/**
+ * Makes sure drive times between all of the given points are cached.
+ * Points are de-duplicated and split into chunks the server accepts; pairs that
+ * span two chunks are fetched with a combined table. Failures are logged and
+ * leave those pairs on the straight-line fallback.
+ */
+export async function prefetchDriveTimes(points: Coordinates[]): Promise<void> {
+    const unique = Array.from(new Map(points.map(p => [pointKey(p), p])).values());
+    const missing = unique.filter(a => unique.some(b => pointKey(a) !== pointKey(b) && !driveTimeCache.has(pairKey(a, b))));
+    if (missing.length === 0) return;
+
+    // Each request mixes the missing points with all points so both directions get filled.
+    const half = Math.floor(MAX_TABLE_COORDINATES / 2);
+    try {
+        for (let i = 0; i < missing.length; i += half) {
+            const sources = missing.slice(i, i + half);
+            for (let j = 0; j < unique.length; j += half) {
+                const batch = Array.from(new Map([...sources, ...unique.slice(j, j + half)].map(p => [pointKey(p), p])).values());
+                if (batch.length > 1) await fetchTable(batch);
+            }
+        }
+    } catch (error) {
+        console.warn("Drive-time prefetch failed; using straight-line estimates.", error);
+    } finally {
+        saveCacheToStorage();
+    }
+}
+
+/**
+ * prefetchDriveTimes, but resolves after at most `timeoutMs`. Pairs still missing then
+ * use the straight-line estimate; the fetch carries on and fills the cache for next time.
+ */
+export async function prefetchDriveTimesWithin(points: Coordinates[], timeoutMs: number = DRIVE_TIME_PREFETCH_TIMEOUT_MS): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+        prefetchDriveTimes(points),
+        new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+    ]);
+    clearTimeout(timer);
+}
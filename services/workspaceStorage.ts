@@ -0,0 +1,151 @@
+import { AppState } from '../types';
+
+// Persists the workspace (all active days plus a bounded undo stack) to IndexedDB
+// so that a reload or crash does not lose the day's work.
+
+export interface SavedWorkspace {
+    savedAt: number; // epoch ms
+    activeDayKeys: string[];
+    selectedDateKey: string;
+    history: [string, AppState][][]; // Each entry is the dailyStates map as [dateKey, state] pairs
+    historyIndex: number;
+}
+
+export interface AutosaveSnapshotSummary {
+    id: number;
+    savedAt: number;
+    dayKeys: string[];
+    jobCount: number;
+}
+
+interface AutosaveSnapshot extends AutosaveSnapshotSummary {
+    workspace: SavedWorkspace;
+}
+
+const DB_NAME = 'rep-route-planner';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspace';
+const SNAPSHOT_STORE = 'snapshots';
+const CURRENT_WORKSPACE_KEY = 'current';
+
+export const MAX_PERSISTED_HISTORY = 25;
+export const MAX_AUTOSAVE_SNAPSHOTS = 20;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+                db.createObjectStore(WORKSPACE_STORE);
+            }
+            if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+}
+
+/**
+ * Runs a single request against one object store and resolves with its result.
+ */
+async function runRequest<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * Builds a persistable workspace from in-memory history, keeping at most
+ * MAX_PERSISTED_HISTORY entries around the current undo position.
+ */
+export function buildSavedWorkspace(
+    history: Map<string, AppState>[],
+    historyIndex: number,
+    activeDayKeys: string[],
+    selectedDateKey: string
+): SavedWorkspace {
+    const start = Math.max(0, historyIndex - (MAX_PERSISTED_HISTORY - 1));
+    const bounded = history.slice(start, start + MAX_PERSISTED_HISTORY);
+    return {
+        savedAt: Date.now(),
+        activeDayKeys,
+        selectedDateKey,
+        history: bounded.map(dailyStates => Array.from(dailyStates.entries())),
+        historyIndex: historyIndex - start,
+    };
+}
+
+export const countWorkspaceJobs = (workspace: SavedWorkspace): number => {
+    const current = workspace.history[workspace.historyIndex] || [];
+    return current.reduce((total, [, state]) => total + state.unassignedJobs.length + state.reps.reduce((sum, rep) => sum + rep.schedule.reduce((n, slot) => n + slot.jobs.length, 0), 0), 0);
+};
+
+export async function saveWorkspace(workspace: SavedWorkspace): Promise<void> {
+    await runRequest(WORKSPACE_STORE, 'readwrite', store => store.put(workspace, CURRENT_WORKSPACE_KEY));
+}
+
+export async function loadWorkspace(): Promise<SavedWorkspace | null> {
+    const saved = await runRequest<SavedWorkspace | undefined>(WORKSPACE_STORE, 'readonly', store => store.get(CURRENT_WORKSPACE_KEY));
+    if (!saved || !Array.isArray(saved.history) || saved.history.length === 0 || !Array.isArray(saved.activeDayKeys)) {
+        return null;
+    }
+    return saved;
+}
+
+/**
+ * Stores a timestamped copy of the workspace and prunes the oldest ones
+ * beyond MAX_AUTOSAVE_SNAPSHOTS.
+ */
+export async function saveAutosaveSnapshot(workspace: SavedWorkspace): Promise<void> {
+    const current = workspace.history[workspace.historyIndex] || [];
+    const snapshot: Omit<AutosaveSnapshot, 'id'> = {
+        savedAt: workspace.savedAt,
+        dayKeys: current.map(([dateKey]) => dateKey),
+        jobCount: countWorkspaceJobs(workspace),
+        workspace,
+    };
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.add(snapshot));
+
+    const keys = await runRequest<IDBValidKey[]>(SNAPSHOT_STORE, 'readonly', store => store.getAllKeys());
+    const excess = keys.length - MAX_AUTOSAVE_SNAPSHOTS;
+    if (excess > 0) {
+        // Keys are auto-incremented, so the lowest ones are the oldest.
+        const oldest = (keys as number[]).sort((a, b) => a - b).slice(0, excess);
+        for (const key of oldest) {
+            await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(key));
+        }
+    }
+}
+
+/**
+ * Lists the stored autosave snapshots, newest first, without their payloads.
+ */
+export async function listAutosaveSnapshots(): Promise<AutosaveSnapshotSummary[]> {
+    const snapshots = await runRequest<AutosaveSnapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll());
+    return snapshots
+        .map(({ id, savedAt, dayKeys, jobCount }) => ({ id, savedAt, dayKeys, jobCount }))
+        .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function loadAutosaveSnapshot(id: number): Promise<SavedWorkspace | null> {
+    const snapshot = await runRequest<AutosaveSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(id));
+    return snapshot?.workspace ?? null;
+}
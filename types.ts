@@ -2,6 +2,14 @@
 
 import React from 'react';
 import { Coordinates } from './services/osmService';
+import { SavedWorkspace, AutosaveSnapshotSummary } from './services/workspaceStorage';
+import { SheetCellChange } from './services/googleSheetsService';
+import { LayoutCheckReport } from './services/sheetLayout';
+import { RouteOptimizationPreview } from './services/routeOptimizer';
+import { AssignmentComparison } from './services/assignmentOptimizer';
+import { UnassignedJobExplanation, RejectedAssignment } from './services/scheduler';
+import { DayOverview } from './services/dayPlanning';
+import { DuplicateGroup } from './services/duplicateJobs';
 
 // Fix: Export ParsedJobsResult interface
 export interface ParsedJobsResult {
@@ -9,6 +17,21 @@ export interface ParsedJobsResult {
   jobs: Job[];
 }
 
+// How the text parser read one non-blank pasted line
+export interface ParsedTextLine {
+  lineNumber: number; // 1-based
+  text: string;
+  kind: 'date' | 'timeframe' | 'job' | 'skipped';
+  jobId?: string; // For 'job' lines
+  reason?: string; // Why a 'skipped' line produced no job
+  timeframe?: string; // The timeframe header in effect, for 'skipped' lines
+}
+
+export interface ParsedTextResult extends ParsedJobsResult {
+  assignments: { jobId: string, repId: string, slotId: string }[];
+  lines: ParsedTextLine[];
+}
+
 // Create a literal type from the array of keywords
 // To avoid circular dependency with constants.ts, we define this explicitly.
 type SkillName = 'Tile' | 'Shingle' | 'Flat' | 'Metal' | 'Insurance' | 'Commercial';
@@ -62,8 +85,98 @@ export interface Settings {
   
   // Regional Rules
   allowRegionalRepsInPhoenix: boolean;
+
+  // Whole-day optimizer run-time limit
+  optimizerTimeBudgetSeconds: number;
+
+  // This day's appointment blocks; rep schedules are built from these
+  timeSlots: TimeSlot[];
+
+  // Time on site and the lunch break, used for itinerary ETAs and route checks
+  appointmentDurations: AppointmentDurations;
+  lunchBreak: LunchBreak;
+}
+
+// Minutes on site per job. The longest rule that applies to a job wins.
+export interface AppointmentDurations {
+  defaultMinutes: number;
+  byJobType: Partial<Record<JobType, number>>; // e.g. { Commercial: 120 }
+  largeHomeSqft: number; // 0 turns the size rule off
+  largeHomeMinutes: number;
+}
+
+export interface LunchBreak {
+  enabled: boolean;
+  earliest: string; // "11:30", 24h
+  latest: string;   // Lunch starts no later than this
+  minutes: number;
 }
 
+export type GeocoderProvider = 'nominatim' | 'nominatim-custom' | 'photon' | 'fixture';
+
+export interface GeocoderConfig {
+  provider: GeocoderProvider;
+  baseUrl?: string;    // Self-hosted Nominatim or Photon server
+  fixtureUrl?: string; // JSON file of "query": { lat, lon } for offline demos
+}
+
+export type LlmProviderType = 'gemini' | 'openai-compatible' | 'replay' | 'mock';
+
+export interface LlmConfig {
+  provider: LlmProviderType;
+  model?: string;         // Gemini model override, or the model name on an OpenAI-compatible server
+  baseUrl?: string;       // OpenAI-compatible server, e.g. http://localhost:11434
+  recordingsUrl?: string; // JSON file of captured prompt/response pairs for replay
+}
+
+
+// Services shared by every day, kept in this browser (services/providerSettings.ts)
+// rather than in the per-day Settings and undo history.
+export interface ProviderSettings {
+  // Geocoding provider
+  geocoder: GeocoderConfig;
+
+  // OSRM server for route lines and drive-time lookups
+  routingBaseUrl: string;
+
+  // Sheets REST API used to load and write back the SRA sheet
+  sheetsApiBaseUrl: string;
+
+  // Language model behind AI assign and address repair
+  llm: LlmConfig;
+}
+
+export type RepRegion = 'PHX' | 'NORTH' | 'SOUTH' | 'UNKNOWN';
+
+// Per-rep territory restrictions read by the assignment engine.
+// City names are stored in lowercase for case-insensitive matching.
+export interface TerritoryRule {
+  allowedRegions?: Exclude<RepRegion, 'UNKNOWN'>[]; // If set, only jobs in these regions are valid
+  allowedCities?: string[]; // Always valid, even outside allowedRegions
+  forbiddenCities?: string[]; // Never valid, checked first
+  phoenixRequiresOverride?: boolean; // Phoenix jobs only when Settings.allowRegionalRepsInPhoenix is on
+}
+
+// Where the SRA/skills sheets keep their data and how reps are mapped to regions.
+// Editable in the app; persisted by services/sheetLayout.ts.
+export interface RegionRowRange {
+  region: Exclude<RepRegion, 'UNKNOWN'>;
+  startRow: number; // 1-based sheet row, inclusive
+  endRow: number;   // inclusive
+}
+
+export interface SheetLayoutConfig {
+  dataRange: string;           // Availability grid on each SRA sheet; first row holds the day headers
+  skillsSheetTitle: string;
+  skillsDataRange: string;
+  salesOrderDataRange: string;
+  // 'rowRanges' (default): region comes from the rep's first row.
+  // 'banners' (opt-in): region comes from the nearest section banner row above the rep (e.g. "NORTH"); falls back to row ranges when no banner is found.
+  regionDetection: 'banners' | 'rowRanges';
+  regionBanners: Record<Exclude<RepRegion, 'UNKNOWN'>, string[]>; // Keywords matched against all-caps banner rows
+  bannerDefaultRegion: Exclude<RepRegion, 'UNKNOWN'>; // Region for reps listed above the first banner
+  regionRowRanges: RegionRowRange[];
+}
 
 export interface Rep {
   id: string;
@@ -73,7 +186,8 @@ export interface Rep {
   isMock?: boolean; // Flag to indicate if this is sample data
   unavailableSlots?: Record<string, string[]>; // e.g. { "Monday": ["ts-3", "ts-4"] }
   skills?: Record<string, number>; // e.g. { "Tile": 3, "Shingle": 2 }
-  region?: 'PHX' | 'NORTH' | 'SOUTH' | 'UNKNOWN';
+  region?: RepRegion;
+  territory?: TerritoryRule;
   zipCodes?: string[];
   isLocked?: boolean;
   isOptimized?: boolean;
@@ -85,12 +199,44 @@ export interface Rep {
 
 export interface Job {
   id: string;
-  customerName: string;
+  customerName: string; // Empty when unknown. Jobs saved before contact fields held the city here
+  phone?: string;
+  email?: string;
   address: string;
   notes: string;
   city?: string; // Added city to the job type
   originalTimeframe?: string; // Added original timeframe from pasted text
   zipCode?: string;
+  attributes?: JobAttributes; // Parsed from notes on import, then edited directly
+  status?: JobStatus; // Missing means tentative
+  statusHistory?: JobStatusChange[]; // Oldest first
+}
+
+export type MessageTemplateId = 'confirmation' | 'reschedule' | 'rescheduleAgreed' | 'rescheduleVoicemail';
+
+// Message bodies with {customer}, {rep}, {newWindow}, {oldWindow} and {date} placeholders
+export type MessageTemplates = Record<MessageTemplateId, string>;
+
+export type JobStatus = 'tentative' | 'confirmed' | 'completed' | 'cancelled' | 'no-show';
+
+export interface JobStatusChange {
+  from: JobStatus;
+  to: JobStatus;
+  at: string; // ISO timestamp
+}
+
+export type RoofType = 'Tile' | 'Shingle' | 'Flat' | 'Metal';
+export type JobType = 'Insurance' | 'Commercial';
+
+export interface JobAttributes {
+  roofTypes: RoofType[];
+  jobTypes: JobType[];
+  roofAgeYears?: number;
+  sqft?: number;
+  stories?: number;
+  isPriority: boolean;
+  priorityReason?: string;
+  rescheduleFrom?: string; // Original date/slot when the job was flagged for rescheduling
 }
 
 export interface DisplayJob extends Job {
@@ -109,6 +255,8 @@ export interface DisplayJob extends Job {
 export interface TimeSlot {
   id:string;
   label: string;
+  start?: string; // "07:30", 24h. Missing on schedules saved before slots were configurable
+  end?: string;
 }
 
 export interface ScheduledTimeSlot extends TimeSlot {
@@ -121,6 +269,14 @@ export interface AppState {
   settings: Settings;
 }
 
+// Outcome of the last AI assignment run, shown in the AI assistant popup.
+export interface AiValidationReport {
+    dateKey: string;
+    acceptedCount: number;
+    rejected: RejectedAssignment[];
+    repairedCount: number | null; // Set once the local engine has tried the rejected jobs
+}
+
 export interface RouteInfo {
     distance: number; // in miles
     duration: number; // in minutes
@@ -133,6 +289,17 @@ export interface ItineraryItem {
     timeRange: string;
     job?: DisplayJob;
     duration: string;
+    startMinutes?: number; // Minutes after midnight
+    endMinutes?: number;
+    warning?: string; // e.g. the arrival falls outside the customer's window
+}
+
+// A cleaned-up address for a job the user pinned on the map, offered in place of its address
+export interface PinAddressSuggestion {
+    jobId: string;
+    address: string; // The job's address when it was pinned
+    suggestedAddress: string;
+    coordinates: Coordinates;
 }
 
 export interface AppContextType {
@@ -163,6 +330,8 @@ export interface AppContextType {
     debugLogs: string[];
     log: (message: string) => void;
     aiThoughts: string[];
+    aiValidationReport: AiValidationReport | null;
+    handleRepairAiAssignments: () => void;
     activeRoute: {
         repName: string;
         mappableJobs: DisplayJob[];
@@ -186,7 +355,9 @@ export interface AppContextType {
     handleShowAllJobsOnMap: () => Promise<void>;
     handleShowZipOnMap: (zip: string, rep?: Rep) => Promise<void>;
     handleShowAllRepLocations: () => Promise<void>;
-    handleParseJobs: (pastedText: string, onComplete: () => void) => Promise<void>;
+    handleParseJobs: (pastedText: string) => Promise<ParsedTextResult | null>;
+    handleImportJobs: (jobs: Job[], assignments: { jobId: string, repId: string, slotId: string }[], onComplete: () => void, date?: string | null) => Promise<void>;
+    getSlotsForDateKey: (dateKey: string) => TimeSlot[];
     handleAutoAssign: () => void;
     handleDistributeJobs: () => void;
     handleAutoAssignForRep: (repId: string) => void;
@@ -201,14 +372,65 @@ export interface AppContextType {
     handleToggleRepExpansion: (repId: string) => void;
     handleToggleAllReps: (filteredReps: Rep[]) => void;
     // FIX: Allow `originalTimeframe` to be updated to support reschedule confirmation.
-    handleUpdateJob: (jobId: string, updatedDetails: Partial<Pick<Job, 'customerName' | 'address' | 'notes' | 'originalTimeframe'>>) => void;
+    handleUpdateJob: (jobId: string, updatedDetails: Partial<Pick<Job, 'customerName' | 'phone' | 'email' | 'address' | 'notes' | 'originalTimeframe' | 'attributes'>>) => void;
+    handleSetJobStatus: (jobId: string, status: JobStatus) => void;
+    weekOverview: DayOverview[]; // One entry per workspace day, in date order
+    handleMoveJobToDay: (jobId: string, fromDateKey: string, toDateKey: string) => void;
+    handlePushUnassignedToNextDay: (fromDateKey: string) => void;
     handleUpdateRep: (repId: string, updates: Partial<Rep>) => void; // New function
     handleRemoveJob: (jobId: string) => void;
     handleOptimizeRepRoute: (repId: string) => Promise<void>;
     handleUnoptimizeRepRoute: (repId: string) => void; // New function
+    routeOptimizationPreview: RouteOptimizationPreview | null;
+    handleAcceptRouteOptimization: () => void;
+    handleDiscardRouteOptimization: () => void;
+    explainUnassignedJob: (job: Job) => UnassignedJobExplanation;
+    assignmentComparison: AssignmentComparison | null;
+    handleOptimizeDay: () => void;
+    handleApplyAssignmentResult: (choice: 'greedy' | 'optimized') => void;
+    handleDiscardAssignmentComparison: () => void;
     handleSwapSchedules: (repId1: string, repId2: string) => void;
     handleSaveStateToFile: () => void;
+    handleDownloadLlmTranscript: () => void;
     handleLoadStateFromFile: (loadedState: any) => void;
+    // Rep day sheets
+    isExportingDaySheets: boolean;
+    handleDownloadDaySheet: (repId: string) => Promise<void>;
+    handleDownloadAllDaySheets: () => Promise<void>;
+    // Geocode cache
+    handleSetGeocodeOverride: (address: string, coordinates: Coordinates | null) => void;
+    handleExportGeocodeCache: () => void;
+    handleImportGeocodeCache: (file: File) => Promise<{ added: number; updated: number; unchanged: number; rejected: number }>;
+    // Map pin correction
+    pinPlacementJobId: string | null;
+    setPinPlacementJobId: (jobId: string | null) => void;
+    handleSetJobLocation: (jobId: string, coordinates: Coordinates) => void;
+    pinAddressSuggestion: PinAddressSuggestion | null;
+    setPinAddressSuggestion: (suggestion: PinAddressSuggestion | null) => void;
+    handleApplyPinAddressSuggestion: () => void;
+    // Sheet write-back
+    prepareSheetWriteBack: () => Promise<{ sheetName: string; changes: SheetCellChange[] }>;
+    handleWriteBackToSheet: (sheetName: string, changes: SheetCellChange[], accessToken: string) => Promise<void>;
+    // Sheet layout
+    sheetLayoutConfig: SheetLayoutConfig;
+    updateSheetLayoutConfig: (config: SheetLayoutConfig) => void;
+    layoutCheckReport: LayoutCheckReport | null;
+    // Customer message templates
+    messageTemplates: MessageTemplates;
+    updateMessageTemplates: (templates: MessageTemplates) => void;
+    providerSettings: ProviderSettings;
+    updateProviderSettings: (settings: ProviderSettings) => void;
+    llmApiKey: string; // Kept out of Settings so it never lands in saves or exports
+    updateLlmApiKey: (apiKey: string) => void;
+    // Time slots new days start with, per weekday
+    weekdaySlotTemplates: Partial<Record<string, TimeSlot[]>>;
+    saveWeekdayTimeSlots: (weekday: string, slots: TimeSlot[] | null) => void;
+    // Crash recovery / autosave
+    restoreCandidate: SavedWorkspace | null;
+    handleRestoreSession: () => void;
+    handleDiscardSession: () => void;
+    listAutosaveSnapshots: () => Promise<AutosaveSnapshotSummary[]>;
+    handleOpenAutosave: (snapshotId: number) => Promise<void>;
     handleUndo: () => void;
     handleRedo: () => void;
     canUndo: boolean;
@@ -227,6 +449,12 @@ export interface AppContextType {
     // UI State for modals
     repSettingsModalRepId: string | null;
     setRepSettingsModalRepId: (id: string | null) => void;
+    // Duplicate jobs across days
+    duplicateGroups: DuplicateGroup[];
+    findIncomingDuplicates: (jobs: Job[]) => Map<string, string[]>;
+    handleMergeDuplicates: (groupId: string, keepDateKey: string, keepJobId: string) => void;
+    duplicateMergeGroupId: string | null;
+    setDuplicateMergeGroupId: (id: string | null) => void;
 
     // Map Filter State Pushing
     setFilteredAssignedJobs: (jobs: DisplayJob[]) => void;